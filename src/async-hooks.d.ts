@@ -0,0 +1,9 @@
+// AsyncLocalStorage is provided by the nodejs_compat flag. Only the part the
+// logger uses is declared, since @types/node conflicts with workers-types.
+
+declare module 'node:async_hooks' {
+  export class AsyncLocalStorage<T> {
+    run<R>(store: T, callback: () => R): R;
+    getStore(): T | undefined;
+  }
+}
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import {
+  appendAuditEntry,
+  listAuditEntries,
+  verifyAuditChain,
+  auditMiddleware,
+  annotateAudit,
+  type AuditRecord,
+} from './audit';
+import type { AppEnv } from './types';
+import { createMockEnv, createMockR2, suppressConsole } from './test-utils';
+
+function record(overrides: Partial<AuditRecord> = {}): AuditRecord {
+  return {
+    timestamp: Date.now(),
+    actor: 'alice',
+    action: 'device.approve',
+    result: 'success',
+    status: 200,
+    ...overrides,
+  };
+}
+
+describe('audit log', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('chains entries and lists them newest first', async () => {
+    const bucket = createMockR2();
+    const first = await appendAuditEntry(bucket, 'moltbot', record());
+    const second = await appendAuditEntry(bucket, 'moltbot', record({ action: 'storage.sync' }));
+
+    expect(first.seq).toBe(1);
+    expect(first.prevHash).toBe('0'.repeat(64));
+    expect(second.seq).toBe(2);
+    expect(second.prevHash).toBe(first.hash);
+
+    const { entries, cursor } = await listAuditEntries(bucket, 'moltbot');
+    expect(entries.map((e) => e.seq)).toEqual([2, 1]);
+    expect(cursor).toBeUndefined();
+  });
+
+  it('keeps tenants separate', async () => {
+    const bucket = createMockR2();
+    await appendAuditEntry(bucket, 'alpha', record());
+
+    expect((await listAuditEntries(bucket, 'beta')).entries).toEqual([]);
+    expect((await appendAuditEntry(bucket, 'beta', record())).seq).toBe(1);
+  });
+
+  it('serializes concurrent appends', async () => {
+    const bucket = createMockR2();
+    await Promise.all([1, 2, 3].map(() => appendAuditEntry(bucket, 'moltbot', record())));
+
+    expect(await verifyAuditChain(bucket, 'moltbot')).toEqual({
+      valid: true,
+      checked: 3,
+      headSeq: 3,
+    });
+  });
+
+  it('filters by actor, action prefix, result and time', async () => {
+    const bucket = createMockR2();
+    await appendAuditEntry(bucket, 'moltbot', record({ timestamp: 1000 }));
+    await appendAuditEntry(bucket, 'moltbot', record({ actor: 'bob', timestamp: 2000 }));
+    await appendAuditEntry(
+      bucket,
+      'moltbot',
+      record({ action: 'device.approve_all', result: 'failure', timestamp: 3000 }),
+    );
+    await appendAuditEntry(bucket, 'moltbot', record({ action: 'auth.login', timestamp: 4000 }));
+
+    const seqs = async (query: Parameters<typeof listAuditEntries>[2]) =>
+      (await listAuditEntries(bucket, 'moltbot', query)).entries.map((e) => e.seq);
+
+    expect(await seqs({ actor: 'bob' })).toEqual([2]);
+    expect(await seqs({ action: 'device.' })).toEqual([3, 2, 1]);
+    expect(await seqs({ action: 'device.approve' })).toEqual([2, 1]);
+    expect(await seqs({ result: 'failure' })).toEqual([3]);
+    expect(await seqs({ since: 2000, until: 3000 })).toEqual([3, 2]);
+  });
+
+  it('paginates with a cursor', async () => {
+    const bucket = createMockR2();
+    for (let i = 0; i < 5; i++) {
+      // eslint-disable-next-line no-await-in-loop
+      await appendAuditEntry(bucket, 'moltbot', record());
+    }
+
+    const first = await listAuditEntries(bucket, 'moltbot', { limit: 2 });
+    expect(first.entries.map((e) => e.seq)).toEqual([5, 4]);
+    expect(first.cursor).toBe('4');
+
+    const second = await listAuditEntries(bucket, 'moltbot', { limit: 2, cursor: first.cursor });
+    expect(second.entries.map((e) => e.seq)).toEqual([3, 2]);
+  });
+
+  it('detects edited and deleted entries', async () => {
+    const bucket = createMockR2();
+    for (let i = 0; i < 3; i++) {
+      // eslint-disable-next-line no-await-in-loop
+      await appendAuditEntry(bucket, 'moltbot', record());
+    }
+    const key = '_audit/moltbot/entries/999999999997.json';
+    const original = await (await bucket.get(key))!.text();
+
+    await bucket.put(key, JSON.stringify({ ...JSON.parse(original), actor: 'mallory' }));
+    expect(await verifyAuditChain(bucket, 'moltbot')).toMatchObject({
+      valid: false,
+      brokenAt: 2,
+      reason: 'Entry hash does not match',
+    });
+
+    await bucket.delete(key);
+    expect(await verifyAuditChain(bucket, 'moltbot')).toMatchObject({
+      valid: false,
+      brokenAt: 2,
+      reason: 'Entry is missing',
+    });
+  });
+});
+
+describe('auditMiddleware', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  function createApp() {
+    const app = new Hono<AppEnv>();
+    app.use('*', auditMiddleware);
+    app.use('*', async (c, next) => {
+      c.set('accessUser', { email: 'alice@example.com', role: 'owner' });
+      await next();
+    });
+    app.post('/api/admin/devices/:id/approve', (c) => c.json({ success: true }));
+    app.delete('/api/admin/devices/:id', (c) => c.json({ success: true }));
+    app.post('/api/admin/storage/sync', (c) => c.json({ error: 'Sync failed' }, 500));
+    app.post('/api/auth/authorize', (c) => {
+      annotateAudit(c, { actor: 'bob' });
+      return c.json({ success: true });
+    });
+    app.get('/api/admin/devices', (c) => c.json({ devices: [] }));
+    return app;
+  }
+
+  it('records audited routes with actor, target, result and IP', async () => {
+    const env = createMockEnv({ MOLTBOT_BUCKET: createMockR2() });
+    const app = createApp();
+
+    await app.request(
+      '/api/admin/devices/req-1/approve',
+      { method: 'POST', headers: { 'CF-Connecting-IP': '203.0.113.7' } },
+      env,
+    );
+    await app.request('/api/admin/storage/sync', { method: 'POST' }, env);
+
+    const { entries } = await listAuditEntries(env.MOLTBOT_BUCKET, 'moltbot');
+    expect(entries[1]).toMatchObject({
+      actor: 'alice@example.com',
+      actorRole: 'owner',
+      action: 'device.approve',
+      target: 'req-1',
+      result: 'success',
+      ip: '203.0.113.7',
+    });
+    expect(entries[0]).toMatchObject({
+      action: 'storage.sync',
+      result: 'failure',
+      status: 500,
+      details: 'Sync failed',
+    });
+  });
+
+  it('records device revocation with the device as target', async () => {
+    const env = createMockEnv({ MOLTBOT_BUCKET: createMockR2() });
+    await createApp().request('/api/admin/devices/dev-1', { method: 'DELETE' }, env);
+
+    const { entries } = await listAuditEntries(env.MOLTBOT_BUCKET, 'moltbot');
+    expect(entries[0]).toMatchObject({ action: 'device.revoke', target: 'dev-1' });
+  });
+
+  it('uses the actor provided by the handler', async () => {
+    const env = createMockEnv({ MOLTBOT_BUCKET: createMockR2() });
+    await createApp().request('/api/auth/authorize', { method: 'POST' }, env);
+
+    const { entries } = await listAuditEntries(env.MOLTBOT_BUCKET, 'moltbot');
+    expect(entries[0]).toMatchObject({ actor: 'bob', action: 'auth.login' });
+  });
+
+  it('does not record reads', async () => {
+    const env = createMockEnv({ MOLTBOT_BUCKET: createMockR2() });
+    await createApp().request('/api/admin/devices', {}, env);
+
+    expect((await listAuditEntries(env.MOLTBOT_BUCKET, 'moltbot')).entries).toEqual([]);
+  });
+});
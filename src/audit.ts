@@ -0,0 +1,463 @@
+/**
+ * Tamper-evident audit log of admin and auth actions.
+ *
+ * Every state-changing request to the admin API and the public auth/gateway
+ * endpoints (see AUDITED_ROUTES) appends one entry to an append-only log in the
+ * R2 bucket, under a per-tenant prefix:
+ *
+ *   _audit/{tenantId}/head.json              latest sequence number and hash
+ *   _audit/{tenantId}/entries/{inverted}.json one object per entry
+ *
+ * The leading underscore keeps the prefix apart from tenant data under
+ * `{tenantId}/`, since no agent name can contain one.
+ *
+ * Entry keys use an inverted, zero-padded sequence number so R2 lists them
+ * newest first. Each entry stores the hash of the previous entry and its own
+ * SHA-256 hash, so editing, deleting or reordering entries breaks the chain
+ * (see verifyAuditChain). Entry metadata is duplicated into R2 custom metadata
+ * so the log can be filtered from list results without reading every object.
+ */
+
+import type { Context, Next } from 'hono';
+import type { AppEnv } from './types';
+import type { AuthRole } from './auth/roles';
+import { getSessionTenantId } from './auth/sessions';
+import { createLogger } from './utils/logging';
+
+const log = createLogger('audit');
+
+export type AuditResult = 'success' | 'failure';
+
+export interface AuditEntry {
+  seq: number;
+  timestamp: number; // ms
+  actor: string;
+  actorRole?: AuthRole;
+  action: string;
+  target?: string;
+  result: AuditResult;
+  status: number; // HTTP status of the response
+  details?: string;
+  ip?: string;
+  prevHash: string;
+  hash: string;
+}
+
+export type AuditRecord = Omit<AuditEntry, 'seq' | 'prevHash' | 'hash'>;
+
+/** Extra fields a route handler can attach to its audit entry */
+export interface AuditAnnotations {
+  actor?: string;
+  target?: string;
+  details?: string;
+}
+
+export interface AuditQuery {
+  actor?: string;
+  action?: string; // exact action, or a prefix ending in '.' (e.g. 'device.')
+  result?: AuditResult;
+  since?: number; // ms
+  until?: number; // ms
+  limit?: number;
+  cursor?: string; // seq of the last entry of the previous page
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  cursor?: string; // pass back to fetch older entries
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  headSeq: number;
+  brokenAt?: number;
+  reason?: string;
+}
+
+const GENESIS_HASH = '0'.repeat(64);
+const MAX_SEQ = 999_999_999_999;
+const SEQ_WIDTH = 12;
+const MAX_APPEND_ATTEMPTS = 5;
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+interface AuditedRoute {
+  method: string;
+  pattern: RegExp; // first capture group (if any) is the target
+  action: string;
+}
+
+/**
+ * Routes that produce audit entries. Reads (GET/HEAD) and token validation are
+ * not audited.
+ */
+const AUDITED_ROUTES: AuditedRoute[] = [
+  // Admin API (src/routes/api.ts)
+  { method: 'POST', pattern: /^\/api\/admin\/devices\/approve-all$/, action: 'device.approve_all' },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/devices\/([^/]+)\/approve$/,
+    action: 'device.approve',
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/devices\/([^/]+)\/reject$/,
+    action: 'device.reject',
+  },
+  { method: 'PATCH', pattern: /^\/api\/admin\/devices\/([^/]+)$/, action: 'device.rename' },
+  { method: 'DELETE', pattern: /^\/api\/admin\/devices\/([^/]+)$/, action: 'device.revoke' },
+  { method: 'POST', pattern: /^\/api\/admin\/pairing-tokens$/, action: 'pairing_token.create' },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/admin\/connections\/([^/]+)$/,
+    action: 'connection.disconnect',
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/admin\/pairing-tokens\/([^/]+)$/,
+    action: 'pairing_token.revoke',
+  },
+  { method: 'POST', pattern: /^\/api\/admin\/storage\/sync$/, action: 'storage.sync' },
+  { method: 'POST', pattern: /^\/api\/admin\/storage\/snapshots$/, action: 'storage.snapshot' },
+  { method: 'POST', pattern: /^\/api\/admin\/storage\/restore$/, action: 'storage.restore' },
+  { method: 'POST', pattern: /^\/api\/admin\/gateway\/restart$/, action: 'gateway.restart' },
+  { method: 'PUT', pattern: /^\/api\/admin\/files\/(.+)$/, action: 'file.write' },
+  { method: 'DELETE', pattern: /^\/api\/admin\/files\/(.+)$/, action: 'file.delete' },
+  { method: 'PUT', pattern: /^\/api\/admin\/accounts$/, action: 'accounts.update' },
+  { method: 'DELETE', pattern: /^\/api\/admin\/sessions\/([^/]+)$/, action: 'session.revoke' },
+  { method: 'POST', pattern: /^\/api\/admin\/api-keys$/, action: 'api_key.create' },
+  { method: 'DELETE', pattern: /^\/api\/admin\/api-keys\/([^/]+)$/, action: 'api_key.revoke' },
+  { method: 'POST', pattern: /^\/api\/admin\/domains$/, action: 'domain.claim' },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/domains\/([^/]+)\/verify$/,
+    action: 'domain.verify',
+  },
+  { method: 'DELETE', pattern: /^\/api\/admin\/domains\/([^/]+)$/, action: 'domain.remove' },
+  // Public auth and gateway endpoints (src/routes/public.ts)
+  { method: 'POST', pattern: /^\/api\/auth\/authorize$/, action: 'auth.login' },
+  { method: 'POST', pattern: /^\/api\/auth\/refresh$/, action: 'auth.refresh' },
+  { method: 'POST', pattern: /^\/api\/auth\/logout$/, action: 'auth.logout' },
+  { method: 'POST', pattern: /^\/api\/gateway\/restart$/, action: 'gateway.restart' },
+];
+
+/** Per-isolate append queues, so concurrent requests in one isolate do not race */
+const appendQueues = new Map<string, Promise<unknown>>();
+
+function auditPrefix(tenantId: string): string {
+  return `_audit/${tenantId}/`;
+}
+
+function entryKey(tenantId: string, seq: number): string {
+  return `${auditPrefix(tenantId)}entries/${String(MAX_SEQ - seq).padStart(SEQ_WIDTH, '0')}.json`;
+}
+
+function seqFromKey(key: string): number {
+  const name = key.slice(key.lastIndexOf('/') + 1, -'.json'.length);
+  return MAX_SEQ - Number(name);
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Hash an entry (every field except `hash`, in a fixed order).
+ */
+export function hashAuditEntry(entry: Omit<AuditEntry, 'hash'>): Promise<string> {
+  return sha256Hex(
+    JSON.stringify([
+      entry.seq,
+      entry.timestamp,
+      entry.actor,
+      entry.actorRole ?? null,
+      entry.action,
+      entry.target ?? null,
+      entry.result,
+      entry.status,
+      entry.details ?? null,
+      entry.ip ?? null,
+      entry.prevHash,
+    ]),
+  );
+}
+
+async function readJson<T>(bucket: R2Bucket, key: string): Promise<T | null> {
+  const object = await bucket.get(key);
+  if (!object) return null;
+  try {
+    return JSON.parse(await object.text()) as T;
+  } catch {
+    log.error('Failed to parse audit entry', { key });
+    return null;
+  }
+}
+
+async function readHead(
+  bucket: R2Bucket,
+  tenantId: string,
+): Promise<{ seq: number; hash: string }> {
+  return (
+    (await readJson<{ seq: number; hash: string }>(
+      bucket,
+      `${auditPrefix(tenantId)}head.json`,
+    )) ?? {
+      seq: 0,
+      hash: GENESIS_HASH,
+    }
+  );
+}
+
+async function appendOnce(
+  bucket: R2Bucket,
+  tenantId: string,
+  record: AuditRecord,
+): Promise<AuditEntry> {
+  let head = await readHead(bucket, tenantId);
+
+  for (let attempt = 0; attempt < MAX_APPEND_ATTEMPTS; attempt++) {
+    const unhashed = { ...record, seq: head.seq + 1, prevHash: head.hash };
+    // eslint-disable-next-line no-await-in-loop -- each attempt depends on the previous one
+    const entry: AuditEntry = { ...unhashed, hash: await hashAuditEntry(unhashed) };
+
+    // Only create the entry if no other writer claimed this sequence number
+    // eslint-disable-next-line no-await-in-loop
+    const written = await bucket.put(entryKey(tenantId, entry.seq), JSON.stringify(entry), {
+      onlyIf: { etagDoesNotMatch: '*' },
+      customMetadata: {
+        timestamp: String(entry.timestamp),
+        actor: entry.actor,
+        action: entry.action,
+        result: entry.result,
+      },
+    });
+
+    if (written) {
+      // eslint-disable-next-line no-await-in-loop
+      await bucket.put(
+        `${auditPrefix(tenantId)}head.json`,
+        JSON.stringify({ seq: entry.seq, hash: entry.hash }),
+      );
+      return entry;
+    }
+
+    // Lost the race: continue the chain from the entry that won
+    // eslint-disable-next-line no-await-in-loop
+    const winner = await readJson<AuditEntry>(bucket, entryKey(tenantId, entry.seq));
+    if (!winner) break;
+    head = { seq: winner.seq, hash: winner.hash };
+  }
+
+  throw new Error('Could not append audit entry after concurrent writes');
+}
+
+/**
+ * Append an entry to a tenant's audit log.
+ */
+export function appendAuditEntry(
+  bucket: R2Bucket,
+  tenantId: string,
+  record: AuditRecord,
+): Promise<AuditEntry> {
+  const previous = appendQueues.get(tenantId) ?? Promise.resolve();
+  const next = previous.catch(() => {}).then(() => appendOnce(bucket, tenantId, record));
+  appendQueues.set(tenantId, next);
+  void next.finally(() => {
+    if (appendQueues.get(tenantId) === next) appendQueues.delete(tenantId);
+  });
+  return next;
+}
+
+function matchesQuery(meta: Record<string, string>, query: AuditQuery): boolean {
+  if (query.actor && meta.actor !== query.actor) return false;
+  if (query.action) {
+    const matches = query.action.endsWith('.')
+      ? meta.action?.startsWith(query.action)
+      : meta.action === query.action;
+    if (!matches) return false;
+  }
+  if (query.result && meta.result !== query.result) return false;
+  const timestamp = Number(meta.timestamp);
+  if (query.since && timestamp < query.since) return false;
+  if (query.until && timestamp > query.until) return false;
+  return true;
+}
+
+/**
+ * List audit entries, newest first, with optional filters.
+ */
+export async function listAuditEntries(
+  bucket: R2Bucket,
+  tenantId: string,
+  query: AuditQuery = {},
+): Promise<AuditPage> {
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_AUDIT_PAGE_SIZE, 1), MAX_AUDIT_PAGE_SIZE);
+  const prefix = `${auditPrefix(tenantId)}entries/`;
+  const cursorSeq = query.cursor ? Number(query.cursor) : NaN;
+  let startAfter = Number.isInteger(cursorSeq) ? entryKey(tenantId, cursorSeq) : undefined;
+
+  const keys: string[] = [];
+  let more = false;
+  let done = false;
+  while (!done) {
+    // `include` is required for list results to carry custom metadata, but is
+    // missing from the R2ListOptions type in the default workers-types entrypoint
+    const options = { prefix, startAfter, limit: 1000, include: ['customMetadata'] };
+    // eslint-disable-next-line no-await-in-loop -- R2 list pagination is sequential
+    const page = await bucket.list(options);
+
+    for (const object of page.objects) {
+      const meta = object.customMetadata ?? {};
+      // Entries are newest first: nothing older can match a `since` filter
+      if (query.since && Number(meta.timestamp) < query.since) {
+        done = true;
+        break;
+      }
+      if (!matchesQuery(meta, query)) continue;
+      if (keys.length === limit) {
+        more = true;
+        done = true;
+        break;
+      }
+      keys.push(object.key);
+    }
+
+    if (!page.truncated) done = true;
+    startAfter = page.objects[page.objects.length - 1]?.key;
+  }
+
+  const entries = (await Promise.all(keys.map((key) => readJson<AuditEntry>(bucket, key)))).filter(
+    (entry): entry is AuditEntry => entry !== null,
+  );
+
+  const lastKey = keys[keys.length - 1];
+  return { entries, cursor: more && lastKey ? String(seqFromKey(lastKey)) : undefined };
+}
+
+/**
+ * Verify the hash chain of the most recent `limit` entries (default: all, up to 10,000).
+ */
+export async function verifyAuditChain(
+  bucket: R2Bucket,
+  tenantId: string,
+  limit = 10_000,
+): Promise<AuditVerification> {
+  const head = await readHead(bucket, tenantId);
+  const firstSeq = Math.max(1, head.seq - limit + 1);
+
+  let expectedPrev: string | null = null;
+  if (firstSeq > 1) {
+    const before = await readJson<AuditEntry>(bucket, entryKey(tenantId, firstSeq - 1));
+    expectedPrev = before?.hash ?? null;
+  } else {
+    expectedPrev = GENESIS_HASH;
+  }
+
+  let checked = 0;
+  for (let seq = firstSeq; seq <= head.seq; seq++) {
+    // eslint-disable-next-line no-await-in-loop -- each entry is checked against the previous one
+    const entry = await readJson<AuditEntry>(bucket, entryKey(tenantId, seq));
+    const fail = (reason: string): AuditVerification => ({
+      valid: false,
+      checked,
+      headSeq: head.seq,
+      brokenAt: seq,
+      reason,
+    });
+
+    if (!entry) return fail('Entry is missing');
+    if (entry.seq !== seq) return fail('Entry has the wrong sequence number');
+    if (expectedPrev !== null && entry.prevHash !== expectedPrev) {
+      return fail('Entry does not link to the previous entry');
+    }
+    const { hash, ...unhashed } = entry;
+    // eslint-disable-next-line no-await-in-loop
+    if ((await hashAuditEntry(unhashed)) !== hash) return fail('Entry hash does not match');
+
+    expectedPrev = hash;
+    checked++;
+  }
+
+  if (head.seq > 0 && expectedPrev !== head.hash) {
+    return {
+      valid: false,
+      checked,
+      headSeq: head.seq,
+      brokenAt: head.seq,
+      reason: 'Head hash does not match the last entry',
+    };
+  }
+  return { valid: true, checked, headSeq: head.seq };
+}
+
+/**
+ * Attach extra fields (actor, target, details) to the current request's audit entry.
+ */
+export function annotateAudit(c: Context<AppEnv>, annotations: AuditAnnotations) {
+  c.set('auditAnnotations', { ...c.get('auditAnnotations'), ...annotations });
+}
+
+function findAuditedRoute(method: string, pathname: string) {
+  for (const route of AUDITED_ROUTES) {
+    if (route.method !== method) continue;
+    const match = route.pattern.exec(pathname);
+    if (match) return { action: route.action, target: match[1] };
+  }
+  return null;
+}
+
+async function errorDetails(res: Response): Promise<string | undefined> {
+  if (!res.headers.get('content-type')?.includes('application/json')) return undefined;
+  try {
+    const body = (await res.clone().json()) as { error?: unknown; details?: unknown };
+    const message = [body.error, body.details].filter((v) => typeof v === 'string').join(': ');
+    return message ? message.slice(0, 300) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Middleware that records an audit entry for every audited route once the
+ * response is ready. The write happens in the background (waitUntil).
+ */
+export async function auditMiddleware(c: Context<AppEnv>, next: Next) {
+  const url = new URL(c.req.url);
+  const route = findAuditedRoute(c.req.method, url.pathname);
+  if (!route) return next();
+
+  await next();
+
+  const res = c.res;
+  const user = c.get('accessUser');
+  const annotations = c.get('auditAnnotations') ?? {};
+  const failed = res.status >= 400;
+
+  const record: AuditRecord = {
+    timestamp: Date.now(),
+    actor: annotations.actor || user?.account || user?.email || 'anonymous',
+    actorRole: user?.role,
+    action: route.action,
+    target: annotations.target ?? route.target,
+    result: failed ? 'failure' : 'success',
+    status: res.status,
+    details: annotations.details ?? (failed ? await errorDetails(res) : undefined),
+    ip: c.req.header('CF-Connecting-IP'),
+  };
+
+  const write = appendAuditEntry(c.env.MOLTBOT_BUCKET, getSessionTenantId(c), record).catch(
+    (err) => {
+      log.error('Failed to record audit entry', { action: record.action, error: err });
+    },
+  );
+  try {
+    c.executionCtx.waitUntil(write);
+  } catch {
+    // No execution context (tests) — wait for the write instead
+    await write;
+  }
+}
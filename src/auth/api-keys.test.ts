@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  verifyApiKey,
+  getRequiredScope,
+  validateApiKeyRequest,
+} from './api-keys';
+import { createMockEnv, createMockKV, createMockR2, suppressConsole } from '../test-utils';
+
+const details = { name: 'ci', scopes: ['storage:sync' as const], createdBy: 'alice' };
+
+describe('API keys', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  for (const [storage, makeEnv] of [
+    ['KV', () => createMockEnv({ AGENT_KV: createMockKV() })],
+    ['R2', () => createMockEnv({ MOLTBOT_BUCKET: createMockR2() })],
+  ] as const) {
+    describe(`with ${storage} storage`, () => {
+      it('creates a key that verifies and lists without its secret', async () => {
+        const env = makeEnv();
+        const { key, secret } = await createApiKey(env, 'moltbot', details);
+
+        expect(secret.startsWith(`mbk_${key.id}_`)).toBe(true);
+        expect(await verifyApiKey(env, 'moltbot', secret)).toMatchObject({
+          id: key.id,
+          scopes: ['storage:sync'],
+        });
+
+        const keys = await listApiKeys(env, 'moltbot');
+        expect(keys).toHaveLength(1);
+        expect(keys[0]).not.toHaveProperty('secretHash');
+        expect(keys[0].lastUsedAt).toBeDefined();
+      });
+
+      it('rejects wrong secrets and revoked keys', async () => {
+        const env = makeEnv();
+        const { key, secret } = await createApiKey(env, 'moltbot', details);
+
+        expect(await verifyApiKey(env, 'moltbot', `mbk_${key.id}_wrong`)).toBeNull();
+        expect(await revokeApiKey(env, 'moltbot', key.id)).toBe(true);
+        expect(await verifyApiKey(env, 'moltbot', secret)).toBeNull();
+        expect(await revokeApiKey(env, 'moltbot', key.id)).toBe(false);
+      });
+
+      it('scopes keys by tenant', async () => {
+        const env = makeEnv();
+        const { secret } = await createApiKey(env, 'alpha', details);
+
+        expect(await verifyApiKey(env, 'beta', secret)).toBeNull();
+        expect(await listApiKeys(env, 'beta')).toEqual([]);
+      });
+    });
+  }
+
+  it('rejects expired keys', async () => {
+    const env = createMockEnv({ AGENT_KV: createMockKV() });
+    const { key, secret } = await createApiKey(env, 'moltbot', {
+      ...details,
+      expiresAt: Date.now() + 1000,
+    });
+
+    // Rewrite the record as already expired
+    const raw = await env.AGENT_KV!.get(`apikey:moltbot:${key.id}`);
+    const record = { ...JSON.parse(raw!), expiresAt: Date.now() - 1 };
+    await env.AGENT_KV!.put(`apikey:moltbot:${key.id}`, JSON.stringify(record));
+
+    expect(await verifyApiKey(env, 'moltbot', secret)).toBeNull();
+  });
+
+  it('ignores tokens without the key prefix', async () => {
+    const env = createMockEnv({ AGENT_KV: createMockKV() });
+    expect(await verifyApiKey(env, 'moltbot', 'eyJhbGciOi.jwt.token')).toBeNull();
+  });
+});
+
+describe('getRequiredScope', () => {
+  it('maps machine-accessible admin routes to scopes', () => {
+    expect(getRequiredScope('GET', '/api/admin/devices')).toBe('devices:read');
+    expect(getRequiredScope('POST', '/api/admin/devices/abc/approve')).toBe('devices:approve');
+    expect(getRequiredScope('POST', '/api/admin/devices/approve-all')).toBe('devices:approve');
+    expect(getRequiredScope('POST', '/api/admin/devices/abc/reject')).toBe('devices:reject');
+    expect(getRequiredScope('PATCH', '/api/admin/devices/dev-1')).toBe('devices:rename');
+    expect(getRequiredScope('DELETE', '/api/admin/devices/dev-1')).toBe('devices:revoke');
+    expect(getRequiredScope('GET', '/api/admin/storage')).toBe('storage:read');
+    expect(getRequiredScope('POST', '/api/admin/storage/sync')).toBe('storage:sync');
+    expect(getRequiredScope('POST', '/api/admin/gateway/restart')).toBe('gateway:restart');
+  });
+
+  it('does not expose other routes to API keys', () => {
+    expect(getRequiredScope('GET', '/api/admin/api-keys')).toBeNull();
+    expect(getRequiredScope('PUT', '/api/admin/accounts')).toBeNull();
+    expect(getRequiredScope('POST', '/api/admin/devices/abc/unknown')).toBeNull();
+    expect(getRequiredScope('DELETE', '/api/admin/devices/abc/approve')).toBeNull();
+    expect(getRequiredScope('GET', '/debug/env')).toBeNull();
+    expect(getRequiredScope('GET', '/')).toBeNull();
+  });
+});
+
+describe('validateApiKeyRequest', () => {
+  it('accepts a valid request', () => {
+    expect(validateApiKeyRequest({ name: 'ci', scopes: ['storage:sync'] })).toBeNull();
+  });
+
+  it('rejects unknown scopes, empty names and past expiry', () => {
+    expect(validateApiKeyRequest({ name: 'ci', scopes: ['root'] })).toMatch(/Invalid scope/);
+    expect(validateApiKeyRequest({ name: ' ', scopes: ['storage:sync'] })).toMatch(/name/);
+    expect(
+      validateApiKeyRequest({ name: 'ci', scopes: ['storage:sync'], expiresAt: Date.now() - 1 }),
+    ).toMatch(/expiresAt/);
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Scoped API keys for machine access to the admin API (CI, ops scripts).
+ *
+ * A key looks like `mbk_{id}_{secret}` and is sent as `Authorization: Bearer`
+ * or `X-API-Key`. Only the SHA-256 hash of the secret is stored, alongside the
+ * key's name, scopes, optional expiry and last-used time. Records live in
+ * AGENT_KV under `apikey:{tenantId}:{id}`, or in the R2 bucket under
+ * `api-keys/{tenantId}/{id}.json` when no KV namespace is bound.
+ *
+ * Keys never grant a role: each admin route that accepts API keys maps to one
+ * scope (see getRequiredScope), and every other route rejects them.
+ */
+
+import type { MoltbotEnv } from '../types';
+import { createLogger } from '../utils/logging';
+
+const log = createLogger('api-keys');
+
+export const API_KEY_PREFIX = 'mbk_';
+
+export const API_KEY_SCOPES = [
+  'devices:read',
+  'devices:approve',
+  'devices:reject',
+  'devices:rename',
+  'devices:revoke',
+  'storage:read',
+  'storage:sync',
+  'gateway:restart',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/** How often last-used timestamps are written back (avoids a write per request) */
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  createdAt: number; // ms
+  createdBy?: string;
+  expiresAt?: number; // ms — never expires when absent
+  lastUsedAt?: number; // ms
+}
+
+interface StoredApiKey extends ApiKey {
+  secretHash: string;
+}
+
+interface ApiKeyStore {
+  get(id: string): Promise<StoredApiKey | null>;
+  put(key: StoredApiKey): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<StoredApiKey[]>;
+}
+
+function parseRecord(raw: string | null): StoredApiKey | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as StoredApiKey;
+  } catch {
+    log.error('Failed to parse API key record');
+    return null;
+  }
+}
+
+function kvStore(kv: KVNamespace, tenantId: string): ApiKeyStore {
+  const prefix = `apikey:${tenantId}:`;
+  return {
+    get: async (id) => parseRecord(await kv.get(prefix + id)),
+    put: async (key) => {
+      const ttl = key.expiresAt ? Math.ceil((key.expiresAt - Date.now()) / 1000) : undefined;
+      await kv.put(prefix + key.id, JSON.stringify(key), {
+        expirationTtl: ttl ? Math.max(60, ttl) : undefined,
+      });
+    },
+    delete: (id) => kv.delete(prefix + id),
+    list: async () => {
+      const keys: StoredApiKey[] = [];
+      let cursor: string | undefined;
+      do {
+        // eslint-disable-next-line no-await-in-loop -- KV list pagination is sequential
+        const page = await kv.list({ prefix, cursor });
+        // eslint-disable-next-line no-await-in-loop
+        const records = await Promise.all(page.keys.map((k) => kv.get(k.name)));
+        for (const raw of records) {
+          const record = parseRecord(raw);
+          if (record) keys.push(record);
+        }
+        cursor = page.list_complete ? undefined : page.cursor;
+      } while (cursor);
+      return keys;
+    },
+  };
+}
+
+function r2Store(bucket: R2Bucket, tenantId: string): ApiKeyStore {
+  const prefix = `api-keys/${tenantId}/`;
+  const read = async (path: string) => {
+    const object = await bucket.get(path);
+    return object ? parseRecord(await object.text()) : null;
+  };
+  return {
+    get: (id) => read(`${prefix}${id}.json`),
+    put: async (key) => {
+      await bucket.put(`${prefix}${key.id}.json`, JSON.stringify(key));
+    },
+    delete: (id) => bucket.delete(`${prefix}${id}.json`),
+    list: async () => {
+      const keys: StoredApiKey[] = [];
+      let cursor: string | undefined;
+      do {
+        // eslint-disable-next-line no-await-in-loop -- R2 list pagination is sequential
+        const page = await bucket.list({ prefix, cursor });
+        // eslint-disable-next-line no-await-in-loop
+        const records = await Promise.all(page.objects.map((o) => read(o.key)));
+        for (const record of records) {
+          if (record) keys.push(record);
+        }
+        cursor = page.truncated ? page.cursor : undefined;
+      } while (cursor);
+      return keys;
+    },
+  };
+}
+
+function getApiKeyStore(env: MoltbotEnv, tenantId: string): ApiKeyStore {
+  return env.AGENT_KV ? kvStore(env.AGENT_KV, tenantId) : r2Store(env.MOLTBOT_BUCKET, tenantId);
+}
+
+function randomToken(bytes: number): string {
+  const buf = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(buf)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function toPublic(stored: StoredApiKey): ApiKey {
+  const key: Partial<StoredApiKey> = { ...stored };
+  delete key.secretHash;
+  return key as ApiKey;
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return API_KEY_SCOPES.includes(value as ApiKeyScope);
+}
+
+export function isApiKeyToken(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * Scope an API key needs for a route, or null if the route does not accept API keys.
+ */
+export function getRequiredScope(method: string, pathname: string): ApiKeyScope | null {
+  const isRead = method === 'GET' || method === 'HEAD';
+
+  if (pathname === '/api/admin/devices' && isRead) return 'devices:read';
+  if (pathname.startsWith('/api/admin/devices/')) {
+    const path = pathname.slice('/api/admin/devices/'.length).split('/');
+    if (method === 'POST' && path.length === 1 && path[0] === 'approve-all') {
+      return 'devices:approve';
+    }
+    if (method === 'POST' && path.length === 2 && path[1] === 'approve') return 'devices:approve';
+    if (method === 'POST' && path.length === 2 && path[1] === 'reject') return 'devices:reject';
+    if (method === 'PATCH' && path.length === 1) return 'devices:rename';
+    if (method === 'DELETE' && path.length === 1) return 'devices:revoke';
+  }
+  if (pathname === '/api/admin/storage' && isRead) return 'storage:read';
+  if (pathname === '/api/admin/storage/sync' && method === 'POST') return 'storage:sync';
+  if (pathname === '/api/admin/gateway/restart' && method === 'POST') return 'gateway:restart';
+  return null;
+}
+
+/**
+ * Validate an API key creation request. Returns an error message, or null if valid.
+ */
+export function validateApiKeyRequest(body: {
+  name?: unknown;
+  scopes?: unknown;
+  expiresAt?: unknown;
+}): string | null {
+  if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > 64) {
+    return 'name must be a non-empty string of at most 64 characters';
+  }
+  if (!Array.isArray(body.scopes) || body.scopes.length === 0) {
+    return 'scopes must be a non-empty array';
+  }
+  const invalid = body.scopes.find((scope) => !isApiKeyScope(scope));
+  if (invalid !== undefined) {
+    return `Invalid scope: ${JSON.stringify(invalid)} (valid: ${API_KEY_SCOPES.join(', ')})`;
+  }
+  if (
+    body.expiresAt !== undefined &&
+    body.expiresAt !== null &&
+    (typeof body.expiresAt !== 'number' || body.expiresAt <= Date.now())
+  ) {
+    return 'expiresAt must be a future timestamp in milliseconds';
+  }
+  return null;
+}
+
+/**
+ * Create an API key. The returned `secret` is the full key and is only available once.
+ */
+export async function createApiKey(
+  env: MoltbotEnv,
+  tenantId: string,
+  details: Pick<ApiKey, 'name' | 'scopes' | 'expiresAt' | 'createdBy'>,
+): Promise<{ key: ApiKey; secret: string }> {
+  const id = randomToken(8);
+  const secret = randomToken(24);
+
+  const stored: StoredApiKey = {
+    id,
+    name: details.name.trim(),
+    scopes: [...new Set(details.scopes)],
+    createdAt: Date.now(),
+    createdBy: details.createdBy,
+    expiresAt: details.expiresAt ?? undefined,
+    secretHash: await sha256Hex(secret),
+  };
+  await getApiKeyStore(env, tenantId).put(stored);
+
+  return { key: toPublic(stored), secret: `${API_KEY_PREFIX}${id}_${secret}` };
+}
+
+/**
+ * List a tenant's API keys (newest first), without secrets.
+ */
+export async function listApiKeys(env: MoltbotEnv, tenantId: string): Promise<ApiKey[]> {
+  const keys = (await getApiKeyStore(env, tenantId).list()).map(toPublic);
+  keys.sort((a, b) => b.createdAt - a.createdAt);
+  return keys;
+}
+
+/**
+ * Revoke an API key. Returns false if it did not exist.
+ */
+export async function revokeApiKey(
+  env: MoltbotEnv,
+  tenantId: string,
+  id: string,
+): Promise<boolean> {
+  const store = getApiKeyStore(env, tenantId);
+  if (!(await store.get(id))) return false;
+  await store.delete(id);
+  return true;
+}
+
+/**
+ * Verify an API key and record its use. Returns the key, or null if it is
+ * malformed, unknown, revoked or expired.
+ */
+export async function verifyApiKey(
+  env: MoltbotEnv,
+  tenantId: string,
+  token: string,
+): Promise<ApiKey | null> {
+  if (!isApiKeyToken(token)) return null;
+  const [id, secret] = token.slice(API_KEY_PREFIX.length).split('_');
+  if (!id || !secret) return null;
+
+  const store = getApiKeyStore(env, tenantId);
+  const stored = await store.get(id);
+  if (!stored) return null;
+  if (stored.expiresAt && stored.expiresAt <= Date.now()) return null;
+  if ((await sha256Hex(secret)) !== stored.secretHash) return null;
+
+  const now = Date.now();
+  if (!stored.lastUsedAt || now - stored.lastUsedAt > LAST_USED_RESOLUTION_MS) {
+    stored.lastUsedAt = now;
+    try {
+      await store.put(stored);
+    } catch (err) {
+      log.error('Failed to record last use', { error: err });
+    }
+  }
+
+  return toPublic(stored);
+}
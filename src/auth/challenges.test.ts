@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createLoginChallenge,
+  consumeLoginChallenge,
+  ChallengeLedger,
+  CHALLENGE_TTL_SECONDS,
+} from './challenges';
+import { createMockEnv, suppressConsole } from '../test-utils';
+
+const scope = { tenantId: 'alpha', host: 'alpha.example.com' };
+
+/** Durable Object storage with alarms */
+function createMockState() {
+  const data = new Map<string, unknown>();
+  let alarm: number | null = null;
+  const storage = {
+    get: async (key: string) => data.get(key),
+    put: async (key: string, value: unknown) => {
+      data.set(key, value);
+    },
+    delete: async (keys: string[]) => {
+      for (const key of keys) data.delete(key);
+    },
+    list: async ({ prefix = '' }: { prefix?: string }) =>
+      new Map([...data].filter(([key]) => key.startsWith(prefix))),
+    getAlarm: async () => alarm,
+    setAlarm: async (time: number) => {
+      alarm = time;
+    },
+  };
+  return { state: { storage } as unknown as DurableObjectState, data };
+}
+
+/**
+ * One ledger per tenant. Like a Durable Object, a ledger handles one request
+ * at a time.
+ */
+function createLedgerNamespace() {
+  const ledgers = new Map<string, { ledger: ChallengeLedger; queue: Promise<unknown> }>();
+  const namespace = {
+    idFromName: (name: string) => name,
+    get: (id: string) => {
+      if (!ledgers.has(id)) {
+        ledgers.set(id, {
+          ledger: new ChallengeLedger(createMockState().state),
+          queue: Promise.resolve(),
+        });
+      }
+      const entry = ledgers.get(id)!;
+      return {
+        fetch: (input: string, init?: RequestInit) => {
+          const response = entry.queue.then(() => entry.ledger.fetch(new Request(input, init)));
+          entry.queue = response.catch(() => undefined);
+          return response;
+        },
+      };
+    },
+  } as unknown as DurableObjectNamespace;
+  return namespace;
+}
+
+describe('login challenges', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts a fresh challenge once', async () => {
+    const env = createMockEnv({
+      MOLTBOT_GATEWAY_TOKEN: 'secret',
+      CHALLENGE_LEDGER: createLedgerNamespace(),
+    });
+    const { nonce } = await createLoginChallenge(env, scope);
+
+    expect(await consumeLoginChallenge(env, scope, nonce)).toBeNull();
+    expect(await consumeLoginChallenge(env, scope, nonce)).toBe('Login challenge already used');
+  });
+
+  it('lets only one of two racing logins use a challenge', async () => {
+    const env = createMockEnv({
+      MOLTBOT_GATEWAY_TOKEN: 'secret',
+      CHALLENGE_LEDGER: createLedgerNamespace(),
+    });
+    const { nonce } = await createLoginChallenge(env, scope);
+
+    const results = await Promise.all([
+      consumeLoginChallenge(env, scope, nonce),
+      consumeLoginChallenge(env, scope, nonce),
+    ]);
+    expect(results.filter((r) => r === null)).toHaveLength(1);
+    expect(results).toContain('Login challenge already used');
+  });
+
+  it('fails closed when the ledger is unavailable', async () => {
+    suppressConsole();
+    const broken = {
+      idFromName: () => 'x',
+      get: () => ({ fetch: async () => new Response('error', { status: 500 }) }),
+    } as unknown as DurableObjectNamespace;
+    const env = createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'secret', CHALLENGE_LEDGER: broken });
+    const { nonce } = await createLoginChallenge(env, scope);
+
+    expect(await consumeLoginChallenge(env, scope, nonce)).toBe('Could not verify login challenge');
+  });
+
+  it('rejects a missing nonce', async () => {
+    const env = createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'secret' });
+    expect(await consumeLoginChallenge(env, scope, undefined)).toBe('Missing login challenge');
+  });
+
+  it('rejects nonces issued for another tenant or host', async () => {
+    const env = createMockEnv({
+      MOLTBOT_GATEWAY_TOKEN: 'secret',
+      CHALLENGE_LEDGER: createLedgerNamespace(),
+    });
+    const { nonce } = await createLoginChallenge(env, scope);
+
+    expect(await consumeLoginChallenge(env, { ...scope, tenantId: 'beta' }, nonce)).toMatch(
+      /not issued/,
+    );
+    expect(await consumeLoginChallenge(env, { ...scope, host: 'evil.example.com' }, nonce)).toMatch(
+      /not issued/,
+    );
+    // Still usable on the right tenant
+    expect(await consumeLoginChallenge(env, scope, nonce)).toBeNull();
+  });
+
+  it('rejects tampered nonces', async () => {
+    const env = createMockEnv({
+      MOLTBOT_GATEWAY_TOKEN: 'secret',
+      CHALLENGE_LEDGER: createLedgerNamespace(),
+    });
+    const { nonce } = await createLoginChallenge(env, scope);
+    const [id, , mac] = nonce.split('.');
+
+    expect(await consumeLoginChallenge(env, scope, `${id}.${Date.now() + 1e9}.${mac}`)).toMatch(
+      /not issued/,
+    );
+    expect(await consumeLoginChallenge(env, scope, 'garbage')).toBe('Malformed login challenge');
+  });
+
+  it('rejects expired challenges', async () => {
+    vi.useFakeTimers();
+    const env = createMockEnv({
+      MOLTBOT_GATEWAY_TOKEN: 'secret',
+      CHALLENGE_LEDGER: createLedgerNamespace(),
+    });
+    const { nonce } = await createLoginChallenge(env, scope);
+
+    vi.advanceTimersByTime(CHALLENGE_TTL_SECONDS * 1000 + 1);
+    expect(await consumeLoginChallenge(env, scope, nonce)).toBe('Login challenge expired');
+  });
+
+  it('enforces single use in memory without a ledger', async () => {
+    const env = createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'secret' });
+    const { nonce } = await createLoginChallenge(env, scope);
+
+    expect(await consumeLoginChallenge(env, scope, nonce)).toBeNull();
+    expect(await consumeLoginChallenge(env, scope, nonce)).toBe('Login challenge already used');
+  });
+});
+
+describe('ChallengeLedger', () => {
+  it('forgets consumed IDs once they expire', async () => {
+    const { state, data } = createMockState();
+    const ledger = new ChallengeLedger(state);
+    const consume = async (id: string, expiresAt: number) => {
+      const response = await ledger.fetch(
+        new Request('https://challenge-ledger/consume', {
+          method: 'POST',
+          body: JSON.stringify({ id, expiresAt }),
+        }),
+      );
+      return ((await response.json()) as { consumed: boolean }).consumed;
+    };
+
+    expect(await consume('old', Date.now() - 1)).toBe(true);
+    expect(await consume('fresh', Date.now() + 60_000)).toBe(true);
+    expect(await consume('fresh', Date.now() + 60_000)).toBe(false);
+
+    await ledger.alarm();
+    expect([...data.keys()]).toEqual(['consumed:fresh']);
+    expect(await state.storage.getAlarm()).not.toBeNull();
+  });
+});
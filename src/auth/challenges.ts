@@ -0,0 +1,182 @@
+/**
+ * Server-issued login challenges — single-use nonces for wallet login.
+ *
+ * The login page fetches a nonce from `GET /api/auth/challenge` and embeds it
+ * in the signed `generateauth` action (`time: "{iso time}#{nonce}"`), so a
+ * signed proof can only be exchanged for a session once, on the gateway that
+ * issued it.
+ *
+ * A nonce is `{id}.{expiresAt}.{mac}`, where the HMAC (keyed by
+ * MOLTBOT_GATEWAY_TOKEN) binds it to the tenant and host and carries its
+ * expiry, so issuing one stores nothing. Only consumed IDs are recorded, until
+ * they expire, in the tenant's ChallengeLedger Durable Object: it handles one
+ * request at a time, so two logins racing with the same nonce cannot both
+ * succeed. Without the CHALLENGE_LEDGER binding, consumed IDs are remembered
+ * in memory — best effort, since Worker isolates do not share memory.
+ */
+
+import type { Context } from 'hono';
+import type { AppEnv, MoltbotEnv } from '../types';
+import { getSessionTenantId } from './sessions';
+import { createLogger } from '../utils/logging';
+
+const log = createLogger('challenges');
+
+export const CHALLENGE_TTL_SECONDS = 5 * 60; // 5 minutes
+
+export interface ChallengeScope {
+  tenantId: string;
+  host: string;
+}
+
+export interface LoginChallenge {
+  nonce: string;
+  expiresAt: number; // ms
+}
+
+/** Nonces consumed by this isolate when there is no ledger (id → expiresAt) */
+const usedNonces = new Map<string, number>();
+
+const CONSUMED_PREFIX = 'consumed:';
+
+/**
+ * Scope a challenge to the tenant and host of the current request.
+ */
+export function getChallengeScope(c: Context<AppEnv>): ChallengeScope {
+  return { tenantId: getSessionTenantId(c), host: new URL(c.req.url).host };
+}
+
+function randomId(): string {
+  const buf = crypto.getRandomValues(new Uint8Array(18));
+  return btoa(String.fromCharCode(...buf))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+async function computeMac(
+  env: MoltbotEnv,
+  scope: ChallengeScope,
+  id: string,
+  expiresAt: number,
+): Promise<string> {
+  const secret = env.MOLTBOT_GATEWAY_TOKEN;
+  if (!secret) {
+    throw new Error('MOLTBOT_GATEWAY_TOKEN is required for wallet login challenges');
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const mac = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    encoder.encode(`${scope.tenantId}|${scope.host}|${id}|${expiresAt}`),
+  );
+  return Array.from(new Uint8Array(mac).slice(0, 16))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Issue a new login challenge for a tenant/host.
+ */
+export async function createLoginChallenge(
+  env: MoltbotEnv,
+  scope: ChallengeScope,
+): Promise<LoginChallenge> {
+  const id = randomId();
+  const expiresAt = Date.now() + CHALLENGE_TTL_SECONDS * 1000;
+  const mac = await computeMac(env, scope, id, expiresAt);
+  return { nonce: `${id}.${expiresAt}.${mac}`, expiresAt };
+}
+
+/**
+ * Validate and consume a login challenge. Returns an error message, or null if
+ * the nonce was issued for this tenant/host, has not expired and was unused.
+ */
+export async function consumeLoginChallenge(
+  env: MoltbotEnv,
+  scope: ChallengeScope,
+  nonce: string | undefined,
+): Promise<string | null> {
+  if (!nonce) return 'Missing login challenge';
+
+  const [id, expiresAtRaw, mac] = nonce.split('.');
+  const expiresAt = Number(expiresAtRaw);
+  if (!id || !mac || !Number.isFinite(expiresAt)) return 'Malformed login challenge';
+
+  if (mac !== (await computeMac(env, scope, id, expiresAt))) {
+    return 'Login challenge was not issued by this gateway';
+  }
+  if (expiresAt <= Date.now()) return 'Login challenge expired';
+
+  const ledger = env.CHALLENGE_LEDGER;
+  if (ledger) {
+    try {
+      const response = await ledger
+        .get(ledger.idFromName(scope.tenantId))
+        .fetch('https://challenge-ledger/consume', {
+          method: 'POST',
+          body: JSON.stringify({ id, expiresAt }),
+        });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const { consumed } = (await response.json()) as { consumed: boolean };
+      return consumed ? null : 'Login challenge already used';
+    } catch (err) {
+      log.error('Challenge ledger failed', { tenantId: scope.tenantId, error: err });
+      return 'Could not verify login challenge';
+    }
+  }
+
+  const now = Date.now();
+  for (const [usedId, usedExpiry] of usedNonces) {
+    if (usedExpiry <= now) usedNonces.delete(usedId);
+  }
+  if (usedNonces.has(id)) return 'Login challenge already used';
+  usedNonces.set(id, expiresAt);
+  return null;
+}
+
+/**
+ * Durable Object holding a tenant's consumed challenge IDs until they expire.
+ * Requests are handled one at a time, so checking and recording an ID is
+ * atomic.
+ */
+export class ChallengeLedger implements DurableObject {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (request.method === 'POST' && url.pathname === '/consume') {
+      const { id, expiresAt } = (await request.json()) as { id: string; expiresAt: number };
+      return Response.json({ consumed: await this.consume(id, expiresAt) });
+    }
+    return new Response('Not found', { status: 404 });
+  }
+
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    const consumed = await this.state.storage.list<number>({ prefix: CONSUMED_PREFIX });
+    const expired = [...consumed].filter(([, expiresAt]) => expiresAt <= now).map(([key]) => key);
+    if (expired.length > 0) await this.state.storage.delete(expired);
+    if (consumed.size > expired.length) {
+      await this.state.storage.setAlarm(now + CHALLENGE_TTL_SECONDS * 1000);
+    }
+  }
+
+  private async consume(id: string, expiresAt: number): Promise<boolean> {
+    const key = CONSUMED_PREFIX + id;
+    if ((await this.state.storage.get(key)) !== undefined) return false;
+    await this.state.storage.put(key, expiresAt);
+    if ((await this.state.storage.getAlarm()) === null) {
+      await this.state.storage.setAlarm(expiresAt);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { p256 } from '@noble/curves/nist';
+import { ripemd160 } from '@noble/hashes/legacy';
+import {
+  base58Decode,
+  base58Encode,
+  decodeName,
+  encodeName,
+  formatPublicKey,
+  formatSignature,
+  getSigningDigest,
+  parsePublicKey,
+  parseSignature,
+  publicKeysEqual,
+  recoverPublicKey,
+} from './eosio';
+import { XPR_CHAIN_IDS } from '../config';
+
+describe('names', () => {
+  it('round-trips account names', () => {
+    for (const name of ['proton.wrap', 'generateauth', 'eosio', 'a', 'alice12345.x']) {
+      expect(decodeName(encodeName(name))).toBe(name);
+    }
+  });
+
+  it('decodes known values', () => {
+    expect(decodeName(6138663577826885632n)).toBe('eosio');
+  });
+});
+
+describe('base58', () => {
+  it('round-trips bytes including leading zeros', () => {
+    const bytes = new Uint8Array([0, 0, 1, 2, 255, 128]);
+    expect(base58Decode(base58Encode(bytes))).toEqual(bytes);
+  });
+
+  it('rejects invalid characters', () => {
+    expect(() => base58Decode('0OIl')).toThrow(/Invalid base58/);
+  });
+});
+
+describe('public keys', () => {
+  const priv = secp256k1.utils.randomPrivateKey();
+  const data = secp256k1.getPublicKey(priv, true);
+
+  it('round-trips PUB_K1_ keys', () => {
+    const key = { type: 'K1' as const, data };
+    const parsed = parsePublicKey(formatPublicKey(key));
+    expect(publicKeysEqual(parsed, key)).toBe(true);
+  });
+
+  it('parses legacy EOS keys as K1', () => {
+    const checksum = ripemd160(data).slice(0, 4);
+    const legacy = `EOS${base58Encode(new Uint8Array([...data, ...checksum]))}`;
+    expect(publicKeysEqual(parsePublicKey(legacy), { type: 'K1', data })).toBe(true);
+  });
+
+  it('rejects keys with a bad checksum', () => {
+    const key = formatPublicKey({ type: 'K1', data });
+    const tampered = key.slice(0, -1) + (key.endsWith('1') ? '2' : '1');
+    expect(() => parsePublicKey(tampered)).toThrow(/Invalid key or signature/);
+  });
+
+  it('rejects unsupported formats', () => {
+    expect(() => parsePublicKey('PUB_WA_abc')).toThrow(/Unsupported public key/);
+  });
+});
+
+describe('signatures', () => {
+  const digest = getSigningDigest(XPR_CHAIN_IDS.mainnet, new Uint8Array([1, 2, 3]));
+
+  it('recovers the K1 signing key', () => {
+    const priv = secp256k1.utils.randomPrivateKey();
+    const sig = secp256k1.sign(digest, priv);
+    const encoded = formatSignature({ type: 'K1', recovery: sig.recovery, r: sig.r, s: sig.s });
+
+    expect(encoded.startsWith('SIG_K1_')).toBe(true);
+    const recovered = recoverPublicKey(encoded, digest);
+    expect(recovered).toEqual({ type: 'K1', data: secp256k1.getPublicKey(priv, true) });
+  });
+
+  it('recovers the R1 signing key', () => {
+    const priv = p256.utils.randomPrivateKey();
+    const sig = p256.sign(digest, priv);
+    const encoded = formatSignature({ type: 'R1', recovery: sig.recovery, r: sig.r, s: sig.s });
+
+    const recovered = recoverPublicKey(encoded, digest);
+    expect(recovered.type).toBe('R1');
+    expect(recovered.data).toEqual(p256.getPublicKey(priv, true));
+  });
+
+  it('recovers a different key for a different digest', () => {
+    const priv = secp256k1.utils.randomPrivateKey();
+    const sig = secp256k1.sign(digest, priv);
+    const encoded = formatSignature({ type: 'K1', recovery: sig.recovery, r: sig.r, s: sig.s });
+
+    const other = getSigningDigest(XPR_CHAIN_IDS.testnet, new Uint8Array([1, 2, 3]));
+    expect(recoverPublicKey(encoded, other).data).not.toEqual(secp256k1.getPublicKey(priv, true));
+  });
+
+  it('parses the recovery byte', () => {
+    const encoded = formatSignature({ type: 'K1', recovery: 1, r: 5n, s: 7n });
+    expect(parseSignature(encoded)).toEqual({ type: 'K1', recovery: 1, r: 5n, s: 7n });
+  });
+
+  it('rejects WebAuthn signatures', () => {
+    expect(() => parseSignature('SIG_WA_abc')).toThrow(/Unsupported signature/);
+  });
+});
@@ -0,0 +1,390 @@
+/**
+ * Minimal EOSIO primitives for verifying wallet proofs without a chain round-trip.
+ *
+ * Covers just enough of the Antelope wire format to:
+ * - deserialize a packed transaction and its actions
+ * - decode `proton.wrap::generateauth` action data
+ * - parse K1/R1 signatures and public keys (PUB_K1_, PUB_R1_, legacy EOS)
+ * - compute the signing digest and recover the signer's public key
+ *
+ * WebAuthn (SIG_WA_) signatures are not handled here — their digest depends on
+ * client data that is only meaningful to the chain, so callers fall back to
+ * push_transaction for those.
+ */
+
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { p256 } from '@noble/curves/nist';
+import { sha256 } from '@noble/hashes/sha2';
+import { ripemd160 } from '@noble/hashes/legacy';
+
+export type KeyType = 'K1' | 'R1';
+
+export interface PermissionLevel {
+  actor: string;
+  permission: string;
+}
+
+export interface TransactionAction {
+  account: string;
+  name: string;
+  authorization: PermissionLevel[];
+  data: Uint8Array;
+}
+
+export interface Transaction {
+  expiration: number; // seconds since epoch
+  refBlockNum: number;
+  refBlockPrefix: number;
+  maxNetUsageWords: number;
+  maxCpuUsageMs: number;
+  delaySec: number;
+  contextFreeActions: TransactionAction[];
+  actions: TransactionAction[];
+}
+
+export interface GenerateAuthData {
+  protonAccount: string;
+  time: string;
+}
+
+export interface PublicKey {
+  type: KeyType;
+  data: Uint8Array; // 33-byte compressed point
+}
+
+export interface ParsedSignature {
+  type: KeyType;
+  recovery: number;
+  r: bigint;
+  s: bigint;
+}
+
+const NAME_CHARS = '.12345abcdefghijklmnopqrstuvwxyz';
+const BASE58_CHARS = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// ---------------------------------------------------------------------------
+// Encoding helpers
+// ---------------------------------------------------------------------------
+
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+export function base58Decode(value: string): Uint8Array {
+  let num = 0n;
+  for (const char of value) {
+    const digit = BASE58_CHARS.indexOf(char);
+    if (digit < 0) throw new Error(`Invalid base58 character: ${char}`);
+    num = num * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (num > 0n) {
+    bytes.unshift(Number(num & 0xffn));
+    num >>= 8n;
+  }
+  // Each leading '1' encodes a leading zero byte
+  for (const char of value) {
+    if (char !== '1') break;
+    bytes.unshift(0);
+  }
+  return new Uint8Array(bytes);
+}
+
+export function base58Encode(bytes: Uint8Array): string {
+  let num = 0n;
+  for (const byte of bytes) num = (num << 8n) + BigInt(byte);
+
+  let out = '';
+  while (num > 0n) {
+    out = BASE58_CHARS[Number(num % 58n)] + out;
+    num /= 58n;
+  }
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    out = '1' + out;
+  }
+  return out;
+}
+
+function keyChecksum(data: Uint8Array, suffix: string): Uint8Array {
+  return ripemd160(concatBytes(data, new TextEncoder().encode(suffix))).slice(0, 4);
+}
+
+/** Decode a base58 string carrying `size` bytes plus a 4-byte ripemd160 checksum */
+function decodeChecked(value: string, size: number, suffix: string): Uint8Array {
+  const raw = base58Decode(value);
+  if (raw.length !== size + 4) throw new Error('Invalid key or signature length');
+
+  const data = raw.slice(0, size);
+  if (!bytesEqual(raw.slice(size), keyChecksum(data, suffix))) {
+    throw new Error('Invalid key or signature checksum');
+  }
+  return data;
+}
+
+/**
+ * Decode an EOSIO account name from its uint64 representation.
+ */
+export function decodeName(value: bigint): string {
+  let tmp = value;
+  let name = '';
+  for (let i = 0; i <= 12; i++) {
+    const mask = i === 0 ? 0x0fn : 0x1fn;
+    name = NAME_CHARS[Number(tmp & mask)] + name;
+    tmp >>= i === 0 ? 4n : 5n;
+  }
+  return name.replace(/\.+$/, '');
+}
+
+/**
+ * Encode an EOSIO account name as uint64 (inverse of decodeName).
+ */
+export function encodeName(name: string): bigint {
+  let value = 0n;
+  for (let i = 0; i <= 12; i++) {
+    const c = i < name.length ? NAME_CHARS.indexOf(name[i]) : 0;
+    if (c < 0) throw new Error(`Invalid name character: ${name[i]}`);
+    if (i < 12) {
+      value |= BigInt(c & 0x1f) << BigInt(64 - 5 * (i + 1));
+    } else {
+      value |= BigInt(c & 0x0f);
+    }
+  }
+  return value;
+}
+
+// ---------------------------------------------------------------------------
+// Binary deserialization
+// ---------------------------------------------------------------------------
+
+class Reader {
+  private offset = 0;
+  private view: DataView;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private need(n: number) {
+    if (this.offset + n > this.bytes.length) throw new Error('Unexpected end of data');
+  }
+
+  get done(): boolean {
+    return this.offset === this.bytes.length;
+  }
+
+  uint8(): number {
+    this.need(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  uint16(): number {
+    this.need(2);
+    const v = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return v;
+  }
+
+  uint32(): number {
+    this.need(4);
+    const v = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return v;
+  }
+
+  uint64(): bigint {
+    this.need(8);
+    const v = this.view.getBigUint64(this.offset, true);
+    this.offset += 8;
+    return v;
+  }
+
+  varuint32(): number {
+    let result = 0;
+    for (let shift = 0; shift < 35; shift += 7) {
+      const byte = this.uint8();
+      result |= (byte & 0x7f) << shift;
+      if (!(byte & 0x80)) return result >>> 0;
+    }
+    throw new Error('varuint32 too long');
+  }
+
+  bytesOf(n: number): Uint8Array {
+    this.need(n);
+    const out = this.bytes.slice(this.offset, this.offset + n);
+    this.offset += n;
+    return out;
+  }
+
+  name(): string {
+    return decodeName(this.uint64());
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.bytesOf(this.varuint32()));
+  }
+}
+
+function readAction(reader: Reader): TransactionAction {
+  const account = reader.name();
+  const name = reader.name();
+  const authorization: PermissionLevel[] = [];
+  for (let n = reader.varuint32(); n > 0; n--) {
+    authorization.push({ actor: reader.name(), permission: reader.name() });
+  }
+  const data = reader.bytesOf(reader.varuint32());
+  return { account, name, authorization, data };
+}
+
+function readActions(reader: Reader): TransactionAction[] {
+  const actions: TransactionAction[] = [];
+  for (let n = reader.varuint32(); n > 0; n--) {
+    actions.push(readAction(reader));
+  }
+  return actions;
+}
+
+/**
+ * Deserialize a packed (uncompressed) transaction.
+ */
+export function deserializeTransaction(packed: Uint8Array): Transaction {
+  const reader = new Reader(packed);
+  const trx: Transaction = {
+    expiration: reader.uint32(),
+    refBlockNum: reader.uint16(),
+    refBlockPrefix: reader.uint32(),
+    maxNetUsageWords: reader.varuint32(),
+    maxCpuUsageMs: reader.uint8(),
+    delaySec: reader.varuint32(),
+    contextFreeActions: readActions(reader),
+    actions: readActions(reader),
+  };
+
+  // transaction_extensions: vector<pair<uint16, bytes>>
+  for (let n = reader.varuint32(); n > 0; n--) {
+    reader.uint16();
+    reader.bytesOf(reader.varuint32());
+  }
+
+  if (!reader.done) throw new Error('Trailing data after transaction');
+  return trx;
+}
+
+/**
+ * Decode the data of a `proton.wrap::generateauth` action.
+ */
+export function decodeGenerateAuthData(data: Uint8Array): GenerateAuthData {
+  const reader = new Reader(data);
+  const result = { protonAccount: reader.name(), time: reader.string() };
+  if (!reader.done) throw new Error('Trailing data after generateauth');
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Keys and signatures
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a public key in PUB_K1_, PUB_R1_ or legacy EOS format.
+ */
+export function parsePublicKey(value: string): PublicKey {
+  if (value.startsWith('PUB_K1_') || value.startsWith('PUB_R1_')) {
+    const type = value.slice(4, 6) as KeyType;
+    return { type, data: decodeChecked(value.slice(7), 33, type) };
+  }
+  if (value.startsWith('EOS')) {
+    return { type: 'K1', data: decodeChecked(value.slice(3), 33, '') };
+  }
+  throw new Error(`Unsupported public key format: ${value.slice(0, 10)}`);
+}
+
+/**
+ * Encode a public key in PUB_K1_ / PUB_R1_ format.
+ */
+export function formatPublicKey(key: PublicKey): string {
+  return `PUB_${key.type}_${base58Encode(concatBytes(key.data, keyChecksum(key.data, key.type)))}`;
+}
+
+export function publicKeysEqual(a: PublicKey, b: PublicKey): boolean {
+  return a.type === b.type && bytesEqual(a.data, b.data);
+}
+
+/**
+ * Parse a SIG_K1_ or SIG_R1_ signature (65 bytes: recovery header, r, s).
+ */
+export function parseSignature(value: string): ParsedSignature {
+  if (!value.startsWith('SIG_K1_') && !value.startsWith('SIG_R1_')) {
+    throw new Error(`Unsupported signature format: ${value.slice(0, 7)}`);
+  }
+
+  const type = value.slice(4, 6) as KeyType;
+  const data = decodeChecked(value.slice(7), 65, type);
+  // Header byte is 27 + 4 (compressed) + recovery id
+  const recovery = data[0] - 31;
+  if (recovery < 0 || recovery > 3) throw new Error('Invalid signature recovery byte');
+
+  return {
+    type,
+    recovery,
+    r: BigInt(`0x${bytesToHex(data.slice(1, 33))}`),
+    s: BigInt(`0x${bytesToHex(data.slice(33, 65))}`),
+  };
+}
+
+/**
+ * Encode a recoverable signature in SIG_K1_ / SIG_R1_ format.
+ */
+export function formatSignature(sig: ParsedSignature): string {
+  const data = concatBytes(
+    new Uint8Array([sig.recovery + 31]),
+    hexToBytes(sig.r.toString(16).padStart(64, '0')),
+    hexToBytes(sig.s.toString(16).padStart(64, '0')),
+  );
+  return `SIG_${sig.type}_${base58Encode(concatBytes(data, keyChecksum(data, sig.type)))}`;
+}
+
+/**
+ * Compute the digest a wallet signs for a transaction:
+ * sha256(chainId || packedTrx || sha256(context free data) or 32 zero bytes).
+ */
+export function getSigningDigest(chainId: string, packedTrx: Uint8Array): Uint8Array {
+  return sha256(concatBytes(hexToBytes(chainId), packedTrx, new Uint8Array(32)));
+}
+
+/**
+ * Recover the public key that produced a signature over a digest.
+ */
+export function recoverPublicKey(signature: string, digest: Uint8Array): PublicKey {
+  const sig = parseSignature(signature);
+  const curve = sig.type === 'K1' ? secp256k1 : p256;
+  const point = new curve.Signature(sig.r, sig.s, sig.recovery).recoverPublicKey(digest);
+  return { type: sig.type, data: point.toBytes(true) };
+}
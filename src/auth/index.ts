@@ -2,3 +2,54 @@ export { verifyAccessJWT } from './jwt';
 export { createAuthMiddleware, isDevMode, extractJWT } from './middleware';
 export { verifyWalletProof, signWalletJWT, verifyWalletJWT } from './wallet';
 export type { WalletProof, WalletJWTPayload } from './wallet';
+export {
+  hasRole,
+  getRequiredRole,
+  resolveAccountRole,
+  getAccountGrants,
+  isWalletAuthConfigured,
+  parseAccountList,
+  formatAccountList,
+  validateAccountGrants,
+} from './roles';
+export type { AuthRole, AccountGrant } from './roles';
+export {
+  startWalletSession,
+  refreshWalletSession,
+  isWalletSessionActive,
+  extractRefreshToken,
+  getSessionStore,
+  getSessionTenantId,
+  listSessions,
+  revokeSession,
+  revokeSessionByRefreshToken,
+  clearSessionCookies,
+} from './sessions';
+export type { WalletSession, SessionSummary } from './sessions';
+export { createLoginChallenge, consumeLoginChallenge, getChallengeScope } from './challenges';
+export type { LoginChallenge, ChallengeScope } from './challenges';
+export {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  verifyApiKey,
+  validateApiKeyRequest,
+  getRequiredScope,
+  API_KEY_SCOPES,
+} from './api-keys';
+export type { ApiKey, ApiKeyScope } from './api-keys';
+export {
+  createPairingToken,
+  listPairingTokens,
+  revokePairingToken,
+  verifyPairingToken,
+  consumePairingToken,
+  pairingTokenCovers,
+  validatePairingTokenRequest,
+  extractPairingCookie,
+  removePairingCookie,
+  buildPairingCookie,
+  clearPairingCookie,
+  PAIRING_TOKEN_SCOPES,
+} from './pairing-tokens';
+export type { PairingToken, PairingTokenScope } from './pairing-tokens';
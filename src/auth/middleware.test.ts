@@ -3,7 +3,10 @@ import { isDevMode, isE2ETestMode, extractJWT } from './middleware';
 import type { MoltbotEnv } from '../types';
 import type { Context } from 'hono';
 import type { AppEnv } from '../types';
-import { createMockEnv } from '../test-utils';
+import { createMockEnv, createMockKV, suppressConsole } from '../test-utils';
+import { signWalletJWT } from './wallet';
+import { createApiKey, type ApiKeyScope } from './api-keys';
+import { mergeTenantEnv, type TenantConfig } from '../tenant';
 
 describe('isDevMode', () => {
   it('returns true when DEV_MODE is "true"', () => {
@@ -134,6 +137,17 @@ describe('extractJWT', () => {
     expect(extractJWT(c)).toEqual({ token: jwt, source: 'wallet' });
   });
 
+  it('extracts API keys from the X-API-Key header', () => {
+    const c = createMockContext({});
+    c.req.raw.headers.set('X-API-Key', 'mbk_abc_secret');
+    expect(extractJWT(c)).toEqual({ token: 'mbk_abc_secret', source: 'api-key' });
+  });
+
+  it('recognizes API keys sent as Bearer tokens', () => {
+    const c = createMockContext({ authHeader: 'Bearer mbk_abc_secret' });
+    expect(extractJWT(c)).toEqual({ token: 'mbk_abc_secret', source: 'api-key' });
+  });
+
   it('handles cookie with whitespace', () => {
     const jwt = 'spaced.payload.signature';
     const c = createMockContext({ cookies: `  CF_Authorization=${jwt}  ` });
@@ -156,6 +170,9 @@ describe('createAuthMiddleware', () => {
     env?: Partial<MoltbotEnv>;
     jwtHeader?: string;
     cookies?: string;
+    url?: string;
+    method?: string;
+    headers?: Record<string, string>;
   }): {
     c: Context<AppEnv>;
     jsonMock: ReturnType<typeof vi.fn>;
@@ -170,6 +187,9 @@ describe('createAuthMiddleware', () => {
     if (options.cookies) {
       headers.set('Cookie', options.cookies);
     }
+    for (const [name, value] of Object.entries(options.headers ?? {})) {
+      headers.set(name, value);
+    }
 
     const jsonMock = vi.fn().mockReturnValue(new Response());
     const htmlMock = vi.fn().mockReturnValue(new Response());
@@ -180,12 +200,15 @@ describe('createAuthMiddleware', () => {
       req: {
         header: (name: string) => headers.get(name),
         raw: { headers },
+        url: options.url ?? 'https://agent.example.com/',
+        method: options.method ?? 'GET',
       },
       env: createMockEnv(options.env),
       json: jsonMock,
       html: htmlMock,
       redirect: redirectMock,
       set: setMock,
+      get: vi.fn(),
     } as unknown as Context<AppEnv>;
 
     return { c, jsonMock, htmlMock, redirectMock, setMock };
@@ -202,6 +225,7 @@ describe('createAuthMiddleware', () => {
     expect(setMock).toHaveBeenCalledWith('accessUser', {
       email: 'dev@localhost',
       name: 'Dev User',
+      role: 'owner',
     });
   });
 
@@ -216,6 +240,7 @@ describe('createAuthMiddleware', () => {
     expect(setMock).toHaveBeenCalledWith('accessUser', {
       email: 'dev@localhost',
       name: 'Dev User',
+      role: 'owner',
     });
   });
 
@@ -285,4 +310,234 @@ describe('createAuthMiddleware', () => {
     expect(next).not.toHaveBeenCalled();
     expect(redirectMock).toHaveBeenCalledWith('https://team.cloudflareaccess.com', 302);
   });
+
+  describe('wallet roles', () => {
+    const gatewayToken = 'test-gateway-token';
+
+    beforeEach(() => {
+      suppressConsole();
+    });
+
+    async function walletCookie(actor: string) {
+      const env = createMockEnv({ MOLTBOT_GATEWAY_TOKEN: gatewayToken });
+      const token = await signWalletJWT(actor, 'active', 'owner', env);
+      return `moltbot_session=${token}`;
+    }
+
+    it('grants the owner account the owner role', async () => {
+      const { c, setMock } = createFullMockContext({
+        env: { XPR_OWNER_ACCOUNT: 'boss', MOLTBOT_GATEWAY_TOKEN: gatewayToken },
+        cookies: await walletCookie('boss'),
+        url: 'https://agent.example.com/debug/env',
+      });
+      const next = vi.fn();
+
+      await createAuthMiddleware({ type: 'json' })(c, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(setMock).toHaveBeenCalledWith(
+        'accessUser',
+        expect.objectContaining({ account: 'boss', role: 'owner' }),
+      );
+    });
+
+    it('uses the allow-list role rather than the role in the JWT', async () => {
+      const { c, setMock } = createFullMockContext({
+        env: {
+          XPR_OWNER_ACCOUNT: 'boss',
+          XPR_ALLOWED_ACCOUNTS: 'alice:viewer',
+          MOLTBOT_GATEWAY_TOKEN: gatewayToken,
+        },
+        cookies: await walletCookie('alice'),
+        url: 'https://agent.example.com/api/admin/devices',
+      });
+      const next = vi.fn();
+
+      await createAuthMiddleware({ type: 'json' })(c, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(setMock).toHaveBeenCalledWith(
+        'accessUser',
+        expect.objectContaining({ account: 'alice', role: 'viewer' }),
+      );
+    });
+
+    it('returns 403 when the role is insufficient for the route group', async () => {
+      const { c, jsonMock } = createFullMockContext({
+        env: {
+          XPR_OWNER_ACCOUNT: 'boss',
+          XPR_ALLOWED_ACCOUNTS: 'alice:viewer',
+          MOLTBOT_GATEWAY_TOKEN: gatewayToken,
+        },
+        cookies: await walletCookie('alice'),
+        url: 'https://agent.example.com/api/admin/gateway/restart',
+        method: 'POST',
+      });
+      const next = vi.fn();
+
+      await createAuthMiddleware({ type: 'json' })(c, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ error: 'Forbidden' }), 403);
+    });
+
+    it("resolves roles from each request's tenant while tenants interleave", async () => {
+      const tenant = (agentAccount: string, role: 'owner' | 'viewer') =>
+        ({
+          agentAccount,
+          xprOwnerAccount: 'boss',
+          moltbotGatewayToken: gatewayToken,
+          accounts: [{ account: 'alice', role }],
+        }) as TenantConfig;
+      const alpha = tenant('alpha', 'viewer');
+      const beta = tenant('beta', 'owner');
+
+      // Both requests share the isolate's env object, as in the worker
+      const sharedEnv = createMockEnv();
+      const cookies = await walletCookie('alice');
+      const run = (config: TenantConfig) => {
+        const { c, setMock } = createFullMockContext({
+          cookies,
+          url: 'https://agent.example.com/debug/env',
+        });
+        Object.assign(c, {
+          env: sharedEnv,
+          get: (key: string) => (key === 'tenantConfig' ? config : undefined),
+        });
+        mergeTenantEnv(sharedEnv, config);
+        const next = vi.fn();
+        return { pending: createAuthMiddleware({ type: 'json' })(c, next), next, setMock };
+      };
+
+      // alpha's request is still verifying its JWT when beta's config is merged
+      const first = run(alpha);
+      const second = run(beta);
+      await Promise.all([first.pending, second.pending]);
+
+      expect(first.next).not.toHaveBeenCalled();
+      expect(first.setMock).not.toHaveBeenCalledWith(
+        'accessUser',
+        expect.objectContaining({ role: 'owner' }),
+      );
+      expect(second.next).toHaveBeenCalled();
+      expect(second.setMock).toHaveBeenCalledWith(
+        'accessUser',
+        expect.objectContaining({ account: 'alice', role: 'owner' }),
+      );
+    });
+
+    it('rejects wallet JWTs for accounts that are not allowed', async () => {
+      const { c, jsonMock } = createFullMockContext({
+        env: { XPR_OWNER_ACCOUNT: 'boss', MOLTBOT_GATEWAY_TOKEN: gatewayToken },
+        cookies: await walletCookie('mallory'),
+      });
+      const next = vi.fn();
+
+      await createAuthMiddleware({ type: 'json' })(c, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(jsonMock).toHaveBeenCalledWith(
+        expect.objectContaining({ error: 'Unauthorized' }),
+        401,
+      );
+    });
+  });
+  describe('API keys', () => {
+    beforeEach(() => {
+      suppressConsole();
+    });
+
+    async function setup(url: string, method: string, scopes: ApiKeyScope[] = ['storage:sync']) {
+      const env = { XPR_OWNER_ACCOUNT: 'boss', AGENT_KV: createMockKV() };
+      const { secret } = await createApiKey(createMockEnv(env), 'moltbot', {
+        name: 'ci',
+        scopes,
+      });
+      return createFullMockContext({ env, url, method, headers: { 'X-API-Key': secret } });
+    }
+
+    it('allows routes covered by the key scopes', async () => {
+      const { c, setMock } = await setup(
+        'https://agent.example.com/api/admin/storage/sync',
+        'POST',
+      );
+      const next = vi.fn();
+
+      await createAuthMiddleware({ type: 'json' })(c, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(setMock).toHaveBeenCalledWith(
+        'accessUser',
+        expect.objectContaining({
+          name: 'ci',
+          apiKey: expect.objectContaining({ scopes: ['storage:sync'] }),
+        }),
+      );
+    });
+
+    it('returns 403 for routes outside the key scopes', async () => {
+      const { c, jsonMock } = await setup(
+        'https://agent.example.com/api/admin/gateway/restart',
+        'POST',
+      );
+      const next = vi.fn();
+
+      await createAuthMiddleware({ type: 'json' })(c, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(jsonMock).toHaveBeenCalledWith(
+        expect.objectContaining({ details: 'This action requires the gateway:restart scope' }),
+        403,
+      );
+    });
+
+    for (const [method, path, scope] of [
+      ['POST', '/api/admin/devices/req-1/reject', 'devices:reject'],
+      ['PATCH', '/api/admin/devices/dev-1', 'devices:rename'],
+      ['DELETE', '/api/admin/devices/dev-1', 'devices:revoke'],
+    ] as const) {
+      it(`requires ${scope} for ${method} ${path}, not devices:approve`, async () => {
+        const { c, jsonMock } = await setup(`https://agent.example.com${path}`, method, [
+          'devices:approve',
+        ]);
+        const next = vi.fn();
+
+        await createAuthMiddleware({ type: 'json' })(c, next);
+
+        expect(next).not.toHaveBeenCalled();
+        expect(jsonMock).toHaveBeenCalledWith(
+          expect.objectContaining({ details: `This action requires the ${scope} scope` }),
+          403,
+        );
+      });
+    }
+
+    it('returns 403 for routes that never accept API keys', async () => {
+      const { c, jsonMock } = await setup('https://agent.example.com/api/admin/api-keys', 'GET');
+      const next = vi.fn();
+
+      await createAuthMiddleware({ type: 'json' })(c, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ error: 'Forbidden' }), 403);
+    });
+
+    it('returns 401 for unknown keys', async () => {
+      const { c, jsonMock } = createFullMockContext({
+        env: { XPR_OWNER_ACCOUNT: 'boss', AGENT_KV: createMockKV() },
+        url: 'https://agent.example.com/api/admin/storage/sync',
+        method: 'POST',
+        headers: { 'X-API-Key': 'mbk_nope_nope' },
+      });
+      const next = vi.fn();
+
+      await createAuthMiddleware({ type: 'json' })(c, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(jsonMock).toHaveBeenCalledWith(
+        expect.objectContaining({ error: 'Unauthorized' }),
+        401,
+      );
+    });
+  });
 });
@@ -1,7 +1,24 @@
 import type { Context, Next } from 'hono';
-import type { AppEnv, MoltbotEnv } from '../types';
+import type { AppEnv, AuthUser, MoltbotEnv } from '../types';
 import { verifyAccessJWT } from './jwt';
 import { verifyWalletJWT } from './wallet';
+import {
+  extractRefreshToken,
+  getSessionTenantId,
+  isWalletSessionActive,
+  refreshWalletSession,
+} from './sessions';
+import { getRequiredScope, isApiKeyToken, verifyApiKey } from './api-keys';
+import {
+  getRequiredRole,
+  hasRole,
+  isWalletAuthConfigured,
+  resolveAccountRole,
+  type AuthRole,
+} from './roles';
+import { createLogger } from '../utils/logging';
+
+const log = createLogger('auth');
 
 /**
  * Options for creating an auth middleware
@@ -31,12 +48,13 @@ export function isE2ETestMode(env: MoltbotEnv): boolean {
  * Extract JWT from request — checks multiple sources in order:
  * 1. CF-Access-JWT-Assertion header (CF Access)
  * 2. CF_Authorization cookie (CF Access)
- * 3. Authorization: Bearer header (wallet auth)
- * 4. moltbot_session cookie (wallet auth)
+ * 3. X-API-Key header, or Authorization: Bearer mbk_... (API key)
+ * 4. Authorization: Bearer header (wallet auth)
+ * 5. moltbot_session cookie (wallet auth)
  */
 export function extractJWT(
   c: Context<AppEnv>,
-): { token: string; source: 'cf-access' | 'wallet' } | null {
+): { token: string; source: 'cf-access' | 'wallet' | 'api-key' } | null {
   // CF Access sources
   const cfHeader = c.req.header('CF-Access-JWT-Assertion');
   if (cfHeader) return { token: cfHeader, source: 'cf-access' };
@@ -49,10 +67,15 @@ export function extractJWT(
     ?.split('=')[1];
   if (cfCookie) return { token: cfCookie, source: 'cf-access' };
 
-  // Wallet auth sources
+  // API key sources
+  const apiKeyHeader = c.req.header('X-API-Key');
+  if (apiKeyHeader) return { token: apiKeyHeader, source: 'api-key' };
+
+  // Wallet auth sources (Bearer API keys are told apart by their prefix)
   const authHeader = c.req.header('Authorization');
   if (authHeader?.startsWith('Bearer ')) {
-    return { token: authHeader.slice(7), source: 'wallet' };
+    const token = authHeader.slice(7);
+    return { token, source: isApiKeyToken(token) ? 'api-key' : 'wallet' };
   }
 
   const walletCookie = cookies
@@ -65,14 +88,85 @@ export function extractJWT(
   return null;
 }
 
+/**
+ * Store the authenticated user and enforce the role required by the route group.
+ */
+function grantAccess(
+  c: Context<AppEnv>,
+  next: Next,
+  user: AuthUser,
+  type: AuthMiddlewareOptions['type'],
+) {
+  c.set('accessUser', user);
+
+  const url = new URL(c.req.url);
+  const required: AuthRole = getRequiredRole(c.req.method, url.pathname);
+  if (hasRole(user.role, required)) {
+    return next();
+  }
+
+  log.warn('Access denied', { user: user.name || user.email, role: user.role, required });
+  if (type === 'json') {
+    return c.json(
+      { error: 'Forbidden', details: `This action requires the ${required} role` },
+      403,
+    );
+  }
+  return c.html(
+    `<html><body><h1>Forbidden</h1>
+    <p>Your account (${user.role}) does not have access to this page. Required role: ${required}.</p></body></html>`,
+    403,
+  );
+}
+
+/**
+ * Authenticate an API key and enforce the scope required by the route.
+ * API keys only reach the routes listed in getRequiredScope.
+ */
+async function authenticateApiKey(c: Context<AppEnv>, next: Next, token: string) {
+  const url = new URL(c.req.url);
+  const required = getRequiredScope(c.req.method, url.pathname);
+  const key = await verifyApiKey(c.env, getSessionTenantId(c), token);
+
+  if (!key) {
+    return c.json({ error: 'Unauthorized', details: 'Invalid, expired or revoked API key' }, 401);
+  }
+  if (!required || !key.scopes.includes(required)) {
+    log.warn('API key denied', { apiKey: key.name });
+    return c.json(
+      {
+        error: 'Forbidden',
+        details: required
+          ? `This action requires the ${required} scope`
+          : 'API keys cannot access this route',
+      },
+      403,
+    );
+  }
+
+  // Every scope maps to an operator-level action; the scope check above is the real limit
+  c.set('accessUser', {
+    email: `api-key:${key.id}`,
+    name: key.name,
+    role: 'operator',
+    apiKey: { id: key.id, scopes: key.scopes },
+  });
+  return next();
+}
+
 /**
  * Create a dual-mode authentication middleware.
  *
  * Priority:
  * 1. DEV_MODE / E2E_TEST_MODE → skip auth
- * 2. XPR_OWNER_ACCOUNT set → try wallet JWT (moltbot_session cookie or Bearer token)
- * 3. CF_ACCESS_TEAM_DOMAIN set → try CF Access JWT
- * 4. Neither configured → 503 error
+ * 2. Neither wallet auth nor CF Access configured → 503 error
+ * 3. API key (X-API-Key or Bearer mbk_...) → checked against the route's scope
+ * 4. XPR_OWNER_ACCOUNT or XPR_ALLOWED_ACCOUNTS set → try wallet JWT
+ *    (moltbot_session cookie or Bearer token), then the moltbot_refresh cookie
+ * 5. CF_ACCESS_TEAM_DOMAIN set → try CF Access JWT
+ *
+ * Once authenticated, the user's role is checked against the route group
+ * (see getRequiredRole). CF Access and dev users are treated as owners.
  */
 export function createAuthMiddleware(options: AuthMiddlewareOptions) {
   const { type, redirectOnMissing = false } = options;
@@ -80,11 +174,13 @@ export function createAuthMiddleware(options: AuthMiddlewareOptions) {
   return async (c: Context<AppEnv>, next: Next) => {
     // Skip auth in dev mode or E2E test mode
     if (isDevMode(c.env) || isE2ETestMode(c.env)) {
-      c.set('accessUser', { email: 'dev@localhost', name: 'Dev User' });
+      c.set('accessUser', { email: 'dev@localhost', name: 'Dev User', role: 'owner' });
       return next();
     }
 
-    const hasWalletAuth = !!c.env.XPR_OWNER_ACCOUNT;
+    // Roles come from the request's tenant config, not the isolate-wide env
+    const tenantConfig = c.get('tenantConfig');
+    const hasWalletAuth = isWalletAuthConfigured(c.env, tenantConfig);
     const hasCfAccess = !!(c.env.CF_ACCESS_TEAM_DOMAIN && c.env.CF_ACCESS_AUD);
 
     // No auth method configured
@@ -93,7 +189,7 @@ export function createAuthMiddleware(options: AuthMiddlewareOptions) {
         return c.json(
           {
             error: 'No authentication method configured',
-            hint: 'Set XPR_OWNER_ACCOUNT for wallet auth, or CF_ACCESS_TEAM_DOMAIN + CF_ACCESS_AUD for Cloudflare Access',
+            hint: 'Set XPR_OWNER_ACCOUNT (and optionally XPR_ALLOWED_ACCOUNTS) for wallet auth, or CF_ACCESS_TEAM_DOMAIN + CF_ACCESS_AUD for Cloudflare Access',
           },
           503,
         );
@@ -107,22 +203,64 @@ export function createAuthMiddleware(options: AuthMiddlewareOptions) {
 
     const jwt = extractJWT(c);
 
+    if (jwt?.source === 'api-key') {
+      return authenticateApiKey(c, next, jwt.token);
+    }
+
     // Try wallet JWT first if wallet auth is configured
     if (hasWalletAuth && jwt) {
       // Wallet JWT can come from any source (Bearer header or moltbot_session cookie)
-      const walletPayload = await verifyWalletJWT(jwt.token, c.env);
+      const verified = await verifyWalletJWT(jwt.token, c.env);
+      // Reject tokens whose session was revoked (logout or admin action)
+      const walletPayload =
+        verified && (await isWalletSessionActive(c, verified)) ? verified : null;
       if (walletPayload) {
-        // Verify the actor matches the configured owner
-        if (walletPayload.actor === c.env.XPR_OWNER_ACCOUNT) {
-          c.set('accessUser', {
-            email: `${walletPayload.actor}@xpr.network`,
-            name: walletPayload.actor,
-          });
-          return next();
+        // The allow-list is the source of truth: accounts removed or demoted since the
+        // JWT was minted lose access immediately
+        const role = resolveAccountRole(walletPayload.actor, c.env, tenantConfig);
+        if (role) {
+          return grantAccess(
+            c,
+            next,
+            {
+              email: `${walletPayload.actor}@xpr.network`,
+              name: walletPayload.actor,
+              role,
+              account: walletPayload.actor,
+            },
+            type,
+          );
         }
-        // Valid JWT but wrong account
-        console.warn(
-          `[auth] Wallet JWT for ${walletPayload.actor} denied — expected ${c.env.XPR_OWNER_ACCOUNT}`,
+        // Valid JWT but account is no longer allowed
+        log.warn('Wallet JWT denied — account not allowed', { actor: walletPayload.actor });
+      }
+    }
+
+    // Access token missing or expired — transparently refresh from the moltbot_refresh cookie
+    if (hasWalletAuth && jwt?.source !== 'cf-access') {
+      const refreshToken = extractRefreshToken(c);
+      const refreshed = refreshToken
+        ? await refreshWalletSession(c, refreshToken, (actor) =>
+            resolveAccountRole(actor, c.env, tenantConfig),
+          )
+        : null;
+      if (refreshed) {
+        const { session, cookies } = refreshed;
+        return grantAccess(
+          c,
+          async () => {
+            await next();
+            // Upgraded WebSocket responses cannot be rebuilt to carry cookies
+            if (c.res.status === 101) return;
+            for (const cookie of cookies) c.header('Set-Cookie', cookie, { append: true });
+          },
+          {
+            email: `${session.actor}@xpr.network`,
+            name: session.actor,
+            role: session.role,
+            account: session.actor,
+          },
+          type,
         );
       }
     }
@@ -135,10 +273,14 @@ export function createAuthMiddleware(options: AuthMiddlewareOptions) {
           c.env.CF_ACCESS_TEAM_DOMAIN!,
           c.env.CF_ACCESS_AUD!,
         );
-        c.set('accessUser', { email: payload.email, name: payload.name });
-        return next();
+        return grantAccess(
+          c,
+          next,
+          { email: payload.email, name: payload.name, role: 'owner' },
+          type,
+        );
       } catch (err) {
-        console.error('[auth] CF Access JWT verification failed:', err);
+        log.error('CF Access JWT verification failed', { error: err });
       }
     }
 
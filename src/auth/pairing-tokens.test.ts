@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createPairingToken,
+  listPairingTokens,
+  revokePairingToken,
+  verifyPairingToken,
+  consumePairingToken,
+  pairingTokenCovers,
+  validatePairingTokenRequest,
+  extractPairingCookie,
+  removePairingCookie,
+  buildPairingCookie,
+  clearPairingCookie,
+} from './pairing-tokens';
+import { createMockEnv, createMockKV, createMockR2, suppressConsole } from '../test-utils';
+
+describe('pairing tokens', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  for (const [storage, makeEnv] of [
+    ['KV', () => createMockEnv({ AGENT_KV: createMockKV() })],
+    ['R2', () => createMockEnv({ MOLTBOT_BUCKET: createMockR2() })],
+  ] as const) {
+    describe(`with ${storage} storage`, () => {
+      it('mints a token that verifies until it is consumed', async () => {
+        const env = makeEnv();
+        const { token, secret } = await createPairingToken(env, 'moltbot', {
+          label: 'Phone',
+          createdBy: 'alice',
+        });
+
+        expect(secret.startsWith(`mpt_${token.id}_`)).toBe(true);
+        expect(token.scopes).toEqual(['operator.read', 'operator.write']);
+        expect(token.expiresAt - token.createdAt).toBe(10 * 60 * 1000);
+
+        const verified = await verifyPairingToken(env, 'moltbot', secret);
+        expect(verified).toMatchObject({ id: token.id, label: 'Phone' });
+        expect(verified).not.toHaveProperty('secretHash');
+
+        await consumePairingToken(env, 'moltbot', verified!);
+        expect(await verifyPairingToken(env, 'moltbot', secret)).toBeNull();
+        expect(await listPairingTokens(env, 'moltbot')).toEqual([]);
+      });
+
+      it('rejects wrong secrets, revoked tokens and other tenants', async () => {
+        const env = makeEnv();
+        const { token, secret } = await createPairingToken(env, 'alpha', {});
+
+        expect(await verifyPairingToken(env, 'alpha', `mpt_${token.id}_wrong`)).toBeNull();
+        expect(await verifyPairingToken(env, 'beta', secret)).toBeNull();
+        expect(await revokePairingToken(env, 'alpha', token.id)).toBe(true);
+        expect(await verifyPairingToken(env, 'alpha', secret)).toBeNull();
+        expect(await revokePairingToken(env, 'alpha', token.id)).toBe(false);
+      });
+    });
+  }
+
+  it('rejects and hides expired tokens', async () => {
+    const env = createMockEnv({ AGENT_KV: createMockKV() });
+    const { token, secret } = await createPairingToken(env, 'moltbot', { ttlMinutes: 1 });
+
+    // Rewrite the record as already expired
+    const raw = await env.AGENT_KV!.get(`pairtoken:moltbot:${token.id}`);
+    const record = { ...JSON.parse(raw!), expiresAt: Date.now() - 1 };
+    await env.AGENT_KV!.put(`pairtoken:moltbot:${token.id}`, JSON.stringify(record));
+
+    expect(await verifyPairingToken(env, 'moltbot', secret)).toBeNull();
+    expect(await listPairingTokens(env, 'moltbot')).toEqual([]);
+  });
+});
+
+describe('pairingTokenCovers', () => {
+  const token = {
+    id: 'abc',
+    scopes: ['operator.read' as const, 'operator.write' as const],
+    createdAt: 0,
+    expiresAt: 1,
+  };
+
+  it('covers requests for a subset of its scopes', () => {
+    expect(pairingTokenCovers(token, ['operator.read'])).toBe(true);
+    expect(pairingTokenCovers(token, undefined)).toBe(true);
+    expect(pairingTokenCovers(token, ['operator.read', 'operator.admin'])).toBe(false);
+  });
+});
+
+describe('validatePairingTokenRequest', () => {
+  it('accepts defaults and valid options', () => {
+    expect(validatePairingTokenRequest({})).toBeNull();
+    expect(
+      validatePairingTokenRequest({ label: 'Phone', scopes: ['operator.admin'], ttlMinutes: 60 }),
+    ).toBeNull();
+  });
+
+  it('rejects invalid scopes and lifetimes', () => {
+    expect(validatePairingTokenRequest({ scopes: [] })).toContain('non-empty');
+    expect(validatePairingTokenRequest({ scopes: ['devices:read'] })).toContain('Invalid scope');
+    expect(validatePairingTokenRequest({ ttlMinutes: 0 })).toContain('ttlMinutes');
+    expect(validatePairingTokenRequest({ ttlMinutes: 61 })).toContain('ttlMinutes');
+    expect(validatePairingTokenRequest({ label: 'x'.repeat(65) })).toContain('label');
+  });
+});
+
+describe('pairing cookie', () => {
+  it('round-trips the token through the Cookie header', () => {
+    const cookie = buildPairingCookie('mpt_a_b', 600);
+    expect(cookie).toContain('Max-Age=600');
+    expect(cookie).toContain('HttpOnly');
+    expect(extractPairingCookie(`moltbot_session=x; ${cookie.split(';')[0]}`)).toBe('mpt_a_b');
+    expect(extractPairingCookie('moltbot_session=x')).toBeNull();
+    expect(extractPairingCookie(null)).toBeNull();
+  });
+
+  it('strips the token from cookies sent to the gateway', () => {
+    expect(removePairingCookie('moltbot_session=x; moltbot_pairing=mpt_a_b; theme=dark')).toBe(
+      'moltbot_session=x; theme=dark',
+    );
+    expect(removePairingCookie('moltbot_pairing=mpt_a_b')).toBeNull();
+    expect(removePairingCookie(null)).toBeNull();
+  });
+
+  it('clears the cookie', () => {
+    expect(clearPairingCookie()).toMatch(/^moltbot_pairing=; Path=\/; Max-Age=0;/);
+  });
+});
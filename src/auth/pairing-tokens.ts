@@ -0,0 +1,339 @@
+/**
+ * One-time device pairing tokens, minted from the admin UI.
+ *
+ * A token looks like `mpt_{id}_{secret}` and is handed to a new device as a
+ * link (`/pair?token=...`, also rendered as a QR code) or as the
+ * `pairing_token` query parameter of its WebSocket URL. When the gateway
+ * answers that device's first `connect` with "pairing required", the proxy
+ * redeems the token and approves the pending request, provided the device
+ * asked for no more than the token's scopes (see handlePairingRequest).
+ *
+ * Only the SHA-256 hash of the secret is stored, alongside the scopes, label
+ * and expiry. Records live in AGENT_KV under `pairtoken:{tenantId}:{id}` (with
+ * a matching TTL), or in the R2 bucket under `pairing-tokens/{tenantId}/{id}.json`
+ * when no KV namespace is bound. Redeeming a token deletes it; KV is eventually
+ * consistent, so two devices racing with the same token within seconds could
+ * both get through.
+ */
+
+import type { MoltbotEnv } from '../types';
+import { createLogger } from '../utils/logging';
+
+const log = createLogger('pairing-tokens');
+
+export const PAIRING_TOKEN_PREFIX = 'mpt_';
+
+/** Name of the cookie the /pair link stores the token in */
+export const PAIRING_COOKIE = 'moltbot_pairing';
+
+/** Operator scopes a token can grant (the gateway's names) */
+export const PAIRING_TOKEN_SCOPES = [
+  'operator.read',
+  'operator.write',
+  'operator.approvals',
+  'operator.pairing',
+  'operator.admin',
+] as const;
+
+export type PairingTokenScope = (typeof PAIRING_TOKEN_SCOPES)[number];
+
+export const DEFAULT_PAIRING_TOKEN_SCOPES: PairingTokenScope[] = [
+  'operator.read',
+  'operator.write',
+];
+
+export const DEFAULT_PAIRING_TOKEN_TTL_MINUTES = 10;
+export const MAX_PAIRING_TOKEN_TTL_MINUTES = 60;
+
+export interface PairingToken {
+  id: string;
+  label?: string;
+  scopes: PairingTokenScope[];
+  createdAt: number; // ms
+  createdBy?: string;
+  expiresAt: number; // ms
+}
+
+interface StoredPairingToken extends PairingToken {
+  secretHash: string;
+}
+
+interface PairingTokenStore {
+  get(id: string): Promise<StoredPairingToken | null>;
+  put(token: StoredPairingToken): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<StoredPairingToken[]>;
+}
+
+function parseRecord(raw: string | null): StoredPairingToken | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as StoredPairingToken;
+  } catch {
+    log.error('Failed to parse pairing token record');
+    return null;
+  }
+}
+
+function kvStore(kv: KVNamespace, tenantId: string): PairingTokenStore {
+  const prefix = `pairtoken:${tenantId}:`;
+  return {
+    get: async (id) => parseRecord(await kv.get(prefix + id)),
+    put: async (token) => {
+      const ttl = Math.ceil((token.expiresAt - Date.now()) / 1000);
+      await kv.put(prefix + token.id, JSON.stringify(token), {
+        expirationTtl: Math.max(60, ttl),
+      });
+    },
+    delete: (id) => kv.delete(prefix + id),
+    list: async () => {
+      const tokens: StoredPairingToken[] = [];
+      let cursor: string | undefined;
+      do {
+        // eslint-disable-next-line no-await-in-loop -- KV list pagination is sequential
+        const page = await kv.list({ prefix, cursor });
+        // eslint-disable-next-line no-await-in-loop
+        const records = await Promise.all(page.keys.map((k) => kv.get(k.name)));
+        for (const raw of records) {
+          const record = parseRecord(raw);
+          if (record) tokens.push(record);
+        }
+        cursor = page.list_complete ? undefined : page.cursor;
+      } while (cursor);
+      return tokens;
+    },
+  };
+}
+
+function r2Store(bucket: R2Bucket, tenantId: string): PairingTokenStore {
+  const prefix = `pairing-tokens/${tenantId}/`;
+  const read = async (path: string) => {
+    const object = await bucket.get(path);
+    return object ? parseRecord(await object.text()) : null;
+  };
+  return {
+    get: (id) => read(`${prefix}${id}.json`),
+    put: async (token) => {
+      await bucket.put(`${prefix}${token.id}.json`, JSON.stringify(token));
+    },
+    delete: (id) => bucket.delete(`${prefix}${id}.json`),
+    list: async () => {
+      const tokens: StoredPairingToken[] = [];
+      let cursor: string | undefined;
+      do {
+        // eslint-disable-next-line no-await-in-loop -- R2 list pagination is sequential
+        const page = await bucket.list({ prefix, cursor });
+        // eslint-disable-next-line no-await-in-loop
+        const records = await Promise.all(page.objects.map((o) => read(o.key)));
+        for (const record of records) {
+          if (record) tokens.push(record);
+        }
+        cursor = page.truncated ? page.cursor : undefined;
+      } while (cursor);
+      return tokens;
+    },
+  };
+}
+
+function getPairingTokenStore(env: MoltbotEnv, tenantId: string): PairingTokenStore {
+  return env.AGENT_KV ? kvStore(env.AGENT_KV, tenantId) : r2Store(env.MOLTBOT_BUCKET, tenantId);
+}
+
+function randomToken(bytes: number): string {
+  const buf = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(buf)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function toPublic(stored: StoredPairingToken): PairingToken {
+  const token: Partial<StoredPairingToken> = { ...stored };
+  delete token.secretHash;
+  return token as PairingToken;
+}
+
+export function isPairingTokenScope(value: unknown): value is PairingTokenScope {
+  return PAIRING_TOKEN_SCOPES.includes(value as PairingTokenScope);
+}
+
+export function isPairingToken(token: string): boolean {
+  return token.startsWith(PAIRING_TOKEN_PREFIX);
+}
+
+/**
+ * Validate a pairing token creation request. Returns an error message, or null if valid.
+ */
+export function validatePairingTokenRequest(body: {
+  label?: unknown;
+  scopes?: unknown;
+  ttlMinutes?: unknown;
+}): string | null {
+  if (body.label !== undefined && (typeof body.label !== 'string' || body.label.length > 64)) {
+    return 'label must be a string of at most 64 characters';
+  }
+  if (body.scopes !== undefined) {
+    if (!Array.isArray(body.scopes) || body.scopes.length === 0) {
+      return 'scopes must be a non-empty array';
+    }
+    const invalid = body.scopes.find((scope) => !isPairingTokenScope(scope));
+    if (invalid !== undefined) {
+      return `Invalid scope: ${JSON.stringify(invalid)} (valid: ${PAIRING_TOKEN_SCOPES.join(', ')})`;
+    }
+  }
+  if (
+    body.ttlMinutes !== undefined &&
+    (typeof body.ttlMinutes !== 'number' ||
+      !Number.isInteger(body.ttlMinutes) ||
+      body.ttlMinutes < 1 ||
+      body.ttlMinutes > MAX_PAIRING_TOKEN_TTL_MINUTES)
+  ) {
+    return `ttlMinutes must be an integer from 1 to ${MAX_PAIRING_TOKEN_TTL_MINUTES}`;
+  }
+  return null;
+}
+
+/**
+ * Mint a pairing token. The returned `secret` is the full token and is only available once.
+ */
+export async function createPairingToken(
+  env: MoltbotEnv,
+  tenantId: string,
+  details: {
+    label?: string;
+    scopes?: PairingTokenScope[];
+    ttlMinutes?: number;
+    createdBy?: string;
+  },
+): Promise<{ token: PairingToken; secret: string }> {
+  const id = randomToken(8);
+  const secret = randomToken(24);
+  const now = Date.now();
+  const ttlMinutes = details.ttlMinutes ?? DEFAULT_PAIRING_TOKEN_TTL_MINUTES;
+
+  const stored: StoredPairingToken = {
+    id,
+    label: details.label?.trim() || undefined,
+    scopes: [...new Set(details.scopes ?? DEFAULT_PAIRING_TOKEN_SCOPES)],
+    createdAt: now,
+    createdBy: details.createdBy,
+    expiresAt: now + ttlMinutes * 60 * 1000,
+    secretHash: await sha256Hex(secret),
+  };
+  await getPairingTokenStore(env, tenantId).put(stored);
+
+  return { token: toPublic(stored), secret: `${PAIRING_TOKEN_PREFIX}${id}_${secret}` };
+}
+
+/**
+ * List a tenant's unexpired pairing tokens (newest first), without secrets.
+ */
+export async function listPairingTokens(
+  env: MoltbotEnv,
+  tenantId: string,
+): Promise<PairingToken[]> {
+  const now = Date.now();
+  const tokens = (await getPairingTokenStore(env, tenantId).list())
+    .filter((token) => token.expiresAt > now)
+    .map(toPublic);
+  tokens.sort((a, b) => b.createdAt - a.createdAt);
+  return tokens;
+}
+
+/**
+ * Revoke a pairing token. Returns false if it did not exist.
+ */
+export async function revokePairingToken(
+  env: MoltbotEnv,
+  tenantId: string,
+  id: string,
+): Promise<boolean> {
+  const store = getPairingTokenStore(env, tenantId);
+  if (!(await store.get(id))) return false;
+  await store.delete(id);
+  return true;
+}
+
+/**
+ * Look up a pairing token without using it. Returns null if it is malformed,
+ * unknown, already used or expired.
+ */
+export async function verifyPairingToken(
+  env: MoltbotEnv,
+  tenantId: string,
+  token: string,
+): Promise<PairingToken | null> {
+  if (!isPairingToken(token)) return null;
+  const [id, secret] = token.slice(PAIRING_TOKEN_PREFIX.length).split('_');
+  if (!id || !secret) return null;
+
+  const stored = await getPairingTokenStore(env, tenantId).get(id);
+  if (!stored) return null;
+  if (stored.expiresAt <= Date.now()) return null;
+  if ((await sha256Hex(secret)) !== stored.secretHash) return null;
+  return toPublic(stored);
+}
+
+/**
+ * Use up a verified pairing token so it cannot pair another device.
+ */
+export async function consumePairingToken(
+  env: MoltbotEnv,
+  tenantId: string,
+  token: PairingToken,
+): Promise<void> {
+  await getPairingTokenStore(env, tenantId).delete(token.id);
+}
+
+/**
+ * Check whether a pairing request asks for no more than a token grants.
+ * Requests without scopes (e.g. nodes) are covered by any token.
+ */
+export function pairingTokenCovers(token: PairingToken, requestedScopes: string[] = []): boolean {
+  return requestedScopes.every((scope) => token.scopes.includes(scope as PairingTokenScope));
+}
+
+/**
+ * Read the pairing token from the moltbot_pairing cookie.
+ */
+export function extractPairingCookie(cookieHeader: string | null): string | null {
+  return (
+    (cookieHeader || '')
+      .split(';')
+      .find((cookie) => cookie.trim().startsWith(`${PAIRING_COOKIE}=`))
+      ?.split('=')[1]
+      ?.trim() || null
+  );
+}
+
+/**
+ * The Cookie header without the moltbot_pairing cookie, so requests proxied to
+ * the gateway never carry the token. Null if no other cookie is left.
+ */
+export function removePairingCookie(cookieHeader: string | null): string | null {
+  const cookies = (cookieHeader || '')
+    .split(';')
+    .map((cookie) => cookie.trim())
+    .filter((cookie) => cookie && !cookie.startsWith(`${PAIRING_COOKIE}=`));
+  return cookies.length > 0 ? cookies.join('; ') : null;
+}
+
+/**
+ * Set-Cookie value that hands a pairing token to the device's WebSocket connect.
+ */
+export function buildPairingCookie(token: string, maxAgeSeconds: number): string {
+  return `${PAIRING_COOKIE}=${token}; Path=/; Max-Age=${maxAgeSeconds}; SameSite=Lax; Secure; HttpOnly`;
+}
+
+/**
+ * Set-Cookie value that removes the pairing cookie once its token was used.
+ */
+export function clearPairingCookie(): string {
+  return `${PAIRING_COOKIE}=; Path=/; Max-Age=0; SameSite=Lax; Secure; HttpOnly`;
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getRequiredRole,
+  hasRole,
+  isWalletAuthConfigured,
+  parseAccountList,
+  formatAccountList,
+  resolveAccountRole,
+  validateAccountGrants,
+} from './roles';
+import { createMockEnv } from '../test-utils';
+
+describe('parseAccountList', () => {
+  it('returns empty array for undefined or empty input', () => {
+    expect(parseAccountList(undefined)).toEqual([]);
+    expect(parseAccountList('')).toEqual([]);
+  });
+
+  it('parses accounts with roles', () => {
+    expect(parseAccountList('alice:operator, bob:viewer')).toEqual([
+      { account: 'alice', role: 'operator' },
+      { account: 'bob', role: 'viewer' },
+    ]);
+  });
+
+  it('defaults to viewer when no role is given', () => {
+    expect(parseAccountList('carol')).toEqual([{ account: 'carol', role: 'viewer' }]);
+  });
+
+  it('skips invalid account names and unknown roles', () => {
+    expect(parseAccountList('Not-Valid:owner,dave:admin,erin.x:owner')).toEqual([
+      { account: 'erin.x', role: 'owner' },
+    ]);
+  });
+
+  it('round-trips through formatAccountList', () => {
+    const raw = 'alice:operator,bob:viewer';
+    expect(formatAccountList(parseAccountList(raw))).toBe(raw);
+  });
+});
+
+describe('resolveAccountRole', () => {
+  it('treats XPR_OWNER_ACCOUNT as owner', () => {
+    const env = createMockEnv({ XPR_OWNER_ACCOUNT: 'boss', XPR_ALLOWED_ACCOUNTS: 'boss:viewer' });
+    expect(resolveAccountRole('boss', env)).toBe('owner');
+  });
+
+  it('returns the allow-listed role', () => {
+    const env = createMockEnv({ XPR_ALLOWED_ACCOUNTS: 'alice:operator' });
+    expect(resolveAccountRole('alice', env)).toBe('operator');
+  });
+
+  it('returns null for unknown accounts', () => {
+    const env = createMockEnv({ XPR_OWNER_ACCOUNT: 'boss' });
+    expect(resolveAccountRole('mallory', env)).toBeNull();
+  });
+});
+
+describe('isWalletAuthConfigured', () => {
+  it('is true with only an allow-list', () => {
+    expect(isWalletAuthConfigured(createMockEnv({ XPR_ALLOWED_ACCOUNTS: 'alice:viewer' }))).toBe(
+      true,
+    );
+  });
+
+  it('is false with neither owner nor allow-list', () => {
+    expect(isWalletAuthConfigured(createMockEnv())).toBe(false);
+  });
+});
+
+describe('hasRole', () => {
+  it('orders roles owner > operator > viewer', () => {
+    expect(hasRole('owner', 'operator')).toBe(true);
+    expect(hasRole('operator', 'operator')).toBe(true);
+    expect(hasRole('viewer', 'operator')).toBe(false);
+    expect(hasRole(undefined, 'viewer')).toBe(false);
+  });
+});
+
+describe('getRequiredRole', () => {
+  it('requires owner for debug routes', () => {
+    expect(getRequiredRole('GET', '/debug/env')).toBe('owner');
+  });
+
+  it('allows viewers to read the admin API but not change it', () => {
+    expect(getRequiredRole('GET', '/api/admin/devices')).toBe('viewer');
+    expect(getRequiredRole('POST', '/api/admin/storage/sync')).toBe('operator');
+  });
+
+  it('requires owner to manage API keys', () => {
+    expect(getRequiredRole('GET', '/api/admin/api-keys')).toBe('owner');
+    expect(getRequiredRole('POST', '/api/admin/api-keys')).toBe('owner');
+  });
+
+  it('requires owner to read the audit log', () => {
+    expect(getRequiredRole('GET', '/api/admin/audit')).toBe('owner');
+    expect(getRequiredRole('GET', '/api/admin/audit/verify')).toBe('owner');
+  });
+
+  it('requires owner to read rate limit counters', () => {
+    expect(getRequiredRole('GET', '/api/admin/rate-limits')).toBe('owner');
+  });
+
+  it('requires operator to stream gateway logs', () => {
+    expect(getRequiredRole('GET', '/api/admin/logs/stream')).toBe('operator');
+  });
+
+  it('requires operator to list and disconnect connections', () => {
+    expect(getRequiredRole('GET', '/api/admin/connections')).toBe('operator');
+    expect(getRequiredRole('DELETE', '/api/admin/connections/abc')).toBe('operator');
+  });
+
+  it('requires operator to read gateway crash history', () => {
+    expect(getRequiredRole('GET', '/api/admin/gateway/history')).toBe('operator');
+  });
+
+  it('requires owner to read and edit files', () => {
+    expect(getRequiredRole('GET', '/api/admin/files/config/openclaw.json')).toBe('owner');
+    expect(getRequiredRole('PUT', '/api/admin/files/workspace/notes.md')).toBe('owner');
+  });
+
+  it('requires owner to manage custom domains', () => {
+    expect(getRequiredRole('GET', '/api/admin/domains')).toBe('viewer');
+    expect(getRequiredRole('POST', '/api/admin/domains/bot.example.com/verify')).toBe('owner');
+  });
+
+  it('requires owner to change the account allow-list', () => {
+    expect(getRequiredRole('GET', '/api/admin/accounts')).toBe('viewer');
+    expect(getRequiredRole('PUT', '/api/admin/accounts')).toBe('owner');
+  });
+
+  it('requires viewer for the admin UI and operator for the Control UI', () => {
+    expect(getRequiredRole('GET', '/_admin/')).toBe('viewer');
+    expect(getRequiredRole('GET', '/')).toBe('operator');
+  });
+});
+
+describe('validateAccountGrants', () => {
+  it('accepts a valid list', () => {
+    expect(validateAccountGrants([{ account: 'alice', role: 'operator' }])).toBeNull();
+  });
+
+  it('rejects non-arrays, bad names, bad roles and duplicates', () => {
+    expect(validateAccountGrants('alice')).toContain('must be an array');
+    expect(validateAccountGrants([{ account: 'BAD', role: 'viewer' }])).toContain(
+      'Invalid account',
+    );
+    expect(validateAccountGrants([{ account: 'alice', role: 'admin' }])).toContain('Invalid role');
+    expect(
+      validateAccountGrants([
+        { account: 'alice', role: 'viewer' },
+        { account: 'alice', role: 'owner' },
+      ]),
+    ).toContain('Duplicate');
+  });
+});
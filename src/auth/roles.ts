@@ -0,0 +1,165 @@
+/**
+ * Role-based access control for wallet-authenticated users.
+ *
+ * A gateway can be shared by several XPR accounts. Each account is granted one
+ * of three roles, ordered from most to least privileged:
+ * - owner:    everything, including debug routes and account management
+ * - operator: Control UI, device management, gateway restarts, storage sync
+ * - viewer:   read-only access to the admin UI and admin API
+ *
+ * The owner account is always an owner. In multi-tenant mode the owner and
+ * additional accounts come from the request's tenant config (`xprOwnerAccount`
+ * and `accounts`); a single-tenant worker uses the XPR_OWNER_ACCOUNT and
+ * XPR_ALLOWED_ACCOUNTS secrets.
+ */
+
+import type { MoltbotEnv } from '../types';
+import type { TenantConfig } from '../tenant';
+
+export type AuthRole = 'owner' | 'operator' | 'viewer';
+
+export interface AccountGrant {
+  account: string;
+  role: AuthRole;
+}
+
+const ROLE_RANK: Record<AuthRole, number> = {
+  viewer: 0,
+  operator: 1,
+  owner: 2,
+};
+
+/** EOSIO account names: 1-12 chars of a-z, 1-5 and dots */
+const ACCOUNT_NAME_RE = /^[a-z1-5.]{1,12}$/;
+
+export function isAuthRole(value: unknown): value is AuthRole {
+  return value === 'owner' || value === 'operator' || value === 'viewer';
+}
+
+/**
+ * Check whether `role` grants at least the privileges of `required`.
+ */
+export function hasRole(role: AuthRole | undefined, required: AuthRole): boolean {
+  if (!role) return false;
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Parse an account allow-list of the form `alice:operator,bob:viewer`.
+ * Entries without a role default to viewer. Invalid entries are skipped.
+ */
+export function parseAccountList(raw: string | undefined): AccountGrant[] {
+  if (!raw) return [];
+
+  const grants: AccountGrant[] = [];
+  for (const entry of raw.split(',')) {
+    const [account, role = 'viewer'] = entry.trim().split(':');
+    if (!account || !ACCOUNT_NAME_RE.test(account)) continue;
+    if (!isAuthRole(role)) continue;
+    grants.push({ account, role });
+  }
+  return grants;
+}
+
+/**
+ * Serialize grants back into the XPR_ALLOWED_ACCOUNTS format.
+ */
+export function formatAccountList(grants: AccountGrant[]): string {
+  return grants.map((g) => `${g.account}:${g.role}`).join(',');
+}
+
+/**
+ * Validate an account grant list (e.g. from an admin API request body).
+ * Returns an error message, or null if the list is valid.
+ */
+export function validateAccountGrants(value: unknown): string | null {
+  if (!Array.isArray(value)) return 'accounts must be an array';
+
+  const seen = new Set<string>();
+  for (const grant of value as Array<Partial<AccountGrant>>) {
+    if (!grant || typeof grant.account !== 'string' || !ACCOUNT_NAME_RE.test(grant.account)) {
+      return `Invalid account name: ${JSON.stringify(grant?.account)}`;
+    }
+    if (!isAuthRole(grant.role)) {
+      return `Invalid role for ${grant.account}: ${JSON.stringify(grant.role)}`;
+    }
+    if (seen.has(grant.account)) {
+      return `Duplicate account: ${grant.account}`;
+    }
+    seen.add(grant.account);
+  }
+  return null;
+}
+
+/**
+ * The accounts allowed to access this gateway, owner first. Reads the tenant
+ * config when there is one, never the env: the env object is shared by every
+ * request in the isolate, whichever tenant it is for.
+ */
+export function getAccountGrants(env: MoltbotEnv, tenantConfig?: TenantConfig): AccountGrant[] {
+  const owner = tenantConfig ? tenantConfig.xprOwnerAccount : env.XPR_OWNER_ACCOUNT;
+  const grants = tenantConfig
+    ? (tenantConfig.accounts ?? [])
+    : parseAccountList(env.XPR_ALLOWED_ACCOUNTS);
+  return [
+    ...(owner ? [{ account: owner, role: 'owner' as const }] : []),
+    ...grants.filter((g) => g.account !== owner),
+  ];
+}
+
+/**
+ * Resolve the role of an XPR account for this gateway.
+ * Returns null if the account is not allowed at all.
+ */
+export function resolveAccountRole(
+  account: string,
+  env: MoltbotEnv,
+  tenantConfig?: TenantConfig,
+): AuthRole | null {
+  const grant = getAccountGrants(env, tenantConfig).find((g) => g.account === account);
+  return grant?.role ?? null;
+}
+
+/**
+ * Check whether wallet auth is configured (an owner or any allow-listed account).
+ */
+export function isWalletAuthConfigured(env: MoltbotEnv, tenantConfig?: TenantConfig): boolean {
+  return getAccountGrants(env, tenantConfig).length > 0;
+}
+
+/**
+ * Minimum role required to access a protected route group.
+ *
+ * - /debug/*                 → owner
+ * - /api/admin/accounts      → owner for changes, viewer to read
+ * - /api/admin/sessions      → owner (lists every user's sessions)
+ * - /api/admin/api-keys      → owner (keys are long-lived credentials)
+ * - /api/admin/audit         → owner (shows every user's activity)
+ * - /api/admin/domains       → owner for changes, viewer to read
+ * - /api/admin/rate-limits   → owner (lists client IPs)
+ * - /api/admin/logs          → operator (gateway output can include conversation content)
+ * - /api/admin/connections   → operator (lists users and client IPs)
+ * - /api/admin/gateway/history → operator (includes gateway stderr)
+ * - /api/admin/files         → owner (config files hold credentials)
+ * - /api/admin/*             → operator for changes, viewer to read
+ * - /_admin/*                → viewer
+ * - everything else (proxied Control UI + WebSocket) → operator
+ */
+export function getRequiredRole(method: string, pathname: string): AuthRole {
+  const isRead = method === 'GET' || method === 'HEAD';
+
+  if (pathname === '/debug' || pathname.startsWith('/debug/')) return 'owner';
+  if (pathname.startsWith('/api/admin/accounts')) return isRead ? 'viewer' : 'owner';
+  if (pathname.startsWith('/api/admin/sessions')) return 'owner';
+  if (pathname.startsWith('/api/admin/api-keys')) return 'owner';
+  if (pathname.startsWith('/api/admin/audit')) return 'owner';
+  if (pathname.startsWith('/api/admin/domains')) return isRead ? 'viewer' : 'owner';
+  if (pathname.startsWith('/api/admin/rate-limits')) return 'owner';
+  if (pathname.startsWith('/api/admin/logs')) return 'operator';
+  if (pathname.startsWith('/api/admin/connections')) return 'operator';
+  if (pathname.startsWith('/api/admin/gateway/history')) return 'operator';
+  if (pathname === '/api/admin/files' || pathname.startsWith('/api/admin/files/')) return 'owner';
+  if (pathname.startsWith('/api/admin/')) return isRead ? 'viewer' : 'operator';
+  if (pathname === '/_admin' || pathname.startsWith('/_admin/')) return 'viewer';
+  return 'operator';
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  createSession,
+  getSession,
+  rotateRefreshToken,
+  revokeSession,
+  revokeSessionByRefreshToken,
+  listSessions,
+  buildSessionCookies,
+  clearSessionCookies,
+  REFRESH_GRACE_MS,
+} from './sessions';
+import { createMockKV, suppressConsole } from '../test-utils';
+
+const details = { actor: 'alice', permission: 'active', role: 'operator' as const };
+const rotationKey = 'test-gateway-token';
+
+describe('wallet sessions', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('creates a session retrievable by ID without exposing the refresh hash', async () => {
+    const kv = createMockKV();
+    const { session, refreshToken } = await createSession(kv, 'moltbot', details);
+
+    expect(refreshToken.startsWith(`${session.id}.`)).toBe(true);
+    const loaded = await getSession(kv, 'moltbot', session.id);
+    expect(loaded).toMatchObject({ id: session.id, actor: 'alice', role: 'operator' });
+    expect(loaded).not.toHaveProperty('refreshHash');
+  });
+
+  it('scopes sessions by tenant', async () => {
+    const kv = createMockKV();
+    const { session } = await createSession(kv, 'alice', details);
+
+    expect(await getSession(kv, 'bob', session.id)).toBeNull();
+  });
+
+  it('rotates refresh tokens', async () => {
+    const kv = createMockKV();
+    const { refreshToken } = await createSession(kv, 'moltbot', details);
+
+    const rotated = await rotateRefreshToken(kv, 'moltbot', refreshToken, rotationKey);
+    expect(rotated).not.toBeNull();
+    expect(rotated!.refreshToken).not.toBe(refreshToken);
+
+    // The new token works
+    expect(
+      await rotateRefreshToken(kv, 'moltbot', rotated!.refreshToken, rotationKey),
+    ).not.toBeNull();
+  });
+
+  it('gives concurrent refreshes with the same token the same successor', async () => {
+    const kv = createMockKV();
+    const { session, refreshToken } = await createSession(kv, 'moltbot', details);
+
+    // Parallel requests that all read the record before any of them wrote it
+    const results = await Promise.all(
+      [1, 2, 3].map(() => rotateRefreshToken(kv, 'moltbot', refreshToken, rotationKey)),
+    );
+    // A request arriving after the rotation was stored
+    const late = await rotateRefreshToken(kv, 'moltbot', refreshToken, rotationKey);
+
+    const successors = new Set([...results, late].map((r) => r?.refreshToken));
+    expect(successors.size).toBe(1);
+    expect(successors.has(undefined)).toBe(false);
+    expect(await getSession(kv, 'moltbot', session.id)).not.toBeNull();
+
+    // Whichever response the browser kept, its token still works
+    expect(await rotateRefreshToken(kv, 'moltbot', late!.refreshToken, rotationKey)).not.toBeNull();
+  });
+
+  describe('after the grace period', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('revokes the session when an old refresh token is replayed', async () => {
+      vi.useFakeTimers();
+      const kv = createMockKV();
+      const { session, refreshToken } = await createSession(kv, 'moltbot', details);
+      await rotateRefreshToken(kv, 'moltbot', refreshToken, rotationKey);
+
+      vi.advanceTimersByTime(REFRESH_GRACE_MS);
+      expect(await rotateRefreshToken(kv, 'moltbot', refreshToken, rotationKey)).toBeNull();
+      expect(await getSession(kv, 'moltbot', session.id)).toBeNull();
+    });
+  });
+
+  it('revokes the session when a token older than the previous one is replayed', async () => {
+    const kv = createMockKV();
+    const { session, refreshToken } = await createSession(kv, 'moltbot', details);
+    const first = await rotateRefreshToken(kv, 'moltbot', refreshToken, rotationKey);
+    await rotateRefreshToken(kv, 'moltbot', first!.refreshToken, rotationKey);
+
+    expect(await rotateRefreshToken(kv, 'moltbot', refreshToken, rotationKey)).toBeNull();
+    expect(await getSession(kv, 'moltbot', session.id)).toBeNull();
+  });
+
+  it('rejects malformed refresh tokens', async () => {
+    const kv = createMockKV();
+    expect(await rotateRefreshToken(kv, 'moltbot', 'garbage', rotationKey)).toBeNull();
+  });
+
+  it('revokes sessions', async () => {
+    const kv = createMockKV();
+    const { session, refreshToken } = await createSession(kv, 'moltbot', details);
+
+    expect(await revokeSession(kv, 'moltbot', session.id)).toBe(true);
+    expect(await revokeSession(kv, 'moltbot', session.id)).toBe(false);
+    expect(await rotateRefreshToken(kv, 'moltbot', refreshToken, rotationKey)).toBeNull();
+  });
+
+  it('revokes by refresh token only when its secret matches', async () => {
+    const kv = createMockKV();
+    const { session, refreshToken } = await createSession(kv, 'moltbot', details);
+
+    // Knowing the session ID is not enough
+    expect(await revokeSessionByRefreshToken(kv, 'moltbot', `${session.id}.guess`)).toBeNull();
+    expect(await revokeSessionByRefreshToken(kv, 'moltbot', session.id)).toBeNull();
+    expect(await getSession(kv, 'moltbot', session.id)).not.toBeNull();
+
+    // The token just replaced by a refresh still logs out
+    await rotateRefreshToken(kv, 'moltbot', refreshToken, rotationKey);
+    expect(await revokeSessionByRefreshToken(kv, 'moltbot', refreshToken)).toBe(session.id);
+    expect(await getSession(kv, 'moltbot', session.id)).toBeNull();
+  });
+
+  it('lists sessions for a tenant', async () => {
+    const kv = createMockKV();
+    await createSession(kv, 'moltbot', details);
+    await createSession(kv, 'moltbot', { ...details, actor: 'bob' });
+    await createSession(kv, 'other', details);
+
+    const sessions = await listSessions(kv, 'moltbot');
+    expect(sessions).toHaveLength(2);
+    expect(sessions.map((s) => s.actor)).toEqual(expect.arrayContaining(['alice', 'bob']));
+  });
+});
+
+describe('session cookies', () => {
+  it('marks the refresh cookie HttpOnly', () => {
+    const [access, refresh] = buildSessionCookies('access.jwt', 900, 'id.secret');
+    expect(access).toContain('moltbot_session=access.jwt');
+    expect(access).toContain('Max-Age=900');
+    expect(access).not.toContain('HttpOnly');
+    expect(refresh).toContain('moltbot_refresh=id.secret');
+    expect(refresh).toContain('HttpOnly');
+  });
+
+  it('clears both cookies', () => {
+    const cookies = clearSessionCookies();
+    expect(cookies).toHaveLength(2);
+    expect(cookies.every((c) => c.includes('Max-Age=0'))).toBe(true);
+  });
+});
@@ -0,0 +1,444 @@
+/**
+ * Wallet session store — revocable sessions with refresh token rotation.
+ *
+ * Each successful wallet login creates a session record in AGENT_KV under
+ * `session:{tenantId}:{sessionId}`. The session ID is carried as the `jti`
+ * claim of a short-lived access JWT (15 min). A long-lived opaque refresh
+ * token (`{sessionId}.{secret}`, 7 days) is exchanged for new access tokens;
+ * only its SHA-256 hash is stored, and it is rotated on every use.
+ *
+ * Rotation is a KV read followed by a write, and browsers refresh from several
+ * parallel requests with the same cookie. So the next secret is derived from
+ * the current one (HMAC with the gateway token) rather than random: requests
+ * rotating the same token agree on the result, even when they read the record
+ * before either wrote it. The rotated-out token keeps working for
+ * REFRESH_GRACE_MS and yields the same successor; presenting it later counts
+ * as reuse and revokes the session.
+ *
+ * Deleting the KV record revokes the session: access tokens are rejected on
+ * their next request and the refresh token can no longer be used. KV is
+ * eventually consistent, so revocation can take up to ~60s to reach every
+ * Cloudflare location.
+ *
+ * Without AGENT_KV there is no session store and wallet auth falls back to
+ * stateless 24h JWTs (logout only clears the cookie).
+ */
+
+import type { Context } from 'hono';
+import type { AppEnv, MoltbotEnv } from '../types';
+import type { AuthRole } from './roles';
+import { signWalletJWT, type WalletJWTPayload } from './wallet';
+import { createLogger } from '../utils/logging';
+
+const log = createLogger('sessions');
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // 15 minutes
+export const REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+export const REFRESH_GRACE_MS = 60 * 1000; // covers racing requests and KV propagation
+
+export const SESSION_COOKIE = 'moltbot_session';
+export const REFRESH_COOKIE = 'moltbot_refresh';
+
+export interface WalletSession {
+  id: string;
+  actor: string;
+  permission: string;
+  role: AuthRole;
+  createdAt: number; // ms
+  refreshedAt: number; // ms
+  expiresAt: number; // ms — when the refresh token stops working
+  ip?: string;
+  userAgent?: string;
+}
+
+interface StoredSession extends WalletSession {
+  refreshHash: string;
+  previousRefreshHash?: string; // rotated out at refreshedAt; accepted during the grace period
+}
+
+/** Session as returned by the admin API (no secrets) */
+export type SessionSummary = WalletSession;
+
+/**
+ * Get the session store for this environment, or null if sessions are stateless.
+ */
+export function getSessionStore(env: MoltbotEnv): KVNamespace | null {
+  return env.AGENT_KV ?? null;
+}
+
+/**
+ * Tenant ID used to scope session keys (agent name, or 'moltbot' in single-tenant mode).
+ */
+export function getSessionTenantId(c: Context<AppEnv>): string {
+  return c.get('agentName') || 'moltbot';
+}
+
+function sessionKey(tenantId: string, sessionId: string): string {
+  return `session:${tenantId}:${sessionId}`;
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function randomToken(bytes: number): string {
+  return base64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+/**
+ * The refresh secret that replaces `secret`. Only the holder of the current
+ * secret and the worker (which knows `rotationKey`) can compute it.
+ */
+async function nextRefreshSecret(secret: string, rotationKey: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(rotationKey),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`refresh:${secret}`));
+  return base64Url(new Uint8Array(signature));
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function toSummary(stored: StoredSession): SessionSummary {
+  const session: Partial<StoredSession> = { ...stored };
+  delete session.refreshHash;
+  delete session.previousRefreshHash;
+  return session as SessionSummary;
+}
+
+async function putSession(kv: KVNamespace, tenantId: string, session: StoredSession) {
+  const ttl = Math.max(60, Math.ceil((session.expiresAt - Date.now()) / 1000));
+  await kv.put(sessionKey(tenantId, session.id), JSON.stringify(session), {
+    expirationTtl: ttl,
+  });
+}
+
+async function readSession(
+  kv: KVNamespace,
+  tenantId: string,
+  sessionId: string,
+): Promise<StoredSession | null> {
+  const raw = await kv.get(sessionKey(tenantId, sessionId));
+  if (!raw) return null;
+
+  try {
+    const session = JSON.parse(raw) as StoredSession;
+    return session.expiresAt > Date.now() ? session : null;
+  } catch {
+    log.error('Failed to parse session', { sessionId });
+    return null;
+  }
+}
+
+/**
+ * Create a new session and its initial refresh token.
+ */
+export async function createSession(
+  kv: KVNamespace,
+  tenantId: string,
+  details: Pick<WalletSession, 'actor' | 'permission' | 'role' | 'ip' | 'userAgent'>,
+): Promise<{ session: WalletSession; refreshToken: string }> {
+  const id = crypto.randomUUID();
+  const secret = randomToken(32);
+  const now = Date.now();
+
+  const stored: StoredSession = {
+    ...details,
+    id,
+    createdAt: now,
+    refreshedAt: now,
+    expiresAt: now + REFRESH_TOKEN_TTL_SECONDS * 1000,
+    refreshHash: await sha256Hex(secret),
+  };
+  await putSession(kv, tenantId, stored);
+
+  return { session: toSummary(stored), refreshToken: `${id}.${secret}` };
+}
+
+/**
+ * Look up an active session by ID.
+ */
+export async function getSession(
+  kv: KVNamespace,
+  tenantId: string,
+  sessionId: string,
+): Promise<WalletSession | null> {
+  const stored = await readSession(kv, tenantId, sessionId);
+  return stored ? toSummary(stored) : null;
+}
+
+/**
+ * Exchange a refresh token for its successor (rotation). The old token stops
+ * working after REFRESH_GRACE_MS; until then it yields the same successor.
+ * `rotationKey` must stay the same for the session (the gateway token).
+ * Returns null if the token is malformed, unknown, revoked or expired.
+ */
+export async function rotateRefreshToken(
+  kv: KVNamespace,
+  tenantId: string,
+  refreshToken: string,
+  rotationKey: string,
+): Promise<{ session: WalletSession; refreshToken: string } | null> {
+  const [sessionId, secret] = refreshToken.split('.');
+  if (!sessionId || !secret) return null;
+
+  const stored = await readSession(kv, tenantId, sessionId);
+  if (!stored) return null;
+
+  const hash = await sha256Hex(secret);
+  const nextSecret = await nextRefreshSecret(secret, rotationKey);
+  const nextHash = await sha256Hex(nextSecret);
+  const next = `${sessionId}.${nextSecret}`;
+
+  // Another request already rotated this token: hand out the same successor
+  if (
+    hash === stored.previousRefreshHash &&
+    nextHash === stored.refreshHash &&
+    Date.now() - stored.refreshedAt < REFRESH_GRACE_MS
+  ) {
+    return { session: toSummary(stored), refreshToken: next };
+  }
+
+  if (hash !== stored.refreshHash) {
+    // A stale refresh token was replayed — treat the session as compromised
+    log.warn('Refresh token reuse detected, revoking session', { sessionId });
+    await kv.delete(sessionKey(tenantId, sessionId));
+    return null;
+  }
+
+  const updated: StoredSession = {
+    ...stored,
+    refreshedAt: Date.now(),
+    refreshHash: nextHash,
+    previousRefreshHash: hash,
+  };
+  await putSession(kv, tenantId, updated);
+
+  return { session: toSummary(updated), refreshToken: next };
+}
+
+/**
+ * Revoke a session. Returns false if it did not exist.
+ */
+export async function revokeSession(
+  kv: KVNamespace,
+  tenantId: string,
+  sessionId: string,
+): Promise<boolean> {
+  const key = sessionKey(tenantId, sessionId);
+  const existing = await kv.get(key);
+  if (!existing) return false;
+  await kv.delete(key);
+  return true;
+}
+
+/**
+ * Revoke the session a refresh token belongs to, if the token's secret is the
+ * session's current one or the one it just replaced. Returns the session ID,
+ * or null if nothing was revoked.
+ */
+export async function revokeSessionByRefreshToken(
+  kv: KVNamespace,
+  tenantId: string,
+  refreshToken: string,
+): Promise<string | null> {
+  const [sessionId, secret] = refreshToken.split('.');
+  if (!sessionId || !secret) return null;
+
+  const stored = await readSession(kv, tenantId, sessionId);
+  if (!stored) return null;
+
+  const hash = await sha256Hex(secret);
+  if (hash !== stored.refreshHash && hash !== stored.previousRefreshHash) return null;
+  await kv.delete(sessionKey(tenantId, sessionId));
+  return sessionId;
+}
+
+/**
+ * List active sessions for a tenant (most recently refreshed first).
+ */
+export async function listSessions(kv: KVNamespace, tenantId: string): Promise<SessionSummary[]> {
+  const prefix = `session:${tenantId}:`;
+  const sessions: SessionSummary[] = [];
+  let cursor: string | undefined;
+
+  do {
+    // eslint-disable-next-line no-await-in-loop -- KV list pagination is sequential
+    const page = await kv.list({ prefix, cursor });
+    // eslint-disable-next-line no-await-in-loop
+    const records = await Promise.all(
+      page.keys.map((k) => readSession(kv, tenantId, k.name.slice(prefix.length))),
+    );
+    for (const record of records) {
+      if (record) sessions.push(toSummary(record));
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  sessions.sort((a, b) => b.refreshedAt - a.refreshedAt);
+  return sessions;
+}
+
+/**
+ * Read the refresh token from the moltbot_refresh cookie.
+ */
+export function extractRefreshToken(c: Context<AppEnv>): string | null {
+  const cookies = c.req.raw.headers.get('Cookie') || '';
+  return (
+    cookies
+      .split(';')
+      .find((cookie) => cookie.trim().startsWith(`${REFRESH_COOKIE}=`))
+      ?.split('=')[1]
+      ?.trim() || null
+  );
+}
+
+/**
+ * Build Set-Cookie values for an access token and (optionally) a refresh token.
+ * The refresh cookie is HttpOnly — only the worker ever reads it.
+ */
+export function buildSessionCookies(
+  accessToken: string,
+  accessTtlSeconds: number,
+  refreshToken?: string,
+): string[] {
+  const cookies = [
+    `${SESSION_COOKIE}=${accessToken}; Path=/; Max-Age=${accessTtlSeconds}; SameSite=Strict; Secure`,
+  ];
+  if (refreshToken) {
+    cookies.push(
+      `${REFRESH_COOKIE}=${refreshToken}; Path=/; Max-Age=${REFRESH_TOKEN_TTL_SECONDS}; SameSite=Strict; Secure; HttpOnly`,
+    );
+  }
+  return cookies;
+}
+
+/**
+ * Build Set-Cookie values that clear both session cookies.
+ */
+export function clearSessionCookies(): string[] {
+  return [
+    `${SESSION_COOKIE}=; Path=/; Max-Age=0; SameSite=Strict; Secure`,
+    `${REFRESH_COOKIE}=; Path=/; Max-Age=0; SameSite=Strict; Secure; HttpOnly`,
+  ];
+}
+
+/** Tokens handed to the client after login or refresh */
+export interface IssuedTokens {
+  token: string;
+  expiresIn: number; // access token lifetime in seconds
+  refreshToken?: string; // absent when there is no session store
+  sessionId?: string;
+  cookies: string[]; // Set-Cookie values for browser clients
+}
+
+/**
+ * Start a wallet session after a successful login and mint its tokens.
+ * Falls back to a stateless 24h JWT when no session store is bound.
+ */
+export async function startWalletSession(
+  c: Context<AppEnv>,
+  actor: string,
+  permission: string,
+  role: AuthRole,
+): Promise<IssuedTokens> {
+  const kv = getSessionStore(c.env);
+  if (!kv) {
+    const expiresIn = 24 * 60 * 60;
+    const token = await signWalletJWT(actor, permission, role, c.env, { expiresIn });
+    return { token, expiresIn, cookies: buildSessionCookies(token, expiresIn) };
+  }
+
+  const { session, refreshToken } = await createSession(kv, getSessionTenantId(c), {
+    actor,
+    permission,
+    role,
+    ip: c.req.header('CF-Connecting-IP'),
+    userAgent: c.req.header('User-Agent')?.slice(0, 200),
+  });
+  const expiresIn = ACCESS_TOKEN_TTL_SECONDS;
+  const token = await signWalletJWT(actor, permission, role, c.env, {
+    sessionId: session.id,
+    expiresIn,
+  });
+
+  return {
+    token,
+    expiresIn,
+    refreshToken,
+    sessionId: session.id,
+    cookies: buildSessionCookies(token, expiresIn, refreshToken),
+  };
+}
+
+/**
+ * Rotate a refresh token and mint a new access token for its session.
+ * The caller must re-check the account's current role before trusting `role`.
+ */
+export async function refreshWalletSession(
+  c: Context<AppEnv>,
+  refreshToken: string,
+  role: (actor: string) => AuthRole | null,
+): Promise<(IssuedTokens & { session: WalletSession }) | null> {
+  const kv = getSessionStore(c.env);
+  const rotationKey = c.env.MOLTBOT_GATEWAY_TOKEN;
+  if (!kv || !rotationKey) return null;
+
+  const tenantId = getSessionTenantId(c);
+  const rotated = await rotateRefreshToken(kv, tenantId, refreshToken, rotationKey);
+  if (!rotated) return null;
+
+  const currentRole = role(rotated.session.actor);
+  if (!currentRole) {
+    // Account was removed from the allow-list — end the session
+    await kv.delete(sessionKey(tenantId, rotated.session.id));
+    return null;
+  }
+
+  const session = { ...rotated.session, role: currentRole };
+  const expiresIn = ACCESS_TOKEN_TTL_SECONDS;
+  const token = await signWalletJWT(session.actor, session.permission, currentRole, c.env, {
+    sessionId: session.id,
+    expiresIn,
+  });
+
+  return {
+    session,
+    token,
+    expiresIn,
+    refreshToken: rotated.refreshToken,
+    sessionId: session.id,
+    cookies: buildSessionCookies(token, expiresIn, rotated.refreshToken),
+  };
+}
+
+/**
+ * Check that a verified wallet JWT belongs to a session that has not been revoked.
+ * Without a session store every validly signed token is accepted.
+ */
+export async function isWalletSessionActive(
+  c: Context<AppEnv>,
+  payload: WalletJWTPayload,
+): Promise<boolean> {
+  const kv = getSessionStore(c.env);
+  if (!kv) return true;
+
+  // Tokens without a session ID predate the session store and cannot be revoked
+  if (!payload.jti) return false;
+
+  const session = await getSession(kv, getSessionTenantId(c), payload.jti);
+  return !!session && session.actor === payload.actor;
+}
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { verifyWalletProof, parseAuthNonce, type WalletProof } from './wallet';
+import {
+  bytesToHex,
+  encodeName,
+  formatPublicKey,
+  formatSignature,
+  getSigningDigest,
+} from './eosio';
+import { XPR_CHAIN_IDS } from '../config';
+import { createMockEnv, suppressConsole } from '../test-utils';
+
+interface TestAction {
+  account: string;
+  name: string;
+  authorization: Array<{ actor: string; permission: string }>;
+  data: Uint8Array;
+}
+
+function u64(value: bigint): number[] {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setBigUint64(0, value, true);
+  return [...new Uint8Array(view.buffer)];
+}
+
+function u32(value: number): number[] {
+  const view = new DataView(new ArrayBuffer(4));
+  view.setUint32(0, value, true);
+  return [...new Uint8Array(view.buffer)];
+}
+
+function generateAuthData(account: string, time: string): Uint8Array {
+  const text = new TextEncoder().encode(time);
+  return new Uint8Array([...u64(encodeName(account)), text.length, ...text]);
+}
+
+function packTransaction(actions: TestAction[], expiration: number): Uint8Array {
+  const bytes: number[] = [...u32(expiration), 0, 0, ...u32(0), 0, 0, 0];
+  bytes.push(0); // context_free_actions
+  bytes.push(actions.length);
+  for (const action of actions) {
+    bytes.push(...u64(encodeName(action.account)), ...u64(encodeName(action.name)));
+    bytes.push(action.authorization.length);
+    for (const auth of action.authorization) {
+      bytes.push(...u64(encodeName(auth.actor)), ...u64(encodeName(auth.permission)));
+    }
+    bytes.push(action.data.length, ...action.data);
+  }
+  bytes.push(0); // transaction_extensions
+  return new Uint8Array(bytes);
+}
+
+function authAction(actor: string, time = '2026-01-01T00:00:00.000'): TestAction {
+  return {
+    account: 'proton.wrap',
+    name: 'generateauth',
+    authorization: [{ actor, permission: 'active' }],
+    data: generateAuthData(actor, time),
+  };
+}
+
+const privateKey = secp256k1.utils.randomPrivateKey();
+const publicKey = formatPublicKey({ type: 'K1', data: secp256k1.getPublicKey(privateKey, true) });
+
+function signProof(
+  actor: string,
+  actions: TestAction[] = [authAction(actor)],
+  options: { expiration?: number; key?: Uint8Array } = {},
+): WalletProof {
+  const packed = packTransaction(
+    actions,
+    options.expiration ?? Math.floor(Date.now() / 1000) + 120,
+  );
+  const sig = secp256k1.sign(
+    getSigningDigest(XPR_CHAIN_IDS.mainnet, packed),
+    options.key ?? privateKey,
+  );
+  return {
+    signer: { actor, permission: 'active' },
+    transaction: bytesToHex(packed),
+    signatures: [formatSignature({ type: 'K1', recovery: sig.recovery, r: sig.r, s: sig.s })],
+    chainId: XPR_CHAIN_IDS.mainnet,
+  };
+}
+
+function mockGetAccount(keys: string[] = [publicKey]) {
+  const fetchMock = vi.fn(async () =>
+    Response.json({
+      permissions: [
+        {
+          perm_name: 'active',
+          parent: 'owner',
+          required_auth: { threshold: 1, keys: keys.map((key) => ({ key, weight: 1 })) },
+        },
+      ],
+    }),
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('verifyWalletProof', () => {
+  const env = createMockEnv({ XPR_NETWORK: 'mainnet' });
+
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('accepts a generateauth tx signed by an active key without pushing it', async () => {
+    const fetchMock = mockGetAccount();
+
+    const result = await verifyWalletProof(signProof('alice'), env);
+
+    expect(result).toEqual({ valid: true, nonce: undefined });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      expect.stringContaining('/v1/chain/get_account'),
+      expect.anything(),
+    );
+  });
+
+  it('caches account keys between verifications', async () => {
+    const fetchMock = mockGetAccount();
+
+    await verifyWalletProof(signProof('cached'), env);
+    await verifyWalletProof(signProof('cached'), env);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a signature from a key not on the permission', async () => {
+    mockGetAccount();
+
+    const otherKey = secp256k1.utils.randomPrivateKey();
+    const result = await verifyWalletProof(signProof('bob', undefined, { key: otherKey }), env);
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('bob@active');
+  });
+
+  it('rejects actions other than proton.wrap::generateauth', async () => {
+    mockGetAccount();
+    const transfer = { ...authAction('carol'), account: 'eosio.token', name: 'transfer' };
+
+    const result = await verifyWalletProof(signProof('carol', [transfer]), env);
+
+    expect(result).toMatchObject({ valid: false, error: expect.stringContaining('generateauth') });
+  });
+
+  it('rejects a tx authorized by a different account', async () => {
+    mockGetAccount();
+
+    const proof = signProof('dave', [authAction('mallory')]);
+
+    expect((await verifyWalletProof(proof, env)).valid).toBe(false);
+  });
+
+  it('rejects expired transactions', async () => {
+    mockGetAccount();
+
+    const proof = signProof('erin', undefined, { expiration: Math.floor(Date.now() / 1000) - 1 });
+    const result = await verifyWalletProof(proof, env);
+
+    expect(result).toMatchObject({ valid: false, error: expect.stringContaining('expired') });
+  });
+
+  it('rejects transactions that expire too far in the future', async () => {
+    mockGetAccount();
+
+    const proof = signProof('frank', undefined, {
+      expiration: Math.floor(Date.now() / 1000) + 24 * 60 * 60,
+    });
+
+    expect((await verifyWalletProof(proof, env)).valid).toBe(false);
+  });
+
+  it('rejects proofs for another chain', async () => {
+    mockGetAccount();
+
+    const proof = { ...signProof('grace'), chainId: XPR_CHAIN_IDS.testnet };
+    const result = await verifyWalletProof(proof, env);
+
+    expect(result).toMatchObject({ valid: false, error: expect.stringContaining('chain') });
+  });
+
+  it('enforces the expected nonce', async () => {
+    mockGetAccount();
+    const proof = signProof('heidi', [authAction('heidi', '2026-01-01T00:00:00.000#abc123')]);
+
+    expect(await verifyWalletProof(proof, env, { nonce: 'abc123' })).toEqual({
+      valid: true,
+      nonce: 'abc123',
+    });
+    expect((await verifyWalletProof(proof, env, { nonce: 'other' })).valid).toBe(false);
+  });
+
+  it('rejects malformed transactions', async () => {
+    mockGetAccount();
+
+    const proof = { ...signProof('ivan'), transaction: 'deadbeef' };
+
+    expect(await verifyWalletProof(proof, env)).toMatchObject({
+      valid: false,
+      error: expect.stringContaining('Malformed'),
+    });
+  });
+});
+
+describe('parseAuthNonce', () => {
+  it('extracts the nonce after #', () => {
+    expect(parseAuthNonce('2026-01-01T00:00:00.000#n1')).toBe('n1');
+  });
+
+  it('returns undefined without a nonce', () => {
+    expect(parseAuthNonce('2026-01-01T00:00:00.000')).toBeUndefined();
+  });
+});
@@ -3,19 +3,47 @@
  *
  * Auth flow:
  * 1. User signs a `proton.wrap::generateauth` tx with their wallet (broadcast: false)
- * 2. Worker pushes the signed tx to chain via /v1/chain/push_transaction
- * 3. Chain validates the signature (supports K1, WA, R1) and confirms the signer
- * 4. Worker issues a JWT (HMAC-SHA256, 24h expiry) if the signer matches XPR_OWNER_ACCOUNT
+ * 2. Worker decodes the packed tx and checks the action, signer, nonce and expiry
+ * 3. Worker recovers the signing key (K1/R1) and checks it against the account's
+ *    permission keys from get_account. WebAuthn (WA) signatures are instead
+ *    verified by pushing the tx to chain via /v1/chain/push_transaction.
+ * 4. Worker issues a JWT (HMAC-SHA256) carrying the signer's role, if the signer
+ *    is XPR_OWNER_ACCOUNT or listed in XPR_ALLOWED_ACCOUNTS. With a session store
+ *    (AGENT_KV) the JWT is a 15 min access token bound to a revocable session
+ *    (see sessions.ts); otherwise it is a stateless 24h token.
  *
  * No tokens are transferred — generateauth is a no-op action that just proves identity.
  */
 
 import { SignJWT, jwtVerify } from 'jose';
 import type { MoltbotEnv } from '../types';
+import { getXprChainId } from '../config';
+import { isAuthRole, type AuthRole } from './roles';
+import {
+  decodeGenerateAuthData,
+  deserializeTransaction,
+  formatPublicKey,
+  getSigningDigest,
+  hexToBytes,
+  parsePublicKey,
+  publicKeysEqual,
+  recoverPublicKey,
+  type GenerateAuthData,
+  type PublicKey,
+  type Transaction,
+} from './eosio';
+import { createLogger } from '../utils/logging';
+
+const log = createLogger('wallet-auth');
 
 const JWT_ISSUER = 'moltworker-wallet-auth';
 const JWT_AUDIENCE = 'moltworker';
-const JWT_EXPIRY_SECONDS = 24 * 60 * 60; // 24 hours
+const JWT_EXPIRY_SECONDS = 24 * 60 * 60; // 24 hours (stateless tokens, no session store)
+
+const AUTH_ACTION_ACCOUNT = 'proton.wrap';
+const AUTH_ACTION_NAME = 'generateauth';
+const AUTH_TX_MAX_LIFETIME_SECONDS = 60 * 60; // reject auth txs that stay valid longer than 1h
+const ACCOUNT_CACHE_TTL_MS = 60_000; // get_account results
 
 export interface WalletProof {
   signer: { actor: string; permission: string };
@@ -24,9 +52,17 @@ export interface WalletProof {
   chainId: string;
 }
 
+export interface WalletProofResult {
+  valid: boolean;
+  error?: string;
+  nonce?: string; // Login nonce embedded in the generateauth action, if any
+}
+
 export interface WalletJWTPayload {
   actor: string;
   permission: string;
+  role: AuthRole;
+  jti?: string; // Session ID (absent for stateless tokens)
   iss: string;
   aud: string;
   exp: number;
@@ -64,29 +100,152 @@ function getAuthRpcEndpoint(env: MoltbotEnv): string {
   return network === 'testnet' ? 'https://testnet.protonchain.com' : 'https://proton.eosusa.io';
 }
 
+interface AccountPermission {
+  perm_name: string;
+  parent: string;
+  required_auth: {
+    threshold: number;
+    keys: Array<{ key: string; weight: number }>;
+  };
+}
+
+const accountPermissionCache = new Map<
+  string,
+  { permissions: AccountPermission[]; expiresAt: number }
+>();
+
 /**
- * Verify a wallet proof by pushing the signed transaction to chain.
- *
- * The chain validates all signature types (K1, R1, WA) natively against
- * the account's registered keys. If the chain accepts the transaction,
- * the signer is authenticated.
- *
- * generateauth is a no-op action — no state changes, no tokens transferred.
+ * Fetch an account's permissions via get_account (cached for ACCOUNT_CACHE_TTL_MS).
  */
-export async function verifyWalletProof(
-  proof: WalletProof,
+async function getAccountPermissions(
+  account: string,
   env: MoltbotEnv,
-): Promise<{ valid: boolean; error?: string }> {
+  { fresh = false } = {},
+): Promise<AccountPermission[]> {
   const rpcEndpoint = getAuthRpcEndpoint(env);
+  const cacheKey = `${rpcEndpoint}|${account}`;
+  const cached = accountPermissionCache.get(cacheKey);
+  if (!fresh && cached && cached.expiresAt > Date.now()) {
+    return cached.permissions;
+  }
 
-  if (!proof.transaction || !proof.signatures?.length) {
-    return { valid: false, error: 'Missing transaction or signatures' };
+  const res = await fetch(`${rpcEndpoint}/v1/chain/get_account`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ account_name: account }),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!res.ok) {
+    throw new Error(`get_account failed with status ${res.status}`);
   }
 
-  if (!proof.signer?.actor) {
-    return { valid: false, error: 'Missing signer actor' };
+  const body = (await res.json()) as { permissions?: AccountPermission[] };
+  const permissions = body.permissions ?? [];
+  accountPermissionCache.set(cacheKey, {
+    permissions,
+    expiresAt: Date.now() + ACCOUNT_CACHE_TTL_MS,
+  });
+  return permissions;
+}
+
+/**
+ * Check that a set of recovered keys satisfies the signer's permission threshold.
+ * Only key weights count — account and wait weights cannot be checked offline.
+ */
+function isPermissionSatisfied(
+  permissions: AccountPermission[],
+  permission: string,
+  signers: PublicKey[],
+): boolean {
+  const perm = permissions.find((p) => p.perm_name === permission);
+  if (!perm) return false;
+
+  let weight = 0;
+  for (const { key, weight: keyWeight } of perm.required_auth.keys) {
+    let parsed: PublicKey;
+    try {
+      parsed = parsePublicKey(key);
+    } catch {
+      continue; // e.g. PUB_WA_ keys
+    }
+    if (signers.some((signer) => publicKeysEqual(signer, parsed))) weight += keyWeight;
+  }
+  return weight >= perm.required_auth.threshold;
+}
+
+/**
+ * Check the decoded transaction is a single generateauth action for the signer,
+ * inside its expiry window, and carrying the expected nonce (if any).
+ * Returns an error message, or the nonce embedded in the action.
+ */
+function checkAuthTransaction(
+  trx: Transaction,
+  signer: WalletProof['signer'],
+  expectedNonce: string | undefined,
+): { error: string } | { nonce?: string } {
+  const [action] = trx.actions;
+  if (trx.actions.length !== 1 || trx.contextFreeActions.length > 0) {
+    return { error: 'Auth transaction must contain exactly one action' };
+  }
+  if (action.account !== AUTH_ACTION_ACCOUNT || action.name !== AUTH_ACTION_NAME) {
+    return { error: `Auth transaction must be ${AUTH_ACTION_ACCOUNT}::${AUTH_ACTION_NAME}` };
+  }
+
+  const permission = signer.permission || 'active';
+  const [auth] = action.authorization;
+  if (
+    action.authorization.length !== 1 ||
+    auth.actor !== signer.actor ||
+    auth.permission !== permission
+  ) {
+    return { error: 'Auth action is not authorized by the signer' };
+  }
+
+  let data: GenerateAuthData;
+  try {
+    data = decodeGenerateAuthData(action.data);
+  } catch {
+    return { error: 'Malformed generateauth data' };
+  }
+  if (data.protonAccount !== signer.actor) {
+    return { error: 'generateauth account does not match signer' };
   }
 
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  if (trx.expiration <= nowSeconds) {
+    return { error: 'Transaction expired. Please try signing again.' };
+  }
+  if (trx.expiration - nowSeconds > AUTH_TX_MAX_LIFETIME_SECONDS) {
+    return { error: 'Transaction expiry is too far in the future' };
+  }
+
+  const nonce = parseAuthNonce(data.time);
+  if (expectedNonce !== undefined && nonce !== expectedNonce) {
+    return { error: 'Login challenge mismatch. Please try signing again.' };
+  }
+  return { nonce };
+}
+
+/**
+ * Extract the login nonce from a generateauth `time` field (`{iso time}#{nonce}`).
+ */
+export function parseAuthNonce(time: string): string | undefined {
+  const index = time.indexOf('#');
+  return index >= 0 ? time.slice(index + 1) : undefined;
+}
+
+/**
+ * Verify a signed transaction by pushing it to chain. Used for WebAuthn (SIG_WA_)
+ * signatures, which cannot be recovered locally.
+ *
+ * generateauth is a no-op action — no state changes, no tokens transferred.
+ */
+async function pushAuthTransaction(
+  proof: WalletProof,
+  env: MoltbotEnv,
+): Promise<{ valid: boolean; error?: string }> {
+  const rpcEndpoint = getAuthRpcEndpoint(env);
+
   try {
     const res = await fetch(`${rpcEndpoint}/v1/chain/push_transaction`, {
       method: 'POST',
@@ -115,43 +274,130 @@ export async function verifyWalletProof(
       errorMsg = body;
     }
 
-    // tx_duplicate means the same tx was already pushed (e.g., user retried) — sig was valid
-    if (errorMsg.includes('tx_duplicate') || errorMsg.includes('duplicate transaction')) {
-      return { valid: true };
-    }
-
     // expired_tx_exception means the tx window passed — sig was valid but too slow
     if (errorMsg.includes('expired_tx_exception') || errorMsg.includes('Expired Transaction')) {
       return { valid: false, error: 'Transaction expired. Please try signing again.' };
     }
 
-    console.error(`[wallet-auth] Chain rejected transaction: ${errorMsg.substring(0, 200)}`);
+    log.error('Chain rejected transaction', { error: errorMsg.substring(0, 200) });
     return { valid: false, error: `Chain verification failed: ${errorMsg.substring(0, 100)}` };
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
-    console.error(`[wallet-auth] RPC call failed: ${msg}`);
+    log.error('RPC call failed', { error: msg });
+    return { valid: false, error: `RPC error: ${msg}` };
+  }
+}
+
+/**
+ * Verify a wallet proof.
+ *
+ * The packed transaction is decoded locally and must be a single
+ * `proton.wrap::generateauth` action authorized by the signer, within its
+ * expiry window and carrying `options.nonce` when one is given. K1/R1
+ * signatures are then verified offline: the signing keys are recovered and
+ * checked against the signer's permission keys (fetched via get_account and
+ * cached). WebAuthn signatures fall back to pushing the transaction to chain.
+ */
+export async function verifyWalletProof(
+  proof: WalletProof,
+  env: MoltbotEnv,
+  options: { nonce?: string } = {},
+): Promise<WalletProofResult> {
+  if (!proof.transaction || !proof.signatures?.length) {
+    return { valid: false, error: 'Missing transaction or signatures' };
+  }
+
+  if (!proof.signer?.actor) {
+    return { valid: false, error: 'Missing signer actor' };
+  }
+
+  // Always verify against the chain this gateway is configured for
+  const chainId = getXprChainId(env.XPR_NETWORK);
+  if (proof.chainId && proof.chainId !== chainId) {
+    return { valid: false, error: 'Transaction was signed for a different chain' };
+  }
+
+  let packedTrx: Uint8Array;
+  let trx: Transaction;
+  try {
+    packedTrx = hexToBytes(proof.transaction);
+    trx = deserializeTransaction(packedTrx);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return { valid: false, error: `Malformed transaction: ${msg}` };
+  }
+
+  const check = checkAuthTransaction(trx, proof.signer, options.nonce);
+  if ('error' in check) {
+    return { valid: false, error: check.error };
+  }
+
+  if (proof.signatures.some((sig) => sig.startsWith('SIG_WA_'))) {
+    const result = await pushAuthTransaction(proof, env);
+    return { ...result, nonce: check.nonce };
+  }
+
+  let signers: PublicKey[];
+  try {
+    const digest = getSigningDigest(chainId, packedTrx);
+    signers = proof.signatures.map((sig) => recoverPublicKey(sig, digest));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return { valid: false, error: `Invalid signature: ${msg}` };
+  }
+
+  const permission = proof.signer.permission || 'active';
+  try {
+    let permissions = await getAccountPermissions(proof.signer.actor, env);
+    if (!isPermissionSatisfied(permissions, permission, signers)) {
+      // Keys may have changed since they were cached
+      permissions = await getAccountPermissions(proof.signer.actor, env, { fresh: true });
+    }
+    if (!isPermissionSatisfied(permissions, permission, signers)) {
+      log.warn('Signature does not satisfy permission', {
+        publicKey: formatPublicKey(signers[0]),
+        permission: `${proof.signer.actor}@${permission}`,
+      });
+      return {
+        valid: false,
+        error: `Signature does not match ${proof.signer.actor}@${permission}`,
+      };
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log.error('Account lookup failed', { error: msg });
     return { valid: false, error: `RPC error: ${msg}` };
   }
+
+  return { valid: true, nonce: check.nonce };
 }
 
 /**
  * Sign a JWT for an authenticated wallet user.
+ *
+ * @param options.sessionId - Session ID to bind the token to (set as `jti`)
+ * @param options.expiresIn - Lifetime in seconds (default 24h)
  */
 export async function signWalletJWT(
   actor: string,
   permission: string,
+  role: AuthRole,
   env: MoltbotEnv,
+  options: { sessionId?: string; expiresIn?: number } = {},
 ): Promise<string> {
   const key = await getJWTSecret(env);
   const now = Math.floor(Date.now() / 1000);
 
-  return new SignJWT({ actor, permission })
+  const jwt = new SignJWT({ actor, permission, role })
     .setProtectedHeader({ alg: 'HS256' })
     .setIssuer(JWT_ISSUER)
     .setAudience(JWT_AUDIENCE)
     .setIssuedAt(now)
-    .setExpirationTime(now + JWT_EXPIRY_SECONDS)
-    .sign(key);
+    .setExpirationTime(now + (options.expiresIn ?? JWT_EXPIRY_SECONDS));
+
+  if (options.sessionId) jwt.setJti(options.sessionId);
+
+  return jwt.sign(key);
 }
 
 /**
@@ -170,22 +416,23 @@ export async function verifyWalletJWT(
 
     const actor = payload.actor as string | undefined;
     const permission = payload.permission as string | undefined;
+    // Tokens minted before roles existed were only ever issued to the owner
+    const role = isAuthRole(payload.role) ? payload.role : 'owner';
 
     if (!actor) return null;
 
     return {
       actor,
       permission: permission || 'active',
+      role,
+      jti: payload.jti,
       iss: payload.iss || JWT_ISSUER,
       aud: JWT_AUDIENCE,
       exp: payload.exp || 0,
       iat: payload.iat || 0,
     };
   } catch (err) {
-    console.error(
-      '[wallet-auth] JWT verification failed:',
-      err instanceof Error ? err.message : err,
-    );
+    log.error('JWT verification failed', { error: err instanceof Error ? err.message : err });
     return null;
   }
 }
@@ -1,12 +1,21 @@
 import AdminPage from './pages/AdminPage';
+import { logout } from './api';
 import './App.css';
 
+async function handleLogout() {
+  await logout();
+  window.location.href = '/';
+}
+
 export default function App() {
   return (
     <div className="app">
       <header className="app-header">
         <img src="/logo-small.png" alt="Moltworker" className="header-logo" />
         <h1>Moltbot Admin</h1>
+        <button className="btn btn-secondary btn-sm header-logout" onClick={handleLogout}>
+          Log out
+        </button>
       </header>
       <main className="app-main">
         <AdminPage />
@@ -26,25 +26,33 @@ export interface PairedDevice {
   role?: string;
   roles?: string[];
   scopes?: string[];
+  remoteIp?: string;
   createdAtMs: number;
   approvedAtMs: number;
+  lastSeenAtMs?: number;
 }
 
 export interface DeviceListResponse {
   pending: PendingDevice[];
   paired: PairedDevice[];
-  raw?: string;
-  stderr?: string;
-  parseError?: string;
   error?: string;
+  code?: string; // gateway error code
 }
 
 export interface ApproveResponse {
   success: boolean;
   requestId: string;
   message?: string;
-  stdout?: string;
-  stderr?: string;
+  device?: PairedDevice;
+  error?: string;
+}
+
+export interface DeviceActionResponse {
+  success: boolean;
+  requestId?: string;
+  deviceId?: string;
+  device?: PairedDevice;
+  message?: string;
   error?: string;
 }
 
@@ -95,12 +103,83 @@ export async function approveDevice(requestId: string): Promise<ApproveResponse>
   });
 }
 
+export async function rejectDevice(requestId: string): Promise<DeviceActionResponse> {
+  return apiRequest<DeviceActionResponse>(`/devices/${encodeURIComponent(requestId)}/reject`, {
+    method: 'POST',
+  });
+}
+
+export async function renameDevice(
+  deviceId: string,
+  displayName: string,
+): Promise<DeviceActionResponse> {
+  return apiRequest<DeviceActionResponse>(`/devices/${encodeURIComponent(deviceId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ displayName }),
+  });
+}
+
+export async function revokeDevice(deviceId: string): Promise<DeviceActionResponse> {
+  return apiRequest<DeviceActionResponse>(`/devices/${encodeURIComponent(deviceId)}`, {
+    method: 'DELETE',
+  });
+}
+
 export async function approveAllDevices(): Promise<ApproveAllResponse> {
   return apiRequest<ApproveAllResponse>('/devices/approve-all', {
     method: 'POST',
   });
 }
 
+export type PairingTokenScope =
+  | 'operator.read'
+  | 'operator.write'
+  | 'operator.approvals'
+  | 'operator.pairing'
+  | 'operator.admin';
+
+export interface PairingToken {
+  id: string;
+  label?: string;
+  scopes: PairingTokenScope[];
+  createdAt: number;
+  createdBy?: string;
+  expiresAt: number;
+}
+
+export interface PairingTokenListResponse {
+  tokens: PairingToken[];
+  scopes: PairingTokenScope[];
+}
+
+export interface CreatePairingTokenResponse {
+  success: boolean;
+  token: PairingToken;
+  secret: string; // Full token, only returned once
+  link: string; // /pair link carrying the token
+}
+
+export async function listPairingTokens(): Promise<PairingTokenListResponse> {
+  return apiRequest<PairingTokenListResponse>('/pairing-tokens');
+}
+
+export async function createPairingToken(
+  scopes: PairingTokenScope[],
+  ttlMinutes: number,
+  label?: string,
+): Promise<CreatePairingTokenResponse> {
+  return apiRequest<CreatePairingTokenResponse>('/pairing-tokens', {
+    method: 'POST',
+    body: JSON.stringify({ scopes, ttlMinutes, label }),
+  });
+}
+
+export async function revokePairingToken(tokenId: string): Promise<{ success: boolean }> {
+  return apiRequest<{ success: boolean }>(`/pairing-tokens/${encodeURIComponent(tokenId)}`, {
+    method: 'DELETE',
+  });
+}
+
 export interface RestartGatewayResponse {
   success: boolean;
   message?: string;
@@ -113,10 +192,26 @@ export async function restartGateway(): Promise<RestartGatewayResponse> {
   });
 }
 
+export interface SyncStats {
+  filesChanged?: number;
+  filesDeleted?: number;
+  bytesTransferred?: number;
+  durationMs?: number;
+  checksumMismatches?: string[];
+}
+
+export interface LastSyncResult extends SyncStats {
+  success: boolean;
+  lastSync?: string;
+  error?: string;
+  details?: string;
+}
+
 export interface StorageStatusResponse {
   configured: boolean;
   missing?: string[];
   lastSync: string | null;
+  lastSyncResult?: LastSyncResult | null;
   message: string;
 }
 
@@ -124,7 +219,7 @@ export async function getStorageStatus(): Promise<StorageStatusResponse> {
   return apiRequest<StorageStatusResponse>('/storage');
 }
 
-export interface SyncResponse {
+export interface SyncResponse extends SyncStats {
   success: boolean;
   message?: string;
   lastSync?: string;
@@ -137,3 +232,339 @@ export async function triggerSync(): Promise<SyncResponse> {
     method: 'POST',
   });
 }
+
+export interface StorageSnapshot {
+  id: string;
+  createdAt: string;
+  trigger: 'scheduled' | 'manual' | 'pre-restore';
+  configDir: string;
+  files: number;
+  bytes: number;
+}
+
+export interface SnapshotListResponse {
+  retention: { hourly: number; daily: number; manual: number } | null; // null = scheduled snapshots off
+  snapshots: StorageSnapshot[];
+}
+
+export interface RestoreChange {
+  area: 'openclaw' | 'workspace' | 'skills';
+  path: string;
+  change: 'added' | 'changed' | 'removed';
+}
+
+export interface RestorePreviewResponse {
+  snapshot: StorageSnapshot;
+  summary: Record<RestoreChange['change'], number>;
+  changes: RestoreChange[];
+}
+
+export interface RestoreResponse {
+  success: boolean;
+  message?: string;
+  safetySnapshotId?: string;
+  syncError?: string;
+  error?: string;
+  details?: string;
+}
+
+export async function listSnapshots(): Promise<SnapshotListResponse> {
+  return apiRequest<SnapshotListResponse>('/storage/snapshots');
+}
+
+export async function createSnapshot(): Promise<{ success: boolean; snapshot?: StorageSnapshot }> {
+  return apiRequest('/storage/snapshots', { method: 'POST' });
+}
+
+export async function previewRestore(snapshotId: string): Promise<RestorePreviewResponse> {
+  return apiRequest<RestorePreviewResponse>(
+    `/storage/snapshots/${encodeURIComponent(snapshotId)}/preview`,
+  );
+}
+
+export async function restoreSnapshot(snapshotId: string): Promise<RestoreResponse> {
+  return apiRequest<RestoreResponse>('/storage/restore', {
+    method: 'POST',
+    body: JSON.stringify({ snapshotId }),
+  });
+}
+
+export interface WalletSession {
+  id: string;
+  actor: string;
+  permission: string;
+  role: 'owner' | 'operator' | 'viewer';
+  createdAt: number;
+  refreshedAt: number;
+  expiresAt: number;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface SessionListResponse {
+  enabled: boolean;
+  sessions: WalletSession[];
+  error?: string;
+}
+
+export async function listSessions(): Promise<SessionListResponse> {
+  return apiRequest<SessionListResponse>('/sessions');
+}
+
+export async function revokeSession(sessionId: string): Promise<{ success: boolean }> {
+  return apiRequest<{ success: boolean }>(`/sessions/${sessionId}`, {
+    method: 'DELETE',
+  });
+}
+
+export interface ConnectionRecord {
+  id: string;
+  startedAt: number;
+  user?: string;
+  role?: 'owner' | 'operator' | 'viewer';
+  ip?: string;
+  userAgent?: string;
+  deviceId?: string;
+  clientMode?: string;
+  platform?: string;
+  messagesIn: number; // client → gateway
+  messagesOut: number; // gateway → client
+  bytesIn: number;
+  bytesOut: number;
+  lastActivityAt?: number;
+}
+
+export interface ConnectionListResponse {
+  enabled: boolean; // false when the CONNECTION_REGISTRY binding is missing
+  connections: ConnectionRecord[];
+}
+
+export async function listConnections(): Promise<ConnectionListResponse> {
+  return apiRequest<ConnectionListResponse>('/connections');
+}
+
+export async function disconnectConnection(connectionId: string): Promise<{ success: boolean }> {
+  return apiRequest<{ success: boolean }>(`/connections/${encodeURIComponent(connectionId)}`, {
+    method: 'DELETE',
+  });
+}
+
+export type ApiKeyScope =
+  | 'devices:read'
+  | 'devices:approve'
+  | 'devices:reject'
+  | 'devices:rename'
+  | 'devices:revoke'
+  | 'storage:read'
+  | 'storage:sync'
+  | 'gateway:restart';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  createdAt: number;
+  createdBy?: string;
+  expiresAt?: number;
+  lastUsedAt?: number;
+}
+
+export interface ApiKeyListResponse {
+  keys: ApiKey[];
+  scopes: ApiKeyScope[];
+}
+
+export interface CreateApiKeyResponse {
+  success: boolean;
+  key: ApiKey;
+  secret: string; // Full API key, only returned once
+}
+
+export async function listApiKeys(): Promise<ApiKeyListResponse> {
+  return apiRequest<ApiKeyListResponse>('/api-keys');
+}
+
+export async function createApiKey(
+  name: string,
+  scopes: ApiKeyScope[],
+  expiresAt?: number,
+): Promise<CreateApiKeyResponse> {
+  return apiRequest<CreateApiKeyResponse>('/api-keys', {
+    method: 'POST',
+    body: JSON.stringify({ name, scopes, expiresAt }),
+  });
+}
+
+export async function revokeApiKey(keyId: string): Promise<{ success: boolean }> {
+  return apiRequest<{ success: boolean }>(`/api-keys/${keyId}`, {
+    method: 'DELETE',
+  });
+}
+
+export interface AuditEntry {
+  seq: number;
+  timestamp: number;
+  actor: string;
+  actorRole?: 'owner' | 'operator' | 'viewer';
+  action: string;
+  target?: string;
+  result: 'success' | 'failure';
+  status: number;
+  details?: string;
+  ip?: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditFilters {
+  actor?: string;
+  action?: string; // exact action, or a prefix ending in '.'
+  result?: 'success' | 'failure';
+  since?: number;
+  until?: number;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface AuditListResponse {
+  entries: AuditEntry[];
+  cursor?: string;
+}
+
+export interface AuditVerifyResponse {
+  valid: boolean;
+  checked: number;
+  headSeq: number;
+  brokenAt?: number;
+  reason?: string;
+}
+
+export async function listAuditEntries(filters: AuditFilters = {}): Promise<AuditListResponse> {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') params.set(name, String(value));
+  }
+  const query = params.toString();
+  return apiRequest<AuditListResponse>(`/audit${query ? `?${query}` : ''}`);
+}
+
+export async function verifyAuditLog(): Promise<AuditVerifyResponse> {
+  return apiRequest<AuditVerifyResponse>('/audit/verify');
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface DailyUsage extends UsageTotals {
+  date: string;
+  models: Record<string, UsageTotals>;
+}
+
+export interface UsageCaps {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+  dailyTokens?: number;
+  monthlyTokens?: number;
+}
+
+export interface UsageResponse {
+  enabled: boolean;
+  caps: UsageCaps | null;
+  today?: UsageTotals;
+  month?: UsageTotals;
+  days?: DailyUsage[];
+  models?: Record<string, UsageTotals>;
+}
+
+export async function getUsage(days = 30): Promise<UsageResponse> {
+  return apiRequest<UsageResponse>(`/usage?days=${days}`);
+}
+
+export type GatewayLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface GatewayLogLine {
+  time?: string; // absent for backlog lines
+  stream: 'stdout' | 'stderr';
+  level: GatewayLogLevel;
+  text: string;
+}
+
+export interface LogStreamFilters {
+  level?: GatewayLogLevel; // minimum level
+  search?: string;
+  tail?: number; // backlog lines per stream
+}
+
+/**
+ * Open the gateway log stream. Server-sent events: `log` (a GatewayLogLine),
+ * `exit` ({ exitCode }) when the gateway stops, and `error` ({ error }).
+ */
+export function openLogStream(filters: LogStreamFilters = {}): EventSource {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') params.set(name, String(value));
+  }
+  const query = params.toString();
+  return new EventSource(`${API_BASE}/logs/stream${query ? `?${query}` : ''}`, {
+    withCredentials: true,
+  });
+}
+
+export interface FileRootsResponse {
+  roots: string[];
+  maxFileBytes: number;
+}
+
+export interface FileEntry {
+  name: string;
+  path: string; // `{root}/{relative path}`
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size: number;
+  modifiedAt: string;
+}
+
+export type FileResponse =
+  | { type: 'directory'; path: string; entries: FileEntry[] }
+  | { type: 'file'; path: string; size: number; encoding: 'utf-8' | 'base64'; content: string };
+
+export interface SaveFileResponse {
+  success: boolean;
+  path: string;
+  size: number;
+  sync?: SyncResponse;
+}
+
+function filePath(path: string): string {
+  return `/files/${path.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+export async function getFileRoots(): Promise<FileRootsResponse> {
+  return apiRequest<FileRootsResponse>('/files');
+}
+
+export async function getFile(path: string): Promise<FileResponse> {
+  return apiRequest<FileResponse>(filePath(path));
+}
+
+export async function saveFile(
+  path: string,
+  content: string,
+  sync = false,
+): Promise<SaveFileResponse> {
+  return apiRequest<SaveFileResponse>(filePath(path), {
+    method: 'PUT',
+    body: JSON.stringify({ content, sync }),
+  });
+}
+
+export async function deleteFile(path: string): Promise<{ success: boolean; path: string }> {
+  return apiRequest<{ success: boolean; path: string }>(filePath(path), { method: 'DELETE' });
+}
+
+export async function logout(): Promise<void> {
+  await fetch('/api/auth/logout', { method: 'POST', credentials: 'include' });
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef, type FormEvent } from 'react';
 import {
   listDevices,
   approveDevice,
@@ -6,12 +6,58 @@ import {
   restartGateway,
   getStorageStatus,
   triggerSync,
+  listSessions,
+  revokeSession,
+  listApiKeys,
+  createApiKey,
+  revokeApiKey,
+  listAuditEntries,
+  verifyAuditLog,
+  getUsage,
+  openLogStream,
+  listSnapshots,
+  createSnapshot,
+  previewRestore,
+  restoreSnapshot,
+  rejectDevice,
+  renameDevice,
+  revokeDevice,
+  getFileRoots,
+  getFile,
+  saveFile,
+  deleteFile,
+  listPairingTokens,
+  createPairingToken,
+  revokePairingToken,
+  listConnections,
+  disconnectConnection,
   AuthError,
   type PendingDevice,
   type PairedDevice,
   type DeviceListResponse,
+  type LastSyncResult,
   type StorageStatusResponse,
+  type WalletSession,
+  type ApiKey,
+  type ApiKeyScope,
+  type AuditEntry,
+  type AuditFilters,
+  type AuditVerifyResponse,
+  type UsageResponse,
+  type UsageTotals,
+  type GatewayLogLevel,
+  type GatewayLogLine,
+  type SnapshotListResponse,
+  type RestorePreviewResponse,
+  type FileRootsResponse,
+  type FileEntry,
+  type PairingToken,
+  type PairingTokenScope,
+  type CreatePairingTokenResponse,
+  type ConnectionRecord,
+  type ConnectionListResponse,
 } from '../api';
+import { encodeQr } from '../qr';
 import './AdminPage.css';
 
 // Small inline spinner for buttons
@@ -45,15 +91,1407 @@ function formatTimeAgo(ts: number) {
   return `${days}d ago`;
 }
 
+const AUDIT_ACTIONS = [
+  'auth.',
+  'device.',
+  'storage.',
+  'gateway.restart',
+  'file.',
+  'accounts.update',
+  'session.revoke',
+  'api_key.',
+];
+
+function AuditLogPanel() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [cursor, setCursor] = useState<string | undefined>();
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [verification, setVerification] = useState<AuditVerifyResponse | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  const fetchEntries = useCallback(
+    async (append?: string) => {
+      setLoading(true);
+      try {
+        setError(null);
+        const data = await listAuditEntries({ ...filters, cursor: append });
+        setEntries((prev) => (append ? [...prev, ...data.entries] : data.entries));
+        setCursor(data.cursor);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load audit log');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [filters],
+  );
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const updateFilter = (name: keyof AuditFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [name]: value || undefined }));
+  };
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    try {
+      setVerification(await verifyAuditLog());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify audit log');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <section className="devices-section audit-section">
+      <div className="section-header">
+        <h2>Audit Log</h2>
+        <div className="header-actions">
+          <button className="btn btn-secondary" onClick={handleVerify} disabled={verifying}>
+            {verifying && <ButtonSpinner />}
+            Verify Chain
+          </button>
+          <button className="btn btn-secondary" onClick={() => fetchEntries()} disabled={loading}>
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {verification && (
+        <div className={verification.valid ? 'success-banner' : 'error-banner'}>
+          <span>
+            {verification.valid
+              ? `Hash chain intact (${verification.checked} entries checked).`
+              : `Hash chain broken at entry #${verification.brokenAt}: ${verification.reason}`}
+          </span>
+          <button className="dismiss-btn" onClick={() => setVerification(null)}>
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {error && <p className="hint audit-error">{error}</p>}
+
+      <div className="audit-filters">
+        <input
+          type="text"
+          placeholder="Actor"
+          value={filters.actor ?? ''}
+          onChange={(e) => updateFilter('actor', e.target.value)}
+        />
+        <select
+          value={filters.action ?? ''}
+          onChange={(e) => updateFilter('action', e.target.value)}
+        >
+          <option value="">All actions</option>
+          {AUDIT_ACTIONS.map((action) => (
+            <option key={action} value={action}>
+              {action.endsWith('.') ? `${action}*` : action}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.result ?? ''}
+          onChange={(e) => updateFilter('result', e.target.value)}
+        >
+          <option value="">All results</option>
+          <option value="success">Success</option>
+          <option value="failure">Failure</option>
+        </select>
+      </div>
+
+      {!loading && entries.length === 0 ? (
+        <div className="empty-state">
+          <p>No audit entries</p>
+        </div>
+      ) : (
+        <table className="audit-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Time</th>
+              <th>Actor</th>
+              <th>Action</th>
+              <th>Target</th>
+              <th>Result</th>
+              <th>IP</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry.seq} className={entry.result}>
+                <td>{entry.seq}</td>
+                <td title={formatTimestamp(entry.timestamp)}>{formatTimeAgo(entry.timestamp)}</td>
+                <td>
+                  {entry.actor}
+                  {entry.actorRole && <span className="audit-role"> ({entry.actorRole})</span>}
+                </td>
+                <td>{entry.action}</td>
+                <td>{entry.target}</td>
+                <td title={entry.details}>
+                  {entry.result} ({entry.status})
+                </td>
+                <td>{entry.ip}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {cursor && (
+        <button
+          className="btn btn-secondary audit-more"
+          onClick={() => fetchEntries(cursor)}
+          disabled={loading}
+        >
+          {loading && <ButtonSpinner />}
+          Load More
+        </button>
+      )}
+    </section>
+  );
+}
+
+function formatUsd(value: number) {
+  return `$${value.toFixed(2)}`;
+}
+
+function formatTokens(value: number) {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(value);
+}
+
+function totalTokens(totals: UsageTotals) {
+  return totals.inputTokens + totals.outputTokens;
+}
+
+function UsageCard({
+  label,
+  totals,
+  capUsd,
+  capTokens,
+}: {
+  label: string;
+  totals: UsageTotals;
+  capUsd?: number;
+  capTokens?: number;
+}) {
+  return (
+    <div className="usage-card">
+      <span className="label">{label}</span>
+      <span className="usage-value">
+        {formatUsd(totals.costUsd)}
+        {capUsd !== undefined && <span className="usage-cap"> / {formatUsd(capUsd)}</span>}
+      </span>
+      <span className="usage-detail">
+        {formatTokens(totalTokens(totals))}
+        {capTokens !== undefined && ` / ${formatTokens(capTokens)}`} tokens, {totals.requests}{' '}
+        requests
+      </span>
+    </div>
+  );
+}
+
+function UsagePanel() {
+  const [usage, setUsage] = useState<UsageResponse | null>(null);
+  const [days, setDays] = useState(30);
+  const [metric, setMetric] = useState<'cost' | 'tokens'>('cost');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsage = useCallback(async () => {
+    setLoading(true);
+    try {
+      setError(null);
+      setUsage(await getUsage(days));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load usage');
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  const value = (totals: UsageTotals) => (metric === 'cost' ? totals.costUsd : totalTokens(totals));
+  const format = (n: number) => (metric === 'cost' ? formatUsd(n) : formatTokens(n));
+  const series = usage?.days ?? [];
+  const max = Math.max(...series.map(value), 0);
+  const caps = usage?.caps ?? {};
+  const models = Object.entries(usage?.models ?? {});
+  models.sort(([, a], [, b]) => b.costUsd - a.costUsd || totalTokens(b) - totalTokens(a));
+
+  return (
+    <section className="devices-section usage-section">
+      <div className="section-header">
+        <h2>Model Usage</h2>
+        <div className="header-actions">
+          <select value={days} onChange={(e) => setDays(Number(e.target.value))}>
+            <option value={7}>7 days</option>
+            <option value={30}>30 days</option>
+            <option value={90}>90 days</option>
+          </select>
+          <select value={metric} onChange={(e) => setMetric(e.target.value as 'cost' | 'tokens')}>
+            <option value="cost">Cost</option>
+            <option value="tokens">Tokens</option>
+          </select>
+          <button className="btn btn-secondary" onClick={() => fetchUsage()} disabled={loading}>
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="hint audit-error">{error}</p>}
+
+      {usage && !usage.enabled && (
+        <div className="empty-state">
+          <p>Usage metering is not enabled</p>
+          <p className="hint">
+            It requires the USAGE_METER binding and WORKER_URL in multi-tenant mode.
+          </p>
+        </div>
+      )}
+
+      {usage?.enabled && usage.today && usage.month && (
+        <>
+          <div className="usage-cards">
+            <UsageCard
+              label="Today (UTC)"
+              totals={usage.today}
+              capUsd={caps.dailyUsd}
+              capTokens={caps.dailyTokens}
+            />
+            <UsageCard
+              label="This month"
+              totals={usage.month}
+              capUsd={caps.monthlyUsd}
+              capTokens={caps.monthlyTokens}
+            />
+          </div>
+
+          <div className="usage-chart" role="img" aria-label={`Daily ${metric}`}>
+            {series.map((day) => (
+              <div
+                key={day.date}
+                className="usage-bar"
+                title={`${day.date}: ${format(value(day))}, ${day.requests} requests`}
+              >
+                <div
+                  className="usage-bar-fill"
+                  style={{ height: max > 0 ? `${(value(day) / max) * 100}%` : 0 }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="usage-chart-axis">
+            <span>{series[0]?.date}</span>
+            <span>max {format(max)}</span>
+            <span>{series[series.length - 1]?.date}</span>
+          </div>
+
+          {models.length > 0 && (
+            <table className="audit-table usage-models">
+              <thead>
+                <tr>
+                  <th>Model (this month)</th>
+                  <th>Requests</th>
+                  <th>Input tokens</th>
+                  <th>Output tokens</th>
+                  <th>Est. cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {models.map(([model, totals]) => (
+                  <tr key={model}>
+                    <td>{model}</td>
+                    <td>{totals.requests}</td>
+                    <td>{formatTokens(totals.inputTokens)}</td>
+                    <td>{formatTokens(totals.outputTokens)}</td>
+                    <td>{formatUsd(totals.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
+
+/** Log lines kept in the browser; the oldest are dropped first */
+const LOG_BUFFER_LINES = 5000;
+
+const LOG_LEVELS: GatewayLogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+type LogStreamStatus = 'connecting' | 'live' | 'exited' | 'closed';
+
+const LOG_STATUS_LABELS: Record<LogStreamStatus, string> = {
+  connecting: 'Connecting…',
+  live: 'Live',
+  exited: 'Gateway exited',
+  closed: 'Disconnected',
+};
+
+function formatLogLine(line: GatewayLogLine) {
+  return `${line.time ?? '-'} ${line.stream} ${line.level.toUpperCase()} ${line.text}`;
+}
+
+function LogsPanel() {
+  const [lines, setLines] = useState<Array<GatewayLogLine & { id: number }>>([]);
+  const [level, setLevel] = useState<GatewayLogLevel>('debug');
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [status, setStatus] = useState<LogStreamStatus>('connecting');
+  const [error, setError] = useState<string | null>(null);
+  const [autoScroll, setAutoScroll] = useState(true);
+  const [connection, setConnection] = useState(0);
+  const outputRef = useRef<HTMLDivElement>(null);
+  const nextId = useRef(0);
+
+  // Search is applied by the server, so wait for typing to pause before reconnecting
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    setStatus('connecting');
+    setError(null);
+    const source = openLogStream({ level, search: query, tail: 500 });
+
+    source.addEventListener('open', () => {
+      // Every (re)connection starts with the backlog
+      setLines([]);
+      setStatus('live');
+    });
+    source.addEventListener('log', (event) => {
+      const line = JSON.parse(event.data) as GatewayLogLine;
+      setLines((prev) => [
+        ...prev.slice(-(LOG_BUFFER_LINES - 1)),
+        { ...line, id: nextId.current++ },
+      ]);
+    });
+    source.addEventListener('exit', (event) => {
+      const { exitCode } = JSON.parse(event.data) as { exitCode?: number };
+      setStatus('exited');
+      setError(exitCode === undefined ? null : `Gateway exited with code ${exitCode}`);
+      source.close();
+    });
+    source.addEventListener('error', (event) => {
+      // `error` events sent by the server carry data; connection errors don't
+      const data = (event as MessageEvent).data as string | undefined;
+      if (data) {
+        setError((JSON.parse(data) as { error: string }).error);
+        source.close();
+      } else if (source.readyState !== EventSource.CLOSED) {
+        setStatus('connecting');
+        return;
+      } else {
+        setError('Log stream unavailable. Is the gateway running?');
+      }
+      setStatus('closed');
+    });
+
+    return () => source.close();
+  }, [level, query, connection]);
+
+  useEffect(() => {
+    const output = outputRef.current;
+    if (autoScroll && output) output.scrollTop = output.scrollHeight;
+  }, [lines, autoScroll]);
+
+  // Scrolling up pauses auto-scroll; scrolling back to the bottom resumes it
+  const handleScroll = () => {
+    const output = outputRef.current;
+    if (output) setAutoScroll(output.scrollHeight - output.scrollTop - output.clientHeight < 24);
+  };
+
+  const handleDownload = () => {
+    const text = lines.map(formatLogLine).join('\n');
+    const url = URL.createObjectURL(new Blob([`${text}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `gateway-logs-${new Date().toISOString().replace(/[:.]/g, '-')}.log`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <section className="devices-section logs-section">
+      <div className="section-header">
+        <h2>Gateway Logs</h2>
+        <div className="header-actions">
+          <span className={`logs-status ${status}`}>{LOG_STATUS_LABELS[status]}</span>
+          <button className="btn btn-secondary" onClick={() => setConnection((n) => n + 1)}>
+            Reconnect
+          </button>
+          <button className="btn btn-secondary" onClick={() => setLines([])}>
+            Clear
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={handleDownload}
+            disabled={lines.length === 0}
+          >
+            Download
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="hint audit-error">{error}</p>}
+
+      <div className="audit-filters">
+        <select value={level} onChange={(e) => setLevel(e.target.value as GatewayLogLevel)}>
+          {LOG_LEVELS.map((option) => (
+            <option key={option} value={option}>
+              {option === 'debug' ? 'All levels' : `${option} and above`}
+            </option>
+          ))}
+        </select>
+        <input
+          type="search"
+          placeholder="Search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <label className="logs-follow">
+          <input
+            type="checkbox"
+            checked={autoScroll}
+            onChange={(e) => setAutoScroll(e.target.checked)}
+          />
+          Auto-scroll
+        </label>
+      </div>
+
+      <div className="logs-output" ref={outputRef} onScroll={handleScroll}>
+        {lines.length === 0 ? (
+          <p className="hint">No log lines</p>
+        ) : (
+          lines.map((line) => (
+            <div key={line.id} className={`log-line ${line.level}`}>
+              <span className="log-time" title={line.time}>
+                {line.time ? new Date(line.time).toLocaleTimeString() : ''}
+              </span>
+              <span className="log-level">{line.level}</span>
+              <span className="log-text">{line.text}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  );
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function SyncResultSummary({ result }: { result: LastSyncResult }) {
+  const mismatches = result.checksumMismatches ?? [];
+  return (
+    <span className="last-sync sync-stats">
+      {result.filesChanged ?? 0} changed ({formatBytes(result.bytesTransferred ?? 0)}),{' '}
+      {result.filesDeleted ?? 0} deleted in {((result.durationMs ?? 0) / 1000).toFixed(1)}s
+      {mismatches.length > 0 && (
+        <span className="sync-mismatches" title={mismatches.join('\n')}>
+          {' '}
+          · {mismatches.length} file(s) failed verification
+        </span>
+      )}
+    </span>
+  );
+}
+
+const MAX_PREVIEW_CHANGES = 200;
+
+function SnapshotsPanel() {
+  const [data, setData] = useState<SnapshotListResponse | null>(null);
+  const [preview, setPreview] = useState<RestorePreviewResponse | null>(null);
+  const [busy, setBusy] = useState<string | null>(null); // 'create' or a snapshot ID
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchSnapshots = useCallback(async () => {
+    try {
+      setError(null);
+      setData(await listSnapshots());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load snapshots');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSnapshots();
+  }, [fetchSnapshots]);
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusy(key);
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreate = () =>
+    run('create', async () => {
+      await createSnapshot();
+      await fetchSnapshots();
+    });
+
+  const handlePreview = (snapshotId: string) =>
+    run(snapshotId, async () => {
+      setPreview(await previewRestore(snapshotId));
+    });
+
+  const handleRestore = (snapshotId: string) => {
+    if (
+      !confirm(
+        `Restore snapshot ${snapshotId}? The current state is snapshotted first, then replaced, and the gateway restarts.`,
+      )
+    ) {
+      return;
+    }
+    run(snapshotId, async () => {
+      const result = await restoreSnapshot(snapshotId);
+      setPreview(null);
+      setMessage(
+        `${result.message ?? 'Snapshot restored'} Previous state saved as ${result.safetySnapshotId ?? 'nothing (no config)'}.` +
+          (result.syncError ? ` Warning: R2 was not updated (${result.syncError}).` : ''),
+      );
+      await fetchSnapshots();
+    });
+  };
+
+  const retention = data?.retention;
+
+  return (
+    <section className="devices-section snapshots-section">
+      <div className="section-header">
+        <h2>Snapshots</h2>
+        <button className="btn btn-secondary" onClick={handleCreate} disabled={busy !== null}>
+          {busy === 'create' && <ButtonSpinner />}
+          {busy === 'create' ? 'Snapshotting...' : 'Take Snapshot'}
+        </button>
+      </div>
+      <p className="hint">
+        {retention
+          ? `Hourly snapshots are kept for ${retention.hourly} hours and daily ones for ${retention.daily} days, plus the last ${retention.manual} manual snapshots.`
+          : 'Scheduled snapshots are off; snapshots are only taken manually and before a restore.'}
+      </p>
+
+      {error && <p className="hint audit-error">{error}</p>}
+      {message && <p className="hint">{message}</p>}
+
+      {data && data.snapshots.length === 0 && (
+        <div className="empty-state">
+          <p>No snapshots yet</p>
+        </div>
+      )}
+
+      {data && data.snapshots.length > 0 && (
+        <table className="audit-table">
+          <thead>
+            <tr>
+              <th>Taken</th>
+              <th>Trigger</th>
+              <th>Files</th>
+              <th>Size</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {data.snapshots.map((snapshot) => (
+              <tr key={snapshot.id}>
+                <td>{formatSyncTime(snapshot.createdAt)}</td>
+                <td>{snapshot.trigger}</td>
+                <td>{snapshot.files}</td>
+                <td>{formatBytes(snapshot.bytes)}</td>
+                <td className="snapshot-actions">
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => handlePreview(snapshot.id)}
+                    disabled={busy !== null}
+                  >
+                    {busy === snapshot.id && <ButtonSpinner />}
+                    Preview
+                  </button>
+                  <button
+                    className="btn btn-danger btn-sm"
+                    onClick={() => handleRestore(snapshot.id)}
+                    disabled={busy !== null}
+                  >
+                    Restore
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {preview && (
+        <div className="snapshot-preview">
+          <div className="section-header">
+            <h3>
+              Restoring {formatSyncTime(preview.snapshot.createdAt)}: {preview.summary.added} added,{' '}
+              {preview.summary.changed} changed, {preview.summary.removed} removed
+            </h3>
+            <button className="btn btn-secondary btn-sm" onClick={() => setPreview(null)}>
+              Close
+            </button>
+          </div>
+          {preview.changes.length === 0 ? (
+            <p className="hint">The container already matches this snapshot.</p>
+          ) : (
+            <ul className="snapshot-changes">
+              {preview.changes.slice(0, MAX_PREVIEW_CHANGES).map((change) => (
+                <li key={`${change.area}/${change.path}`} className={`change-${change.change}`}>
+                  {change.change === 'added' ? '+' : change.change === 'removed' ? '-' : '~'}{' '}
+                  {change.area}/{change.path}
+                </li>
+              ))}
+              {preview.changes.length > MAX_PREVIEW_CHANGES && (
+                <li>…and {preview.changes.length - MAX_PREVIEW_CHANGES} more</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function connectionClient(connection: ConnectionRecord) {
+  const client = [connection.clientMode, connection.platform].filter(Boolean).join(' · ');
+  return client || connection.userAgent?.slice(0, 40) || 'unknown';
+}
+
+function ConnectionsPanel() {
+  const [data, setData] = useState<ConnectionListResponse | null>(null);
+  const [busy, setBusy] = useState<string | null>(null); // a connection ID
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchConnections = useCallback(async () => {
+    try {
+      setError(null);
+      setData(await listConnections());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load connections');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConnections();
+  }, [fetchConnections]);
+
+  const handleDisconnect = async (connection: ConnectionRecord) => {
+    if (
+      !confirm(`Disconnect ${connection.user ?? 'this client'} (${connectionClient(connection)})?`)
+    ) {
+      return;
+    }
+    setBusy(connection.id);
+    setError(null);
+    try {
+      await disconnectConnection(connection.id);
+      await fetchConnections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to disconnect');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <section className="devices-section connections-section">
+      <div className="section-header">
+        <h2>Open Connections</h2>
+        <button className="btn btn-secondary" onClick={fetchConnections}>
+          Refresh
+        </button>
+      </div>
+      {data && !data.enabled && (
+        <p className="hint">
+          Connection tracking is off. Bind the ConnectionRegistry Durable Object as
+          CONNECTION_REGISTRY to list and disconnect clients.
+        </p>
+      )}
+
+      {error && <p className="hint audit-error">{error}</p>}
+
+      {data?.enabled && data.connections.length === 0 && (
+        <div className="empty-state">
+          <p>No open connections</p>
+        </div>
+      )}
+
+      {data?.enabled && data.connections.length > 0 && (
+        <table className="audit-table">
+          <thead>
+            <tr>
+              <th>User</th>
+              <th>Client</th>
+              <th>IP</th>
+              <th>Connected</th>
+              <th>Messages in / out</th>
+              <th>Traffic in / out</th>
+              <th>Last activity</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {data.connections.map((connection) => (
+              <tr key={connection.id}>
+                <td>
+                  {connection.user ?? '—'}
+                  {connection.role && <span className="audit-role"> ({connection.role})</span>}
+                </td>
+                <td title={connection.deviceId ?? connection.userAgent}>
+                  {connectionClient(connection)}
+                </td>
+                <td>{connection.ip ?? '—'}</td>
+                <td title={formatTimestamp(connection.startedAt)}>
+                  {formatTimeAgo(connection.startedAt)}
+                </td>
+                <td>
+                  {connection.messagesIn} / {connection.messagesOut}
+                </td>
+                <td>
+                  {formatBytes(connection.bytesIn)} / {formatBytes(connection.bytesOut)}
+                </td>
+                <td>
+                  {connection.lastActivityAt ? formatTimeAgo(connection.lastActivityAt) : '—'}
+                </td>
+                <td className="snapshot-actions">
+                  <button
+                    className="btn btn-danger btn-sm"
+                    onClick={() => handleDisconnect(connection)}
+                    disabled={busy !== null}
+                  >
+                    {busy === connection.id && <ButtonSpinner />}
+                    Disconnect
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+function parentPath(path: string) {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : path;
+}
+
+function FilesPanel() {
+  const [roots, setRoots] = useState<FileRootsResponse | null>(null);
+  const [dir, setDir] = useState('workspace');
+  const [entries, setEntries] = useState<FileEntry[]>([]);
+  const [file, setFile] = useState<{ path: string; content: string; binary: boolean } | null>(null);
+  const [draft, setDraft] = useState('');
+  const [newName, setNewName] = useState('');
+  const [syncAfterSave, setSyncAfterSave] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null); // 'save', 'delete' or a path
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const openDir = useCallback(async (path: string) => {
+    setBusy(path);
+    setError(null);
+    try {
+      const result = await getFile(path);
+      if (result.type !== 'directory') throw new Error(`${path} is not a directory`);
+      setDir(result.path);
+      setEntries(result.entries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to list files');
+    } finally {
+      setBusy(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    getFileRoots()
+      .then(setRoots)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load roots'));
+    openDir('workspace');
+  }, [openDir]);
+
+  const dirty = file !== null && !file.binary && draft !== file.content;
+
+  const confirmDiscard = () => !dirty || confirm('Discard unsaved changes?');
+
+  const openFile = async (path: string) => {
+    if (!confirmDiscard()) return;
+    setBusy(path);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await getFile(path);
+      if (result.type !== 'file') throw new Error(`${path} is not a file`);
+      const binary = result.encoding !== 'utf-8';
+      setFile({ path: result.path, content: binary ? '' : result.content, binary });
+      setDraft(binary ? '' : result.content);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open file');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleNewFile = (e: FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name || !confirmDiscard()) return;
+    setFile({ path: `${dir}/${name}`, content: '', binary: false });
+    setDraft('');
+    setNewName('');
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    if (!file) return;
+    setBusy('save');
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await saveFile(file.path, draft, syncAfterSave);
+      setFile({ ...file, content: draft });
+      setMessage(
+        `Saved ${result.path} (${formatBytes(result.size)}).` +
+          (result.sync
+            ? result.sync.success
+              ? ' Synced to R2.'
+              : ` Warning: R2 sync failed (${result.sync.error ?? 'unknown error'}).`
+            : ''),
+      );
+      await openDir(dir);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save file');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!file || !confirm(`Delete ${file.path}?`)) return;
+    setBusy('delete');
+    setError(null);
+    setMessage(null);
+    try {
+      await deleteFile(file.path);
+      setMessage(`Deleted ${file.path}.`);
+      setFile(null);
+      await openDir(dir);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete file');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const maxBytes = roots?.maxFileBytes;
+
+  return (
+    <section className="devices-section files-section">
+      <div className="section-header">
+        <h2>Files</h2>
+        <div className="files-roots">
+          {(roots?.roots ?? ['workspace', 'config']).map((root) => (
+            <button
+              key={root}
+              className={`btn btn-secondary btn-sm ${dir.split('/')[0] === root ? 'active' : ''}`}
+              onClick={() => openDir(root)}
+              disabled={busy !== null}
+            >
+              {root}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="hint">
+        Edit the workspace and OpenClaw config in the container.
+        {maxBytes ? ` Files up to ${formatBytes(maxBytes)} can be opened.` : ''} Config changes take
+        effect after a gateway restart.
+      </p>
+
+      {error && <p className="hint audit-error">{error}</p>}
+      {message && <p className="hint">{message}</p>}
+
+      <div className="files-layout">
+        <div className="files-tree">
+          <div className="files-dir">{dir}/</div>
+          <ul>
+            {dir.includes('/') && (
+              <li>
+                <button onClick={() => openDir(parentPath(dir))} disabled={busy !== null}>
+                  ..
+                </button>
+              </li>
+            )}
+            {entries.map((entry) => (
+              <li key={entry.path} className={file?.path === entry.path ? 'selected' : ''}>
+                <button
+                  onClick={() =>
+                    entry.type === 'directory' ? openDir(entry.path) : openFile(entry.path)
+                  }
+                  disabled={busy !== null || (entry.type !== 'directory' && entry.type !== 'file')}
+                >
+                  {entry.type === 'directory' ? `${entry.name}/` : entry.name}
+                </button>
+                {entry.type === 'file' && (
+                  <span className="files-size">{formatBytes(entry.size)}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+          <form className="files-new" onSubmit={handleNewFile}>
+            <input
+              type="text"
+              placeholder="new-file.md"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <button type="submit" className="btn btn-secondary btn-sm" disabled={!newName.trim()}>
+              New
+            </button>
+          </form>
+        </div>
+
+        <div className="files-editor">
+          {!file && (
+            <div className="empty-state">
+              <p>Select a file to edit</p>
+            </div>
+          )}
+          {file && (
+            <>
+              <div className="section-header">
+                <h3>
+                  {file.path}
+                  {dirty ? ' *' : ''}
+                </h3>
+                <div className="files-actions">
+                  <label className="logs-follow">
+                    <input
+                      type="checkbox"
+                      checked={syncAfterSave}
+                      onChange={(e) => setSyncAfterSave(e.target.checked)}
+                    />
+                    Sync to R2 after saving
+                  </label>
+                  <button
+                    className="btn btn-danger btn-sm"
+                    onClick={handleDelete}
+                    disabled={busy !== null}
+                  >
+                    {busy === 'delete' && <ButtonSpinner />}
+                    Delete
+                  </button>
+                  <button
+                    className="btn btn-primary btn-sm"
+                    onClick={handleSave}
+                    disabled={busy !== null || file.binary}
+                  >
+                    {busy === 'save' && <ButtonSpinner />}
+                    {busy === 'save' ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </div>
+              {file.binary ? (
+                <p className="hint">Binary file; it can be deleted but not edited here.</p>
+              ) : (
+                <textarea
+                  className="files-textarea"
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  spellCheck={false}
+                />
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+const QR_QUIET_ZONE = 4; // modules of white border scanners need around the code
+
+function QrCode({ text }: { text: string }) {
+  const modules = useMemo(() => encodeQr(text), [text]);
+  const size = modules.length + QR_QUIET_ZONE * 2;
+  const path = modules
+    .flatMap((row, y) =>
+      row.map((dark, x) => (dark ? `M${x + QR_QUIET_ZONE} ${y + QR_QUIET_ZONE}h1v1h-1z` : '')),
+    )
+    .join('');
+
+  return (
+    <svg
+      className="pairing-qr"
+      viewBox={`0 0 ${size} ${size}`}
+      role="img"
+      aria-label="Pairing QR code"
+      shapeRendering="crispEdges"
+    >
+      <rect width={size} height={size} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
+
+const PAIRING_TTL_OPTIONS = [5, 10, 30, 60]; // minutes
+
+function PairingLinkPanel() {
+  const [tokens, setTokens] = useState<PairingToken[]>([]);
+  const [scopes, setScopes] = useState<PairingTokenScope[]>([]);
+  const [newScopes, setNewScopes] = useState<PairingTokenScope[]>([
+    'operator.read',
+    'operator.write',
+  ]);
+  const [ttlMinutes, setTtlMinutes] = useState('10');
+  const [label, setLabel] = useState('');
+  const [created, setCreated] = useState<CreatePairingTokenResponse | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null); // 'create' or a token ID
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      const data = await listPairingTokens();
+      setTokens(data.tokens);
+      setScopes(data.scopes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load pairing links');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const toggleScope = (scope: PairingTokenScope) => {
+    setNewScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope],
+    );
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (newScopes.length === 0) return;
+
+    setBusy('create');
+    setError(null);
+    try {
+      setCreated(
+        await createPairingToken(newScopes, Number(ttlMinutes), label.trim() || undefined),
+      );
+      setCopied(false);
+      setLabel('');
+      await fetchTokens();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create pairing link');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!created) return;
+    try {
+      await navigator.clipboard.writeText(created.link);
+      setCopied(true);
+    } catch {
+      setError('Could not copy to the clipboard; select the link and copy it instead');
+    }
+  };
+
+  const handleRevoke = async (token: PairingToken) => {
+    setBusy(token.id);
+    setError(null);
+    try {
+      await revokePairingToken(token.id);
+      if (created?.token.id === token.id) setCreated(null);
+      await fetchTokens();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke pairing link');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <section className="devices-section pairing-section">
+      <div className="section-header">
+        <h2>Pair a Device</h2>
+        <button className="btn btn-secondary" onClick={fetchTokens}>
+          Refresh
+        </button>
+      </div>
+      <p className="hint">
+        Create a one-time link for a new device. The first device to connect with it is approved
+        automatically for the selected scopes; it still has to log in.
+      </p>
+
+      {error && <p className="hint audit-error">{error}</p>}
+
+      <form className="api-key-form" onSubmit={handleCreate}>
+        <input
+          type="text"
+          placeholder="Label (e.g. Alice's phone)"
+          value={label}
+          maxLength={64}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+        <div className="api-key-scopes">
+          {scopes.map((scope) => (
+            <label key={scope}>
+              <input
+                type="checkbox"
+                checked={newScopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+              />
+              {scope}
+            </label>
+          ))}
+        </div>
+        <select value={ttlMinutes} onChange={(e) => setTtlMinutes(e.target.value)}>
+          {PAIRING_TTL_OPTIONS.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              Expires in {minutes} minutes
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          className="btn btn-primary"
+          disabled={busy !== null || newScopes.length === 0}
+        >
+          {busy === 'create' && <ButtonSpinner />}
+          Create Link
+        </button>
+      </form>
+
+      {created && (
+        <div className="pairing-link">
+          <QrCode text={created.link} />
+          <div className="pairing-link-details">
+            <p>
+              Scan the code on the new device or open the link there. It works once and expires{' '}
+              {formatTimestamp(created.token.expiresAt)}.
+            </p>
+            <div className="pairing-link-copy">
+              <input type="text" readOnly value={created.link} onFocus={(e) => e.target.select()} />
+              <button className="btn btn-secondary" onClick={handleCopy}>
+                {copied ? 'Copied' : 'Copy Link'}
+              </button>
+            </div>
+            <p className="hint">
+              Native clients can add <code>pairing_token={created.secret}</code> to the gateway
+              WebSocket URL instead.
+            </p>
+            <button className="dismiss-btn" onClick={() => setCreated(null)}>
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {tokens.length > 0 && (
+        <table className="audit-table">
+          <thead>
+            <tr>
+              <th>Label</th>
+              <th>Scopes</th>
+              <th>Created</th>
+              <th>Expires</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {tokens.map((token) => (
+              <tr key={token.id}>
+                <td>{token.label || token.id}</td>
+                <td>{token.scopes.join(', ')}</td>
+                <td title={formatTimestamp(token.createdAt)}>
+                  {formatTimeAgo(token.createdAt)}
+                  {token.createdBy && ` by ${token.createdBy}`}
+                </td>
+                <td>{formatTimestamp(token.expiresAt)}</td>
+                <td>
+                  <button
+                    className="btn btn-danger btn-sm"
+                    onClick={() => handleRevoke(token)}
+                    disabled={busy !== null}
+                  >
+                    {busy === token.id && <ButtonSpinner />}
+                    Revoke
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+function toggleId(ids: string[], id: string) {
+  return ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id];
+}
+
+function DeviceDetail({
+  device,
+  busy,
+  onRename,
+  onRevoke,
+  onClose,
+}: {
+  device: PairedDevice;
+  busy: boolean;
+  onRename: (displayName: string) => Promise<void>;
+  onRevoke: () => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState(device.displayName ?? '');
+
+  useEffect(() => {
+    setName(device.displayName ?? '');
+  }, [device.deviceId, device.displayName]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (name.trim() && name.trim() !== device.displayName) onRename(name.trim());
+  };
+
+  const roles = device.roles?.length ? device.roles : device.role ? [device.role] : [];
+
+  return (
+    <section className="devices-section device-detail">
+      <div className="section-header">
+        <h2>{device.displayName || device.deviceId}</h2>
+        <div className="header-actions">
+          <button className="btn btn-danger" onClick={onRevoke} disabled={busy}>
+            Revoke
+          </button>
+          <button className="btn btn-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+
+      <form className="device-rename" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          value={name}
+          maxLength={64}
+          placeholder="Device name"
+          onChange={(e) => setName(e.target.value)}
+        />
+        <button
+          type="submit"
+          className="btn btn-primary"
+          disabled={busy || !name.trim() || name.trim() === device.displayName}
+        >
+          {busy && <ButtonSpinner />}
+          Rename
+        </button>
+      </form>
+
+      <div className="device-details">
+        <div className="detail-row">
+          <span className="label">Device ID:</span>
+          <span className="value">{device.deviceId}</span>
+        </div>
+        <div className="detail-row">
+          <span className="label">Platform:</span>
+          <span className="value">{device.platform || 'unknown'}</span>
+        </div>
+        <div className="detail-row">
+          <span className="label">Client:</span>
+          <span className="value">
+            {[device.clientId, device.clientMode].filter(Boolean).join(' / ') || 'unknown'}
+          </span>
+        </div>
+        <div className="detail-row">
+          <span className="label">Roles:</span>
+          <span className="value">{roles.join(', ') || 'none'}</span>
+        </div>
+        <div className="detail-row">
+          <span className="label">Scopes:</span>
+          <span className="value">{device.scopes?.join(', ') || 'none'}</span>
+        </div>
+        {device.remoteIp && (
+          <div className="detail-row">
+            <span className="label">IP:</span>
+            <span className="value">{device.remoteIp}</span>
+          </div>
+        )}
+        <div className="detail-row">
+          <span className="label">Requested:</span>
+          <span className="value">{formatTimestamp(device.createdAtMs)}</span>
+        </div>
+        <div className="detail-row">
+          <span className="label">Paired:</span>
+          <span className="value">{formatTimestamp(device.approvedAtMs)}</span>
+        </div>
+        <div className="detail-row">
+          <span className="label">Last seen:</span>
+          <span
+            className="value"
+            title={device.lastSeenAtMs ? formatTimestamp(device.lastSeenAtMs) : ''}
+          >
+            {device.lastSeenAtMs ? formatTimeAgo(device.lastSeenAtMs) : 'never'}
+          </span>
+        </div>
+      </div>
+    </section>
+  );
+}
+
 export default function AdminPage() {
+  const [tab, setTab] = useState<'overview' | 'usage' | 'logs' | 'files' | 'audit'>('overview');
   const [pending, setPending] = useState<PendingDevice[]>([]);
   const [paired, setPaired] = useState<PairedDevice[]>([]);
+  const [selectedPending, setSelectedPending] = useState<string[]>([]); // request IDs
+  const [selectedPaired, setSelectedPaired] = useState<string[]>([]); // device IDs
+  const [detailDeviceId, setDetailDeviceId] = useState<string | null>(null);
   const [storageStatus, setStorageStatus] = useState<StorageStatusResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [actionInProgress, setActionInProgress] = useState<string | null>(null);
   const [restartInProgress, setRestartInProgress] = useState(false);
   const [syncInProgress, setSyncInProgress] = useState(false);
+  // null = session list unavailable (stateless sessions or not an owner)
+  const [sessions, setSessions] = useState<WalletSession[] | null>(null);
+  // null = API key management unavailable (not an owner)
+  const [apiKeys, setApiKeys] = useState<ApiKey[] | null>(null);
+  const [apiKeyScopes, setApiKeyScopes] = useState<ApiKeyScope[]>([]);
+  const [newKeyName, setNewKeyName] = useState('');
+  const [newKeyScopes, setNewKeyScopes] = useState<ApiKeyScope[]>([]);
+  const [newKeyExpiryDays, setNewKeyExpiryDays] = useState('90');
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
 
   const fetchDevices = useCallback(async () => {
     try {
@@ -61,11 +1499,14 @@ export default function AdminPage() {
       const data: DeviceListResponse = await listDevices();
       setPending(data.pending || []);
       setPaired(data.paired || []);
+      // Drop selections for devices that are gone
+      setSelectedPending((prev) =>
+        prev.filter((id) => data.pending?.some((d) => d.requestId === id)),
+      );
+      setSelectedPaired((prev) => prev.filter((id) => data.paired?.some((d) => d.deviceId === id)));
 
       if (data.error) {
         setError(data.error);
-      } else if (data.parseError) {
-        setError(`Parse error: ${data.parseError}`);
       }
     } catch (err) {
       if (err instanceof AuthError) {
@@ -88,10 +1529,91 @@ export default function AdminPage() {
     }
   }, []);
 
+  const fetchSessions = useCallback(async () => {
+    try {
+      const data = await listSessions();
+      setSessions(data.enabled ? data.sessions : null);
+    } catch {
+      // Only owners can list sessions - hide the section for everyone else
+      setSessions(null);
+    }
+  }, []);
+
+  const fetchApiKeys = useCallback(async () => {
+    try {
+      const data = await listApiKeys();
+      setApiKeys(data.keys);
+      setApiKeyScopes(data.scopes);
+    } catch {
+      // Only owners can manage API keys - hide the section for everyone else
+      setApiKeys(null);
+    }
+  }, []);
+
   useEffect(() => {
     fetchDevices();
     fetchStorageStatus();
-  }, [fetchDevices, fetchStorageStatus]);
+    fetchSessions();
+    fetchApiKeys();
+  }, [fetchDevices, fetchStorageStatus, fetchSessions, fetchApiKeys]);
+
+  const toggleNewKeyScope = (scope: ApiKeyScope) => {
+    setNewKeyScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope],
+    );
+  };
+
+  const handleCreateApiKey = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newKeyName.trim() || newKeyScopes.length === 0) return;
+
+    setActionInProgress('api-key:create');
+    try {
+      const days = Number(newKeyExpiryDays);
+      const expiresAt = days > 0 ? Date.now() + days * 24 * 60 * 60 * 1000 : undefined;
+      const result = await createApiKey(newKeyName.trim(), newKeyScopes, expiresAt);
+      setCreatedSecret(result.secret);
+      setNewKeyName('');
+      setNewKeyScopes([]);
+      await fetchApiKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create API key');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleRevokeApiKey = async (key: ApiKey) => {
+    if (!confirm(`Revoke the API key "${key.name}"? Scripts using it will stop working.`)) {
+      return;
+    }
+
+    setActionInProgress(`api-key:${key.id}`);
+    try {
+      await revokeApiKey(key.id);
+      await fetchApiKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke API key');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleRevokeSession = async (session: WalletSession) => {
+    if (!confirm(`Revoke the session for ${session.actor}? They will have to log in again.`)) {
+      return;
+    }
+
+    setActionInProgress(`session:${session.id}`);
+    try {
+      await revokeSession(session.id);
+      await fetchSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke session');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
 
   const handleApprove = async (requestId: string) => {
     setActionInProgress(requestId);
@@ -110,6 +1632,73 @@ export default function AdminPage() {
     }
   };
 
+  const handleReject = async (requestId: string) => {
+    setActionInProgress(requestId);
+    try {
+      await rejectDevice(requestId);
+      await fetchDevices();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reject device');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleRevoke = async (deviceId: string) => {
+    if (!confirm(`Revoke ${deviceId}? It will be disconnected and has to pair again.`)) return;
+
+    setActionInProgress(deviceId);
+    try {
+      await revokeDevice(deviceId);
+      if (detailDeviceId === deviceId) setDetailDeviceId(null);
+      await fetchDevices();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke device');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleRename = async (deviceId: string, displayName: string) => {
+    setActionInProgress(deviceId);
+    try {
+      await renameDevice(deviceId, displayName);
+      await fetchDevices();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename device');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleBulk = async (action: 'approve' | 'reject' | 'revoke') => {
+    const ids = action === 'revoke' ? selectedPaired : selectedPending;
+    if (ids.length === 0) return;
+    if (
+      action === 'revoke' &&
+      !confirm(`Revoke ${ids.length} device(s)? They have to pair again.`)
+    ) {
+      return;
+    }
+
+    const run = { approve: approveDevice, reject: rejectDevice, revoke: revokeDevice }[action];
+    setActionInProgress(`bulk-${action}`);
+    try {
+      const results = await Promise.allSettled(ids.map((id) => run(id)));
+      const failed = results.filter((r) => r.status === 'rejected').length;
+      if (failed > 0) setError(`Failed to ${action} ${failed} of ${ids.length} device(s)`);
+      if (action === 'revoke') {
+        setSelectedPaired([]);
+        if (detailDeviceId && ids.includes(detailDeviceId)) setDetailDeviceId(null);
+      } else {
+        setSelectedPending([]);
+      }
+      await fetchDevices();
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
   const handleApproveAll = async () => {
     if (pending.length === 0) return;
 
@@ -159,8 +1748,10 @@ export default function AdminPage() {
     try {
       const result = await triggerSync();
       if (result.success) {
-        // Update the storage status with new lastSync time
-        setStorageStatus((prev) => (prev ? { ...prev, lastSync: result.lastSync || null } : null));
+        // Update the storage status with new lastSync time and sync stats
+        setStorageStatus((prev) =>
+          prev ? { ...prev, lastSync: result.lastSync || null, lastSyncResult: result } : null,
+        );
         setError(null);
       } else {
         setError(result.error || 'Sync failed');
@@ -172,6 +1763,64 @@ export default function AdminPage() {
     }
   };
 
+  const detailDevice = paired.find((d) => d.deviceId === detailDeviceId);
+
+  const tabs = (
+    <nav className="admin-tabs">
+      <button className={tab === 'overview' ? 'active' : ''} onClick={() => setTab('overview')}>
+        Overview
+      </button>
+      <button className={tab === 'usage' ? 'active' : ''} onClick={() => setTab('usage')}>
+        Usage
+      </button>
+      <button className={tab === 'logs' ? 'active' : ''} onClick={() => setTab('logs')}>
+        Logs
+      </button>
+      <button className={tab === 'files' ? 'active' : ''} onClick={() => setTab('files')}>
+        Files
+      </button>
+      <button className={tab === 'audit' ? 'active' : ''} onClick={() => setTab('audit')}>
+        Audit
+      </button>
+    </nav>
+  );
+
+  if (tab === 'usage') {
+    return (
+      <div className="devices-page">
+        {tabs}
+        <UsagePanel />
+      </div>
+    );
+  }
+
+  if (tab === 'logs') {
+    return (
+      <div className="devices-page">
+        {tabs}
+        <LogsPanel />
+      </div>
+    );
+  }
+
+  if (tab === 'files') {
+    return (
+      <div className="devices-page">
+        {tabs}
+        <FilesPanel />
+      </div>
+    );
+  }
+
+  if (tab === 'audit') {
+    return (
+      <div className="devices-page">
+        {tabs}
+        <AuditLogPanel />
+      </div>
+    );
+  }
+
   return (
     <div className="devices-page">
       {error && (
@@ -183,6 +1832,8 @@ export default function AdminPage() {
         </div>
       )}
 
+      {tabs}
+
       {storageStatus && !storageStatus.configured && (
         <div className="warning-banner">
           <div className="warning-content">
@@ -216,6 +1867,9 @@ export default function AdminPage() {
               <span className="last-sync">
                 Last backup: {formatSyncTime(storageStatus.lastSync)}
               </span>
+              {storageStatus.lastSyncResult && (
+                <SyncResultSummary result={storageStatus.lastSyncResult} />
+              )}
             </div>
             <button
               className="btn btn-secondary btn-sm"
@@ -229,6 +1883,8 @@ export default function AdminPage() {
         </div>
       )}
 
+      {storageStatus?.configured && <SnapshotsPanel />}
+
       <section className="devices-section gateway-section">
         <div className="section-header">
           <h2>Gateway Controls</h2>
@@ -247,6 +1903,191 @@ export default function AdminPage() {
         </p>
       </section>
 
+      <ConnectionsPanel />
+
+      {sessions && (
+        <section className="devices-section">
+          <div className="section-header">
+            <h2>Active Sessions</h2>
+            <button className="btn btn-secondary" onClick={fetchSessions}>
+              Refresh
+            </button>
+          </div>
+
+          {sessions.length === 0 ? (
+            <div className="empty-state">
+              <p>No active wallet sessions</p>
+            </div>
+          ) : (
+            <div className="devices-grid">
+              {sessions.map((session) => (
+                <div key={session.id} className="device-card paired">
+                  <div className="device-header">
+                    <span className="device-name">{session.actor}</span>
+                    <span className="device-badge paired">{session.role}</span>
+                  </div>
+                  <div className="device-details">
+                    {session.ip && (
+                      <div className="detail-row">
+                        <span className="label">IP:</span>
+                        <span className="value">{session.ip}</span>
+                      </div>
+                    )}
+                    {session.userAgent && (
+                      <div className="detail-row">
+                        <span className="label">Client:</span>
+                        <span className="value" title={session.userAgent}>
+                          {session.userAgent.slice(0, 40)}
+                        </span>
+                      </div>
+                    )}
+                    <div className="detail-row">
+                      <span className="label">Signed in:</span>
+                      <span className="value" title={formatTimestamp(session.createdAt)}>
+                        {formatTimeAgo(session.createdAt)}
+                      </span>
+                    </div>
+                    <div className="detail-row">
+                      <span className="label">Last active:</span>
+                      <span className="value" title={formatTimestamp(session.refreshedAt)}>
+                        {formatTimeAgo(session.refreshedAt)}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="device-actions">
+                    <button
+                      className="btn btn-danger"
+                      onClick={() => handleRevokeSession(session)}
+                      disabled={actionInProgress !== null}
+                    >
+                      {actionInProgress === `session:${session.id}` && <ButtonSpinner />}
+                      Revoke
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+
+      {apiKeys && (
+        <section className="devices-section api-keys-section">
+          <div className="section-header">
+            <h2>API Keys</h2>
+            <button className="btn btn-secondary" onClick={fetchApiKeys}>
+              Refresh
+            </button>
+          </div>
+          <p className="hint">
+            Scoped keys for scripts and CI. Send as <code>X-API-Key</code> or{' '}
+            <code>Authorization: Bearer</code>.
+          </p>
+
+          {createdSecret && (
+            <div className="success-banner api-key-secret">
+              <span>Copy this key now — it will not be shown again:</span>
+              <code>{createdSecret}</code>
+              <button className="dismiss-btn" onClick={() => setCreatedSecret(null)}>
+                Done
+              </button>
+            </div>
+          )}
+
+          <form className="api-key-form" onSubmit={handleCreateApiKey}>
+            <input
+              type="text"
+              placeholder="Key name (e.g. github-actions)"
+              value={newKeyName}
+              maxLength={64}
+              onChange={(e) => setNewKeyName(e.target.value)}
+            />
+            <div className="api-key-scopes">
+              {apiKeyScopes.map((scope) => (
+                <label key={scope}>
+                  <input
+                    type="checkbox"
+                    checked={newKeyScopes.includes(scope)}
+                    onChange={() => toggleNewKeyScope(scope)}
+                  />
+                  {scope}
+                </label>
+              ))}
+            </div>
+            <select value={newKeyExpiryDays} onChange={(e) => setNewKeyExpiryDays(e.target.value)}>
+              <option value="30">Expires in 30 days</option>
+              <option value="90">Expires in 90 days</option>
+              <option value="365">Expires in 1 year</option>
+              <option value="0">Never expires</option>
+            </select>
+            <button
+              type="submit"
+              className="btn btn-primary"
+              disabled={
+                actionInProgress !== null || !newKeyName.trim() || newKeyScopes.length === 0
+              }
+            >
+              {actionInProgress === 'api-key:create' && <ButtonSpinner />}
+              Create Key
+            </button>
+          </form>
+
+          {apiKeys.length === 0 ? (
+            <div className="empty-state">
+              <p>No API keys</p>
+            </div>
+          ) : (
+            <div className="devices-grid">
+              {apiKeys.map((key) => (
+                <div key={key.id} className="device-card paired">
+                  <div className="device-header">
+                    <span className="device-name">{key.name}</span>
+                    <span className="device-badge paired">{key.id}</span>
+                  </div>
+                  <div className="device-details">
+                    <div className="detail-row">
+                      <span className="label">Scopes:</span>
+                      <span className="value">{key.scopes.join(', ')}</span>
+                    </div>
+                    <div className="detail-row">
+                      <span className="label">Created:</span>
+                      <span className="value" title={formatTimestamp(key.createdAt)}>
+                        {formatTimeAgo(key.createdAt)}
+                        {key.createdBy && ` by ${key.createdBy}`}
+                      </span>
+                    </div>
+                    <div className="detail-row">
+                      <span className="label">Expires:</span>
+                      <span className="value">
+                        {key.expiresAt ? formatTimestamp(key.expiresAt) : 'Never'}
+                      </span>
+                    </div>
+                    <div className="detail-row">
+                      <span className="label">Last used:</span>
+                      <span className="value">
+                        {key.lastUsedAt ? formatTimeAgo(key.lastUsedAt) : 'Never'}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="device-actions">
+                    <button
+                      className="btn btn-danger"
+                      onClick={() => handleRevokeApiKey(key)}
+                      disabled={actionInProgress !== null}
+                    >
+                      {actionInProgress === `api-key:${key.id}` && <ButtonSpinner />}
+                      Revoke
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+
+      <PairingLinkPanel />
+
       {loading ? (
         <div className="loading">
           <div className="spinner"></div>
@@ -258,6 +2099,26 @@ export default function AdminPage() {
             <div className="section-header">
               <h2>Pending Pairing Requests</h2>
               <div className="header-actions">
+                {selectedPending.length > 0 && (
+                  <>
+                    <button
+                      className="btn btn-success"
+                      onClick={() => handleBulk('approve')}
+                      disabled={actionInProgress !== null}
+                    >
+                      {actionInProgress === 'bulk-approve' && <ButtonSpinner />}
+                      Approve Selected ({selectedPending.length})
+                    </button>
+                    <button
+                      className="btn btn-danger"
+                      onClick={() => handleBulk('reject')}
+                      disabled={actionInProgress !== null}
+                    >
+                      {actionInProgress === 'bulk-reject' && <ButtonSpinner />}
+                      Reject Selected ({selectedPending.length})
+                    </button>
+                  </>
+                )}
                 {pending.length > 0 && (
                   <button
                     className="btn btn-primary"
@@ -288,6 +2149,14 @@ export default function AdminPage() {
                 {pending.map((device) => (
                   <div key={device.requestId} className="device-card pending">
                     <div className="device-header">
+                      <input
+                        type="checkbox"
+                        aria-label="Select"
+                        checked={selectedPending.includes(device.requestId)}
+                        onChange={() =>
+                          setSelectedPending((prev) => toggleId(prev, device.requestId))
+                        }
+                      />
                       <span className="device-name">
                         {device.displayName || device.deviceId || 'Unknown Device'}
                       </span>
@@ -340,6 +2209,13 @@ export default function AdminPage() {
                         {actionInProgress === device.requestId && <ButtonSpinner />}
                         {actionInProgress === device.requestId ? 'Approving...' : 'Approve'}
                       </button>
+                      <button
+                        className="btn btn-secondary"
+                        onClick={() => handleReject(device.requestId)}
+                        disabled={actionInProgress !== null}
+                      >
+                        Reject
+                      </button>
                     </div>
                   </div>
                 ))}
@@ -347,9 +2223,29 @@ export default function AdminPage() {
             )}
           </section>
 
+          {detailDevice && (
+            <DeviceDetail
+              device={detailDevice}
+              busy={actionInProgress !== null}
+              onRename={(displayName) => handleRename(detailDevice.deviceId, displayName)}
+              onRevoke={() => handleRevoke(detailDevice.deviceId)}
+              onClose={() => setDetailDeviceId(null)}
+            />
+          )}
+
           <section className="devices-section">
             <div className="section-header">
               <h2>Paired Devices</h2>
+              {selectedPaired.length > 0 && (
+                <button
+                  className="btn btn-danger"
+                  onClick={() => handleBulk('revoke')}
+                  disabled={actionInProgress !== null}
+                >
+                  {actionInProgress === 'bulk-revoke' && <ButtonSpinner />}
+                  Revoke Selected ({selectedPaired.length})
+                </button>
+              )}
             </div>
 
             {paired.length === 0 ? (
@@ -361,6 +2257,14 @@ export default function AdminPage() {
                 {paired.map((device) => (
                   <div key={device.deviceId} className="device-card paired">
                     <div className="device-header">
+                      <input
+                        type="checkbox"
+                        aria-label="Select"
+                        checked={selectedPaired.includes(device.deviceId)}
+                        onChange={() =>
+                          setSelectedPaired((prev) => toggleId(prev, device.deviceId))
+                        }
+                      />
                       <span className="device-name">
                         {device.displayName || device.deviceId || 'Unknown Device'}
                       </span>
@@ -397,6 +2301,30 @@ export default function AdminPage() {
                           {formatTimeAgo(device.approvedAtMs)}
                         </span>
                       </div>
+                      {device.lastSeenAtMs && (
+                        <div className="detail-row">
+                          <span className="label">Last seen:</span>
+                          <span className="value" title={formatTimestamp(device.lastSeenAtMs)}>
+                            {formatTimeAgo(device.lastSeenAtMs)}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                    <div className="device-actions">
+                      <button
+                        className="btn btn-secondary"
+                        onClick={() => setDetailDeviceId(device.deviceId)}
+                      >
+                        Details
+                      </button>
+                      <button
+                        className="btn btn-danger"
+                        onClick={() => handleRevoke(device.deviceId)}
+                        disabled={actionInProgress !== null}
+                      >
+                        {actionInProgress === device.deviceId && <ButtonSpinner />}
+                        Revoke
+                      </button>
                     </div>
                   </div>
                 ))}
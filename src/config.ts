@@ -15,3 +15,16 @@ export const STARTUP_TIMEOUT_MS = 180_000;
 export function getR2BucketName(env?: { R2_BUCKET_NAME?: string }): string {
   return env?.R2_BUCKET_NAME || 'moltbot-data';
 }
+
+/** XPR Network chain IDs, used for wallet login and signature verification */
+export const XPR_CHAIN_IDS = {
+  mainnet: '384da888112027f0321850a169f737c33e53b388aad48b5adace4bab97f437e0',
+  testnet: '71ee83bcf52142d61019d95f9cc5427ba6a0d7ff8accd9e2088ae2abeaf3d3dd',
+} as const;
+
+/**
+ * Chain ID for the configured XPR network (defaults to mainnet).
+ */
+export function getXprChainId(network?: string): string {
+  return network === 'testnet' ? XPR_CHAIN_IDS.testnet : XPR_CHAIN_IDS.mainnet;
+}
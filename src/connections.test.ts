@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  ConnectionRegistry,
+  disconnectConnection,
+  listConnections,
+  trackConnection,
+  type ConnectionRecord,
+} from './connections';
+import { createMockEnv } from './test-utils';
+
+/** Control socket stand-in, for either end */
+class FakeSocket {
+  sent: string[] = [];
+  closed = false;
+  private listeners: Record<string, Array<(event: { data?: unknown }) => void>> = {};
+
+  accept() {}
+
+  addEventListener(type: string, listener: (event: { data?: unknown }) => void) {
+    (this.listeners[type] ??= []).push(listener);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  emit(type: string, data?: unknown) {
+    for (const listener of this.listeners[type] ?? []) listener({ data });
+  }
+}
+
+function lastFrame(socket: FakeSocket) {
+  return JSON.parse(socket.sent[socket.sent.length - 1]);
+}
+
+/** Durable Object state with storage and hibernatable WebSockets tagged by connection ID */
+function createMockState() {
+  const data = new Map<string, unknown>();
+  const sockets = new Map<FakeSocket, string>();
+  const storage = {
+    get: async (key: string) => structuredClone(data.get(key)),
+    put: async (key: string, value: unknown) => {
+      data.set(key, structuredClone(value));
+    },
+    delete: async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) data.delete(key);
+    },
+    list: async ({ prefix = '' }: { prefix?: string }) =>
+      new Map([...data].filter(([key]) => key.startsWith(prefix))),
+  };
+  const state = {
+    storage,
+    getTags: (ws: FakeSocket) => (sockets.has(ws) ? [sockets.get(ws)!] : []),
+    getWebSockets: (tag?: string) =>
+      [...sockets].filter(([, id]) => tag === undefined || id === tag).map(([ws]) => ws),
+  } as unknown as DurableObjectState;
+
+  /** A proxy's control socket, registered as if it had connected */
+  const register = async (record: Partial<ConnectionRecord> & { id: string }) => {
+    const ws = new FakeSocket();
+    sockets.set(ws, record.id);
+    await storage.put(`conn:${record.id}`, {
+      startedAt: 1,
+      messagesIn: 0,
+      messagesOut: 0,
+      bytesIn: 0,
+      bytesOut: 0,
+      ...record,
+    });
+    return ws as unknown as WebSocket & FakeSocket;
+  };
+  return { state, data, sockets, register };
+}
+
+function createRegistryNamespace(registry: ConnectionRegistry): DurableObjectNamespace {
+  return {
+    idFromName: (name: string) => name,
+    get: () => ({
+      fetch: (input: string, init?: RequestInit) => registry.fetch(new Request(input, init)),
+    }),
+  } as unknown as DurableObjectNamespace;
+}
+
+describe('ConnectionRegistry', () => {
+  it('merges reported stats and device fields into the record', async () => {
+    const { state, register } = createMockState();
+    const registry = new ConnectionRegistry(state);
+    const ws = await register({ id: 'c1', user: 'alice' });
+
+    await registry.webSocketMessage(
+      ws,
+      JSON.stringify({
+        type: 'update',
+        device: { deviceId: 'dev-1', platform: 'macos' },
+        stats: { messagesIn: 2, messagesOut: 3, bytesIn: 40, bytesOut: 900, lastActivityAt: 5 },
+      }),
+    );
+
+    const connections = await listConnections(createRegistryNamespace(registry), 'moltbot');
+    expect(connections).toEqual([
+      expect.objectContaining({
+        id: 'c1',
+        user: 'alice',
+        deviceId: 'dev-1',
+        platform: 'macos',
+        messagesIn: 2,
+        bytesOut: 900,
+        lastActivityAt: 5,
+      }),
+    ]);
+  });
+
+  it('drops records when their control socket closes or is gone', async () => {
+    const { state, data, sockets, register } = createMockState();
+    const registry = new ConnectionRegistry(state);
+    const closed = await register({ id: 'c1', startedAt: 1 });
+    const lost = await register({ id: 'c2', startedAt: 2 });
+    await register({ id: 'c3', startedAt: 3 });
+
+    await registry.webSocketClose(closed);
+    sockets.delete(lost);
+
+    const connections = await listConnections(createRegistryNamespace(registry), 'moltbot');
+    expect(connections.map((c) => c.id)).toEqual(['c3']);
+    expect(closed.closed).toBe(true);
+    expect([...data.keys()]).toEqual(['conn:c3']);
+  });
+
+  it('sends a disconnect frame to the proxy holding the connection', async () => {
+    const { state, register } = createMockState();
+    const registry = new ConnectionRegistry(state);
+    const ws = await register({ id: 'c1' });
+    const namespace = createRegistryNamespace(registry);
+
+    expect(await disconnectConnection(namespace, 'moltbot', 'c1')).toBe(true);
+    expect(JSON.parse(ws.sent[0])).toEqual({ type: 'disconnect', reason: 'Disconnected by admin' });
+    expect(await disconnectConnection(namespace, 'moltbot', 'missing')).toBe(false);
+  });
+});
+
+describe('ConnectionTracker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createTrackedConnection(onDisconnect = vi.fn()) {
+    const socket = new FakeSocket();
+    const fetch = vi.fn().mockResolvedValue({ status: 101, webSocket: socket });
+    const env = createMockEnv({
+      CONNECTION_REGISTRY: {
+        idFromName: (name: string) => name,
+        get: () => ({ fetch }),
+      } as unknown as DurableObjectNamespace,
+    });
+    const tracker = trackConnection(
+      env,
+      'moltbot',
+      { id: 'c1', startedAt: 1, user: 'alice' },
+      onDisconnect,
+    )!;
+    return { tracker, socket, fetch, onDisconnect };
+  }
+
+  it('registers the connection and reports device and traffic', async () => {
+    vi.useFakeTimers();
+    const { tracker, socket, fetch } = createTrackedConnection();
+    await tracker.ready;
+
+    const [, init] = fetch.mock.calls[0];
+    expect(init.headers.Upgrade).toBe('websocket');
+    expect(JSON.parse(init.headers['X-Connection-Info'])).toMatchObject({
+      id: 'c1',
+      user: 'alice',
+    });
+
+    tracker.countIn('héllo');
+    tracker.countOut(new Uint8Array(10).buffer);
+    tracker.setDevice({ deviceId: 'dev-1', clientMode: undefined });
+    expect(lastFrame(socket)).toMatchObject({
+      type: 'update',
+      device: { deviceId: 'dev-1' },
+      stats: { messagesIn: 1, messagesOut: 1, bytesIn: 6, bytesOut: 10 },
+    });
+
+    const sent = socket.sent.length;
+    tracker.countIn('more');
+    expect(socket.sent).toHaveLength(sent);
+    vi.advanceTimersByTime(5000);
+    expect(lastFrame(socket).stats).toMatchObject({ messagesIn: 2, bytesIn: 10 });
+  });
+
+  it('relays admin disconnects and closes the control socket', async () => {
+    const { tracker, socket, onDisconnect } = createTrackedConnection();
+    await tracker.ready;
+
+    socket.emit('message', JSON.stringify({ type: 'disconnect', reason: 'Disconnected by admin' }));
+    expect(onDisconnect).toHaveBeenCalledWith('Disconnected by admin');
+
+    tracker.close();
+    expect(socket.closed).toBe(true);
+  });
+
+  it('is disabled without the binding', () => {
+    expect(trackConnection(createMockEnv(), 'moltbot', { id: 'c1', startedAt: 1 }, vi.fn())).toBe(
+      null,
+    );
+  });
+});
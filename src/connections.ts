@@ -0,0 +1,332 @@
+/**
+ * Registry of open WebSocket connections through the proxy.
+ *
+ * The catch-all proxy (index.ts) relays each client WebSocket to the gateway in
+ * the container. With the CONNECTION_REGISTRY binding it also registers the
+ * connection with the tenant's ConnectionRegistry Durable Object: it opens a
+ * control WebSocket of its own to the registry, carrying the connection's
+ * details, then sends its message and byte counts every few seconds. The
+ * registry keeps one record per control socket and drops it when the socket
+ * closes, so connections whose worker went away disappear too. An admin
+ * disconnect is a frame down the control socket; the proxy then closes both
+ * sides of the relay.
+ *
+ * The registry uses the WebSocket hibernation API, so it is evicted from memory
+ * while connections are idle. Tracking is disabled when the binding is missing.
+ */
+
+import type { MoltbotEnv } from './types';
+import type { AuthRole } from './auth/roles';
+import { createLogger } from './utils/logging';
+
+const log = createLogger('connections');
+
+/** How often the proxy reports counts for an active connection */
+const STATS_FLUSH_MS = 5000;
+
+/** Header carrying the connection's details on the control socket upgrade */
+const CONNECTION_HEADER = 'X-Connection-Info';
+
+const RECORD_PREFIX = 'conn:';
+
+export const ADMIN_DISCONNECT_REASON = 'Disconnected by admin';
+
+export interface ConnectionDevice {
+  deviceId?: string; // from the client's connect frame
+  clientMode?: string;
+  platform?: string;
+}
+
+export interface ConnectionInfo extends ConnectionDevice {
+  id: string;
+  startedAt: number; // ms
+  user?: string; // account or email of the session
+  role?: AuthRole;
+  ip?: string; // CF-Connecting-IP
+  userAgent?: string;
+}
+
+export interface ConnectionStats {
+  messagesIn: number; // client → gateway
+  messagesOut: number; // gateway → client
+  bytesIn: number;
+  bytesOut: number;
+  lastActivityAt?: number; // ms
+}
+
+export type ConnectionRecord = ConnectionInfo & ConnectionStats;
+
+/** Frames on the control socket between the proxy and the registry */
+type ControlFrame =
+  | { type: 'update'; device: ConnectionDevice; stats: ConnectionStats }
+  | { type: 'disconnect'; reason: string };
+
+const EMPTY_STATS: ConnectionStats = { messagesIn: 0, messagesOut: 0, bytesIn: 0, bytesOut: 0 };
+
+const encoder = new TextEncoder();
+
+function byteLength(data: unknown): number {
+  if (typeof data === 'string') return encoder.encode(data).byteLength;
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return data.byteLength;
+  return 0;
+}
+
+function parseFrame(data: unknown): ControlFrame | null {
+  if (typeof data !== 'string') return null;
+  try {
+    return JSON.parse(data) as ControlFrame;
+  } catch {
+    return null;
+  }
+}
+
+/** Keep only the device fields that are set */
+function definedDevice(device: ConnectionDevice): ConnectionDevice {
+  const result: ConnectionDevice = {};
+  if (device.deviceId) result.deviceId = device.deviceId;
+  if (device.clientMode) result.clientMode = device.clientMode;
+  if (device.platform) result.platform = device.platform;
+  return result;
+}
+
+/**
+ * Durable Object holding one tenant's open connections, one storage record per
+ * control socket (tagged with the connection ID).
+ */
+export class ConnectionRegistry implements DurableObject {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (url.pathname === '/connect' && request.headers.get('Upgrade') === 'websocket') {
+      return this.connect(request);
+    }
+    if (request.method === 'GET' && url.pathname === '/connections') {
+      return Response.json({ connections: await this.list() });
+    }
+    const match = url.pathname.match(/^\/connections\/([^/]+)$/);
+    if (request.method === 'DELETE' && match) {
+      const reason = url.searchParams.get('reason') || ADMIN_DISCONNECT_REASON;
+      return Response.json({ disconnected: this.disconnect(decodeURIComponent(match[1]), reason) });
+    }
+    return new Response('Not found', { status: 404 });
+  }
+
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    const id = this.state.getTags(ws)[0];
+    const frame = parseFrame(message);
+    if (!id || frame?.type !== 'update') return;
+
+    const key = RECORD_PREFIX + id;
+    const record = await this.state.storage.get<ConnectionRecord>(key);
+    if (!record) return;
+    await this.state.storage.put(key, {
+      ...record,
+      ...definedDevice(frame.device ?? {}),
+      ...frame.stats,
+    });
+  }
+
+  async webSocketClose(ws: WebSocket): Promise<void> {
+    await this.remove(ws);
+  }
+
+  async webSocketError(ws: WebSocket): Promise<void> {
+    await this.remove(ws);
+  }
+
+  private async connect(request: Request): Promise<Response> {
+    let info: ConnectionInfo | null = null;
+    try {
+      info = JSON.parse(request.headers.get(CONNECTION_HEADER) ?? 'null') as ConnectionInfo | null;
+    } catch {
+      // Reported below
+    }
+    if (!info?.id) return new Response('Missing connection info', { status: 400 });
+
+    const [client, server] = Object.values(new WebSocketPair());
+    this.state.acceptWebSocket(server, [info.id]);
+    await this.state.storage.put(RECORD_PREFIX + info.id, { ...info, ...EMPTY_STATS });
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  private async remove(ws: WebSocket): Promise<void> {
+    const id = this.state.getTags(ws)[0];
+    if (id) await this.state.storage.delete(RECORD_PREFIX + id);
+    try {
+      ws.close(1000, 'closed');
+    } catch {
+      // Already closed
+    }
+  }
+
+  private async list(): Promise<ConnectionRecord[]> {
+    const stored = await this.state.storage.list<ConnectionRecord>({ prefix: RECORD_PREFIX });
+    const open = new Set(this.state.getWebSockets().flatMap((ws) => this.state.getTags(ws)));
+
+    // Records whose control socket is gone without a close event (e.g. a runtime restart)
+    const stale = [...stored.keys()].filter((key) => !open.has(key.slice(RECORD_PREFIX.length)));
+    if (stale.length > 0) await this.state.storage.delete(stale);
+
+    const records = [...stored.values()].filter((record) => open.has(record.id));
+    records.sort((a, b) => b.startedAt - a.startedAt);
+    return records;
+  }
+
+  /** Ask the proxy holding a connection to close it. Returns false if it is not open. */
+  private disconnect(id: string, reason: string): boolean {
+    const sockets = this.state.getWebSockets(id);
+    const frame: ControlFrame = { type: 'disconnect', reason };
+    for (const ws of sockets) ws.send(JSON.stringify(frame));
+    return sockets.length > 0;
+  }
+}
+
+/**
+ * The proxy's side of a registered connection: counts traffic, reports it to
+ * the registry and relays admin disconnects.
+ */
+export class ConnectionTracker {
+  /** Settles once the control socket is open (or failed to open; logged) */
+  readonly ready: Promise<void>;
+
+  private readonly stats: ConnectionStats = { ...EMPTY_STATS };
+  private device: ConnectionDevice = {};
+  private socket: WebSocket | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(
+    stub: DurableObjectStub,
+    readonly info: ConnectionInfo,
+    private readonly onDisconnect: (reason: string) => void,
+  ) {
+    this.ready = this.open(stub).catch((err) => {
+      log.warn('Could not register connection', { connectionId: info.id, error: err });
+    });
+  }
+
+  /** A message from the client to the gateway */
+  countIn(data: unknown): void {
+    this.stats.messagesIn++;
+    this.stats.bytesIn += byteLength(data);
+    this.touch();
+  }
+
+  /** A message from the gateway to the client */
+  countOut(data: unknown): void {
+    this.stats.messagesOut++;
+    this.stats.bytesOut += byteLength(data);
+    this.touch();
+  }
+
+  setDevice(device: ConnectionDevice): void {
+    this.device = definedDevice(device);
+    this.flush();
+  }
+
+  /** Unregister the connection (either side of the relay closed) */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    try {
+      this.socket?.close(1000, 'closed');
+    } catch {
+      // Already closed
+    }
+    this.socket = null;
+  }
+
+  private async open(stub: DurableObjectStub): Promise<void> {
+    const response = await stub.fetch('https://connection-registry/connect', {
+      headers: { Upgrade: 'websocket', [CONNECTION_HEADER]: JSON.stringify(this.info) },
+    });
+    const ws = response.webSocket;
+    if (!ws) throw new Error(`Connection registry returned ${response.status}`);
+    ws.accept();
+    if (this.closed) {
+      ws.close(1000, 'closed');
+      return;
+    }
+
+    this.socket = ws;
+    ws.addEventListener('message', (event) => {
+      const frame = parseFrame(event.data);
+      if (frame?.type === 'disconnect') this.onDisconnect(frame.reason);
+    });
+    ws.addEventListener('close', () => {
+      this.socket = null;
+    });
+    // Report what was counted (and the device) before the registry answered
+    this.flush();
+  }
+
+  private touch(): void {
+    this.stats.lastActivityAt = Date.now();
+    if (this.flushTimer || this.closed) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, STATS_FLUSH_MS);
+  }
+
+  private flush(): void {
+    if (!this.socket) return;
+    const frame: ControlFrame = { type: 'update', device: this.device, stats: this.stats };
+    try {
+      this.socket.send(JSON.stringify(frame));
+    } catch (err) {
+      log.debug('Could not report connection stats', { connectionId: this.info.id, error: err });
+    }
+  }
+}
+
+function registryStub(namespace: DurableObjectNamespace, tenantId: string): DurableObjectStub {
+  return namespace.get(namespace.idFromName(tenantId));
+}
+
+/**
+ * Register a proxied connection, or return null when tracking is disabled.
+ * `onDisconnect` is called when an admin disconnects it.
+ */
+export function trackConnection(
+  env: MoltbotEnv,
+  tenantId: string,
+  info: ConnectionInfo,
+  onDisconnect: (reason: string) => void,
+): ConnectionTracker | null {
+  if (!env.CONNECTION_REGISTRY) return null;
+  return new ConnectionTracker(registryStub(env.CONNECTION_REGISTRY, tenantId), info, onDisconnect);
+}
+
+/**
+ * List a tenant's open connections, newest first.
+ */
+export async function listConnections(
+  namespace: DurableObjectNamespace,
+  tenantId: string,
+): Promise<ConnectionRecord[]> {
+  const response = await registryStub(namespace, tenantId).fetch(
+    'https://connection-registry/connections',
+  );
+  if (!response.ok) throw new Error(`Connection registry returned ${response.status}`);
+  return ((await response.json()) as { connections: ConnectionRecord[] }).connections;
+}
+
+/**
+ * Forcibly close a connection. Returns false if it is not open.
+ */
+export async function disconnectConnection(
+  namespace: DurableObjectNamespace,
+  tenantId: string,
+  connectionId: string,
+): Promise<boolean> {
+  const response = await registryStub(namespace, tenantId).fetch(
+    `https://connection-registry/connections/${encodeURIComponent(connectionId)}`,
+    { method: 'DELETE' },
+  );
+  if (!response.ok) throw new Error(`Connection registry returned ${response.status}`);
+  return ((await response.json()) as { disconnected: boolean }).disconnected;
+}
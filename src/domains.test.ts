@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  normalizeHostname,
+  isValidHostname,
+  claimCustomDomain,
+  verifyCustomDomain,
+  removeCustomDomain,
+  listCustomDomains,
+  resolveCustomDomain,
+  getVerificationRecord,
+} from './domains';
+import { createMockKV, suppressConsole } from './test-utils';
+
+describe('hostnames', () => {
+  it('normalizes case, ports and trailing dots', () => {
+    expect(normalizeHostname('Bot.Example.com:443')).toBe('bot.example.com');
+    expect(normalizeHostname('bot.example.com.')).toBe('bot.example.com');
+  });
+
+  it('accepts fully qualified names only', () => {
+    expect(isValidHostname('bot.example.com')).toBe(true);
+    expect(isValidHostname('example.com')).toBe(true);
+    expect(isValidHostname('localhost')).toBe(false);
+    expect(isValidHostname('-bad.example.com')).toBe(false);
+    expect(isValidHostname('bot_1.example.com')).toBe(false);
+  });
+});
+
+describe('custom domains', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('routes a domain only after its TXT record is verified', async () => {
+    const kv = createMockKV();
+    const claim = await claimCustomDomain(kv, 'charliebot', 'bot.example.com');
+    if ('error' in claim) throw new Error(claim.error);
+
+    expect(claim.domain).toMatchObject({ agentName: 'charliebot', verified: false });
+    expect(await resolveCustomDomain(kv, 'bot.example.com')).toBeNull();
+
+    const record = getVerificationRecord(claim.domain);
+    expect(record.name).toBe('_moltworker.bot.example.com');
+
+    const missing = await verifyCustomDomain(kv, 'charliebot', 'bot.example.com', async () => []);
+    expect(missing?.verified).toBe(false);
+
+    const resolveTxt = async (name: string) => (name === record.name ? [record.value] : []);
+    const result = await verifyCustomDomain(kv, 'charliebot', 'bot.example.com', resolveTxt);
+    expect(result?.verified).toBe(true);
+    expect(result?.domain.verifiedAt).toBeTypeOf('number');
+    expect(await resolveCustomDomain(kv, 'BOT.example.com:443')).toBe('charliebot');
+  });
+
+  it("does not let another agent claim, verify or remove an agent's domain", async () => {
+    const kv = createMockKV();
+    await claimCustomDomain(kv, 'charliebot', 'bot.example.com');
+
+    expect(await claimCustomDomain(kv, 'otherbot', 'bot.example.com')).toEqual({
+      error: 'Domain bot.example.com is already claimed by another agent',
+    });
+    expect(await verifyCustomDomain(kv, 'otherbot', 'bot.example.com', async () => [])).toBeNull();
+    expect(await removeCustomDomain(kv, 'otherbot', 'bot.example.com')).toBe(false);
+  });
+
+  it("lists and removes an agent's domains", async () => {
+    const kv = createMockKV();
+    await claimCustomDomain(kv, 'charliebot', 'b.example.com');
+    await claimCustomDomain(kv, 'charliebot', 'a.example.com');
+    await claimCustomDomain(kv, 'otherbot', 'c.example.com');
+
+    const domains = await listCustomDomains(kv, 'charliebot');
+    expect(domains.map((d) => d.hostname)).toEqual(['a.example.com', 'b.example.com']);
+
+    expect(await removeCustomDomain(kv, 'charliebot', 'a.example.com')).toBe(true);
+    expect((await listCustomDomains(kv, 'charliebot')).map((d) => d.hostname)).toEqual([
+      'b.example.com',
+    ]);
+  });
+});
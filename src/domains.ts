@@ -0,0 +1,220 @@
+/**
+ * Custom domains for tenants (e.g. `bot.example.com` → agent `charliebot`).
+ *
+ * A tenant claims a hostname from its admin API and proves control of it by
+ * publishing a TXT record:
+ *
+ *   _moltworker.{hostname}  TXT  "moltworker-verify={token}"
+ *
+ * Claims live in AGENT_KV under `domain:{hostname}`. Unverified claims expire
+ * after CLAIM_TTL_SECONDS so an abandoned claim cannot block another tenant.
+ * Only verified domains are used for routing (see resolveCustomDomain), and
+ * lookups are cached per isolate for a short time since they run on every
+ * request. The hostname still has to be routed to this worker in Cloudflare.
+ */
+
+import { createLogger } from './utils/logging';
+
+const log = createLogger('domains');
+
+export interface CustomDomain {
+  hostname: string;
+  agentName: string;
+  token: string;
+  verified: boolean;
+  createdAt: number; // ms
+  verifiedAt?: number; // ms
+}
+
+export interface DomainVerificationRecord {
+  type: 'TXT';
+  name: string;
+  value: string;
+}
+
+/** Resolves the TXT records of a DNS name (injectable for tests) */
+export type TxtResolver = (name: string) => Promise<string[]>;
+
+const DOMAIN_PREFIX = 'domain:';
+
+/** Unverified claims expire after 7 days */
+const CLAIM_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** How long hostname → agent lookups are cached in memory */
+const LOOKUP_CACHE_TTL_MS = 60 * 1000;
+
+const lookupCache = new Map<string, { agentName: string | null; expiresAt: number }>();
+
+/**
+ * Lowercase a hostname and strip any port and trailing dot.
+ */
+export function normalizeHostname(hostname: string): string {
+  return hostname.trim().toLowerCase().split(':')[0].replace(/\.$/, '');
+}
+
+/**
+ * Check that a hostname is a fully qualified DNS name (at least two labels).
+ */
+export function isValidHostname(hostname: string): boolean {
+  if (hostname.length > 253) return false;
+  const labels = hostname.split('.');
+  if (labels.length < 2) return false;
+  return labels.every((label) => /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/.test(label));
+}
+
+/**
+ * The TXT record a tenant must publish to verify a claim.
+ */
+export function getVerificationRecord(domain: CustomDomain): DomainVerificationRecord {
+  return {
+    type: 'TXT',
+    name: `_moltworker.${domain.hostname}`,
+    value: `moltworker-verify=${domain.token}`,
+  };
+}
+
+async function getDomain(kv: KVNamespace, hostname: string): Promise<CustomDomain | null> {
+  const raw = await kv.get(DOMAIN_PREFIX + hostname);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as CustomDomain;
+  } catch {
+    log.error('Failed to parse domain record', { hostname });
+    return null;
+  }
+}
+
+async function putDomain(kv: KVNamespace, domain: CustomDomain): Promise<void> {
+  await kv.put(DOMAIN_PREFIX + domain.hostname, JSON.stringify(domain), {
+    expirationTtl: domain.verified ? undefined : CLAIM_TTL_SECONDS,
+  });
+  lookupCache.delete(domain.hostname);
+}
+
+/**
+ * Resolve a request hostname to the agent that verified it.
+ * Returns null if the hostname is not a verified custom domain.
+ */
+export async function resolveCustomDomain(
+  kv: KVNamespace,
+  hostname: string,
+): Promise<string | null> {
+  const host = normalizeHostname(hostname);
+  if (!host) return null;
+
+  const cached = lookupCache.get(host);
+  if (cached && cached.expiresAt > Date.now()) return cached.agentName;
+
+  const domain = await getDomain(kv, host);
+  const agentName = domain?.verified ? domain.agentName : null;
+  lookupCache.set(host, { agentName, expiresAt: Date.now() + LOOKUP_CACHE_TTL_MS });
+  return agentName;
+}
+
+/**
+ * List every custom domain claimed by an agent (verified or pending).
+ */
+export async function listCustomDomains(
+  kv: KVNamespace,
+  agentName: string,
+): Promise<CustomDomain[]> {
+  const domains: CustomDomain[] = [];
+  let cursor: string | undefined;
+  do {
+    // eslint-disable-next-line no-await-in-loop -- KV list pagination is sequential
+    const page = await kv.list({ prefix: DOMAIN_PREFIX, cursor });
+    // eslint-disable-next-line no-await-in-loop
+    const records = await Promise.all(
+      page.keys.map((k) => getDomain(kv, k.name.slice(DOMAIN_PREFIX.length))),
+    );
+    for (const domain of records) {
+      if (domain?.agentName === agentName) domains.push(domain);
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  domains.sort((a, b) => a.hostname.localeCompare(b.hostname));
+  return domains;
+}
+
+/**
+ * Claim a hostname for an agent. Returns the existing claim if the agent
+ * already holds it, or an error if another agent does.
+ */
+export async function claimCustomDomain(
+  kv: KVNamespace,
+  agentName: string,
+  hostname: string,
+): Promise<{ domain: CustomDomain } | { error: string }> {
+  const existing = await getDomain(kv, hostname);
+  if (existing) {
+    if (existing.agentName === agentName) return { domain: existing };
+    return { error: `Domain ${hostname} is already claimed by another agent` };
+  }
+
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  const domain: CustomDomain = {
+    hostname,
+    agentName,
+    token: Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join(''),
+    verified: false,
+    createdAt: Date.now(),
+  };
+  await putDomain(kv, domain);
+  return { domain };
+}
+
+/**
+ * Check the TXT record of an agent's claim and mark it verified.
+ * Returns null if the agent has no claim on the hostname.
+ */
+export async function verifyCustomDomain(
+  kv: KVNamespace,
+  agentName: string,
+  hostname: string,
+  resolveTxt: TxtResolver = lookupTxtRecords,
+): Promise<{ domain: CustomDomain; verified: boolean } | null> {
+  const domain = await getDomain(kv, hostname);
+  if (!domain || domain.agentName !== agentName) return null;
+  if (domain.verified) return { domain, verified: true };
+
+  const expected = getVerificationRecord(domain);
+  const records = await resolveTxt(expected.name);
+  if (!records.includes(expected.value)) return { domain, verified: false };
+
+  const verified: CustomDomain = { ...domain, verified: true, verifiedAt: Date.now() };
+  await putDomain(kv, verified);
+  return { domain: verified, verified: true };
+}
+
+/**
+ * Remove an agent's claim on a hostname. Returns false if it holds none.
+ */
+export async function removeCustomDomain(
+  kv: KVNamespace,
+  agentName: string,
+  hostname: string,
+): Promise<boolean> {
+  const domain = await getDomain(kv, hostname);
+  if (!domain || domain.agentName !== agentName) return false;
+
+  await kv.delete(DOMAIN_PREFIX + hostname);
+  lookupCache.delete(hostname);
+  return true;
+}
+
+/**
+ * Look up TXT records over DNS-over-HTTPS (Workers have no DNS API).
+ */
+export async function lookupTxtRecords(name: string): Promise<string[]> {
+  const url = `https://cloudflare-dns.com/dns-query?name=${encodeURIComponent(name)}&type=TXT`;
+  const response = await fetch(url, { headers: { Accept: 'application/dns-json' } });
+  if (!response.ok) {
+    throw new Error(`DNS lookup failed: ${response.status}`);
+  }
+
+  const body = (await response.json()) as { Answer?: Array<{ type: number; data: string }> };
+  // TXT data is quoted and long values are split into several strings
+  return (body.Answer ?? [])
+    .filter((answer) => answer.type === 16)
+    .map((answer) => answer.data.replace(/"\s+"/g, '').replace(/^"|"$/g, ''));
+}
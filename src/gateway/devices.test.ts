@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  GatewayDeviceClient,
+  DeviceRequestError,
+  deviceErrorStatus,
+  withDeviceClient,
+} from './devices';
+import { createMockSandbox } from '../test-utils';
+
+interface Frame {
+  id: string;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+type Responder = (frame: Frame) => object | undefined;
+
+/** Stand-in for the container side of the control socket */
+class FakeSocket {
+  sent: Frame[] = [];
+  closed = false;
+  private listeners: Record<string, Array<(event: { data?: unknown }) => void>> = {};
+
+  constructor(private respond: Responder) {}
+
+  accept() {}
+
+  addEventListener(type: string, listener: (event: { data?: unknown }) => void) {
+    (this.listeners[type] ??= []).push(listener);
+  }
+
+  send(data: string) {
+    const frame = JSON.parse(data) as Frame;
+    this.sent.push(frame);
+    const reply = this.respond(frame);
+    if (reply) queueMicrotask(() => this.emit('message', JSON.stringify(reply)));
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  emit(type: string, data?: unknown) {
+    for (const listener of this.listeners[type] ?? []) listener({ data });
+  }
+}
+
+function ok(frame: Frame, payload: unknown = {}) {
+  return { type: 'res', id: frame.id, ok: true, payload };
+}
+
+function gatewaySandbox(respond: Responder) {
+  const socket = new FakeSocket((frame) =>
+    frame.method === 'connect' ? ok(frame, { type: 'hello-ok' }) : respond(frame),
+  );
+  const mocks = createMockSandbox();
+  mocks.containerFetchMock.mockResolvedValue({ status: 101, webSocket: socket });
+  return { ...mocks, socket };
+}
+
+describe('GatewayDeviceClient', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('connects as an operator with the gateway token', async () => {
+    const { sandbox, socket, containerFetchMock } = gatewaySandbox(() => undefined);
+    const client = await GatewayDeviceClient.connect(sandbox, 'secret');
+
+    const request = containerFetchMock.mock.calls[0][0] as Request;
+    expect(request.headers.get('Authorization')).toBe('Bearer secret');
+    expect(request.headers.get('Upgrade')).toBe('websocket');
+    expect(socket.sent[0]).toMatchObject({
+      method: 'connect',
+      params: { role: 'operator', auth: { token: 'secret' } },
+    });
+    client.close();
+    expect(socket.closed).toBe(true);
+  });
+
+  it('lists devices and approves by request ID', async () => {
+    const device = { deviceId: 'dev-1', createdAtMs: 1, approvedAtMs: 2 };
+    const { sandbox, socket } = gatewaySandbox((frame) => {
+      if (frame.method === 'device.pair.list') {
+        return ok(frame, { pending: [{ requestId: 'req-1', deviceId: 'dev-1', ts: 1 }] });
+      }
+      if (frame.method === 'device.pair.approve') return ok(frame, { device });
+      return undefined;
+    });
+
+    const result = await withDeviceClient(sandbox, undefined, async (client) => {
+      const list = await client.list();
+      return { list, approved: await client.approve(list.pending[0].requestId) };
+    });
+
+    expect(result.list).toEqual({
+      pending: [{ requestId: 'req-1', deviceId: 'dev-1', ts: 1 }],
+      paired: [],
+    });
+    expect(result.approved).toEqual(device);
+    expect(socket.sent[2]).toMatchObject({
+      method: 'device.pair.approve',
+      params: { requestId: 'req-1' },
+    });
+    expect(socket.closed).toBe(true);
+  });
+
+  it('turns gateway errors into DeviceRequestError with a status', async () => {
+    const { sandbox } = gatewaySandbox((frame) => ({
+      type: 'res',
+      id: frame.id,
+      ok: false,
+      error: { code: 'INVALID_REQUEST', message: 'unknown requestId' },
+    }));
+
+    const error = await withDeviceClient(sandbox, undefined, (client) =>
+      client.reject('req-9'),
+    ).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(DeviceRequestError);
+    expect(error).toMatchObject({ code: 'INVALID_REQUEST', status: 404 });
+  });
+
+  it('fails pending requests when the gateway closes the socket', async () => {
+    const { sandbox, socket } = gatewaySandbox(() => undefined);
+    const client = await GatewayDeviceClient.connect(sandbox);
+
+    const pending = client.revoke('dev-1');
+    socket.emit('close');
+
+    await expect(pending).rejects.toMatchObject({ code: 'UNAVAILABLE', status: 503 });
+  });
+
+  it('times out requests the gateway does not answer', async () => {
+    const { sandbox } = gatewaySandbox(() => undefined);
+    const client = await GatewayDeviceClient.connect(sandbox, undefined, 50);
+
+    vi.useFakeTimers();
+    const pending = client.rename('dev-1', 'Laptop');
+    vi.advanceTimersByTime(50);
+
+    await expect(pending).rejects.toMatchObject({ code: 'TIMEOUT', status: 504 });
+  });
+
+  it('reports a gateway that refuses the upgrade as unavailable', async () => {
+    const { sandbox, containerFetchMock } = createMockSandbox();
+    containerFetchMock.mockResolvedValue({ status: 502, webSocket: null });
+
+    await expect(GatewayDeviceClient.connect(sandbox)).rejects.toMatchObject({
+      code: 'UNAVAILABLE',
+      status: 503,
+    });
+  });
+});
+
+describe('deviceErrorStatus', () => {
+  it('maps gateway error codes to HTTP statuses', () => {
+    expect(deviceErrorStatus('INVALID_REQUEST', 'displayName required')).toBe(400);
+    expect(deviceErrorStatus('INVALID_REQUEST', 'unknown deviceId')).toBe(404);
+    expect(deviceErrorStatus('UNAVAILABLE', 'gateway busy')).toBe(503);
+    expect(deviceErrorStatus('FORBIDDEN', 'missing scope: operator.pairing')).toBe(502);
+  });
+});
@@ -0,0 +1,297 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import { MOLTBOT_PORT } from '../config';
+import { createLogger } from '../utils/logging';
+
+/**
+ * Device pairing through the gateway's WebSocket control protocol.
+ *
+ * The worker opens a WebSocket to the gateway port in the container (with the
+ * gateway token as a bearer header, like the proxy in index.ts), sends the
+ * `connect` handshake as an operator with the pairing scope, then exchanges
+ * `req`/`res` frames matched by ID. Events on the socket are ignored. This
+ * replaces running `openclaw devices ...` in the container, which paid for a
+ * Node.js startup and a connection per call.
+ */
+
+const log = createLogger('devices');
+
+export const GATEWAY_PROTOCOL_VERSION = 3;
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+/** Control protocol methods used for device management */
+export const DEVICE_METHODS = {
+  list: 'device.pair.list',
+  approve: 'device.pair.approve',
+  reject: 'device.pair.reject',
+  revoke: 'device.pair.remove',
+  rename: 'device.pair.rename',
+} as const;
+
+export interface PendingDevice {
+  requestId: string;
+  deviceId: string;
+  displayName?: string;
+  platform?: string;
+  clientId?: string;
+  clientMode?: string;
+  role?: string;
+  roles?: string[];
+  scopes?: string[];
+  remoteIp?: string;
+  ts: number;
+}
+
+export interface PairedDevice {
+  deviceId: string;
+  displayName?: string;
+  platform?: string;
+  clientId?: string;
+  clientMode?: string;
+  role?: string;
+  roles?: string[];
+  scopes?: string[];
+  remoteIp?: string;
+  createdAtMs: number;
+  approvedAtMs: number;
+  lastSeenAtMs?: number;
+}
+
+export interface DeviceList {
+  pending: PendingDevice[];
+  paired: PairedDevice[];
+}
+
+/** HTTP status the admin API answers with for each kind of failure */
+export type DeviceErrorStatus = 400 | 404 | 502 | 503 | 504;
+
+/**
+ * A failed control request. `code` is the gateway's error code, or
+ * UNAVAILABLE / TIMEOUT when the gateway could not be reached in time.
+ */
+export class DeviceRequestError extends Error {
+  constructor(
+    message: string,
+    readonly code: string,
+    readonly status: DeviceErrorStatus,
+  ) {
+    super(message);
+    this.name = 'DeviceRequestError';
+  }
+}
+
+interface RequestFrame {
+  type: 'req';
+  id: string;
+  method: string;
+  params?: unknown;
+}
+
+interface ResponseFrame {
+  type: 'res';
+  id: string;
+  ok: boolean;
+  payload?: unknown;
+  error?: { code?: string; message?: string };
+}
+
+interface PendingRequest {
+  resolve: (payload: unknown) => void;
+  reject: (error: DeviceRequestError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Map a gateway error to an HTTP status. The gateway reports unknown request
+ * and device IDs as INVALID_REQUEST, so those are told apart by message.
+ */
+export function deviceErrorStatus(code: string, message: string): DeviceErrorStatus {
+  if (code === 'NOT_FOUND' || /\b(unknown|not found|no such)\b/i.test(message)) return 404;
+  if (code === 'INVALID_REQUEST') return 400;
+  if (code === 'UNAVAILABLE') return 503;
+  if (code === 'TIMEOUT') return 504;
+  return 502;
+}
+
+export class GatewayDeviceClient {
+  private readonly requests = new Map<string, PendingRequest>();
+  private nextId = 1;
+  private closed = false;
+
+  private constructor(
+    private readonly ws: WebSocket,
+    private readonly timeoutMs: number,
+  ) {
+    ws.addEventListener('message', (event) => this.handleMessage(event.data));
+    ws.addEventListener('close', () => this.handleClose());
+    ws.addEventListener('error', () => this.handleClose());
+  }
+
+  /**
+   * Open a control connection and authenticate. The token is the tenant's
+   * gateway token; without one the gateway only trusts the local connection.
+   */
+  static async connect(
+    sandbox: Sandbox,
+    token?: string,
+    timeoutMs = REQUEST_TIMEOUT_MS,
+  ): Promise<GatewayDeviceClient> {
+    const headers = new Headers({ Upgrade: 'websocket' });
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+
+    let response: Response;
+    try {
+      response = await sandbox.containerFetch(
+        new Request(`http://localhost:${MOLTBOT_PORT}/`, { headers }),
+        MOLTBOT_PORT,
+      );
+    } catch (err) {
+      throw new DeviceRequestError(
+        `Gateway is not reachable: ${err instanceof Error ? err.message : String(err)}`,
+        'UNAVAILABLE',
+        503,
+      );
+    }
+    const ws = response.webSocket;
+    if (!ws) {
+      throw new DeviceRequestError(
+        `Gateway refused the control connection (HTTP ${response.status})`,
+        'UNAVAILABLE',
+        503,
+      );
+    }
+    ws.accept();
+
+    const client = new GatewayDeviceClient(ws, timeoutMs);
+    try {
+      await client.request('connect', {
+        minProtocol: GATEWAY_PROTOCOL_VERSION,
+        maxProtocol: GATEWAY_PROTOCOL_VERSION,
+        client: {
+          id: 'gateway-client',
+          displayName: 'Admin API',
+          version: '1.0.0',
+          platform: 'cloudflare-workers',
+          mode: 'backend',
+        },
+        role: 'operator',
+        scopes: ['operator.admin', 'operator.pairing'],
+        auth: token ? { token } : undefined,
+      });
+    } catch (err) {
+      client.close();
+      throw err;
+    }
+    return client;
+  }
+
+  /**
+   * Send a request and wait for its response.
+   */
+  request<T = unknown>(method: string, params?: unknown): Promise<T> {
+    if (this.closed) {
+      return Promise.reject(
+        new DeviceRequestError('Gateway connection is closed', 'UNAVAILABLE', 503),
+      );
+    }
+    const id = String(this.nextId++);
+    const frame: RequestFrame = { type: 'req', id, method, params };
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.requests.delete(id);
+        reject(new DeviceRequestError(`Gateway did not answer ${method}`, 'TIMEOUT', 504));
+      }, this.timeoutMs);
+      this.requests.set(id, { resolve: resolve as (payload: unknown) => void, reject, timer });
+      this.ws.send(JSON.stringify(frame));
+    });
+  }
+
+  async list(): Promise<DeviceList> {
+    const result = await this.request<Partial<DeviceList>>(DEVICE_METHODS.list, {});
+    return { pending: result?.pending ?? [], paired: result?.paired ?? [] };
+  }
+
+  async approve(requestId: string): Promise<PairedDevice | undefined> {
+    const result = await this.request<{ device?: PairedDevice }>(DEVICE_METHODS.approve, {
+      requestId,
+    });
+    return result?.device;
+  }
+
+  async reject(requestId: string): Promise<void> {
+    await this.request(DEVICE_METHODS.reject, { requestId });
+  }
+
+  /** Unpair a device; its tokens stop working and it has to pair again */
+  async revoke(deviceId: string): Promise<void> {
+    await this.request(DEVICE_METHODS.revoke, { deviceId });
+  }
+
+  async rename(deviceId: string, displayName: string): Promise<PairedDevice | undefined> {
+    const result = await this.request<{ device?: PairedDevice }>(DEVICE_METHODS.rename, {
+      deviceId,
+      displayName,
+    });
+    return result?.device;
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.handleClose();
+    try {
+      this.ws.close(1000, 'done');
+    } catch {
+      // Already closed
+    }
+  }
+
+  private handleMessage(data: unknown): void {
+    if (typeof data !== 'string') return;
+    let frame: ResponseFrame;
+    try {
+      frame = JSON.parse(data) as ResponseFrame;
+    } catch {
+      log.debug('Ignoring non-JSON frame from gateway');
+      return;
+    }
+    if (frame?.type !== 'res') return;
+    const request = this.requests.get(frame.id);
+    if (!request) return;
+    this.requests.delete(frame.id);
+    clearTimeout(request.timer);
+
+    if (frame.ok) {
+      request.resolve(frame.payload);
+      return;
+    }
+    const code = frame.error?.code ?? 'UNKNOWN';
+    const message = frame.error?.message ?? 'Gateway request failed';
+    request.reject(new DeviceRequestError(message, code, deviceErrorStatus(code, message)));
+  }
+
+  private handleClose(): void {
+    if (this.closed) return;
+    this.closed = true;
+    for (const request of this.requests.values()) {
+      clearTimeout(request.timer);
+      request.reject(new DeviceRequestError('Gateway closed the connection', 'UNAVAILABLE', 503));
+    }
+    this.requests.clear();
+  }
+}
+
+/**
+ * Connect, run `fn` with the client and close the connection.
+ */
+export async function withDeviceClient<T>(
+  sandbox: Sandbox,
+  token: string | undefined,
+  fn: (client: GatewayDeviceClient) => Promise<T>,
+): Promise<T> {
+  const client = await GatewayDeviceClient.connect(sandbox, token);
+  try {
+    return await fn(client);
+  } finally {
+    client.close();
+  }
+}
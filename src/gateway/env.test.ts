@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { buildEnvVars } from './env';
+import {
+  buildEnvVars,
+  buildEnvVarsFromConfig,
+  getUnenforcedCapsReason,
+  resolveAiProviders,
+  validateTenantAiEnv,
+} from './env';
+import type { TenantConfig } from '../tenant';
 import { createMockEnv } from '../test-utils';
 
 describe('buildEnvVars', () => {
@@ -159,3 +166,168 @@ describe('buildEnvVars', () => {
     });
   });
 });
+
+describe('tenant AI providers', () => {
+  const tenant: TenantConfig = {
+    schemaVersion: 3,
+    agentAccount: 'charliebot',
+    owner: 'alice',
+    xprAccount: 'charliebot',
+    xprPrivateKey: 'PVT_K1_secret',
+    xprNetwork: 'mainnet',
+    xprRpcEndpoint: 'https://proton.eosusa.io',
+    openclawHookToken: 'hook',
+    moltbotGatewayToken: 'token',
+    xprOwnerAccount: 'alice',
+  };
+  const gatewayEnv = createMockEnv({
+    CLOUDFLARE_AI_GATEWAY_API_KEY: 'cf-key',
+    CF_AI_GATEWAY_ACCOUNT_ID: 'acct',
+    CF_AI_GATEWAY_GATEWAY_ID: 'gw',
+    CF_AI_GATEWAY_MODEL: 'openai/gpt-4o',
+  });
+
+  it('resolves the primary provider and fallbacks, using shared gateway credentials', () => {
+    const { providers, errors } = resolveAiProviders(
+      {
+        provider: 'openai',
+        model: 'gpt-4o',
+        apiKey: 'sk-openai',
+        fallbacks: [
+          { provider: 'ai-gateway', model: 'workers-ai/@cf/meta/llama-3.3-70b' },
+          { provider: 'anthropic', model: 'claude-sonnet-4-5', apiKey: 'sk-ant' },
+        ],
+      },
+      gatewayEnv,
+    );
+    expect(errors).toEqual([]);
+    expect(providers).toEqual([
+      {
+        id: 'tenant-openai',
+        api: 'openai-completions',
+        baseUrl: 'https://api.openai.com/v1',
+        apiKey: 'sk-openai',
+        model: 'gpt-4o',
+      },
+      {
+        id: 'tenant-ai-gateway-1',
+        api: 'openai-completions',
+        baseUrl: 'https://gateway.ai.cloudflare.com/v1/acct/gw/workers-ai/v1',
+        apiKey: 'cf-key',
+        model: '@cf/meta/llama-3.3-70b',
+      },
+      {
+        id: 'tenant-anthropic-2',
+        api: 'anthropic-messages',
+        baseUrl: 'https://api.anthropic.com',
+        apiKey: 'sk-ant',
+        model: 'claude-sonnet-4-5',
+      },
+    ]);
+  });
+
+  it('reports credentials that are neither in the ai block nor the worker env', () => {
+    const { errors } = resolveAiProviders(
+      {
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-5',
+        fallbacks: [{ provider: 'workers-ai', model: '@cf/meta/llama-3.3-70b', apiKey: 'k' }],
+      },
+      createMockEnv(),
+    );
+    expect(errors).toEqual([
+      'ai.apiKey (required for anthropic)',
+      'ai.fallbacks[0].accountId or CF_ACCOUNT_ID',
+    ]);
+  });
+
+  it('validates tenants with and without an ai block', () => {
+    expect(validateTenantAiEnv({ ...tenant, anthropicApiKey: 'sk-ant' }, createMockEnv())).toEqual(
+      [],
+    );
+    expect(validateTenantAiEnv(tenant, gatewayEnv)).toEqual([]);
+    expect(validateTenantAiEnv(tenant, createMockEnv())).toHaveLength(1);
+    expect(
+      validateTenantAiEnv({ ...tenant, ai: { provider: 'openai', model: 'gpt-4o' } }, gatewayEnv),
+    ).toEqual(['ai.apiKey (required for openai)']);
+  });
+
+  it("replaces the shared AI config with the tenant's providers", () => {
+    const result = buildEnvVarsFromConfig(
+      {
+        ...tenant,
+        anthropicApiKey: 'sk-ignored',
+        ai: { provider: 'ai-gateway', model: 'anthropic/claude-sonnet-4-5', gatewayId: 'own-gw' },
+      },
+      gatewayEnv,
+      'charliebot',
+    );
+
+    expect(result.ANTHROPIC_API_KEY).toBeUndefined();
+    expect(result.CF_AI_GATEWAY_MODEL).toBeUndefined();
+    expect(result.CLOUDFLARE_AI_GATEWAY_API_KEY).toBe('cf-key');
+    expect(result.CF_AI_GATEWAY_GATEWAY_ID).toBe('own-gw');
+    expect(JSON.parse(result.OPENCLAW_AI_PROVIDERS)).toEqual([
+      {
+        id: 'tenant-ai-gateway',
+        api: 'anthropic-messages',
+        baseUrl: 'https://gateway.ai.cloudflare.com/v1/acct/own-gw/anthropic',
+        apiKey: 'cf-key',
+        model: 'claude-sonnet-4-5',
+      },
+    ]);
+  });
+
+  it('routes metered tenants through the AI proxy without provider credentials', () => {
+    const env = createMockEnv({
+      ...gatewayEnv,
+      USAGE_METER: {} as DurableObjectNamespace,
+      AGENT_KV: {} as KVNamespace,
+      WORKER_URL: 'https://agents.example.com/',
+    });
+    const result = buildEnvVarsFromConfig(tenant, env, 'charliebot');
+
+    expect(result.CLOUDFLARE_AI_GATEWAY_API_KEY).toBeUndefined();
+    expect(result.CF_AI_GATEWAY_MODEL).toBeUndefined();
+    expect(JSON.parse(result.OPENCLAW_AI_PROVIDERS)).toEqual([
+      {
+        id: 'tenant-ai-gateway',
+        api: 'openai-completions',
+        baseUrl: 'https://agents.example.com/api/ai-proxy/charliebot/tenant-ai-gateway',
+        apiKey: 'token',
+        model: 'gpt-4o',
+      },
+    ]);
+  });
+
+  it('reports usage caps that metering cannot enforce', () => {
+    const meteredEnv = createMockEnv({
+      ...gatewayEnv,
+      USAGE_METER: {} as DurableObjectNamespace,
+      AGENT_KV: {} as KVNamespace,
+      WORKER_URL: 'https://agents.example.com',
+    });
+    const capped = { ...tenant, usageCaps: { dailyUsd: 5 } };
+
+    expect(getUnenforcedCapsReason(tenant, createMockEnv())).toBeNull();
+    expect(getUnenforcedCapsReason(capped, meteredEnv)).toBeNull();
+    // No metering at all
+    expect(getUnenforcedCapsReason(capped, gatewayEnv)).toContain('USAGE_METER');
+    // Legacy anthropicApiKey, or the shared gateway without a model: the container calls providers directly
+    const direct = createMockEnv({ ...meteredEnv, CF_AI_GATEWAY_MODEL: undefined });
+    expect(getUnenforcedCapsReason({ ...capped, anthropicApiKey: 'sk-ant' }, direct)).toContain(
+      'ai block',
+    );
+  });
+
+  it('keeps the legacy anthropicApiKey and shared gateway without an ai block', () => {
+    const result = buildEnvVarsFromConfig(
+      { ...tenant, anthropicApiKey: 'sk-ant' },
+      gatewayEnv,
+      'charliebot',
+    );
+    expect(result.ANTHROPIC_API_KEY).toBe('sk-ant');
+    expect(result.CF_AI_GATEWAY_MODEL).toBe('openai/gpt-4o');
+    expect(result.OPENCLAW_AI_PROVIDERS).toBeUndefined();
+  });
+});
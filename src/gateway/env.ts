@@ -1,5 +1,160 @@
 import type { MoltbotEnv } from '../types';
-import type { TenantConfig } from '../tenant';
+import type { TenantConfig, TenantAiConfig, TenantAiProvider } from '../tenant';
+import { getAiProxyBaseUrl, isUsageMeteringEnabled } from '../usage';
+import { createLogger } from '../utils/logging';
+
+const log = createLogger('env');
+
+/**
+ * A model provider entry for openclaw.json. Passed to the container as JSON in
+ * OPENCLAW_AI_PROVIDERS; start-openclaw.sh registers each one and makes the
+ * first the primary model and the rest fallbacks.
+ */
+export interface ContainerAiProvider {
+  id: string; // provider name in openclaw.json
+  api: 'anthropic-messages' | 'openai-completions';
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Resolve one provider entry, filling Cloudflare credentials from the worker env.
+ * Returns an error message naming the missing setting instead when incomplete.
+ */
+function resolveAiProvider(
+  entry: TenantAiProvider,
+  env: MoltbotEnv,
+  id: string,
+  field: string,
+): ContainerAiProvider | string {
+  switch (entry.provider) {
+    case 'anthropic':
+    case 'openai': {
+      if (!entry.apiKey) return `${field}.apiKey (required for ${entry.provider})`;
+      const anthropic = entry.provider === 'anthropic';
+      return {
+        id,
+        api: anthropic ? 'anthropic-messages' : 'openai-completions',
+        baseUrl: (entry.baseUrl ?? (anthropic ? ANTHROPIC_BASE_URL : OPENAI_BASE_URL)).replace(
+          /\/+$/,
+          '',
+        ),
+        apiKey: entry.apiKey,
+        model: entry.model,
+      };
+    }
+    case 'workers-ai': {
+      const accountId = entry.accountId ?? env.CF_ACCOUNT_ID;
+      const apiKey = entry.apiKey ?? env.CLOUDFLARE_AI_GATEWAY_API_KEY;
+      if (!accountId && !entry.baseUrl) return `${field}.accountId or CF_ACCOUNT_ID`;
+      if (!apiKey) return `${field}.apiKey or CLOUDFLARE_AI_GATEWAY_API_KEY`;
+      return {
+        id,
+        api: 'openai-completions',
+        baseUrl:
+          entry.baseUrl?.replace(/\/+$/, '') ??
+          `https://api.cloudflare.com/client/v4/accounts/${accountId}/ai/v1`,
+        apiKey,
+        model: entry.model,
+      };
+    }
+    case 'ai-gateway': {
+      const slashIdx = entry.model.indexOf('/');
+      const gwProvider = entry.model.substring(0, slashIdx);
+      const accountId = entry.accountId ?? env.CF_AI_GATEWAY_ACCOUNT_ID;
+      const gatewayId = entry.gatewayId ?? env.CF_AI_GATEWAY_GATEWAY_ID;
+      const apiKey = entry.apiKey ?? env.CLOUDFLARE_AI_GATEWAY_API_KEY;
+      if (!entry.baseUrl && !accountId) return `${field}.accountId or CF_AI_GATEWAY_ACCOUNT_ID`;
+      if (!entry.baseUrl && !gatewayId) return `${field}.gatewayId or CF_AI_GATEWAY_GATEWAY_ID`;
+      if (!apiKey) return `${field}.apiKey or CLOUDFLARE_AI_GATEWAY_API_KEY`;
+
+      let baseUrl = `https://gateway.ai.cloudflare.com/v1/${accountId}/${gatewayId}/${gwProvider}`;
+      if (gwProvider === 'workers-ai') baseUrl += '/v1';
+      return {
+        id,
+        api: gwProvider === 'anthropic' ? 'anthropic-messages' : 'openai-completions',
+        baseUrl: entry.baseUrl?.replace(/\/+$/, '') ?? baseUrl,
+        apiKey,
+        model: entry.model.substring(slashIdx + 1),
+      };
+    }
+  }
+}
+
+/**
+ * Resolve a tenant's ai block (primary first, then fallbacks) into container
+ * provider entries. `errors` lists the settings missing for incomplete entries.
+ */
+export function resolveAiProviders(
+  ai: TenantAiConfig,
+  env: MoltbotEnv,
+): { providers: ContainerAiProvider[]; errors: string[] } {
+  const entries = [ai, ...(ai.fallbacks ?? [])];
+  const providers: ContainerAiProvider[] = [];
+  const errors: string[] = [];
+
+  entries.forEach((entry, i) => {
+    const id = i === 0 ? `tenant-${entry.provider}` : `tenant-${entry.provider}-${i}`;
+    const field = i === 0 ? 'ai' : `ai.fallbacks[${i - 1}]`;
+    const resolved = resolveAiProvider(entry, env, id, field);
+    if (typeof resolved === 'string') errors.push(resolved);
+    else providers.push(resolved);
+  });
+  return { providers, errors };
+}
+
+/**
+ * The ai block a tenant's model requests use: its own, or the worker's shared
+ * AI Gateway when CF_AI_GATEWAY_MODEL names the model. Null when the tenant
+ * relies on onboarding defaults (anthropicApiKey, or the gateway without a model).
+ */
+export function getTenantAiConfig(config: TenantConfig, env: MoltbotEnv): TenantAiConfig | null {
+  if (config.ai) return config.ai;
+  const model = env.CF_AI_GATEWAY_MODEL;
+  if (!model?.includes('/') || !env.CLOUDFLARE_AI_GATEWAY_API_KEY) return null;
+  return { provider: 'ai-gateway', model };
+}
+
+/**
+ * Why a tenant's usage caps would not be enforced, or null if it has none or
+ * they are. Caps only apply to model requests through the AI proxy: metering
+ * must be enabled and the tenant must have an ai block (or the shared gateway
+ * with CF_AI_GATEWAY_MODEL). Otherwise the container calls providers directly.
+ */
+export function getUnenforcedCapsReason(config: TenantConfig, env: MoltbotEnv): string | null {
+  if (!config.usageCaps) return null;
+  if (!isUsageMeteringEnabled(env)) {
+    return 'usageCaps require usage metering (USAGE_METER, WORKER_URL and AGENT_KV)';
+  }
+  if (!getTenantAiConfig(config, env)) {
+    return 'usageCaps require an ai block (or CF_AI_GATEWAY_MODEL), so model requests can be metered';
+  }
+  return null;
+}
+
+/**
+ * Check that a tenant has a usable AI provider: its own ai block (with every
+ * credential resolvable), its legacy anthropicApiKey, or the worker's shared
+ * AI Gateway. Returns the missing settings, like validateRequiredEnv.
+ */
+export function validateTenantAiEnv(config: TenantConfig, env: MoltbotEnv): string[] {
+  if (config.ai) return resolveAiProviders(config.ai, env).errors;
+
+  const hasSharedGateway = !!(
+    env.CLOUDFLARE_AI_GATEWAY_API_KEY &&
+    env.CF_AI_GATEWAY_ACCOUNT_ID &&
+    env.CF_AI_GATEWAY_GATEWAY_ID
+  );
+  const hasLegacyGateway = !!(env.AI_GATEWAY_API_KEY && env.AI_GATEWAY_BASE_URL);
+  if (config.anthropicApiKey || hasSharedGateway || hasLegacyGateway) return [];
+  return [
+    'ai or anthropicApiKey in the tenant config, or CLOUDFLARE_AI_GATEWAY_API_KEY + CF_AI_GATEWAY_ACCOUNT_ID + CF_AI_GATEWAY_GATEWAY_ID',
+  ];
+}
 
 /**
  * Build environment variables to pass to the OpenClaw container process
@@ -40,6 +195,7 @@ export function buildEnvVars(env: MoltbotEnv): Record<string, string> {
   // Map MOLTBOT_GATEWAY_TOKEN to OPENCLAW_GATEWAY_TOKEN (container expects this name)
   if (env.MOLTBOT_GATEWAY_TOKEN) envVars.OPENCLAW_GATEWAY_TOKEN = env.MOLTBOT_GATEWAY_TOKEN;
   if (env.DEV_MODE) envVars.OPENCLAW_DEV_MODE = env.DEV_MODE;
+  if (env.LOG_LEVEL) envVars.LOG_LEVEL = env.LOG_LEVEL;
   if (env.TELEGRAM_BOT_TOKEN) envVars.TELEGRAM_BOT_TOKEN = env.TELEGRAM_BOT_TOKEN;
   if (env.TELEGRAM_DM_POLICY) envVars.TELEGRAM_DM_POLICY = env.TELEGRAM_DM_POLICY;
   if (env.DISCORD_BOT_TOKEN) envVars.DISCORD_BOT_TOKEN = env.DISCORD_BOT_TOKEN;
@@ -55,6 +211,7 @@ export function buildEnvVars(env: MoltbotEnv): Record<string, string> {
   if (env.R2_ACCESS_KEY_ID) envVars.R2_ACCESS_KEY_ID = env.R2_ACCESS_KEY_ID;
   if (env.R2_SECRET_ACCESS_KEY) envVars.R2_SECRET_ACCESS_KEY = env.R2_SECRET_ACCESS_KEY;
   if (env.R2_BUCKET_NAME) envVars.R2_BUCKET_NAME = env.R2_BUCKET_NAME;
+  if (env.R2_ENCRYPTION_KEY) envVars.R2_ENCRYPTION_KEY = env.R2_ENCRYPTION_KEY;
 
   // XPR Network agent configuration
   if (env.XPR_ACCOUNT) envVars.XPR_ACCOUNT = env.XPR_ACCOUNT;
@@ -87,23 +244,48 @@ export function buildEnvVarsFromConfig(
   // TENANT_ID is used by start-openclaw.sh to scope R2 paths
   envVars.TENANT_ID = agentName;
 
-  // AI provider — from tenant config
-  if (config.anthropicApiKey) envVars.ANTHROPIC_API_KEY = config.anthropicApiKey;
+  const proxyBaseUrl = getAiProxyBaseUrl(env, agentName);
+  const meteredAi = proxyBaseUrl ? getTenantAiConfig(config, env) : null;
+  const unenforcedCaps = getUnenforcedCapsReason(config, env);
+  if (unenforcedCaps) log.warn('Usage caps are not enforced', { reason: unenforcedCaps });
+  if (meteredAi) {
+    // AI provider — metered: model requests go through the worker's AI proxy,
+    // which holds the credentials, so the container only gets its gateway token
+    const { providers } = resolveAiProviders(meteredAi, env);
+    const proxied = providers.map((p) => ({
+      id: p.id,
+      api: p.api,
+      baseUrl: `${proxyBaseUrl}/${p.id}`,
+      apiKey: config.moltbotGatewayToken,
+      model: p.model,
+    }));
+    if (proxied.length > 0) envVars.OPENCLAW_AI_PROVIDERS = JSON.stringify(proxied);
+  } else if (config.ai) {
+    // AI provider — the tenant's own routing replaces the shared AI config
+    Object.assign(envVars, buildTenantAiEnvVars(config.ai, env));
+  } else {
+    // AI provider — from tenant config
+    if (config.anthropicApiKey) envVars.ANTHROPIC_API_KEY = config.anthropicApiKey;
 
-  // Shared AI Gateway config from Worker env (all tenants share the same gateway)
-  if (env.CLOUDFLARE_AI_GATEWAY_API_KEY) {
-    envVars.CLOUDFLARE_AI_GATEWAY_API_KEY = env.CLOUDFLARE_AI_GATEWAY_API_KEY;
-  }
-  if (env.CF_AI_GATEWAY_ACCOUNT_ID) envVars.CF_AI_GATEWAY_ACCOUNT_ID = env.CF_AI_GATEWAY_ACCOUNT_ID;
-  if (env.CF_AI_GATEWAY_GATEWAY_ID) envVars.CF_AI_GATEWAY_GATEWAY_ID = env.CF_AI_GATEWAY_GATEWAY_ID;
-  if (env.CF_AI_GATEWAY_MODEL) envVars.CF_AI_GATEWAY_MODEL = env.CF_AI_GATEWAY_MODEL;
+    // Shared AI Gateway config from Worker env (all tenants share the same gateway)
+    if (env.CLOUDFLARE_AI_GATEWAY_API_KEY) {
+      envVars.CLOUDFLARE_AI_GATEWAY_API_KEY = env.CLOUDFLARE_AI_GATEWAY_API_KEY;
+    }
+    if (env.CF_AI_GATEWAY_ACCOUNT_ID) {
+      envVars.CF_AI_GATEWAY_ACCOUNT_ID = env.CF_AI_GATEWAY_ACCOUNT_ID;
+    }
+    if (env.CF_AI_GATEWAY_GATEWAY_ID) {
+      envVars.CF_AI_GATEWAY_GATEWAY_ID = env.CF_AI_GATEWAY_GATEWAY_ID;
+    }
+    if (env.CF_AI_GATEWAY_MODEL) envVars.CF_AI_GATEWAY_MODEL = env.CF_AI_GATEWAY_MODEL;
 
-  // Legacy AI Gateway (from Worker env)
-  if (env.AI_GATEWAY_API_KEY && env.AI_GATEWAY_BASE_URL) {
-    const normalizedBaseUrl = env.AI_GATEWAY_BASE_URL.replace(/\/+$/, '');
-    envVars.AI_GATEWAY_BASE_URL = normalizedBaseUrl;
-    envVars.ANTHROPIC_BASE_URL = normalizedBaseUrl;
-    envVars.ANTHROPIC_API_KEY = env.AI_GATEWAY_API_KEY;
+    // Legacy AI Gateway (from Worker env)
+    if (env.AI_GATEWAY_API_KEY && env.AI_GATEWAY_BASE_URL) {
+      const normalizedBaseUrl = env.AI_GATEWAY_BASE_URL.replace(/\/+$/, '');
+      envVars.AI_GATEWAY_BASE_URL = normalizedBaseUrl;
+      envVars.ANTHROPIC_BASE_URL = normalizedBaseUrl;
+      envVars.ANTHROPIC_API_KEY = env.AI_GATEWAY_API_KEY;
+    }
   }
 
   // Pass gateway token to container — OpenClaw requires it for --bind lan mode
@@ -112,12 +294,15 @@ export function buildEnvVarsFromConfig(
   }
   // OPENCLAW_DEV_MODE enables allowInsecureAuth for the Control UI.
   envVars.OPENCLAW_DEV_MODE = 'true';
+  if (env.LOG_LEVEL) envVars.LOG_LEVEL = env.LOG_LEVEL;
 
   // R2 persistence — shared infra credentials
   if (env.R2_ACCESS_KEY_ID) envVars.R2_ACCESS_KEY_ID = env.R2_ACCESS_KEY_ID;
   if (env.R2_SECRET_ACCESS_KEY) envVars.R2_SECRET_ACCESS_KEY = env.R2_SECRET_ACCESS_KEY;
   if (env.R2_BUCKET_NAME) envVars.R2_BUCKET_NAME = env.R2_BUCKET_NAME;
   if (env.CF_ACCOUNT_ID) envVars.CF_ACCOUNT_ID = env.CF_ACCOUNT_ID;
+  // Backup encryption — per-tenant
+  if (config.backupEncryptionKey) envVars.R2_ENCRYPTION_KEY = config.backupEncryptionKey;
 
   // Chat channels — per-tenant
   if (config.telegramBotToken) envVars.TELEGRAM_BOT_TOKEN = config.telegramBotToken;
@@ -139,3 +324,36 @@ export function buildEnvVarsFromConfig(
 
   return envVars;
 }
+
+/**
+ * Container env vars for a tenant's ai block: the provider list for
+ * start-openclaw.sh, plus the primary provider's credentials in the variables
+ * `openclaw onboard` reads on first boot.
+ */
+function buildTenantAiEnvVars(ai: TenantAiConfig, env: MoltbotEnv): Record<string, string> {
+  const envVars: Record<string, string> = {};
+  const { providers, errors } = resolveAiProviders(ai, env);
+  if (errors.length > 0) {
+    log.warn('Skipping incomplete AI providers', { errors });
+  }
+  if (providers.length === 0) return envVars;
+
+  envVars.OPENCLAW_AI_PROVIDERS = JSON.stringify(providers);
+
+  const primary = providers[0];
+  if (primary.id === `tenant-${ai.provider}`) {
+    if (ai.provider === 'anthropic') {
+      envVars.ANTHROPIC_API_KEY = primary.apiKey;
+      if (ai.baseUrl) envVars.ANTHROPIC_BASE_URL = primary.baseUrl;
+    } else if (ai.provider === 'openai') {
+      envVars.OPENAI_API_KEY = primary.apiKey;
+    } else if (ai.provider === 'ai-gateway') {
+      envVars.CLOUDFLARE_AI_GATEWAY_API_KEY = primary.apiKey;
+      const accountId = ai.accountId ?? env.CF_AI_GATEWAY_ACCOUNT_ID;
+      const gatewayId = ai.gatewayId ?? env.CF_AI_GATEWAY_GATEWAY_ID;
+      if (accountId) envVars.CF_AI_GATEWAY_ACCOUNT_ID = accountId;
+      if (gatewayId) envVars.CF_AI_GATEWAY_GATEWAY_ID = gatewayId;
+    }
+  }
+  return envVars;
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Sandbox } from '@cloudflare/sandbox';
+import {
+  deletePath,
+  readPath,
+  resolveFilePath,
+  writePath,
+  MAX_FILE_BYTES,
+  type DirectoryListing,
+} from './files';
+import { createMockExecResult, createMockSandbox } from '../test-utils';
+
+function fileSandbox(stdout: string) {
+  const mocks = createMockSandbox();
+  mocks.execMock.mockResolvedValue(createMockExecResult(stdout));
+  const extra = {
+    readFile: vi.fn().mockResolvedValue({ content: 'hello', encoding: 'utf-8' }),
+    listFiles: vi.fn(),
+    mkdir: vi.fn().mockResolvedValue(undefined),
+    deleteFile: vi.fn().mockResolvedValue(undefined),
+  };
+  Object.assign(mocks.sandbox as Sandbox, extra);
+  return { ...mocks, ...extra };
+}
+
+describe('resolveFilePath', () => {
+  it('maps a root and relative path into the container', () => {
+    expect(resolveFilePath('workspace/notes/todo.md')).toEqual({
+      path: 'workspace/notes/todo.md',
+      absolute: '/root/clawd/notes/todo.md',
+    });
+    expect(resolveFilePath('config/')).toEqual({ path: 'config', absolute: '/root/.openclaw' });
+  });
+
+  it('rejects unknown roots and traversal segments', () => {
+    expect(resolveFilePath('etc/passwd')).toMatchObject({ status: 404 });
+    expect(resolveFilePath('workspace/../../etc/passwd')).toMatchObject({ status: 400 });
+    expect(resolveFilePath('workspace/./a')).toMatchObject({ status: 400 });
+    expect(resolveFilePath('workspace//a')).toMatchObject({ status: 400 });
+    expect(resolveFilePath(`workspace/${'a'.repeat(2000)}`)).toMatchObject({ status: 400 });
+  });
+});
+
+describe('readPath', () => {
+  it('reads a file', async () => {
+    const { sandbox, readFile } = fileSandbox('/root/clawd/notes.md\nregular file|5');
+    expect(await readPath(sandbox, 'workspace/notes.md')).toEqual({
+      type: 'file',
+      path: 'workspace/notes.md',
+      size: 5,
+      encoding: 'utf-8',
+      content: 'hello',
+    });
+    expect(readFile).toHaveBeenCalledWith('/root/clawd/notes.md');
+  });
+
+  it('lists a directory with directories first', async () => {
+    const { sandbox, listFiles } = fileSandbox('/root/clawd\ndirectory|4096');
+    const modifiedAt = '2026-01-01T00:00:00.000Z';
+    listFiles.mockResolvedValue({
+      files: [
+        { name: 'b.md', type: 'file', size: 1, modifiedAt },
+        { name: 'skills', type: 'directory', size: 4096, modifiedAt },
+        { name: 'a.md', type: 'file', size: 2, modifiedAt },
+      ],
+    });
+    const result = (await readPath(sandbox, 'workspace')) as DirectoryListing;
+    expect(result).toMatchObject({ type: 'directory', path: 'workspace' });
+    expect(result.entries.map((e) => e.path)).toEqual([
+      'workspace/skills',
+      'workspace/a.md',
+      'workspace/b.md',
+    ]);
+  });
+
+  it('rejects symlinks that resolve outside the root', async () => {
+    const { sandbox, readFile } = fileSandbox('/etc/passwd\nregular file|100');
+    expect(await readPath(sandbox, 'workspace/link')).toMatchObject({ status: 400 });
+    expect(readFile).not.toHaveBeenCalled();
+  });
+
+  it('rejects a sibling directory sharing the root prefix', async () => {
+    const { sandbox } = fileSandbox('/root/clawd-other/secret\nregular file|1');
+    expect(await readPath(sandbox, 'workspace/link')).toMatchObject({ status: 400 });
+  });
+
+  it('refuses files over the size limit and reports missing files', async () => {
+    const large = fileSandbox(`/root/clawd/big.bin\nregular file|${MAX_FILE_BYTES + 1}`);
+    expect(await readPath(large.sandbox, 'workspace/big.bin')).toMatchObject({ status: 413 });
+    expect(large.readFile).not.toHaveBeenCalled();
+
+    const missing = fileSandbox('/root/clawd/nope.md\nmissing');
+    expect(await readPath(missing.sandbox, 'workspace/nope.md')).toMatchObject({ status: 404 });
+  });
+});
+
+describe('writePath', () => {
+  it('creates parent directories and writes the file', async () => {
+    const { sandbox, mkdir, writeFileMock } = fileSandbox('/root/.openclaw/agents/a.json\nmissing');
+    expect(await writePath(sandbox, 'config/agents/a.json', '{}')).toEqual({
+      path: 'config/agents/a.json',
+      size: 2,
+    });
+    expect(mkdir).toHaveBeenCalledWith('/root/.openclaw/agents', { recursive: true });
+    expect(writeFileMock).toHaveBeenCalledWith('/root/.openclaw/agents/a.json', '{}');
+  });
+
+  it('rejects oversized content, roots and directories', async () => {
+    const { sandbox, execMock, writeFileMock } = fileSandbox('/root/clawd/dir\ndirectory|4096');
+    const big = 'x'.repeat(MAX_FILE_BYTES + 1);
+    expect(await writePath(sandbox, 'workspace/a.md', big)).toMatchObject({ status: 413 });
+    expect(await writePath(sandbox, 'workspace', 'x')).toMatchObject({ status: 400 });
+    expect(execMock).not.toHaveBeenCalled();
+    expect(await writePath(sandbox, 'workspace/dir', 'x')).toMatchObject({ status: 400 });
+    expect(writeFileMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('deletePath', () => {
+  it('deletes files but not directories', async () => {
+    const file = fileSandbox('/root/clawd/old.md\nregular file|3');
+    expect(await deletePath(file.sandbox, 'workspace/old.md')).toEqual({
+      path: 'workspace/old.md',
+    });
+    expect(file.deleteFile).toHaveBeenCalledWith('/root/clawd/old.md');
+
+    const dir = fileSandbox('/root/clawd/skills\ndirectory|4096');
+    expect(await deletePath(dir.sandbox, 'workspace/skills')).toMatchObject({ status: 400 });
+    expect(dir.deleteFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,202 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+
+/**
+ * Browse and edit the agent's files from the admin API.
+ *
+ * Paths are `{root}/{relative path}`, where the root names one of the
+ * directories in FILE_ROOTS. `.` and `..` segments are rejected up front, and
+ * every path is also resolved with `realpath` in the container, so a symlink
+ * cannot lead outside its root. Reads and writes go through the sandbox file
+ * API and are limited to MAX_FILE_BYTES.
+ */
+
+export const FILE_ROOTS = {
+  workspace: '/root/clawd',
+  config: '/root/.openclaw',
+} as const;
+
+export type FileRoot = keyof typeof FILE_ROOTS;
+
+export const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_PATH_LENGTH = 1024;
+
+export interface FileEntry {
+  name: string;
+  path: string; // `{root}/{relative path}`
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size: number;
+  modifiedAt: string; // ISO
+}
+
+export interface DirectoryListing {
+  type: 'directory';
+  path: string;
+  entries: FileEntry[]; // directories first, then by name
+}
+
+export interface FileContent {
+  type: 'file';
+  path: string;
+  size: number;
+  encoding: 'utf-8' | 'base64';
+  content: string;
+}
+
+export interface FileError {
+  error: string;
+  status: 400 | 404 | 413;
+}
+
+interface ResolvedPath {
+  path: string; // normalized `{root}/{relative path}`
+  absolute: string;
+}
+
+interface PathInfo {
+  type: 'file' | 'directory' | 'missing' | 'other';
+  size: number;
+}
+
+export function isFileError(value: unknown): value is FileError {
+  return !!value && typeof value === 'object' && 'error' in value && 'status' in value;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Map an API path onto the container. Returns an error for unknown roots,
+ * empty, `.` or `..` segments and overlong paths.
+ */
+export function resolveFilePath(raw: string): ResolvedPath | FileError {
+  if (raw.length > MAX_PATH_LENGTH) return { error: 'Path is too long', status: 400 };
+  const segments = raw.replace(/\/+$/, '').split('/');
+  const [root, ...rest] = segments;
+  if (!Object.hasOwn(FILE_ROOTS, root)) {
+    return {
+      error: `Unknown root: ${root} (valid: ${Object.keys(FILE_ROOTS).join(', ')})`,
+      status: 404,
+    };
+  }
+  if (rest.some((s) => s === '' || s === '.' || s === '..' || s.includes('\0'))) {
+    return { error: 'Invalid path', status: 400 };
+  }
+  const base = FILE_ROOTS[root as FileRoot];
+  return {
+    path: segments.join('/'),
+    absolute: rest.length > 0 ? `${base}/${rest.join('/')}` : base,
+  };
+}
+
+/**
+ * Resolve symlinks in the container and check the result stays inside the
+ * path's root. Also reports what is there.
+ */
+async function inspectPath(
+  sandbox: Sandbox,
+  resolved: ResolvedPath,
+): Promise<PathInfo | FileError> {
+  const root = FILE_ROOTS[resolved.path.split('/')[0] as FileRoot];
+  const quoted = shellQuote(resolved.absolute);
+  const result = await sandbox.exec(
+    `realpath -m -- ${quoted} && (stat -L -c '%F|%s' -- ${quoted} 2>/dev/null || echo missing)`,
+  );
+  const [real, stat = 'missing'] = (result.stdout ?? '').trim().split('\n');
+  if (!result.success || (real !== root && !real.startsWith(`${root}/`))) {
+    return { error: 'Invalid path', status: 400 };
+  }
+  if (stat === 'missing') return { type: 'missing', size: 0 };
+  const [kind, size] = stat.split('|');
+  const type = kind.startsWith('regular') ? 'file' : kind === 'directory' ? 'directory' : 'other';
+  return { type, size: Number(size) || 0 };
+}
+
+/**
+ * List a directory, or read a file.
+ */
+export async function readPath(
+  sandbox: Sandbox,
+  raw: string,
+): Promise<DirectoryListing | FileContent | FileError> {
+  const resolved = resolveFilePath(raw);
+  if (isFileError(resolved)) return resolved;
+  const info = await inspectPath(sandbox, resolved);
+  if (isFileError(info)) return info;
+
+  if (info.type === 'directory') {
+    const listing = await sandbox.listFiles(resolved.absolute, { includeHidden: true });
+    const entries: FileEntry[] = listing.files.map((file) => ({
+      name: file.name,
+      path: `${resolved.path}/${file.name}`,
+      type: file.type,
+      size: file.size,
+      modifiedAt: file.modifiedAt,
+    }));
+    entries.sort(
+      (a, b) =>
+        Number(b.type === 'directory') - Number(a.type === 'directory') ||
+        a.name.localeCompare(b.name),
+    );
+    return { type: 'directory', path: resolved.path, entries };
+  }
+  if (info.type === 'missing') return { error: 'File not found', status: 404 };
+  if (info.type !== 'file') return { error: 'Not a regular file', status: 400 };
+  if (info.size > MAX_FILE_BYTES) {
+    return { error: `File is larger than ${MAX_FILE_BYTES} bytes`, status: 413 };
+  }
+
+  const file = await sandbox.readFile(resolved.absolute);
+  return {
+    type: 'file',
+    path: resolved.path,
+    size: info.size,
+    encoding: file.encoding ?? 'utf-8',
+    content: file.content,
+  };
+}
+
+/**
+ * Create or replace a text file, creating missing parent directories.
+ */
+export async function writePath(
+  sandbox: Sandbox,
+  raw: string,
+  content: string,
+): Promise<{ path: string; size: number } | FileError> {
+  const resolved = resolveFilePath(raw);
+  if (isFileError(resolved)) return resolved;
+  if (!resolved.path.includes('/')) return { error: 'Cannot write to a root', status: 400 };
+  const size = new TextEncoder().encode(content).length;
+  if (size > MAX_FILE_BYTES) {
+    return { error: `File is larger than ${MAX_FILE_BYTES} bytes`, status: 413 };
+  }
+  const info = await inspectPath(sandbox, resolved);
+  if (isFileError(info)) return info;
+  if (info.type !== 'file' && info.type !== 'missing') {
+    return { error: 'Not a regular file', status: 400 };
+  }
+
+  const parent = resolved.absolute.slice(0, resolved.absolute.lastIndexOf('/'));
+  await sandbox.mkdir(parent, { recursive: true });
+  await sandbox.writeFile(resolved.absolute, content);
+  return { path: resolved.path, size };
+}
+
+/**
+ * Delete a file. Directories are not deleted.
+ */
+export async function deletePath(
+  sandbox: Sandbox,
+  raw: string,
+): Promise<{ path: string } | FileError> {
+  const resolved = resolveFilePath(raw);
+  if (isFileError(resolved)) return resolved;
+  const info = await inspectPath(sandbox, resolved);
+  if (isFileError(info)) return info;
+  if (info.type === 'missing') return { error: 'File not found', status: 404 };
+  if (info.type !== 'file') return { error: 'Only files can be deleted', status: 400 };
+
+  await sandbox.deleteFile(resolved.absolute);
+  return { path: resolved.path };
+}
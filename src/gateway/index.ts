@@ -1,4 +1,37 @@
-export { ensureMoltbotGateway, findExistingMoltbotProcess } from './process';
+export { ensureMoltbotGateway, ensureRequestGateway, findExistingMoltbotProcess } from './process';
 export { waitForProcess } from './utils';
 export { ensureRcloneConfig } from './r2';
-export { syncToR2 } from './sync';
+export { syncToR2, LAST_SYNC_RESULT_FILE, type SyncResult } from './sync';
+export {
+  tailGatewayLogs,
+  parseLogFilter,
+  matchesLogFilter,
+  DEFAULT_LOG_TAIL,
+  MAX_LOG_TAIL,
+} from './logs';
+export {
+  listSnapshots,
+  createSnapshot,
+  previewRestore,
+  restoreSnapshot,
+  getSnapshotRetention,
+  SNAPSHOT_ID_RE,
+} from './snapshots';
+export {
+  readPath,
+  writePath,
+  deletePath,
+  resolveFilePath,
+  isFileError,
+  FILE_ROOTS,
+  MAX_FILE_BYTES,
+} from './files';
+export {
+  GatewayDeviceClient,
+  withDeviceClient,
+  DeviceRequestError,
+  DEVICE_METHODS,
+  type PendingDevice,
+  type PairedDevice,
+  type DeviceList,
+} from './devices';
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Process, Sandbox } from '@cloudflare/sandbox';
+import {
+  detectLogLevel,
+  matchesLogFilter,
+  parseLogFilter,
+  splitLines,
+  tailGatewayLogs,
+  type GatewayLogEvent,
+} from './logs';
+
+/** SSE body like the one streamProcessLogs returns */
+function sseStream(events: object[]): ReadableStream<Uint8Array> {
+  const text = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('');
+  return new Response(text).body!;
+}
+
+function createLogSandbox(logs: { stdout: string; stderr: string }, events: object[]) {
+  const process = {
+    id: 'gateway-1',
+    getLogs: vi.fn().mockResolvedValue(logs),
+  } as unknown as Process;
+  const sandbox = {
+    streamProcessLogs: vi.fn().mockResolvedValue(sseStream(events)),
+  } as unknown as Sandbox;
+  return { sandbox, process };
+}
+
+async function collect(events: AsyncIterable<GatewayLogEvent>): Promise<GatewayLogEvent[]> {
+  const result: GatewayLogEvent[] = [];
+  for await (const event of events) result.push(event);
+  return result;
+}
+
+describe('detectLogLevel', () => {
+  it('reads JSON levels, then keywords, then the stream', () => {
+    expect(detectLogLevel('{"level":"fatal","msg":"x"}', 'stdout')).toBe('error');
+    expect(detectLogLevel('[gateway] Error: listen EADDRINUSE', 'stdout')).toBe('error');
+    expect(detectLogLevel('DeprecationWarning: punycode', 'stderr')).toBe('warn');
+    expect(detectLogLevel('[ws] debug: frame received', 'stdout')).toBe('debug');
+    expect(detectLogLevel('listening on ws://0.0.0.0:18789', 'stdout')).toBe('info');
+    expect(detectLogLevel('npm notice', 'stderr')).toBe('warn');
+  });
+});
+
+describe('matchesLogFilter', () => {
+  it('filters by minimum level and case-insensitive search', () => {
+    const line = {
+      stream: 'stdout' as const,
+      level: 'warn' as const,
+      text: 'Telegram poll failed',
+    };
+    expect(matchesLogFilter(line, parseLogFilter('info'))).toBe(true);
+    expect(matchesLogFilter(line, parseLogFilter('error'))).toBe(false);
+    expect(matchesLogFilter(line, parseLogFilter(undefined, 'telegram'))).toBe(true);
+    expect(matchesLogFilter(line, parseLogFilter('bogus', 'discord'))).toBe(false);
+  });
+});
+
+describe('splitLines', () => {
+  it('keeps the unterminated rest', () => {
+    expect(splitLines('a\r\nb\n\nc')).toEqual({ lines: ['a', 'b'], rest: 'c' });
+  });
+});
+
+describe('tailGatewayLogs', () => {
+  it('sends the backlog tail, then only new output', async () => {
+    const { sandbox, process } = createLogSandbox({ stdout: 'one\ntwo\nthr', stderr: '' }, [
+      // Replay of the output already in the backlog
+      { type: 'stdout', timestamp: 't0', data: 'one\ntwo\nthr', processId: 'gateway-1' },
+      { type: 'stdout', timestamp: 't1', data: 'ee\nfour\n', processId: 'gateway-1' },
+      {
+        type: 'stderr',
+        timestamp: 't2',
+        data: 'Error: token Bearer abc123\n',
+        processId: 'gateway-1',
+      },
+      { type: 'exit', timestamp: 't3', data: '', processId: 'gateway-1', exitCode: 1 },
+    ]);
+
+    const events = await collect(tailGatewayLogs(sandbox, process, { tail: 1 }));
+    expect(events).toEqual([
+      { type: 'line', line: { stream: 'stdout', level: 'info', text: 'two' } },
+      { type: 'line', line: { time: 't1', stream: 'stdout', level: 'info', text: 'three' } },
+      { type: 'line', line: { time: 't1', stream: 'stdout', level: 'info', text: 'four' } },
+      {
+        type: 'line',
+        line: {
+          time: 't2',
+          stream: 'stderr',
+          level: 'error',
+          text: 'Error: token Bearer [REDACTED]',
+        },
+      },
+      { type: 'exit', exitCode: 1 },
+    ]);
+  });
+});
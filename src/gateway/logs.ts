@@ -0,0 +1,169 @@
+import type { LogEvent, Process, Sandbox } from '@cloudflare/sandbox';
+import { redactString } from '../utils/logging';
+
+/**
+ * Live tail of the gateway's stdout/stderr for the admin UI.
+ *
+ * The backlog comes from the process logs (last `tail` lines of each stream;
+ * the two are not interleaved since the container does not timestamp them),
+ * then new output follows from streamProcessLogs. That stream replays the
+ * process output from the start, so the part already in the backlog is
+ * skipped. Lines are redacted like worker logs and tagged with a level guessed
+ * from their text.
+ */
+
+export const GATEWAY_LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type GatewayLogLevel = (typeof GATEWAY_LOG_LEVELS)[number];
+
+export type GatewayLogStream = 'stdout' | 'stderr';
+
+export interface GatewayLogLine {
+  time?: string; // ISO; absent for backlog lines
+  stream: GatewayLogStream;
+  level: GatewayLogLevel;
+  text: string;
+}
+
+export interface GatewayLogFilter {
+  level: GatewayLogLevel; // minimum level
+  search?: string; // case-insensitive substring
+}
+
+export type GatewayLogEvent =
+  | { type: 'line'; line: GatewayLogLine }
+  | { type: 'exit'; exitCode?: number };
+
+export const DEFAULT_LOG_TAIL = 200;
+export const MAX_LOG_TAIL = 2000;
+
+const LEVEL_RANK: Record<GatewayLogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+const LEVEL_PATTERNS: Array<[RegExp, GatewayLogLevel]> = [
+  [/\b(error|err|fatal|panic|uncaught|exception)\b/i, 'error'],
+  [/\b(warn|warning|deprecated)\b/i, 'warn'],
+  [/\b(debug|trace|verbose)\b/i, 'debug'],
+];
+
+/**
+ * Parse the level and search query parameters. Unknown levels show everything.
+ */
+export function parseLogFilter(level?: string, search?: string): GatewayLogFilter {
+  const normalized = level?.toLowerCase() as GatewayLogLevel;
+  return {
+    level: GATEWAY_LOG_LEVELS.includes(normalized) ? normalized : 'debug',
+    search: search?.trim() || undefined,
+  };
+}
+
+/**
+ * Guess a line's level: a JSON `level` field, else keywords, else info for
+ * stdout and warn for stderr.
+ */
+export function detectLogLevel(text: string, stream: GatewayLogStream): GatewayLogLevel {
+  if (text.startsWith('{')) {
+    try {
+      const level = String((JSON.parse(text) as { level?: unknown }).level).toLowerCase();
+      if (level === 'fatal') return 'error';
+      if (level === 'trace') return 'debug';
+      if (GATEWAY_LOG_LEVELS.includes(level as GatewayLogLevel)) return level as GatewayLogLevel;
+    } catch {
+      // Not JSON: fall back to keywords
+    }
+  }
+  for (const [pattern, level] of LEVEL_PATTERNS) {
+    if (pattern.test(text)) return level;
+  }
+  return stream === 'stderr' ? 'warn' : 'info';
+}
+
+export function matchesLogFilter(line: GatewayLogLine, filter: GatewayLogFilter): boolean {
+  if (LEVEL_RANK[line.level] < LEVEL_RANK[filter.level]) return false;
+  return !filter.search || line.text.toLowerCase().includes(filter.search.toLowerCase());
+}
+
+function toLine(text: string, stream: GatewayLogStream, time?: string): GatewayLogLine {
+  const redacted = redactString(text);
+  return { time, stream, level: detectLogLevel(redacted, stream), text: redacted };
+}
+
+/**
+ * Split buffered output into complete lines and the unterminated rest.
+ */
+export function splitLines(buffer: string): { lines: string[]; rest: string } {
+  const parts = buffer.split(/\r?\n/);
+  const rest = parts.pop() ?? '';
+  return { lines: parts.filter((line) => line.length > 0), rest };
+}
+
+/**
+ * Parse the events of a streamProcessLogs body as they arrive. Each event is
+ * one `data:` line of JSON.
+ */
+async function* readLogEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<LogEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    // eslint-disable-next-line no-await-in-loop -- reading a stream is sequential
+    const { done, value } = await reader.read();
+    if (done) return;
+    const { lines, rest } = splitLines(buffer + decoder.decode(value, { stream: true }));
+    buffer = rest;
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      try {
+        yield JSON.parse(line.slice(5)) as LogEvent;
+      } catch {
+        // Not JSON (keep-alives)
+      }
+    }
+  }
+}
+
+/**
+ * Tail a gateway process: the last `tail` lines of each stream, then new
+ * output until the process exits or `signal` aborts.
+ */
+export async function* tailGatewayLogs(
+  sandbox: Sandbox,
+  process: Process,
+  options: { tail: number; signal?: AbortSignal },
+): AsyncGenerator<GatewayLogEvent> {
+  const logs = await process.getLogs();
+  const skip: Record<GatewayLogStream, number> = {
+    stdout: logs.stdout?.length ?? 0,
+    stderr: logs.stderr?.length ?? 0,
+  };
+  const pending: Record<GatewayLogStream, string> = { stdout: '', stderr: '' };
+
+  for (const stream of ['stdout', 'stderr'] as const) {
+    const { lines, rest } = splitLines(logs[stream] ?? '');
+    pending[stream] = rest;
+    const backlog = options.tail > 0 ? lines.slice(-options.tail) : [];
+    for (const text of backlog) {
+      yield { type: 'line', line: toLine(text, stream) };
+    }
+  }
+
+  const events = await sandbox.streamProcessLogs(process.id, { signal: options.signal });
+  for await (const event of readLogEvents(events)) {
+    if (event.type === 'exit') {
+      yield { type: 'exit', exitCode: event.exitCode };
+      return;
+    }
+    if (event.type !== 'stdout' && event.type !== 'stderr') continue;
+
+    let data = event.data ?? '';
+    const skipped = Math.min(skip[event.type], data.length);
+    skip[event.type] -= skipped;
+    data = data.slice(skipped);
+    if (!data) continue;
+
+    const { lines, rest } = splitLines(pending[event.type] + data);
+    pending[event.type] = rest;
+    for (const text of lines) {
+      yield { type: 'line', line: toLine(text, event.type, event.timestamp) };
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { diffManifests, findMismatches, parseLsjson } from './manifest';
+
+describe('parseLsjson', () => {
+  it('maps files to size and md5, skipping directories', () => {
+    const output = JSON.stringify([
+      { Path: 'openclaw.json', Name: 'openclaw.json', Size: 12, Hashes: { md5: 'aaa' } },
+      { Path: 'agents', Name: 'agents', Size: -1, IsDir: true },
+      { Path: 'agents/main.json', Name: 'main.json', Size: 3, ModTime: '2026-01-02T03:04:05Z' },
+    ]);
+    expect(parseLsjson(output)).toEqual({
+      'openclaw.json': { size: 12, md5: 'aaa' },
+      'agents/main.json': { size: 3, md5: '', modTime: '2026-01-02T03:04:05Z' },
+    });
+  });
+
+  it('returns null for a missing directory', () => {
+    expect(parseLsjson('null')).toBeNull();
+  });
+});
+
+describe('diffManifests', () => {
+  it('lists new, modified and deleted files', () => {
+    const previous = {
+      'same.md': { size: 1, md5: 'a' },
+      'edited.md': { size: 2, md5: 'b' },
+      'gone.md': { size: 3, md5: 'c' },
+      'unhashed.md': { size: 4, md5: '' },
+    };
+    const local = {
+      'same.md': { size: 1, md5: 'a' },
+      'edited.md': { size: 2, md5: 'x' },
+      'new.md': { size: 5, md5: 'd' },
+      'unhashed.md': { size: 4, md5: 'e' },
+    };
+    expect(diffManifests(previous, local)).toEqual({
+      changed: ['edited.md', 'new.md', 'unhashed.md'],
+      deleted: ['gone.md'],
+      bytes: 11,
+    });
+  });
+
+  it('compares files without a hash by size and modification time', () => {
+    // As listed through the crypt remote: no MD5, mtimes at R2's precision
+    const previous = {
+      'same.md': { size: 1, md5: '', modTime: '2026-01-02T03:04:05.000000000Z' },
+      'touched.md': { size: 1, md5: '', modTime: '2026-01-02T03:04:05Z' },
+      'grown.md': { size: 1, md5: '', modTime: '2026-01-02T03:04:05Z' },
+    };
+    const local = {
+      'same.md': { size: 1, md5: 'a', modTime: '2026-01-02T03:04:05.123456789Z' },
+      'touched.md': { size: 1, md5: 'b', modTime: '2026-01-02T04:00:00Z' },
+      'grown.md': { size: 2, md5: 'c', modTime: '2026-01-02T03:04:05Z' },
+    };
+    expect(diffManifests(previous, local)).toEqual({
+      changed: ['touched.md', 'grown.md'],
+      deleted: [],
+      bytes: 3,
+    });
+  });
+});
+
+describe('findMismatches', () => {
+  it('reports files missing from R2 or with a different hash', () => {
+    const local = {
+      'ok.md': { size: 1, md5: 'a' },
+      'corrupt.md': { size: 1, md5: 'b' },
+      'missing.md': { size: 1, md5: 'c' },
+      'unhashed.md': { size: 4, md5: 'd' },
+    };
+    const remote = {
+      'ok.md': { size: 1, md5: 'a' },
+      'corrupt.md': { size: 1, md5: 'z' },
+      'unhashed.md': { size: 4, md5: '' },
+    };
+    expect(findMismatches(local, remote)).toEqual(['corrupt.md', 'missing.md']);
+  });
+});
@@ -0,0 +1,199 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+
+/**
+ * File manifests for incremental R2 sync.
+ *
+ * A manifest maps each synced file, per area (config, workspace, skills), to
+ * its size, MD5 and modification time. After every sync the manifest of what
+ * R2 holds is saved next to the backup, so the next sync can upload only the
+ * files whose hash changed and delete only the files that disappeared, without
+ * listing the bucket first. Listings come from `rclone lsjson --hash`, which
+ * hashes local files and reads the MD5 R2 keeps for each object. Objects
+ * behind the crypt remote have no MD5, so they are compared by size and
+ * modification time, which rclone stores with each object.
+ */
+
+export type SyncArea = 'openclaw' | 'workspace' | 'skills';
+
+export const SYNC_AREAS: SyncArea[] = ['openclaw', 'workspace', 'skills'];
+
+export const WORKSPACE_DIR = '/root/clawd';
+export const SKILLS_DIR = '/root/clawd/skills';
+
+/** rclone filter flags per area; the workspace excludes skills, synced on their own */
+export const SYNC_EXCLUDES: Record<SyncArea, string> = {
+  openclaw: "--exclude='*.lock' --exclude='*.log' --exclude='*.tmp' --exclude='.git/**'",
+  workspace: "--exclude='skills/**' --exclude='.git/**'",
+  skills: '',
+};
+
+export interface ManifestEntry {
+  size: number;
+  md5: string; // empty when the object has no stored hash
+  modTime?: string; // ISO, as reported by rclone
+}
+
+/** Files of one area, keyed by path relative to the area's directory */
+export type ManifestFiles = Record<string, ManifestEntry>;
+
+export interface SyncManifest {
+  version: 1;
+  createdAt: string; // ISO
+  areas: Partial<Record<SyncArea, ManifestFiles>>;
+}
+
+export interface ManifestDiff {
+  changed: string[]; // new or modified locally: upload
+  deleted: string[]; // gone locally: delete from R2
+  bytes: number; // size of the changed files
+}
+
+const LISTING_TIMEOUT_MS = 120000;
+
+interface LsjsonItem {
+  Path: string;
+  Size: number;
+  IsDir?: boolean;
+  ModTime?: string;
+  Hashes?: { md5?: string };
+}
+
+/**
+ * Local directory for each area.
+ */
+export function syncAreaDirs(configDir: string): Record<SyncArea, string> {
+  return { openclaw: configDir, workspace: WORKSPACE_DIR, skills: SKILLS_DIR };
+}
+
+/**
+ * Parse `rclone lsjson --hash` output. Returns null for `null` (the directory
+ * does not exist) and throws on anything else that is not a listing.
+ */
+export function parseLsjson(output: string): ManifestFiles | null {
+  const items = JSON.parse(output) as LsjsonItem[] | null;
+  if (items === null) return null;
+  if (!Array.isArray(items)) throw new Error('Unexpected rclone lsjson output');
+  const files: ManifestFiles = {};
+  for (const item of items) {
+    if (item.IsDir) continue;
+    const entry: ManifestEntry = { size: item.Size, md5: item.Hashes?.md5 ?? '' };
+    if (item.ModTime) entry.modTime = item.ModTime;
+    files[item.Path] = entry;
+  }
+  return files;
+}
+
+function sameContent(a: ManifestEntry, b: ManifestEntry): boolean {
+  if (a.size !== b.size) return false;
+  // Objects without a hash (e.g. behind the crypt remote) can only be compared by size
+  return !a.md5 || !b.md5 || a.md5 === b.md5;
+}
+
+/** Modification times equal to the second, as rclone compares them across remotes */
+function sameModTime(a: string | undefined, b: string | undefined): boolean {
+  if (!a || !b) return false;
+  return Math.floor(Date.parse(a) / 1000) === Math.floor(Date.parse(b) / 1000);
+}
+
+function unchanged(before: ManifestEntry, entry: ManifestEntry): boolean {
+  if (before.size !== entry.size) return false;
+  if (before.md5 && entry.md5) return before.md5 === entry.md5;
+  // Without a hash on one side (an encrypted remote has none), fall back to the mtime
+  return sameModTime(before.modTime, entry.modTime);
+}
+
+/**
+ * What to upload and delete to turn `previous` (what R2 holds) into `local`.
+ */
+export function diffManifests(previous: ManifestFiles, local: ManifestFiles): ManifestDiff {
+  const diff: ManifestDiff = { changed: [], deleted: [], bytes: 0 };
+  for (const [path, entry] of Object.entries(local)) {
+    const before = previous[path];
+    if (before && unchanged(before, entry)) continue;
+    diff.changed.push(path);
+    diff.bytes += entry.size;
+  }
+  for (const path of Object.keys(previous)) {
+    if (!(path in local)) diff.deleted.push(path);
+  }
+  return diff;
+}
+
+/**
+ * Local files that R2 does not hold with the same size and hash.
+ */
+export function findMismatches(local: ManifestFiles, remote: ManifestFiles): string[] {
+  return Object.entries(local)
+    .filter(([path, entry]) => !remote[path] || !sameContent(entry, remote[path]))
+    .map(([path]) => path);
+}
+
+/**
+ * List a local directory with hashes; null if it does not exist.
+ */
+export async function listLocalFiles(
+  sandbox: Sandbox,
+  dir: string,
+  area: SyncArea,
+): Promise<ManifestFiles | null> {
+  const result = await sandbox.exec(
+    `if [ -d ${dir} ]; then rclone lsjson ${dir}/ -R --files-only --hash --hash-type md5 ${SYNC_EXCLUDES[area]}; else echo null; fi`,
+    { timeout: LISTING_TIMEOUT_MS },
+  );
+  if (!result.success) {
+    throw new Error(`Could not list ${dir}: ${result.stderr?.slice(-200)}`);
+  }
+  return parseLsjson(result.stdout ?? '');
+}
+
+/**
+ * List an R2 prefix with hashes (empty if nothing is stored there).
+ */
+export async function listRemoteFiles(
+  sandbox: Sandbox,
+  remote: string,
+  area: SyncArea,
+  flags: string,
+): Promise<ManifestFiles> {
+  const result = await sandbox.exec(
+    `rclone lsjson ${remote} -R --files-only --hash --hash-type md5 ${flags} ${SYNC_EXCLUDES[area]} 2>/dev/null || echo '[]'`,
+    { timeout: LISTING_TIMEOUT_MS },
+  );
+  return parseLsjson(result.stdout || '[]') ?? {};
+}
+
+/**
+ * Read the manifest saved by the last sync, or null if there is none.
+ */
+export async function readSyncManifest(
+  sandbox: Sandbox,
+  remote: string,
+  flags: string,
+): Promise<SyncManifest | null> {
+  const result = await sandbox.exec(`rclone cat ${remote} ${flags} 2>/dev/null || true`, {
+    timeout: LISTING_TIMEOUT_MS,
+  });
+  try {
+    const manifest = JSON.parse(result.stdout ?? '') as SyncManifest;
+    return manifest?.version === 1 && manifest.areas ? manifest : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save a manifest next to the backup.
+ */
+export async function writeSyncManifest(
+  sandbox: Sandbox,
+  remote: string,
+  flags: string,
+  manifest: SyncManifest,
+): Promise<boolean> {
+  const tmp = '/tmp/.sync-manifest.json';
+  await sandbox.writeFile(tmp, JSON.stringify(manifest));
+  const result = await sandbox.exec(`rclone copyto ${tmp} ${remote} ${flags}`, {
+    timeout: LISTING_TIMEOUT_MS,
+  });
+  return result.success;
+}
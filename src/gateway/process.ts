@@ -1,9 +1,13 @@
 import type { Sandbox, Process } from '@cloudflare/sandbox';
-import type { MoltbotEnv } from '../types';
+import type { Context } from 'hono';
+import type { AppEnv, MoltbotEnv } from '../types';
 import type { TenantConfig } from '../tenant';
 import { MOLTBOT_PORT, STARTUP_TIMEOUT_MS } from '../config';
 import { buildEnvVars, buildEnvVarsFromConfig } from './env';
 import { ensureRcloneConfig } from './r2';
+import { createLogger } from '../utils/logging';
+
+const log = createLogger('gateway');
 
 /** Per-sandbox dedup locks: prevents concurrent ensureMoltbotGateway calls per tenant.
  *  Keyed by sandbox ID (agent name or 'moltbot' for single-tenant). */
@@ -44,7 +48,30 @@ export async function findExistingMoltbotProcess(sandbox: Sandbox): Promise<Proc
       }
     }
   } catch (e) {
-    console.log('Could not list processes:', e);
+    log.warn('Could not list processes', { error: e });
+  }
+  return null;
+}
+
+/**
+ * Find the most recently started gateway process, whatever its status.
+ * Used to report why a gateway exited.
+ *
+ * @param sandbox - The sandbox instance
+ * @returns The latest gateway process, or null if there is none
+ */
+export async function findLatestGatewayProcess(sandbox: Sandbox): Promise<Process | null> {
+  try {
+    const processes = await sandbox.listProcesses();
+    let latest: Process | null = null;
+    for (const proc of processes) {
+      if (isGatewayCommand(proc.command) && (!latest || proc.startTime > latest.startTime)) {
+        latest = proc;
+      }
+    }
+    return latest;
+  } catch (e) {
+    log.warn('Could not list processes', { error: e });
   }
   return null;
 }
@@ -53,7 +80,7 @@ export async function findExistingMoltbotProcess(sandbox: Sandbox): Promise<Proc
  * Kill ALL gateway processes (not just the first one).
  * Prevents zombie process accumulation.
  */
-async function killAllGatewayProcesses(sandbox: Sandbox): Promise<number> {
+export async function killAllGatewayProcesses(sandbox: Sandbox): Promise<number> {
   let killed = 0;
   try {
     const processes = await sandbox.listProcesses();
@@ -63,15 +90,15 @@ async function killAllGatewayProcesses(sandbox: Sandbox): Promise<number> {
           await proc.kill();
           killed++;
         } catch (e) {
-          console.log('Failed to kill process', proc.id, ':', e);
+          log.warn('Failed to kill process', { processId: proc.id, error: e });
         }
       }
     }
   } catch (e) {
-    console.log('Could not list/kill processes:', e);
+    log.warn('Could not list/kill processes', { error: e });
   }
   if (killed > 0) {
-    console.log(`[Gateway] Killed ${killed} zombie gateway process(es)`);
+    log.info('Killed zombie gateway processes', { killed });
   }
   return killed;
 }
@@ -91,7 +118,7 @@ export async function ensureMoltbotGateway(sandbox: Sandbox, env: MoltbotEnv, te
   // Dedup: if a startup is already in-flight for this sandbox, join it
   const existing = startupPromises.get(sandboxId);
   if (existing) {
-    console.log(`[Gateway] Joining existing startup for '${sandboxId}'...`);
+    log.info('Joining existing startup', { sandboxId });
     return existing;
   }
 
@@ -102,6 +129,15 @@ export async function ensureMoltbotGateway(sandbox: Sandbox, env: MoltbotEnv, te
   return promise;
 }
 
+/**
+ * Ensure the gateway of the request's sandbox is running, with the request's
+ * tenant config (see ensureMoltbotGateway).
+ */
+export function ensureRequestGateway(c: Context<AppEnv>): Promise<Process> {
+  const sandboxId = c.get('agentName') || 'moltbot';
+  return ensureMoltbotGateway(c.get('sandbox'), c.env, c.get('tenantConfig'), sandboxId);
+}
+
 /**
  * Internal implementation — must only be called via ensureMoltbotGateway().
  */
@@ -112,28 +148,26 @@ async function doEnsureMoltbotGateway(sandbox: Sandbox, env: MoltbotEnv, tenantC
   // Check if gateway is already running or starting
   const existingProcess = await findExistingMoltbotProcess(sandbox);
   if (existingProcess) {
-    console.log(
-      'Found existing gateway process:',
-      existingProcess.id,
-      'status:',
-      existingProcess.status,
-    );
+    log.info('Found existing gateway process', {
+      processId: existingProcess.id,
+      status: existingProcess.status,
+    });
 
     try {
-      console.log('Waiting for gateway on port', MOLTBOT_PORT, 'timeout:', STARTUP_TIMEOUT_MS);
+      log.debug('Waiting for gateway', { port: MOLTBOT_PORT, timeoutMs: STARTUP_TIMEOUT_MS });
       await existingProcess.waitForPort(MOLTBOT_PORT, { mode: 'tcp', timeout: STARTUP_TIMEOUT_MS });
-      console.log('Gateway is reachable');
+      log.info('Gateway is reachable');
       return existingProcess;
       // eslint-disable-next-line no-unused-vars
     } catch (_e) {
       // Timeout — kill ALL gateway processes (not just this one) to clear zombies
-      console.log('Existing process not reachable after full timeout, killing ALL gateway processes...');
+      log.warn('Existing process not reachable after full timeout, killing ALL gateway processes');
       await killAllGatewayProcesses(sandbox);
     }
   }
 
   // Start a new OpenClaw gateway
-  console.log('Starting new OpenClaw gateway...');
+  log.info('Starting new OpenClaw gateway');
   const agentName = tenantConfig?.agentAccount;
   const envVars = tenantConfig && agentName
     ? buildEnvVarsFromConfig(tenantConfig, env, agentName)
@@ -141,44 +175,41 @@ async function doEnsureMoltbotGateway(sandbox: Sandbox, env: MoltbotEnv, tenantC
 
   const command = '/usr/local/bin/start-openclaw.sh';
 
-  console.log('Starting process with command:', command);
-  console.log('Environment vars being passed:', Object.keys(envVars));
+  log.debug('Starting process', { command, envVars: Object.keys(envVars) });
 
   let process: Process;
   try {
     process = await sandbox.startProcess(command, {
       env: Object.keys(envVars).length > 0 ? envVars : undefined,
     });
-    console.log('Process started with id:', process.id, 'status:', process.status);
+    log.info('Process started', { processId: process.id, status: process.status });
   } catch (startErr) {
-    console.error('Failed to start process:', startErr);
+    log.error('Failed to start process', { error: startErr });
     throw startErr;
   }
 
   // Wait for the gateway to be ready
   try {
-    console.log('[Gateway] Waiting for OpenClaw gateway to be ready on port', MOLTBOT_PORT);
+    log.debug('Waiting for OpenClaw gateway to be ready', { port: MOLTBOT_PORT });
     await process.waitForPort(MOLTBOT_PORT, { mode: 'tcp', timeout: STARTUP_TIMEOUT_MS });
-    console.log('[Gateway] OpenClaw gateway is ready!');
+    log.info('OpenClaw gateway is ready');
 
     const logs = await process.getLogs();
-    if (logs.stdout) console.log('[Gateway] stdout:', logs.stdout);
-    if (logs.stderr) console.log('[Gateway] stderr:', logs.stderr);
+    log.debug('Gateway startup output', { stdout: logs.stdout, stderr: logs.stderr });
   } catch (e) {
-    console.error('[Gateway] waitForPort failed:', e);
+    log.error('waitForPort failed', { error: e });
     try {
       const logs = await process.getLogs();
-      console.error('[Gateway] startup failed. Stderr:', logs.stderr);
-      console.error('[Gateway] startup failed. Stdout:', logs.stdout);
+      log.error('Gateway startup failed', { stdout: logs.stdout, stderr: logs.stderr });
       throw new Error(`OpenClaw gateway failed to start. Stderr: ${logs.stderr || '(empty)'}`, {
         cause: e,
       });
     } catch (logErr) {
-      console.error('[Gateway] Failed to get logs:', logErr);
+      log.error('Failed to get gateway logs', { error: logErr });
       throw e;
     }
   }
 
-  console.log('[Gateway] Verifying gateway health...');
+  log.debug('Verifying gateway health');
   return process;
 }
@@ -68,6 +68,47 @@ describe('ensureRcloneConfig', () => {
       expect(writtenConfig).toContain('access_key_id = mykey');
       expect(writtenConfig).toContain('secret_access_key = mysecret');
       expect(writtenConfig).toContain('endpoint = https://myaccount.r2.cloudflarestorage.com');
+      expect(writtenConfig).not.toContain('[r2crypt]');
+    });
+  });
+
+  describe('encryption', () => {
+    it('adds a crypt remote with the obscured key, passed through a file', async () => {
+      const { sandbox, execMock, writeFileMock } = createMockSandbox();
+      execMock
+        .mockResolvedValueOnce(createMockExecResult('no')) // flag and crypt remote check
+        .mockResolvedValueOnce(createMockExecResult()) // mkdir
+        .mockResolvedValueOnce(createMockExecResult('obscured-key\n')) // rclone obscure
+        .mockResolvedValueOnce(createMockExecResult()); // touch flag
+
+      const env = createMockEnvWithR2({ R2_ENCRYPTION_KEY: 'correct horse battery staple' });
+      expect(await ensureRcloneConfig(sandbox, env)).toBe(true);
+
+      expect(execMock.mock.calls[0][0]).toContain("grep -q '^\\[r2crypt\\]'");
+      expect(writeFileMock).toHaveBeenCalledWith(
+        '/tmp/.r2-encryption-key',
+        'correct horse battery staple',
+      );
+      const obscure = execMock.mock.calls[2][0];
+      expect(obscure).toBe(
+        'rclone obscure - < /tmp/.r2-encryption-key; rm -f /tmp/.r2-encryption-key',
+      );
+      const writtenConfig = writeFileMock.mock.calls[1][1];
+      expect(writtenConfig).toContain(
+        '[r2crypt]\ntype = crypt\nremote = r2:moltbot-data\nfilename_encryption = off\npassword = obscured-key',
+      );
+      expect(writtenConfig).not.toContain('correct horse');
+    });
+
+    it('fails when the key cannot be obscured', async () => {
+      const { sandbox, execMock } = createMockSandbox();
+      execMock
+        .mockResolvedValueOnce(createMockExecResult('no'))
+        .mockResolvedValueOnce(createMockExecResult())
+        .mockResolvedValueOnce(createMockExecResult('', { exitCode: 1 }));
+
+      const env = createMockEnvWithR2({ R2_ENCRYPTION_KEY: 'correct horse battery staple' });
+      expect(await ensureRcloneConfig(sandbox, env)).toBe(false);
     });
   });
 });
@@ -1,25 +1,53 @@
 import type { Sandbox } from '@cloudflare/sandbox';
 import type { MoltbotEnv } from '../types';
 import { getR2BucketName } from '../config';
+import { createLogger } from '../utils/logging';
+
+const log = createLogger('r2');
 
 const RCLONE_CONF_PATH = '/root/.config/rclone/rclone.conf';
 const CONFIGURED_FLAG = '/tmp/.rclone-configured';
+const KEY_TMP = '/tmp/.r2-encryption-key';
+
+/**
+ * rclone crypt remote over the bucket, configured when R2_ENCRYPTION_KEY is
+ * set. File contents are encrypted with the key; names are kept (with a
+ * `.bin` suffix) so the per-tenant layout stays browsable. Must match
+ * setup_rclone in start-openclaw.sh.
+ */
+export const CRYPT_REMOTE = 'r2crypt';
+
+/** Encrypted backups live under `{tenant}/encrypted/`, apart from plaintext ones */
+export const ENCRYPTED_ROOT = 'encrypted';
+
+/**
+ * Whether backups for this env are encrypted.
+ */
+export function isBackupEncrypted(env: MoltbotEnv): boolean {
+  return !!env.R2_ENCRYPTION_KEY;
+}
 
 /**
  * Ensure rclone is configured in the container for R2 access.
- * Idempotent — checks for a flag file to skip re-configuration.
+ * Idempotent — checks for a flag file to skip re-configuration. With
+ * encryption on, a config without the crypt remote is rewritten.
  *
  * @returns true if rclone is configured, false if credentials are missing
  */
 export async function ensureRcloneConfig(sandbox: Sandbox, env: MoltbotEnv): Promise<boolean> {
   if (!env.R2_ACCESS_KEY_ID || !env.R2_SECRET_ACCESS_KEY || !env.CF_ACCOUNT_ID) {
-    console.log(
+    log.info(
       'R2 storage not configured (missing R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY, or CF_ACCOUNT_ID)',
     );
     return false;
   }
 
-  const check = await sandbox.exec(`test -f ${CONFIGURED_FLAG} && echo yes || echo no`);
+  const encrypted = isBackupEncrypted(env);
+  const check = await sandbox.exec(
+    encrypted
+      ? `test -f ${CONFIGURED_FLAG} && grep -q '^\\[${CRYPT_REMOTE}\\]' ${RCLONE_CONF_PATH} && echo yes || echo no`
+      : `test -f ${CONFIGURED_FLAG} && echo yes || echo no`,
+  );
   if (check.stdout?.trim() === 'yes') {
     return true;
   }
@@ -33,12 +61,33 @@ export async function ensureRcloneConfig(sandbox: Sandbox, env: MoltbotEnv): Pro
     `endpoint = https://${env.CF_ACCOUNT_ID}.r2.cloudflarestorage.com`,
     'acl = private',
     'no_check_bucket = true',
-  ].join('\n');
+  ];
 
   await sandbox.exec(`mkdir -p $(dirname ${RCLONE_CONF_PATH})`);
-  await sandbox.writeFile(RCLONE_CONF_PATH, rcloneConfig);
+
+  if (encrypted) {
+    // rclone.conf holds crypt passwords obscured; the key goes through a file
+    // rather than the command line so it never shows up in the process list
+    await sandbox.writeFile(KEY_TMP, env.R2_ENCRYPTION_KEY!);
+    const obscured = await sandbox.exec(`rclone obscure - < ${KEY_TMP}; rm -f ${KEY_TMP}`);
+    const password = obscured.stdout?.trim();
+    if (!obscured.success || !password) {
+      log.error('Could not set up R2 encryption', { details: obscured.stderr?.slice(-200) });
+      return false;
+    }
+    rcloneConfig.push(
+      '',
+      `[${CRYPT_REMOTE}]`,
+      'type = crypt',
+      `remote = r2:${getR2BucketName(env)}`,
+      'filename_encryption = off',
+      `password = ${password}`,
+    );
+  }
+
+  await sandbox.writeFile(RCLONE_CONF_PATH, rcloneConfig.join('\n'));
   await sandbox.exec(`touch ${CONFIGURED_FLAG}`);
 
-  console.log('Rclone configured for R2 bucket:', getR2BucketName(env));
+  log.info('Rclone configured', { bucket: getR2BucketName(env), encrypted });
   return true;
 }
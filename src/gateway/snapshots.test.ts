@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createSnapshot,
+  getSnapshotRetention,
+  isSnapshotDue,
+  listSnapshots,
+  parseRcloneCheck,
+  previewRestore,
+  restoreSnapshot,
+  selectExpiredSnapshots,
+  snapshotIdFor,
+  DEFAULT_SNAPSHOT_RETENTION,
+  type SnapshotInfo,
+  type SnapshotTrigger,
+} from './snapshots';
+import {
+  createMockEnv,
+  createMockEnvWithR2,
+  createMockExecResult,
+  createMockSandbox,
+  suppressConsole,
+} from '../test-utils';
+
+function snapshot(createdAt: string, trigger: SnapshotTrigger = 'scheduled'): SnapshotInfo {
+  return {
+    id: snapshotIdFor(new Date(createdAt)),
+    createdAt: new Date(createdAt).toISOString(),
+    trigger,
+    configDir: '/root/.openclaw',
+    files: 1,
+    bytes: 1,
+  };
+}
+
+const ids = (snapshots: SnapshotInfo[]) => snapshots.map((s) => s.id);
+
+describe('getSnapshotRetention', () => {
+  it('applies overrides and can be turned off', () => {
+    suppressConsole();
+    expect(getSnapshotRetention(createMockEnv())).toEqual(DEFAULT_SNAPSHOT_RETENTION);
+    expect(
+      getSnapshotRetention(createMockEnv({ SNAPSHOT_RETENTION: 'hourly=0,daily=30,weekly=4' })),
+    ).toEqual({ ...DEFAULT_SNAPSHOT_RETENTION, hourly: 0, daily: 30 });
+    expect(getSnapshotRetention(createMockEnv({ SNAPSHOT_RETENTION: 'off' }))).toBeNull();
+  });
+});
+
+describe('snapshotIdFor', () => {
+  it('formats a UTC timestamp without colons', () => {
+    expect(snapshotIdFor(new Date('2026-10-19T08:00:05.123Z'))).toBe('2026-10-19T08-00-05Z');
+  });
+});
+
+describe('isSnapshotDue', () => {
+  const existing = [snapshot('2026-10-19T08:00:00Z'), snapshot('2026-10-19T09:10:00Z', 'manual')];
+
+  it('is due once per hour, or per day without hourly retention', () => {
+    const retention = DEFAULT_SNAPSHOT_RETENTION;
+    expect(isSnapshotDue(existing, retention, new Date('2026-10-19T08:59:00Z'))).toBe(false);
+    expect(isSnapshotDue(existing, retention, new Date('2026-10-19T09:00:00Z'))).toBe(true);
+
+    const daily = { ...retention, hourly: 0 };
+    expect(isSnapshotDue(existing, daily, new Date('2026-10-19T23:00:00Z'))).toBe(false);
+    expect(isSnapshotDue(existing, daily, new Date('2026-10-20T00:00:00Z'))).toBe(true);
+    expect(isSnapshotDue([], { ...daily, daily: 0 }, new Date())).toBe(false);
+  });
+});
+
+describe('selectExpiredSnapshots', () => {
+  it('keeps the newest per hour and per day, and the newest manual snapshots', () => {
+    const snapshots = [
+      snapshot('2026-10-17T10:00:00Z'),
+      snapshot('2026-10-17T23:00:00Z'), // newest of the 17th
+      snapshot('2026-10-18T12:00:00Z'), // newest of the 18th
+      snapshot('2026-10-19T07:00:00Z'),
+      snapshot('2026-10-19T08:00:00Z'),
+      snapshot('2026-10-19T08:30:00Z', 'manual'),
+      snapshot('2026-10-19T09:00:00Z', 'pre-restore'),
+    ];
+    const expired = selectExpiredSnapshots(snapshots, { hourly: 2, daily: 2, manual: 1 });
+    expect(ids(expired)).toEqual([
+      '2026-10-19T08-30-00Z',
+      '2026-10-17T23-00-00Z',
+      '2026-10-17T10-00-00Z',
+    ]);
+  });
+});
+
+describe('parseRcloneCheck', () => {
+  it('maps check output to restore changes', () => {
+    const output = ['= same.md', '- only-in-snapshot.md', '+ new-since.md', '* edited.md', ''];
+    expect(parseRcloneCheck(output.join('\n'), 'workspace')).toEqual([
+      { area: 'workspace', path: 'only-in-snapshot.md', change: 'added' },
+      { area: 'workspace', path: 'new-since.md', change: 'removed' },
+      { area: 'workspace', path: 'edited.md', change: 'changed' },
+    ]);
+  });
+});
+
+describe('previewRestore', () => {
+  it('checks the container against the snapshot', async () => {
+    const { sandbox, execMock } = createMockSandbox();
+    execMock
+      .mockResolvedValueOnce(createMockExecResult('yes')) // rclone configured
+      .mockResolvedValueOnce(createMockExecResult('+ new-since.json\n'))
+      .mockResolvedValue(createMockExecResult(''));
+    const target = snapshot('2026-10-18T00:00:00Z');
+
+    const changes = await previewRestore(sandbox, createMockEnvWithR2(), 'charliebot', target);
+    expect(changes).toEqual([{ area: 'openclaw', path: 'new-since.json', change: 'removed' }]);
+    expect(execMock.mock.calls[1][0]).toContain(
+      `rclone check /root/.openclaw/ r2:moltbot-data/charliebot/snapshots/${target.id}/openclaw/ --combined -`,
+    );
+  });
+
+  it('uses cryptcheck for encrypted backups, which have no hashes to compare', async () => {
+    const { sandbox, execMock } = createMockSandbox();
+    execMock
+      .mockResolvedValueOnce(createMockExecResult('yes')) // rclone configured
+      .mockResolvedValue(createMockExecResult(''));
+    const env = createMockEnvWithR2({ R2_ENCRYPTION_KEY: 'correct horse battery staple' });
+    const target = snapshot('2026-10-18T00:00:00Z');
+
+    await previewRestore(sandbox, env, 'charliebot', target);
+    expect(execMock.mock.calls[1][0]).toContain(
+      `rclone cryptcheck /root/.openclaw/ r2crypt:charliebot/encrypted/snapshots/${target.id}/openclaw/ --combined -`,
+    );
+  });
+});
+
+describe('listSnapshots', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('reads snapshot metadata newest first, skipping bad entries', async () => {
+    const older = snapshot('2026-10-18T00:00:00Z');
+    const newer = snapshot('2026-10-19T00:00:00Z', 'manual');
+    const { sandbox, execMock } = createMockSandbox();
+    execMock
+      .mockResolvedValueOnce(createMockExecResult('yes')) // rclone configured
+      .mockResolvedValueOnce(
+        createMockExecResult(
+          [
+            JSON.stringify(older),
+            'not json',
+            JSON.stringify({ ...older, id: '../x' }),
+            JSON.stringify(newer),
+          ].join('\n'),
+        ),
+      );
+
+    const snapshots = await listSnapshots(sandbox, createMockEnvWithR2(), 'charliebot');
+    expect(snapshots).toEqual([newer, older]);
+    expect(execMock.mock.calls[1][0]).toContain(
+      "rclone cat r2:moltbot-data/charliebot/snapshots/ --include='/*/snapshot.json'",
+    );
+  });
+});
+
+describe('createSnapshot', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('copies each area, then writes the metadata', async () => {
+    const { sandbox, execMock, writeFileMock } = createMockSandbox();
+    execMock
+      .mockResolvedValueOnce(createMockExecResult('yes')) // rclone configured
+      .mockResolvedValueOnce(createMockExecResult('openclaw')) // config detect
+      .mockResolvedValueOnce(createMockExecResult()) // config
+      .mockResolvedValueOnce(createMockExecResult()) // workspace
+      .mockResolvedValueOnce(createMockExecResult()) // skills
+      .mockResolvedValueOnce(createMockExecResult('{"count":12,"bytes":3456}')) // size
+      .mockResolvedValueOnce(createMockExecResult()); // metadata upload
+
+    const now = new Date('2026-10-19T08:00:00Z');
+    const result = await createSnapshot(sandbox, createMockEnvWithR2(), undefined, 'manual', now);
+
+    expect(result).toEqual({
+      success: true,
+      snapshot: {
+        id: '2026-10-19T08-00-00Z',
+        createdAt: '2026-10-19T08:00:00.000Z',
+        trigger: 'manual',
+        configDir: '/root/.openclaw',
+        files: 12,
+        bytes: 3456,
+      },
+    });
+    expect(execMock.mock.calls[2][0]).toContain(
+      'rclone copy /root/.openclaw/ r2:moltbot-data/snapshots/2026-10-19T08-00-00Z/openclaw/',
+    );
+    expect(writeFileMock).toHaveBeenCalledWith(
+      '/tmp/.snapshot.json',
+      `${JSON.stringify(result.snapshot)}\n`,
+    );
+    expect(execMock.mock.calls[6][0]).toContain(
+      'r2:moltbot-data/snapshots/2026-10-19T08-00-00Z/snapshot.json',
+    );
+  });
+
+  it('removes a partial snapshot when the config copy fails', async () => {
+    const { sandbox, execMock } = createMockSandbox();
+    execMock
+      .mockResolvedValueOnce(createMockExecResult('yes'))
+      .mockResolvedValueOnce(createMockExecResult('openclaw'))
+      .mockResolvedValueOnce(createMockExecResult('', { exitCode: 1, stderr: 'quota exceeded' }))
+      .mockResolvedValueOnce(createMockExecResult());
+
+    const result = await createSnapshot(sandbox, createMockEnvWithR2(), 'charliebot', 'manual');
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Config snapshot failed',
+      details: 'quota exceeded',
+    });
+    expect(execMock.mock.calls[3][0]).toMatch(
+      /^rclone purge r2:moltbot-data\/charliebot\/snapshots\//,
+    );
+  });
+});
+
+describe('restoreSnapshot', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('refuses to restore without a safety snapshot', async () => {
+    const { sandbox, execMock, listProcessesMock } = createMockSandbox();
+    execMock
+      .mockResolvedValueOnce(createMockExecResult('yes'))
+      .mockResolvedValueOnce(createMockExecResult('openclaw'))
+      .mockResolvedValueOnce(createMockExecResult('', { exitCode: 1, stderr: 'network down' }))
+      .mockResolvedValueOnce(createMockExecResult());
+
+    const result = await restoreSnapshot(
+      sandbox,
+      createMockEnvWithR2(),
+      undefined,
+      snapshot('2026-10-18T00:00:00Z'),
+    );
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Could not snapshot the current state before restoring',
+      details: 'network down',
+    });
+    expect(listProcessesMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,418 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { ensureRcloneConfig, isBackupEncrypted } from './r2';
+import { detectConfigDir, rcloneRemote, syncToR2, RCLONE_FLAGS } from './sync';
+import { killAllGatewayProcesses } from './process';
+import { syncAreaDirs, SKILLS_DIR, SYNC_EXCLUDES, WORKSPACE_DIR, type SyncArea } from './manifest';
+import { createLogger } from '../utils/logging';
+
+/**
+ * Point-in-time snapshots of the container's state in R2.
+ *
+ * syncToR2 mirrors the container, so deletions and bad edits reach the
+ * backup too. Snapshots are copies of the config, workspace and skills under
+ * `{tenant}/snapshots/{id}/`, with a `snapshot.json` written last (a snapshot
+ * without one is incomplete and not listed). IDs are UTC timestamps, so they
+ * sort by age.
+ *
+ * Scheduled snapshots are pruned by a retention policy: the newest snapshot
+ * of each of the last `hourly` hours and of each of the last `daily` days is
+ * kept. Manual and pre-restore snapshots are kept separately, the newest
+ * `manual` of them.
+ */
+
+const log = createLogger('snapshots');
+
+export type SnapshotTrigger = 'scheduled' | 'manual' | 'pre-restore';
+
+export interface SnapshotInfo {
+  id: string;
+  createdAt: string; // ISO
+  trigger: SnapshotTrigger;
+  configDir: string; // restored to the same directory
+  files: number;
+  bytes: number;
+}
+
+export interface SnapshotResult {
+  success: boolean;
+  snapshot?: SnapshotInfo;
+  error?: string;
+  details?: string;
+}
+
+export interface SnapshotRetention {
+  hourly: number;
+  daily: number;
+  manual: number; // manual and pre-restore snapshots
+}
+
+export const DEFAULT_SNAPSHOT_RETENTION: SnapshotRetention = { hourly: 24, daily: 7, manual: 5 };
+
+export interface RestoreChange {
+  area: SyncArea;
+  path: string; // relative to the area's directory
+  change: 'added' | 'changed' | 'removed';
+}
+
+export interface RestoreResult {
+  success: boolean;
+  safetySnapshotId?: string; // state before the restore
+  error?: string;
+  details?: string;
+  syncError?: string; // restored, but the live R2 copy was not updated
+}
+
+export const SNAPSHOT_ID_RE = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}Z$/;
+
+export const NO_CONFIG_ERROR = 'Snapshot aborted: no config file found';
+
+const METADATA_TMP = '/tmp/.snapshot.json';
+const RCLONE_TIMEOUT_MS = 120000;
+
+const RETENTION_KEYS = new Set(['hourly', 'daily', 'manual']);
+
+/**
+ * Parse SNAPSHOT_RETENTION (`hourly=24,daily=7,manual=5`) over the defaults.
+ * Returns null when scheduled snapshots are turned off.
+ */
+export function getSnapshotRetention(env: MoltbotEnv): SnapshotRetention | null {
+  const raw = env.SNAPSHOT_RETENTION?.trim() ?? '';
+  if (raw === 'off') return null;
+
+  const retention = { ...DEFAULT_SNAPSHOT_RETENTION };
+  for (const entry of raw.split(',')) {
+    const [name, value] = entry.trim().split('=');
+    if (!name || !value) continue;
+    if (!RETENTION_KEYS.has(name) || !/^\d+$/.test(value)) {
+      log.warn('Invalid entry in SNAPSHOT_RETENTION', { entry });
+      continue;
+    }
+    retention[name as keyof SnapshotRetention] = Number(value);
+  }
+  return retention;
+}
+
+/**
+ * Snapshot ID for a time, e.g. 2026-10-19T08-00-00Z (safe in paths and shells).
+ */
+export function snapshotIdFor(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/\.\d+Z$/, 'Z')
+    .replaceAll(':', '-');
+}
+
+/** UTC hour and day of an ISO time, for retention buckets */
+function hourOf(iso: string): string {
+  return iso.slice(0, 13);
+}
+
+function dayOf(iso: string): string {
+  return iso.slice(0, 10);
+}
+
+/**
+ * Whether a scheduled snapshot should be taken: none yet in the current hour
+ * (or day, when no hourly snapshots are kept).
+ */
+export function isSnapshotDue(
+  snapshots: SnapshotInfo[],
+  retention: SnapshotRetention,
+  now: Date,
+): boolean {
+  const bucketOf = retention.hourly > 0 ? hourOf : retention.daily > 0 ? dayOf : null;
+  if (!bucketOf) return false;
+  const current = bucketOf(now.toISOString());
+  return !snapshots.some((s) => s.trigger === 'scheduled' && bucketOf(s.createdAt) === current);
+}
+
+/**
+ * Snapshots the retention policy no longer keeps.
+ */
+export function selectExpiredSnapshots(
+  snapshots: SnapshotInfo[],
+  retention: SnapshotRetention,
+): SnapshotInfo[] {
+  const newestFirst = [...snapshots];
+  newestFirst.sort((a, b) => b.id.localeCompare(a.id));
+  const keep = new Set<string>();
+
+  const scheduled = newestFirst.filter((s) => s.trigger === 'scheduled');
+  const buckets: Array<[number, (iso: string) => string]> = [
+    [retention.hourly, hourOf],
+    [retention.daily, dayOf],
+  ];
+  for (const [count, bucketOf] of buckets) {
+    const seen = new Set<string>();
+    for (const snapshot of scheduled) {
+      const bucket = bucketOf(snapshot.createdAt);
+      if (seen.size >= count) break;
+      if (seen.has(bucket)) continue;
+      seen.add(bucket);
+      keep.add(snapshot.id);
+    }
+  }
+  const manual = newestFirst.filter((s) => s.trigger !== 'scheduled');
+  for (const snapshot of manual.slice(0, retention.manual)) keep.add(snapshot.id);
+
+  return newestFirst.filter((s) => !keep.has(s.id));
+}
+
+/**
+ * Parse `rclone check --combined -` (or `cryptcheck`) output (source:
+ * container, destination: snapshot) into the changes a restore would make.
+ */
+export function parseRcloneCheck(output: string, area: SyncArea): RestoreChange[] {
+  const changes: RestoreChange[] = [];
+  for (const line of output.split('\n')) {
+    const path = line.slice(2);
+    if (!path) continue;
+    if (line.startsWith('- ')) changes.push({ area, path, change: 'added' });
+    else if (line.startsWith('* ')) changes.push({ area, path, change: 'changed' });
+    else if (line.startsWith('+ ')) changes.push({ area, path, change: 'removed' });
+  }
+  return changes;
+}
+
+function snapshotRemote(env: MoltbotEnv, tenantId: string | undefined, path = ''): string {
+  return rcloneRemote(env, `snapshots/${path}`, tenantId);
+}
+
+/**
+ * List a tenant's complete snapshots, newest first.
+ */
+export async function listSnapshots(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId?: string,
+): Promise<SnapshotInfo[]> {
+  if (!(await ensureRcloneConfig(sandbox, env))) return [];
+
+  // Metadata files are single-line JSON, so one `rclone cat` reads them all
+  const result = await sandbox.exec(
+    `rclone cat ${snapshotRemote(env, tenantId)} --include='/*/snapshot.json' ${RCLONE_FLAGS} 2>/dev/null || true`,
+    { timeout: RCLONE_TIMEOUT_MS },
+  );
+  const snapshots: SnapshotInfo[] = [];
+  for (const line of (result.stdout ?? '').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const snapshot = JSON.parse(line) as SnapshotInfo;
+      if (SNAPSHOT_ID_RE.test(snapshot.id)) snapshots.push(snapshot);
+    } catch {
+      log.warn('Unreadable snapshot metadata', { tenantId, line: line.slice(0, 200) });
+    }
+  }
+  snapshots.sort((a, b) => b.id.localeCompare(a.id));
+  return snapshots;
+}
+
+/**
+ * Copy the container's config, workspace and skills to a new snapshot.
+ */
+export async function createSnapshot(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string | undefined,
+  trigger: SnapshotTrigger,
+  now = new Date(),
+): Promise<SnapshotResult> {
+  if (!(await ensureRcloneConfig(sandbox, env))) {
+    return { success: false, error: 'R2 storage is not configured' };
+  }
+
+  const configDir = await detectConfigDir(sandbox);
+  if (!configDir) {
+    return {
+      success: false,
+      error: NO_CONFIG_ERROR,
+      details: 'Neither openclaw.json nor clawdbot.json found in config directory.',
+    };
+  }
+
+  const id = snapshotIdFor(now);
+  const remote = (area: string) => snapshotRemote(env, tenantId, `${id}/${area}`);
+
+  const configResult = await sandbox.exec(
+    `rclone copy ${configDir}/ ${remote('openclaw/')} ${RCLONE_FLAGS} ${SYNC_EXCLUDES.openclaw}`,
+    { timeout: RCLONE_TIMEOUT_MS },
+  );
+  if (!configResult.success) {
+    await sandbox.exec(`rclone purge ${remote('')} ${RCLONE_FLAGS} || true`, {
+      timeout: RCLONE_TIMEOUT_MS,
+    });
+    return {
+      success: false,
+      error: 'Config snapshot failed',
+      details: configResult.stderr?.slice(-500),
+    };
+  }
+
+  // Workspace and skills are optional, as in syncToR2
+  await sandbox.exec(
+    `test -d ${WORKSPACE_DIR} && rclone copy ${WORKSPACE_DIR}/ ${remote('workspace/')} ${RCLONE_FLAGS} ${SYNC_EXCLUDES.workspace} || true`,
+    { timeout: RCLONE_TIMEOUT_MS },
+  );
+  await sandbox.exec(
+    `test -d ${SKILLS_DIR} && rclone copy ${SKILLS_DIR}/ ${remote('skills/')} ${RCLONE_FLAGS} || true`,
+    { timeout: RCLONE_TIMEOUT_MS },
+  );
+
+  let size = { count: 0, bytes: 0 };
+  const sizeResult = await sandbox.exec(`rclone size --json ${remote('')} ${RCLONE_FLAGS}`, {
+    timeout: RCLONE_TIMEOUT_MS,
+  });
+  try {
+    size = JSON.parse(sizeResult.stdout ?? '') as typeof size;
+  } catch {
+    log.warn('Could not read snapshot size', { snapshotId: id });
+  }
+
+  const snapshot: SnapshotInfo = {
+    id,
+    createdAt: now.toISOString(),
+    trigger,
+    configDir,
+    files: size.count,
+    bytes: size.bytes,
+  };
+  await sandbox.writeFile(METADATA_TMP, `${JSON.stringify(snapshot)}\n`);
+  const metadataResult = await sandbox.exec(
+    `rclone copyto ${METADATA_TMP} ${remote('snapshot.json')} ${RCLONE_FLAGS}`,
+    { timeout: RCLONE_TIMEOUT_MS },
+  );
+  if (!metadataResult.success) {
+    return {
+      success: false,
+      error: 'Snapshot metadata upload failed',
+      details: metadataResult.stderr?.slice(-500),
+    };
+  }
+
+  log.info('Snapshot created', { tenantId, snapshotId: id, trigger, files: snapshot.files });
+  return { success: true, snapshot };
+}
+
+/**
+ * Delete the snapshots the retention policy no longer keeps.
+ *
+ * @returns The IDs of deleted snapshots
+ */
+export async function pruneSnapshots(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string | undefined,
+  retention: SnapshotRetention,
+  snapshots?: SnapshotInfo[],
+): Promise<string[]> {
+  const expired = selectExpiredSnapshots(
+    snapshots ?? (await listSnapshots(sandbox, env, tenantId)),
+    retention,
+  );
+  if (expired.length === 0) return [];
+
+  const commands = expired.map(
+    (s) => `rclone purge ${snapshotRemote(env, tenantId, `${s.id}/`)} ${RCLONE_FLAGS}`,
+  );
+  const result = await sandbox.exec(commands.join('; '), { timeout: RCLONE_TIMEOUT_MS });
+  if (!result.success) {
+    log.warn('Snapshot pruning failed', { tenantId, stderr: result.stderr?.slice(-500) });
+  }
+  const ids = expired.map((s) => s.id);
+  log.info('Pruned snapshots', { tenantId, snapshotIds: ids });
+  return ids;
+}
+
+/**
+ * List the files a restore of `snapshot` would add, change or remove.
+ */
+export async function previewRestore(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string | undefined,
+  snapshot: SnapshotInfo,
+): Promise<RestoreChange[]> {
+  if (!(await ensureRcloneConfig(sandbox, env))) {
+    throw new Error('R2 storage is not configured');
+  }
+
+  const dirs = syncAreaDirs(snapshot.configDir);
+  const areas = Object.keys(dirs) as SyncArea[];
+  // rclone check exits non-zero when there are differences; a missing
+  // snapshot area (e.g. no skills) prints nothing and is left alone on restore.
+  // Objects behind the crypt remote have no hash for check to compare, so
+  // cryptcheck encrypts the container's files to compare them with the snapshot
+  const check = isBackupEncrypted(env) ? 'cryptcheck' : 'check';
+  const results = await Promise.all(
+    areas.map((area) =>
+      sandbox.exec(
+        `rclone ${check} ${dirs[area]}/ ${snapshotRemote(env, tenantId, `${snapshot.id}/${area}/`)} --combined - ${RCLONE_FLAGS} ${SYNC_EXCLUDES[area]} 2>/dev/null || true`,
+        { timeout: RCLONE_TIMEOUT_MS },
+      ),
+    ),
+  );
+  return areas.flatMap((area, i) => parseRcloneCheck(results[i].stdout ?? '', area));
+}
+
+/**
+ * Restore a snapshot into the container: snapshot the current state, stop
+ * the gateway, replace the config, workspace and skills with the snapshot's,
+ * and update the live R2 copy so the next boot restores the same state. The
+ * caller restarts the gateway.
+ */
+export async function restoreSnapshot(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId: string | undefined,
+  snapshot: SnapshotInfo,
+): Promise<RestoreResult> {
+  const safety = await createSnapshot(sandbox, env, tenantId, 'pre-restore');
+  // A container without config has nothing to lose
+  if (!safety.success && safety.error !== NO_CONFIG_ERROR) {
+    return {
+      success: false,
+      error: 'Could not snapshot the current state before restoring',
+      details: safety.details ?? safety.error,
+    };
+  }
+
+  await killAllGatewayProcesses(sandbox);
+
+  const dirs = syncAreaDirs(snapshot.configDir);
+  const remote = (area: SyncArea) => snapshotRemote(env, tenantId, `${snapshot.id}/${area}/`);
+
+  const configResult = await sandbox.exec(
+    `mkdir -p ${dirs.openclaw} && rclone sync ${remote('openclaw')} ${dirs.openclaw}/ ${RCLONE_FLAGS} ${SYNC_EXCLUDES.openclaw}`,
+    { timeout: RCLONE_TIMEOUT_MS },
+  );
+  if (!configResult.success) {
+    return {
+      success: false,
+      safetySnapshotId: safety.snapshot?.id,
+      error: 'Config restore failed',
+      details: configResult.stderr?.slice(-500),
+    };
+  }
+
+  // rclone sync leaves the destination alone when the snapshot has no such area
+  await sandbox.exec(
+    `mkdir -p ${WORKSPACE_DIR} && rclone sync ${remote('workspace')} ${WORKSPACE_DIR}/ ${RCLONE_FLAGS} ${SYNC_EXCLUDES.workspace} || true`,
+    { timeout: RCLONE_TIMEOUT_MS },
+  );
+  await sandbox.exec(`rclone sync ${remote('skills')} ${SKILLS_DIR}/ ${RCLONE_FLAGS} || true`, {
+    timeout: RCLONE_TIMEOUT_MS,
+  });
+
+  log.info('Snapshot restored', { tenantId, snapshotId: snapshot.id });
+
+  const sync = await syncToR2(sandbox, env, tenantId);
+  if (!sync.success) {
+    log.warn('Could not update R2 after restore', { tenantId, error: sync.error });
+  }
+  return {
+    success: true,
+    safetySnapshotId: safety.snapshot?.id,
+    syncError: sync.success ? undefined : sync.error,
+  };
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { syncToR2 } from './sync';
+import type { ExecResult } from '@cloudflare/sandbox';
+import { rcloneRemote, syncToR2 } from './sync';
 import {
   createMockEnv,
   createMockEnvWithR2,
@@ -7,6 +8,75 @@ import {
   createMockSandbox,
   suppressConsole,
 } from '../test-utils';
+import type { ManifestFiles, SyncArea, SyncManifest } from './manifest';
+
+type Listing = Record<string, [size: number, md5: string]>;
+type Route = string | ExecResult | ((command: string) => string);
+
+function lsjson(files: Listing): string {
+  return JSON.stringify(
+    Object.entries(files).map(([Path, [Size, md5]]) => ({ Path, Size, Hashes: { md5 } })),
+  );
+}
+
+function toFiles(files: Listing): ManifestFiles {
+  return Object.fromEntries(
+    Object.entries(files).map(([path, [size, md5]]) => [path, { size, md5 }]),
+  );
+}
+
+function manifest(areas: Partial<Record<SyncArea, Listing>>): SyncManifest {
+  return {
+    version: 1,
+    createdAt: '2026-01-27T11:00:00.000Z',
+    areas: Object.fromEntries(Object.entries(areas).map(([area, files]) => [area, toFiles(files)])),
+  };
+}
+
+function savedManifest(writeFileMock: ReturnType<typeof createMockSandbox>['writeFileMock']) {
+  const call = writeFileMock.mock.calls.find(([path]) => path === '/tmp/.sync-manifest.json');
+  return JSON.parse(call![1]) as SyncManifest;
+}
+
+/**
+ * Answer exec calls by the first route whose key the command contains.
+ * Local directories without a route do not exist; R2 and everything else is empty.
+ */
+function routeExec(
+  execMock: ReturnType<typeof createMockSandbox>['execMock'],
+  routes: Record<string, Route>,
+) {
+  const defaults: Record<string, Route> = {
+    '.rclone-configured': 'yes',
+    'test -f /root/.openclaw/openclaw.json': 'openclaw',
+    'cat /tmp/.last-sync': '2026-01-27T12:00:00+00:00',
+    'if [ -d ': 'null',
+  };
+  execMock.mockImplementation(async (command: string) => {
+    const key =
+      Object.keys(routes).find((k) => command.includes(k)) ??
+      Object.keys(defaults).find((k) => command.includes(k));
+    const route = key ? (routes[key] ?? defaults[key]) : '';
+    if (typeof route === 'function') return createMockExecResult(route(command));
+    return typeof route === 'string' ? createMockExecResult(route) : route;
+  });
+}
+
+describe('rcloneRemote', () => {
+  it('scopes paths to the tenant, under encrypted/ through the crypt remote', () => {
+    const env = createMockEnvWithR2();
+    expect(rcloneRemote(env, 'openclaw/', 'charliebot')).toBe(
+      'r2:moltbot-data/charliebot/openclaw/',
+    );
+    expect(rcloneRemote(env, 'openclaw/')).toBe('r2:moltbot-data/openclaw/');
+
+    const encrypted = createMockEnvWithR2({ R2_ENCRYPTION_KEY: 'correct horse battery staple' });
+    expect(rcloneRemote(encrypted, 'openclaw/', 'charliebot')).toBe(
+      'r2crypt:charliebot/encrypted/openclaw/',
+    );
+    expect(rcloneRemote(encrypted, 'snapshots/')).toBe('r2crypt:encrypted/snapshots/');
+  });
+});
 
 describe('syncToR2', () => {
   beforeEach(() => {
@@ -41,118 +111,155 @@ describe('syncToR2', () => {
   });
 
   describe('sync execution', () => {
-    it('returns success with timestamp after sync', async () => {
-      const timestamp = '2026-01-27T12:00:00+00:00';
-      const { sandbox, execMock } = createMockSandbox();
-      execMock
-        .mockResolvedValueOnce(createMockExecResult('yes')) // rclone configured
-        .mockResolvedValueOnce(createMockExecResult('openclaw')) // config detect
-        .mockResolvedValueOnce(createMockExecResult()) // rclone sync config
-        .mockResolvedValueOnce(createMockExecResult()) // rclone sync workspace
-        .mockResolvedValueOnce(createMockExecResult()) // rclone sync skills
-        .mockResolvedValueOnce(createMockExecResult()) // date > last-sync
-        .mockResolvedValueOnce(createMockExecResult(timestamp)); // cat last-sync
+    const timestamp = '2026-01-27T12:00:00+00:00';
 
-      const env = createMockEnvWithR2();
-      const result = await syncToR2(sandbox, env);
+    it('uploads only changed files and deletes removed ones', async () => {
+      const { sandbox, execMock, writeFileMock } = createMockSandbox();
+      routeExec(execMock, {
+        'rclone cat r2:moltbot-data/sync-manifest.json': JSON.stringify(
+          manifest({
+            openclaw: { 'openclaw.json': [10, 'a'], 'old.json': [1, 'o'] },
+            workspace: { 'notes.md': [5, 'n'] },
+            skills: {},
+          }),
+        ),
+        'rclone lsjson /root/.openclaw/': lsjson({ 'openclaw.json': [12, 'b'] }),
+        'rclone lsjson /root/clawd/skills/': 'null',
+        'rclone lsjson /root/clawd/': lsjson({ 'notes.md': [5, 'n'] }),
+        'rclone lsjson r2:moltbot-data/openclaw/': lsjson({ 'openclaw.json': [12, 'b'] }),
+        'rclone lsjson r2:moltbot-data/workspace/': lsjson({ 'notes.md': [5, 'n'] }),
+      });
 
-      expect(result.success).toBe(true);
-      expect(result.lastSync).toBe(timestamp);
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
+
+      expect(result).toMatchObject({
+        success: true,
+        lastSync: timestamp,
+        filesChanged: 1,
+        filesDeleted: 1,
+        bytesTransferred: 12,
+        checksumMismatches: [],
+      });
+      expect(writeFileMock).toHaveBeenCalledWith('/tmp/.sync-changed-openclaw', 'openclaw.json');
+      expect(writeFileMock).toHaveBeenCalledWith('/tmp/.sync-deleted-openclaw', 'old.json');
+      const commands = execMock.mock.calls.map(([command]) => command as string);
+      const copies = commands.filter((command) => command.startsWith('rclone copy '));
+      expect(copies).toHaveLength(1);
+      expect(copies[0]).toContain(
+        'rclone copy /root/.openclaw/ r2:moltbot-data/openclaw/ --files-from-raw /tmp/.sync-changed-openclaw --no-traverse',
+      );
+      expect(copies[0]).toContain('--transfers=16');
+      expect(commands).toContain(
+        'rclone delete r2:moltbot-data/openclaw/ --files-from-raw /tmp/.sync-deleted-openclaw --transfers=16 --fast-list --s3-no-check-bucket',
+      );
+      // The manifest replaces listing R2 before the transfer; skills are missing and not verified
+      expect(commands.filter((command) => command.startsWith('rclone lsjson r2:'))).toHaveLength(2);
+
+      expect(savedManifest(writeFileMock).areas).toEqual({
+        openclaw: { 'openclaw.json': { size: 12, md5: 'b' } },
+        workspace: { 'notes.md': { size: 5, md5: 'n' } },
+        skills: {},
+      });
+      expect(writeFileMock).toHaveBeenCalledWith(
+        '/tmp/.last-sync-result.json',
+        JSON.stringify(result),
+      );
+    });
+
+    it('diffs against a listing of R2 when there is no manifest yet', async () => {
+      const { sandbox, execMock, writeFileMock } = createMockSandbox();
+      const remoteListings = [
+        lsjson({ 'old.json': [1, 'o'] }),
+        lsjson({ 'openclaw.json': [12, 'b'] }),
+      ];
+      routeExec(execMock, {
+        'rclone lsjson /root/.openclaw/': lsjson({ 'openclaw.json': [12, 'b'] }),
+        'rclone lsjson r2:moltbot-data/charliebot/openclaw/': () => remoteListings.shift() ?? '[]',
+      });
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2(), 'charliebot');
+
+      expect(result).toMatchObject({ success: true, filesChanged: 1, filesDeleted: 1 });
+      expect(writeFileMock).toHaveBeenCalledWith('/tmp/.sync-deleted-openclaw', 'old.json');
+      expect(remoteListings).toEqual([]);
+      const commands = execMock.mock.calls.map(([command]) => command as string);
+      expect(commands).toContain(
+        'rclone copyto /tmp/.sync-manifest.json r2:moltbot-data/charliebot/sync-manifest.json --transfers=16 --fast-list --s3-no-check-bucket',
+      );
     });
 
     it('falls back to legacy clawdbot config directory', async () => {
-      const timestamp = '2026-01-27T12:00:00+00:00';
       const { sandbox, execMock } = createMockSandbox();
-      execMock
-        .mockResolvedValueOnce(createMockExecResult('yes')) // rclone configured
-        .mockResolvedValueOnce(createMockExecResult('clawdbot')) // legacy config
-        .mockResolvedValueOnce(createMockExecResult()) // rclone sync config
-        .mockResolvedValueOnce(createMockExecResult()) // rclone sync workspace
-        .mockResolvedValueOnce(createMockExecResult()) // rclone sync skills
-        .mockResolvedValueOnce(createMockExecResult()) // date > last-sync
-        .mockResolvedValueOnce(createMockExecResult(timestamp)); // cat last-sync
+      const remoteListings = ['[]', lsjson({ 'clawdbot.json': [3, 'c'] })];
+      routeExec(execMock, {
+        'test -f /root/.openclaw/openclaw.json': 'clawdbot',
+        'rclone lsjson /root/.clawdbot/': lsjson({ 'clawdbot.json': [3, 'c'] }),
+        'rclone lsjson r2:moltbot-data/openclaw/': () => remoteListings.shift() ?? '[]',
+      });
 
-      const env = createMockEnvWithR2();
-      const result = await syncToR2(sandbox, env);
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
 
       expect(result.success).toBe(true);
-
-      // Config sync command should reference .clawdbot
-      const configSyncCall = execMock.mock.calls[2][0];
-      expect(configSyncCall).toContain('/root/.clawdbot/');
+      const commands = execMock.mock.calls.map(([command]) => command as string);
+      expect(commands).toContainEqual(expect.stringMatching(/^rclone copy \/root\/\.clawdbot\/ /));
     });
 
     it('returns error when config sync fails', async () => {
       const { sandbox, execMock } = createMockSandbox();
-      execMock
-        .mockResolvedValueOnce(createMockExecResult('yes')) // rclone configured
-        .mockResolvedValueOnce(createMockExecResult('openclaw')) // config detect
-        .mockResolvedValueOnce(
-          createMockExecResult('', { exitCode: 1, success: false, stderr: 'rclone error' }),
-        );
+      routeExec(execMock, {
+        'rclone lsjson /root/.openclaw/': lsjson({ 'openclaw.json': [12, 'b'] }),
+        'rclone copy /root/.openclaw/': createMockExecResult('', {
+          exitCode: 1,
+          stderr: 'rclone error',
+        }),
+      });
 
-      const env = createMockEnvWithR2();
-      const result = await syncToR2(sandbox, env);
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
 
       expect(result.success).toBe(false);
       expect(result.error).toBe('Config sync failed');
+      expect(result.details).toBe('rclone error');
     });
 
-    it('uses rclone sync (not copy) to propagate deletions', async () => {
-      const { sandbox, execMock } = createMockSandbox();
-      execMock
-        .mockResolvedValueOnce(createMockExecResult('yes'))
-        .mockResolvedValueOnce(createMockExecResult('openclaw'))
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult('2026-01-27'));
-
-      const env = createMockEnvWithR2();
-      await syncToR2(sandbox, env);
-
-      const configCmd = execMock.mock.calls[2][0];
-      expect(configCmd).toMatch(/^rclone sync /);
-    });
-
-    it('rclone commands include --transfers=16 and exclude .git', async () => {
-      const { sandbox, execMock } = createMockSandbox();
-      execMock
-        .mockResolvedValueOnce(createMockExecResult('yes'))
-        .mockResolvedValueOnce(createMockExecResult('openclaw'))
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult('2026-01-27'));
+    it('reports checksum mismatches and leaves them out of the manifest', async () => {
+      const { sandbox, execMock, writeFileMock } = createMockSandbox();
+      routeExec(execMock, {
+        'rclone lsjson /root/.openclaw/': lsjson({
+          'openclaw.json': [12, 'b'],
+          'a.json': [1, 'a'],
+        }),
+        'rclone lsjson r2:moltbot-data/openclaw/': lsjson({
+          'openclaw.json': [12, 'corrupt'],
+          'a.json': [1, 'a'],
+        }),
+      });
 
-      const env = createMockEnvWithR2();
-      await syncToR2(sandbox, env);
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
 
-      const configCmd = execMock.mock.calls[2][0];
-      expect(configCmd).toContain('--transfers=16');
-      expect(configCmd).toContain("--exclude='.git/**'");
-      expect(configCmd).toContain('/root/.openclaw/');
-      expect(configCmd).toContain('r2:moltbot-data/openclaw/');
+      expect(result).toMatchObject({
+        success: false,
+        error: 'Sync verification failed',
+        checksumMismatches: ['openclaw/openclaw.json'],
+      });
+      expect(result.lastSync).toBeUndefined();
+      expect(savedManifest(writeFileMock).areas.openclaw).toEqual({
+        'a.json': { size: 1, md5: 'a' },
+      });
     });
 
     it('uses custom bucket name', async () => {
       const { sandbox, execMock } = createMockSandbox();
-      execMock
-        .mockResolvedValueOnce(createMockExecResult('yes'))
-        .mockResolvedValueOnce(createMockExecResult('openclaw'))
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult('2026-01-27'));
+      routeExec(execMock, {
+        'rclone lsjson /root/.openclaw/': lsjson({ 'openclaw.json': [12, 'b'] }),
+      });
 
       const env = createMockEnvWithR2({ R2_BUCKET_NAME: 'my-custom-bucket' });
       await syncToR2(sandbox, env);
 
-      const configCmd = execMock.mock.calls[2][0];
-      expect(configCmd).toContain('r2:my-custom-bucket/openclaw/');
+      const commands = execMock.mock.calls.map(([command]) => command as string);
+      expect(commands).toContainEqual(
+        expect.stringContaining('rclone copy /root/.openclaw/ r2:my-custom-bucket/openclaw/'),
+      );
     });
   });
 });
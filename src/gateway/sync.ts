@@ -1,32 +1,57 @@
 import type { Sandbox } from '@cloudflare/sandbox';
 import type { MoltbotEnv } from '../types';
 import { getR2BucketName } from '../config';
-import { ensureRcloneConfig } from './r2';
+import { ensureRcloneConfig, isBackupEncrypted, CRYPT_REMOTE, ENCRYPTED_ROOT } from './r2';
+import {
+  diffManifests,
+  findMismatches,
+  listLocalFiles,
+  listRemoteFiles,
+  readSyncManifest,
+  syncAreaDirs,
+  writeSyncManifest,
+  SYNC_AREAS,
+  type ManifestFiles,
+  type SyncArea,
+  type SyncManifest,
+} from './manifest';
+import { createLogger } from '../utils/logging';
+
+const log = createLogger('sync');
 
 export interface SyncResult {
   success: boolean;
   lastSync?: string;
   error?: string;
   details?: string;
+  filesChanged?: number; // uploaded: new or modified since the last sync
+  filesDeleted?: number;
+  bytesTransferred?: number;
+  durationMs?: number;
+  checksumMismatches?: string[]; // "area/path" of files R2 does not hold intact
 }
 
-const RCLONE_FLAGS = '--transfers=16 --fast-list --s3-no-check-bucket';
+export const RCLONE_FLAGS = '--transfers=16 --fast-list --s3-no-check-bucket';
 const LAST_SYNC_FILE = '/tmp/.last-sync';
+export const LAST_SYNC_RESULT_FILE = '/tmp/.last-sync-result.json';
+const MANIFEST_PATH = 'sync-manifest.json';
+const MAX_REPORTED_MISMATCHES = 50;
 
-function rcloneRemote(env: MoltbotEnv, prefix: string, tenantId?: string): string {
-  const base = `r2:${getR2BucketName(env)}`;
+export function rcloneRemote(env: MoltbotEnv, prefix: string, tenantId?: string): string {
   // Must match start-openclaw.sh: R2_PREFIX="${TENANT_ID:+$TENANT_ID/}"
   // i.e., r2:moltbot-data/{tenantId}/{prefix} (no "tenants/" prefix)
-  if (tenantId) {
-    return `${base}/${tenantId}/${prefix}`;
+  const tenantPrefix = tenantId ? `${tenantId}/` : '';
+  if (isBackupEncrypted(env)) {
+    // R2_BASE in start-openclaw.sh: the crypt remote's root is the bucket
+    return `${CRYPT_REMOTE}:${tenantPrefix}${ENCRYPTED_ROOT}/${prefix}`;
   }
-  return `${base}/${prefix}`;
+  return `r2:${getR2BucketName(env)}/${tenantPrefix}${prefix}`;
 }
 
 /**
  * Detect which config directory exists in the container.
  */
-async function detectConfigDir(sandbox: Sandbox): Promise<string | null> {
+export async function detectConfigDir(sandbox: Sandbox): Promise<string | null> {
   const check = await sandbox.exec(
     'test -f /root/.openclaw/openclaw.json && echo openclaw || ' +
       '(test -f /root/.clawdbot/clawdbot.json && echo clawdbot || echo none)',
@@ -37,11 +62,59 @@ async function detectConfigDir(sandbox: Sandbox): Promise<string | null> {
   return null;
 }
 
+/**
+ * Upload changed files and delete removed ones for one area.
+ * Returns the upload's result, or null if there was nothing to upload.
+ */
+async function transferArea(
+  sandbox: Sandbox,
+  area: SyncArea,
+  dir: string,
+  remote: string,
+  changed: string[],
+  deleted: string[],
+) {
+  if (deleted.length > 0) {
+    const list = `/tmp/.sync-deleted-${area}`;
+    await sandbox.writeFile(list, deleted.join('\n'));
+    const result = await sandbox.exec(
+      `rclone delete ${remote} --files-from-raw ${list} ${RCLONE_FLAGS}`,
+      { timeout: 120000 },
+    );
+    if (!result.success) {
+      log.warn('Could not delete removed files from R2', {
+        area,
+        details: result.stderr?.slice(-200),
+      });
+    }
+  }
+  if (changed.length === 0) return null;
+  const list = `/tmp/.sync-changed-${area}`;
+  await sandbox.writeFile(list, changed.join('\n'));
+  return sandbox.exec(
+    `rclone copy ${dir}/ ${remote} --files-from-raw ${list} --no-traverse ${RCLONE_FLAGS}`,
+    { timeout: 120000 },
+  );
+}
+
 /**
  * Sync OpenClaw config and workspace from container to R2 for persistence.
  * Uses rclone for direct S3 API access (no FUSE mount overhead).
+ *
+ * Incremental: a hashed listing of the container is diffed against the
+ * manifest saved by the previous sync (or a listing of R2 when there is
+ * none), so only new and modified files are uploaded and only removed files
+ * deleted. R2 is then listed again and compared with the container; files
+ * that do not match are reported and left out of the saved manifest, so the
+ * next sync uploads them again. Areas whose directory does not exist are left
+ * alone.
  */
-export async function syncToR2(sandbox: Sandbox, env: MoltbotEnv, tenantId?: string): Promise<SyncResult> {
+export async function syncToR2(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  tenantId?: string,
+): Promise<SyncResult> {
+  const startedAt = Date.now();
   if (!(await ensureRcloneConfig(sandbox, env))) {
     return { success: false, error: 'R2 storage is not configured' };
   }
@@ -56,13 +129,43 @@ export async function syncToR2(sandbox: Sandbox, env: MoltbotEnv, tenantId?: str
   }
 
   const remote = (prefix: string) => rcloneRemote(env, prefix, tenantId);
+  const areaRemote = (area: SyncArea) => remote(`${area}/`);
+  const dirs = syncAreaDirs(configDir);
 
-  // Sync config (rclone sync propagates deletions)
-  const configResult = await sandbox.exec(
-    `rclone sync ${configDir}/ ${remote('openclaw/')} ${RCLONE_FLAGS} --exclude='*.lock' --exclude='*.log' --exclude='*.tmp' --exclude='.git/**'`,
-    { timeout: 120000 },
+  let local: Array<ManifestFiles | null>;
+  try {
+    local = await Promise.all(SYNC_AREAS.map((area) => listLocalFiles(sandbox, dirs[area], area)));
+  } catch (err) {
+    return {
+      success: false,
+      error: 'Could not list local files',
+      details: err instanceof Error ? err.message : String(err),
+    };
+  }
+
+  const manifest = await readSyncManifest(sandbox, remote(MANIFEST_PATH), RCLONE_FLAGS);
+  const previous = await Promise.all(
+    SYNC_AREAS.map(
+      (area) =>
+        manifest?.areas[area] ?? listRemoteFiles(sandbox, areaRemote(area), area, RCLONE_FLAGS),
+    ),
   );
-  if (!configResult.success) {
+
+  // Upload and delete only what changed
+  let filesChanged = 0;
+  let filesDeleted = 0;
+  let bytesTransferred = 0;
+  const transfers = SYNC_AREAS.map((area, i) => {
+    const files = local[i];
+    if (!files) return Promise.resolve(null);
+    const diff = diffManifests(previous[i], files);
+    filesChanged += diff.changed.length;
+    filesDeleted += diff.deleted.length;
+    bytesTransferred += diff.bytes;
+    return transferArea(sandbox, area, dirs[area], areaRemote(area), diff.changed, diff.deleted);
+  });
+  const [configResult] = await Promise.all(transfers);
+  if (configResult && !configResult.success) {
     return {
       success: false,
       error: 'Config sync failed',
@@ -70,22 +173,53 @@ export async function syncToR2(sandbox: Sandbox, env: MoltbotEnv, tenantId?: str
     };
   }
 
-  // Sync workspace (non-fatal, rclone sync propagates deletions)
-  await sandbox.exec(
-    `test -d /root/clawd && rclone sync /root/clawd/ ${remote('workspace/')} ${RCLONE_FLAGS} --exclude='skills/**' --exclude='.git/**' || true`,
-    { timeout: 120000 },
-  );
-
-  // Sync skills (non-fatal)
-  await sandbox.exec(
-    `test -d /root/clawd/skills && rclone sync /root/clawd/skills/ ${remote('skills/')} ${RCLONE_FLAGS} || true`,
-    { timeout: 120000 },
+  // Verify: what R2 holds now must match the container
+  const remoteFiles = await Promise.all(
+    SYNC_AREAS.map((area, i) =>
+      local[i] ? listRemoteFiles(sandbox, areaRemote(area), area, RCLONE_FLAGS) : null,
+    ),
   );
+  const checksumMismatches: string[] = [];
+  const next: SyncManifest = { version: 1, createdAt: new Date().toISOString(), areas: {} };
+  SYNC_AREAS.forEach((area, i) => {
+    const files = local[i];
+    if (!files) {
+      next.areas[area] = previous[i];
+      return;
+    }
+    const mismatched = new Set(findMismatches(files, remoteFiles[i] ?? {}));
+    next.areas[area] = Object.fromEntries(
+      Object.entries(files).filter(([path]) => !mismatched.has(path)),
+    );
+    for (const path of mismatched) checksumMismatches.push(`${area}/${path}`);
+  });
+  if (!(await writeSyncManifest(sandbox, remote(MANIFEST_PATH), RCLONE_FLAGS, next))) {
+    log.warn('Could not save the sync manifest');
+  }
 
-  // Write timestamp
-  await sandbox.exec(`date -Iseconds > ${LAST_SYNC_FILE}`);
-  const tsResult = await sandbox.exec(`cat ${LAST_SYNC_FILE}`);
-  const lastSync = tsResult.stdout?.trim();
+  const stats = {
+    filesChanged,
+    filesDeleted,
+    bytesTransferred,
+    durationMs: Date.now() - startedAt,
+    checksumMismatches: checksumMismatches.slice(0, MAX_REPORTED_MISMATCHES),
+  };
+  let result: SyncResult;
+  if (checksumMismatches.length > 0) {
+    log.warn('Sync verification found mismatched files', { count: checksumMismatches.length });
+    result = {
+      success: false,
+      error: 'Sync verification failed',
+      details: `${checksumMismatches.length} file(s) in R2 do not match the container`,
+      ...stats,
+    };
+  } else {
+    // Write timestamp
+    await sandbox.exec(`date -Iseconds > ${LAST_SYNC_FILE}`);
+    const tsResult = await sandbox.exec(`cat ${LAST_SYNC_FILE}`);
+    result = { success: true, lastSync: tsResult.stdout?.trim(), ...stats };
+  }
 
-  return { success: true, lastSync };
+  await sandbox.writeFile(LAST_SYNC_RESULT_FILE, JSON.stringify(result));
+  return result;
 }
@@ -25,14 +25,50 @@ import { getSandbox, Sandbox, type SandboxOptions } from '@cloudflare/sandbox';
 
 import type { Context } from 'hono';
 import type { AppEnv, MoltbotEnv } from './types';
-import { MOLTBOT_PORT } from './config';
-import { createAuthMiddleware } from './auth';
-import { ensureMoltbotGateway, findExistingMoltbotProcess } from './gateway';
-import { publicRoutes, api, adminUi, debug, cdp } from './routes';
-import { redactSensitiveParams } from './utils/logging';
-import { isMultiTenant, resolveAgentFromHostname, getTenantConfig, mergeTenantEnv } from './tenant';
+import { MOLTBOT_PORT, getXprChainId } from './config';
+import {
+  createAuthMiddleware,
+  isWalletAuthConfigured,
+  getSessionTenantId,
+  verifyPairingToken,
+  extractPairingCookie,
+  removePairingCookie,
+  buildPairingCookie,
+  clearPairingCookie,
+} from './auth';
+import { ensureMoltbotGateway, ensureRequestGateway, findExistingMoltbotProcess } from './gateway';
+import { validateTenantAiEnv } from './gateway/env';
+import { publicRoutes, api, adminUi, debug, cdp, tenants, aiProxy } from './routes';
+import {
+  createLogger,
+  getLogContext,
+  getRequestId,
+  loggingMiddleware,
+  redactSensitiveParams,
+  setLogContext,
+} from './utils/logging';
+import {
+  isMultiTenant,
+  resolveAgentForHost,
+  loadTenantConfig,
+  saveTenantConfig,
+  mergeTenantEnv,
+} from './tenant';
+import type { TenantConfig } from './tenant';
+import { auditMiddleware } from './audit';
+import { rateLimitMiddleware, allowPrewarm } from './rate-limit';
+import { isSupervisorEnabled, superviseGateway } from './supervisor';
+import {
+  getPairingPolicy,
+  handlePairingRequest,
+  parseConnectFrame,
+  type PairingConnection,
+} from './pairing';
+import { trackConnection } from './connections';
+import { handleScheduled } from './scheduled';
 import loadingPageHtml from './assets/loading.html';
 import configErrorHtml from './assets/config-error.html';
+import suspendedHtml from './assets/suspended.html';
 import walletLoginHtml from './assets/wallet-login.html';
 
 /**
@@ -50,13 +86,24 @@ function transformErrorMessage(message: string, host: string): string {
   return message;
 }
 
+const log = createLogger('worker');
+const proxyLog = createLogger('proxy');
+const wsLog = createLogger('ws');
+
 export { Sandbox };
+export { RateLimiter } from './rate-limit';
+export { UsageMeter } from './usage';
+export { GatewaySupervisor } from './supervisor';
+export { ConnectionRegistry } from './connections';
+export { ChallengeLedger } from './auth/challenges';
 
 /**
  * Validate required environment variables.
  * Returns an array of missing variable descriptions, or empty array if all are set.
+ * For tenants, the AI provider is checked against the tenant config instead
+ * (env has already been merged with it).
  */
-function validateRequiredEnv(env: MoltbotEnv): string[] {
+function validateRequiredEnv(env: MoltbotEnv, tenantConfig?: TenantConfig): string[] {
   const missing: string[] = [];
   const isTestMode = env.DEV_MODE === 'true' || env.E2E_TEST_MODE === 'true';
 
@@ -64,9 +111,9 @@ function validateRequiredEnv(env: MoltbotEnv): string[] {
     missing.push('MOLTBOT_GATEWAY_TOKEN');
   }
 
-  // CF Access vars not required when wallet auth (XPR_OWNER_ACCOUNT) is configured,
-  // or in dev/test mode since auth is skipped entirely
-  if (!isTestMode && !env.XPR_OWNER_ACCOUNT) {
+  // CF Access vars not required when wallet auth (XPR_OWNER_ACCOUNT / XPR_ALLOWED_ACCOUNTS)
+  // is configured, or in dev/test mode since auth is skipped entirely
+  if (!isTestMode && !isWalletAuthConfigured(env)) {
     if (!env.CF_ACCESS_TEAM_DOMAIN) {
       missing.push('CF_ACCESS_TEAM_DOMAIN');
     }
@@ -76,6 +123,11 @@ function validateRequiredEnv(env: MoltbotEnv): string[] {
     }
   }
 
+  if (tenantConfig) {
+    missing.push(...validateTenantAiEnv(tenantConfig, env));
+    return missing;
+  }
+
   // Check for AI provider configuration (at least one must be set)
   const hasCloudflareGateway = !!(
     env.CLOUDFLARE_AI_GATEWAY_API_KEY &&
@@ -123,10 +175,7 @@ function buildSandboxOptions(env: MoltbotEnv, tenantConfig?: import('./tenant').
  */
 function serveWalletLoginPage(c: Context<AppEnv>) {
   const network = c.env.XPR_NETWORK || 'mainnet';
-  const chainId =
-    network === 'testnet'
-      ? '71ee83bcf52142d61019d95f9cc5427ba6a0d7ff8accd9e2088ae2abeaf3d3dd'
-      : '384da888112027f0321850a169f737c33e53b388aad48b5adace4bab97f437e0';
+  const chainId = getXprChainId(network);
 
   const rpcEndpoint =
     c.env.XPR_RPC_ENDPOINT ||
@@ -143,6 +192,37 @@ function serveWalletLoginPage(c: Context<AppEnv>) {
   return c.html(html);
 }
 
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Drop the pairing cookie from headers proxied to the gateway.
+ */
+function stripPairingCookie(headers: Headers): void {
+  const cookies = removePairingCookie(headers.get('Cookie'));
+  if (cookies) headers.set('Cookie', cookies);
+  else headers.delete('Cookie');
+}
+
+/**
+ * Serve the notice for a suspended tenant (JSON for API clients).
+ */
+function serveSuspendedPage(c: Context<AppEnv>, agentName: string, reason?: string) {
+  if (!c.req.header('Accept')?.includes('text/html')) {
+    return c.json({ error: `Agent '${agentName}' is suspended`, reason }, 503);
+  }
+
+  const html = suspendedHtml
+    .replace('{{AGENT_NAME}}', escapeHtml(agentName))
+    .replace('{{REASON}}', reason ? escapeHtml(reason) : '');
+  return c.html(html, 503);
+}
+
 // Main app
 const app = new Hono<AppEnv>();
 
@@ -185,38 +265,65 @@ const prewarmStarted = new Set<string>();
 // MIDDLEWARE: Applied to ALL routes
 // =============================================================================
 
-// Middleware: Log every request
-app.use('*', async (c, next) => {
-  const url = new URL(c.req.url);
-  const redactedSearch = redactSensitiveParams(url);
-  console.log(`[REQ] ${c.req.method} ${url.pathname}${redactedSearch}`);
-  await next();
-});
+// Middleware: Assign a request ID and log every request as JSON
+app.use('*', loggingMiddleware);
+
+// Middleware: Per-tenant, per-IP rate limits (before anything that hits KV or a sandbox)
+app.use('*', rateLimitMiddleware);
+
+// AI metering proxy (tenant gateway token auth). Limited in its own route class,
+// per agent, since containers share egress IPs.
+app.route('/api/ai-proxy', aiProxy);
+
+// Tenant management API (super-admin token auth). Mounted before tenant
+// resolution so it works from any hostname and never boots a sandbox.
+app.route('/api/tenants', tenants);
 
 // Middleware: Resolve tenant and initialize sandbox
 app.use('*', async (c, next) => {
-  // Try multi-tenant resolution if AGENT_KV is bound and hostname has a valid agent subdomain.
-  // Falls through to single-tenant if no subdomain or agent not found in KV.
+  // Try multi-tenant resolution if AGENT_KV is bound and the hostname is a verified custom
+  // domain or has a valid agent subdomain. Falls through to single-tenant if neither matches.
   const agentName = isMultiTenant(c.env)
-    ? resolveAgentFromHostname(c.req.header('host') || '')
+    ? await resolveAgentForHost(c.env, c.req.header('host') || '')
     : null;
 
   let sandboxId: string;
   let tenantConfig: import('./tenant').TenantConfig | undefined;
 
   if (agentName && c.env.AGENT_KV) {
-    const config = await getTenantConfig(c.env.AGENT_KV, agentName);
-    if (!config) {
+    const lookup = await loadTenantConfig(c.env, agentName);
+    if (lookup.status === 'missing') {
       return c.json({ error: `Agent '${agentName}' not found` }, 404);
     }
+    if (lookup.status === 'invalid') {
+      // Details are logged by loadTenantConfig; don't expose them publicly
+      return c.json({ error: `Agent '${agentName}' has an invalid configuration` }, 503);
+    }
+    setLogContext({ tenant: agentName });
+    const config = lookup.config;
+    if (lookup.migratedFrom && c.env.TENANT_CONFIG_WRITE_BACK === 'true') {
+      log.info('Upgrading tenant config', { fromVersion: lookup.migratedFrom });
+      c.executionCtx.waitUntil(
+        saveTenantConfig(c.env, agentName, config).catch((err: Error) =>
+          log.error('Failed to write back tenant config', { error: err }),
+        ),
+      );
+    }
+    if (config.suspended) {
+      return serveSuspendedPage(c, agentName, config.suspendedReason);
+    }
 
     c.set('agentName', agentName);
     c.set('tenantConfig', config);
     tenantConfig = config;
 
     // Merge ALL tenant config fields into env so downstream code
-    // (buildEnvVars, auth middleware, rclone sync, etc.) works automatically
-    mergeTenantEnv(c.env, config);
+    // (buildEnvVars, rclone sync, etc.) works automatically. The worker's env
+    // object is shared by every request in the isolate, so merge into a copy:
+    // another tenant's request can run while this one awaits.
+    const tenantEnv = { ...c.env };
+    mergeTenantEnv(tenantEnv, config);
+    c.env = tenantEnv;
 
     const options = buildSandboxOptions(c.env, config);
     const sandbox = getOrInitSandbox(c.env, agentName, options);
@@ -235,24 +342,37 @@ app.use('*', async (c, next) => {
   // unauthenticated users (showing wallet login), so the catch-all handler
   // (which normally starts the gateway) never runs until after auth completes.
   // By pre-warming here, the gateway starts booting during the login flow.
-  if (!prewarmStarted.has(sandboxId)) {
+  // Pre-warming is rate limited per IP so one client can't boot every tenant's sandbox
+  if (!prewarmStarted.has(sandboxId) && (await allowPrewarm(c))) {
     prewarmStarted.add(sandboxId);
     const sandbox = c.get('sandbox');
     const env = c.env;
     const tc = tenantConfig;
-    console.log(`[PREWARM] Starting gateway pre-warm for sandbox '${sandboxId}'`);
+    log.info('Starting gateway pre-warm', { sandboxId });
     c.executionCtx.waitUntil(
       ensureMoltbotGateway(sandbox, env, tc, sandboxId).catch((err: Error) => {
-        console.log(`[PREWARM] Gateway pre-warm failed for '${sandboxId}':`, err.message);
+        log.warn('Gateway pre-warm failed', { sandboxId, error: err.message });
         // Clear flag so next request retries
         prewarmStarted.delete(sandboxId);
       }),
     );
+    // Keep the gateway running from now on: the supervisor probes it and
+    // restarts it if it crashes (sandboxes that sleep are skipped)
+    if (isSupervisorEnabled(env)) {
+      c.executionCtx.waitUntil(
+        superviseGateway(env.GATEWAY_SUPERVISOR!, sandboxId).catch((err: Error) =>
+          log.warn('Failed to register gateway with supervisor', { sandboxId, error: err.message }),
+        ),
+      );
+    }
   }
 
   await next();
 });
 
+// Middleware: Record admin and auth actions in the tenant's audit log
+app.use('*', auditMiddleware);
+
 // =============================================================================
 // PUBLIC ROUTES: No Cloudflare Access authentication required
 // =============================================================================
@@ -268,7 +388,7 @@ app.route('/cdp', cdp);
 // PROTECTED ROUTES: Cloudflare Access authentication required
 // =============================================================================
 
-// Middleware: Validate required environment variables (skip in dev mode, debug routes, and tenant mode)
+// Middleware: Validate required environment variables (skip in dev mode and debug routes)
 app.use('*', async (c, next) => {
   const url = new URL(c.req.url);
 
@@ -277,14 +397,15 @@ app.use('*', async (c, next) => {
     return next();
   }
 
-  // Skip validation in dev mode or when tenant config is loaded from KV
-  if (c.env.DEV_MODE === 'true' || c.get('tenantConfig')) {
+  // Skip validation in dev mode
+  if (c.env.DEV_MODE === 'true') {
     return next();
   }
 
-  const missingVars = validateRequiredEnv(c.env);
+  const tenantConfig = c.get('tenantConfig');
+  const missingVars = validateRequiredEnv(c.env, tenantConfig);
   if (missingVars.length > 0) {
-    console.error('[CONFIG] Missing required environment variables:', missingVars.join(', '));
+    log.error('Missing required environment variables', { missingVars });
 
     const acceptsHtml = c.req.header('Accept')?.includes('text/html');
     if (acceptsHtml) {
@@ -299,7 +420,9 @@ app.use('*', async (c, next) => {
         error: 'Configuration error',
         message: 'Required environment variables are not configured',
         missing: missingVars,
-        hint: 'Set these using: wrangler secret put <VARIABLE_NAME>',
+        hint: tenantConfig
+          ? 'Update the tenant config using: PATCH /api/tenants/<name>'
+          : 'Set these using: wrangler secret put <VARIABLE_NAME>',
       },
       503,
     );
@@ -309,9 +432,10 @@ app.use('*', async (c, next) => {
 });
 
 // Middleware: Authentication for protected routes (wallet auth or CF Access)
-// In multi-tenant mode, tenant config values are injected into c.env by the sandbox
-// middleware above, so the auth middleware reads per-tenant XPR_OWNER_ACCOUNT,
-// MOLTBOT_GATEWAY_TOKEN, etc. automatically.
+// In multi-tenant mode, the sandbox middleware above gives the request its own env
+// with the tenant's MOLTBOT_GATEWAY_TOKEN etc.; wallet roles come from the tenant config.
+// The middleware also enforces the role required by each route group
+// (viewer for /_admin, operator for the Control UI, owner for /debug).
 app.use('*', async (c, next) => {
   const url = new URL(c.req.url);
 
@@ -368,6 +492,20 @@ app.use('/debug/*', async (c, next) => {
 });
 app.route('/debug', debug);
 
+// GET /pair?token=mpt_... - Pairing link from the admin UI (operator login still required).
+// Keeps the one-time token in a cookie for the Control UI's WebSocket connect, then opens it.
+app.get('/pair', async (c) => {
+  const token = c.req.query('token');
+  const verified = token ? await verifyPairingToken(c.env, getSessionTenantId(c), token) : null;
+  if (!token || !verified) {
+    return c.text('This pairing link is invalid, expired or already used. Ask for a new one.', 400);
+  }
+  const maxAge = Math.ceil((verified.expiresAt - Date.now()) / 1000);
+  c.header('Set-Cookie', buildPairingCookie(token, maxAge));
+  c.header('Cache-Control', 'no-store');
+  return c.redirect('/', 302);
+});
+
 // =============================================================================
 // CATCH-ALL: Proxy to Moltbot gateway
 // =============================================================================
@@ -377,7 +515,7 @@ app.all('*', async (c) => {
   const request = c.req.raw;
   const url = new URL(request.url);
 
-  console.log('[PROXY] Handling request:', url.pathname);
+  proxyLog.debug('Handling request');
 
   // Check if gateway is already running
   const existingProcess = await findExistingMoltbotProcess(sandbox);
@@ -388,13 +526,12 @@ app.all('*', async (c) => {
   const acceptsHtml = request.headers.get('Accept')?.includes('text/html');
 
   if (!isGatewayReady && !isWebSocketRequest && acceptsHtml) {
-    console.log('[PROXY] Gateway not ready, serving loading page');
+    proxyLog.info('Gateway not ready, serving loading page');
 
     // Start the gateway in the background (don't await)
-    const tc = c.get('tenantConfig');
     c.executionCtx.waitUntil(
-      ensureMoltbotGateway(sandbox, c.env, tc, c.get('agentName') || 'moltbot').catch((err: Error) => {
-        console.error('[PROXY] Background gateway start failed:', err);
+      ensureRequestGateway(c).catch((err: Error) => {
+        proxyLog.error('Background gateway start failed', { error: err });
       }),
     );
 
@@ -404,9 +541,9 @@ app.all('*', async (c) => {
 
   // Ensure moltbot is running (this will wait for startup)
   try {
-    await ensureMoltbotGateway(sandbox, c.env, c.get('tenantConfig'), c.get('agentName') || 'moltbot');
+    await ensureRequestGateway(c);
   } catch (error) {
-    console.error('[PROXY] Failed to start Moltbot:', error);
+    proxyLog.error('Failed to start Moltbot', { error });
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
     let hint = 'Check worker logs with: wrangler tail';
@@ -428,13 +565,9 @@ app.all('*', async (c) => {
 
   // Proxy to Moltbot with WebSocket message interception
   if (isWebSocketRequest) {
-    const debugLogs = c.env.DEBUG_ROUTES === 'true';
-    const redactedSearch = redactSensitiveParams(url);
-
-    console.log('[WS] Proxying WebSocket connection to Moltbot');
-    if (debugLogs) {
-      console.log('[WS] URL:', url.pathname + redactedSearch);
-    }
+    wsLog.info('Proxying WebSocket connection to Moltbot', {
+      query: redactSensitiveParams(url) || undefined,
+    });
 
     // Use containerFetch() instead of wsConnect() for the WebSocket upgrade.
     // containerFetch() does a proper HTTP request that preserves headers (including
@@ -443,29 +576,67 @@ app.all('*', async (c) => {
     const tenantCfg = c.get('tenantConfig');
     const gatewayToken = tenantCfg?.moltbotGatewayToken || c.env.MOLTBOT_GATEWAY_TOKEN;
 
+    // One-time pairing token: from the /pair link's cookie, or the URL of a native client.
+    // Both are removed from the upgrade request, so the gateway never sees it.
+    const upstreamUrl = new URL(url);
+    const pairingCookie = extractPairingCookie(request.headers.get('Cookie'));
+    const pairingToken =
+      upstreamUrl.searchParams.get('pairing_token') ?? pairingCookie ?? undefined;
+    upstreamUrl.searchParams.delete('pairing_token');
+
     const headers = new Headers(request.headers);
+    stripPairingCookie(headers);
     if (gatewayToken) {
       headers.set('Authorization', `Bearer ${gatewayToken}`);
     }
+    headers.set('X-Request-Id', getRequestId() ?? crypto.randomUUID());
 
     // containerFetch(request, port) forwards the full HTTP request to the container port,
     // including WebSocket upgrade headers and Authorization.
     const containerResponse = await (sandbox as any).containerFetch(
-      new Request(request.url, { method: request.method, headers }),
+      new Request(upstreamUrl.toString(), { method: request.method, headers }),
       MOLTBOT_PORT,
     );
-    console.log('[WS] containerFetch response status:', containerResponse.status);
+    wsLog.debug('containerFetch response', { status: containerResponse.status });
 
     // Get the container-side WebSocket
     const containerWs = containerResponse.webSocket;
     if (!containerWs) {
-      console.error('[WS] No WebSocket in container response - falling back to direct proxy');
+      wsLog.error('No WebSocket in container response - falling back to direct proxy');
       return containerResponse;
     }
 
-    if (debugLogs) {
-      console.log('[WS] Got container WebSocket, setting up interception');
-    }
+    // Listeners run after the request's log context has ended; keep its fields
+    const connLog = wsLog.child(getLogContext());
+    connLog.debug('Got container WebSocket, setting up interception');
+
+    // Pairing policy or token: keep the device fields of the client's connect frame, so a
+    // "pairing required" answer can be matched to the gateway's pending request
+    const pairingPolicy = getPairingPolicy(c.env, tenantCfg);
+    const accessUser = c.get('accessUser');
+    const pairing: PairingConnection = {
+      ip: request.headers.get('CF-Connecting-IP') ?? undefined,
+      actor: accessUser?.account || accessUser?.email,
+      role: accessUser?.role,
+      pairingToken,
+    };
+    const pairingEnabled = !!pairingPolicy || !!pairingToken;
+    let connectSeen = false;
+    let pairingHandled = false;
+    const onPairingRequired = (requestId?: string) => {
+      if (!pairingEnabled || pairingHandled) return;
+      pairingHandled = true;
+      const options = {
+        tenantId: c.get('agentName') || 'moltbot',
+        gatewayToken,
+        tenantConfig: tenantCfg,
+      };
+      c.executionCtx.waitUntil(
+        handlePairingRequest(sandbox, c.env, pairingPolicy, { ...pairing, requestId }, options)
+          .then((decision) => connLog.info('Pairing request handled', decision))
+          .catch((err) => connLog.error('Pairing request failed', { error: err })),
+      );
+    };
 
     // Create a WebSocket pair for the client
     const [clientWs, serverWs] = Object.values(new WebSocketPair());
@@ -474,122 +645,162 @@ app.all('*', async (c) => {
     serverWs.accept();
     containerWs.accept();
 
-    if (debugLogs) {
-      console.log('[WS] Both WebSockets accepted');
-      console.log('[WS] containerWs.readyState:', containerWs.readyState);
-      console.log('[WS] serverWs.readyState:', serverWs.readyState);
-    }
+    connLog.debug('Both WebSockets accepted', {
+      containerReadyState: containerWs.readyState,
+      serverReadyState: serverWs.readyState,
+    });
+
+    // Register the connection so admins can see it and disconnect it
+    const connectionId = crypto.randomUUID();
+    const tracker = trackConnection(
+      c.env,
+      c.get('agentName') || 'moltbot',
+      {
+        id: connectionId,
+        startedAt: Date.now(),
+        user: pairing.actor,
+        role: pairing.role,
+        ip: pairing.ip,
+        userAgent: request.headers.get('User-Agent') ?? undefined,
+      },
+      (reason) => {
+        connLog.info('Connection closed by admin', { connectionId });
+        try {
+          serverWs.close(4000, reason);
+        } catch {
+          /* already closed */
+        }
+        try {
+          containerWs.close(1000, reason);
+        } catch {
+          /* already closed */
+        }
+      },
+    );
+    if (tracker) c.executionCtx.waitUntil(tracker.ready);
 
     // Relay messages from client to container
     serverWs.addEventListener('message', (event) => {
-      if (debugLogs) {
-        console.log(
-          '[WS] Client -> Container:',
-          typeof event.data,
-          typeof event.data === 'string' ? event.data.slice(0, 200) : '(binary)',
-        );
+      connLog.debug('Client -> Container', {
+        data: typeof event.data === 'string' ? event.data.slice(0, 200) : '(binary)',
+      });
+      tracker?.countIn(event.data);
+      if (!connectSeen && typeof event.data === 'string') {
+        const connect = parseConnectFrame(event.data);
+        if (connect) {
+          connectSeen = true;
+          Object.assign(pairing, connect);
+          tracker?.setDevice(connect);
+        }
       }
       if (containerWs.readyState === WebSocket.OPEN) {
         containerWs.send(event.data);
-      } else if (debugLogs) {
-        console.log('[WS] Container not open, readyState:', containerWs.readyState);
+      } else {
+        connLog.debug('Container not open', { readyState: containerWs.readyState });
       }
     });
 
     // Relay messages from container to client, with error transformation
     containerWs.addEventListener('message', (event) => {
-      if (debugLogs) {
-        console.log(
-          '[WS] Container -> Client (raw):',
-          typeof event.data,
-          typeof event.data === 'string' ? event.data.slice(0, 500) : '(binary)',
-        );
-      }
+      connLog.debug('Container -> Client (raw)', {
+        data: typeof event.data === 'string' ? event.data.slice(0, 500) : '(binary)',
+      });
       let data = event.data;
 
       // Try to intercept and transform error messages
       if (typeof data === 'string') {
         try {
           const parsed = JSON.parse(data);
-          if (debugLogs) {
-            console.log('[WS] Parsed JSON, has error.message:', !!parsed.error?.message);
-          }
           if (parsed.error?.message) {
-            if (debugLogs) {
-              console.log('[WS] Original error.message:', parsed.error.message);
-            }
-            parsed.error.message = transformErrorMessage(parsed.error.message, url.host);
-            if (debugLogs) {
-              console.log('[WS] Transformed error.message:', parsed.error.message);
+            const original = parsed.error.message;
+            if (original.includes('pairing required')) {
+              onPairingRequired(parsed.error.details?.requestId);
             }
+            parsed.error.message = transformErrorMessage(original, url.host);
+            connLog.debug('Transformed error message', {
+              original,
+              transformed: parsed.error.message,
+            });
             data = JSON.stringify(parsed);
           }
         } catch (e) {
-          if (debugLogs) {
-            console.log('[WS] Not JSON or parse error:', e);
-          }
+          connLog.debug('Not JSON or parse error', { error: e });
         }
       }
 
+      tracker?.countOut(data);
       if (serverWs.readyState === WebSocket.OPEN) {
         serverWs.send(data);
-      } else if (debugLogs) {
-        console.log('[WS] Server not open, readyState:', serverWs.readyState);
+      } else {
+        connLog.debug('Server not open', { readyState: serverWs.readyState });
       }
     });
 
     // Handle close events
     serverWs.addEventListener('close', (event) => {
-      if (debugLogs) {
-        console.log('[WS] Client closed:', event.code, event.reason);
-      }
+      connLog.debug('Client closed', { code: event.code, reason: event.reason });
+      tracker?.close();
       containerWs.close(event.code, event.reason);
     });
 
     containerWs.addEventListener('close', (event) => {
       // Always log close reason to help debug token issues
-      console.log('[WS] Container closed:', event.code, event.reason);
+      connLog.info('Container closed', { code: event.code, reason: event.reason });
+      tracker?.close();
+      if (event.reason?.includes('pairing required')) onPairingRequired();
       // Transform the close reason (truncate to 123 bytes max for WebSocket spec)
       let reason = transformErrorMessage(event.reason, url.host);
       if (reason.length > 123) {
         reason = reason.slice(0, 120) + '...';
       }
-      if (debugLogs) {
-        console.log('[WS] Transformed close reason:', reason);
-      }
+      connLog.debug('Transformed close reason', { reason });
       // Code 1006 is reserved (abnormal closure) and can't be sent in a close frame.
       // Use 1011 (unexpected condition) as a safe fallback.
       const safeCode = event.code === 1006 || event.code === 1005 ? 1011 : event.code;
       try {
         serverWs.close(safeCode, reason);
       } catch (closeErr) {
-        console.error('[WS] Failed to close client WebSocket:', closeErr);
+        connLog.error('Failed to close client WebSocket', { error: closeErr });
       }
     });
 
     // Handle errors
     serverWs.addEventListener('error', (event) => {
-      console.error('[WS] Client error:', event);
-      try { containerWs.close(1011, 'Client error'); } catch { /* already closed */ }
+      connLog.error('Client error', { error: (event as ErrorEvent).message });
+      try {
+        containerWs.close(1011, 'Client error');
+      } catch {
+        /* already closed */
+      }
     });
 
     containerWs.addEventListener('error', (event) => {
-      console.error('[WS] Container error:', event);
-      try { serverWs.close(1011, 'Container error'); } catch { /* already closed */ }
+      connLog.error('Container error', { error: event.message });
+      try {
+        serverWs.close(1011, 'Container error');
+      } catch {
+        /* already closed */
+      }
     });
 
-    if (debugLogs) {
-      console.log('[WS] Returning intercepted WebSocket response');
-    }
+    connLog.debug('Returning intercepted WebSocket response');
+    // The cookie's token is redeemed or rejected on this connection; stop sending it
     return new Response(null, {
       status: 101,
       webSocket: clientWs,
+      headers: pairingCookie ? { 'Set-Cookie': clearPairingCookie() } : undefined,
     });
   }
 
-  console.log('[HTTP] Proxying:', url.pathname + url.search);
-  const httpResponse = await sandbox.containerFetch(request, MOLTBOT_PORT);
-  console.log('[HTTP] Response status:', httpResponse.status);
+  proxyLog.debug('Proxying HTTP request', { query: redactSensitiveParams(url) || undefined });
+  const proxyHeaders = new Headers(request.headers);
+  stripPairingCookie(proxyHeaders);
+  proxyHeaders.set('X-Request-Id', getRequestId() ?? crypto.randomUUID());
+  const httpResponse = await sandbox.containerFetch(
+    new Request(request, { headers: proxyHeaders }),
+    MOLTBOT_PORT,
+  );
+  proxyLog.debug('Container response', { status: httpResponse.status });
 
   // Add debug header to verify worker handled the request
   const newHeaders = new Headers(httpResponse.headers);
@@ -605,4 +816,5 @@ app.all('*', async (c) => {
 
 export default {
   fetch: app.fetch,
+  scheduled: handleScheduled,
 };
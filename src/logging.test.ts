@@ -1,5 +1,16 @@
-import { describe, it, expect } from 'vitest';
-import { redactSensitiveParams } from './utils/logging';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createLogger,
+  getLogLevel,
+  getRequestId,
+  redactBody,
+  redactHeaders,
+  redactSensitiveParams,
+  redactString,
+  runWithLogContext,
+  setLogContext,
+  setLogLevel,
+} from './utils/logging';
 
 describe('redactSensitiveParams', () => {
   it('returns empty string for URL with no query params', () => {
@@ -71,3 +82,111 @@ describe('redactSensitiveParams', () => {
     expect(redactSensitiveParams(url)).toBe('?secret=%5BREDACTED%5D');
   });
 });
+
+describe('redaction', () => {
+  it('redacts credentials in headers', () => {
+    const headers = new Headers({
+      Authorization: 'Bearer abc.def',
+      Cookie: 'moltbot_session=xyz',
+      'Content-Type': 'application/json',
+    });
+    expect(redactHeaders(headers)).toEqual({
+      authorization: '[REDACTED]',
+      cookie: '[REDACTED]',
+      'content-type': 'application/json',
+    });
+  });
+
+  it('redacts secrets in JSON bodies by key, at any depth', () => {
+    const body = JSON.stringify({
+      name: 'charliebot',
+      xprPrivateKey: 'PVT_K1_abc',
+      ai: { provider: 'openai', apiKey: 'sk-123', fallbacks: [{ apiKey: 'x' }] },
+      moltbotGatewayToken: 'abc',
+    });
+    expect(JSON.parse(redactBody(body))).toEqual({
+      name: 'charliebot',
+      xprPrivateKey: '[REDACTED]',
+      ai: { provider: 'openai', apiKey: '[REDACTED]', fallbacks: [{ apiKey: '[REDACTED]' }] },
+      moltbotGatewayToken: '[REDACTED]',
+    });
+  });
+
+  it('redacts recognizable secrets in free text', () => {
+    expect(redactString('auth failed for Bearer eyJhbGciOi.x.y')).toBe(
+      'auth failed for Bearer [REDACTED]',
+    );
+    expect(redactString('key PVT_K1_2bfGi9rYsXQSXXTvJbDAPhHLQUojjaNLomdm3cEJ1XTzMqUt3V')).toBe(
+      'key [REDACTED]',
+    );
+    expect(redactBody('not json, key=sk-ant-REDACTED')).toBe(
+      'not json, key=[REDACTED]',
+    );
+  });
+});
+
+describe('getLogLevel', () => {
+  it('reads LOG_LEVEL, falling back to debug with DEBUG_ROUTES or info', () => {
+    expect(getLogLevel({ LOG_LEVEL: 'WARN' })).toBe('warn');
+    expect(getLogLevel({ LOG_LEVEL: 'verbose', DEBUG_ROUTES: 'true' })).toBe('debug');
+    expect(getLogLevel({})).toBe('info');
+  });
+});
+
+/** The JSON lines written to a console spy */
+function lines(spy: { mock: { calls: unknown[][] } }) {
+  return spy.mock.calls.map(([line]) => JSON.parse(line as string));
+}
+
+describe('createLogger', () => {
+  afterEach(() => {
+    setLogLevel('info');
+    vi.restoreAllMocks();
+  });
+
+  it('writes JSON lines with the request context', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const logger = createLogger('gateway');
+
+    runWithLogContext({ requestId: 'req-12345678', route: 'GET /' }, () => {
+      setLogContext({ tenant: 'charliebot' });
+      expect(getRequestId()).toBe('req-12345678');
+      logger.info('Gateway is ready', { port: 18789, token: 'abc' });
+    });
+
+    expect(lines(log)).toEqual([
+      {
+        time: expect.any(String),
+        level: 'info',
+        msg: 'Gateway is ready',
+        requestId: 'req-12345678',
+        route: 'GET /',
+        tenant: 'charliebot',
+        component: 'gateway',
+        port: 18789,
+        token: '[REDACTED]',
+      },
+    ]);
+    expect(getRequestId()).toBeUndefined();
+  });
+
+  it('drops lines below the level and routes levels to the console method', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const logger = createLogger('proxy').child({ sandboxId: 'moltbot' });
+
+    setLogLevel('warn');
+    logger.info('Handling request');
+    logger.error('Failed to start Moltbot', { error: new Error('boom') });
+
+    expect(log).not.toHaveBeenCalled();
+    expect(lines(error)).toEqual([
+      expect.objectContaining({
+        level: 'error',
+        component: 'proxy',
+        sandboxId: 'moltbot',
+        error: expect.objectContaining({ name: 'Error', message: 'boom' }),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getPairingPolicy,
+  handlePairingRequest,
+  matchPairingPolicy,
+  parseConnectFrame,
+} from './pairing';
+import { listAuditEntries } from './audit';
+import { createPairingToken, verifyPairingToken } from './auth/pairing-tokens';
+import type { TenantConfig } from './tenant';
+import { createMockEnv, createMockR2, createMockSandbox, suppressConsole } from './test-utils';
+
+const { client } = vi.hoisted(() => ({
+  client: { list: vi.fn(), approve: vi.fn() },
+}));
+
+vi.mock('./gateway', () => ({
+  withDeviceClient: (_sandbox: unknown, _token: unknown, fn: (c: typeof client) => unknown) =>
+    fn(client),
+}));
+
+const pendingRequest = {
+  requestId: 'req-1',
+  deviceId: 'dev-1',
+  displayName: 'Laptop',
+  clientMode: 'webchat',
+  platform: 'macos',
+  ts: 1,
+};
+
+describe('matchPairingPolicy', () => {
+  const policy = {
+    autoApprove: {
+      sessionRole: 'owner' as const,
+      ipRanges: ['203.0.113.0/24'],
+      clientModes: ['cli'],
+      platforms: ['iOS'],
+    },
+  };
+
+  it('returns the first matching rule', () => {
+    expect(matchPairingPolicy(policy, { role: 'owner' })).toBe('sessionRole');
+    expect(matchPairingPolicy(policy, { role: 'operator', ip: '203.0.113.9' })).toBe('ipRanges');
+    expect(matchPairingPolicy(policy, { clientMode: 'cli' })).toBe('clientModes');
+    expect(matchPairingPolicy(policy, { platform: 'ios' })).toBe('platforms');
+  });
+
+  it('holds everything else', () => {
+    expect(matchPairingPolicy(policy, { role: 'operator', ip: '198.51.100.1' })).toBeNull();
+    expect(matchPairingPolicy({}, { role: 'owner' })).toBeNull();
+  });
+});
+
+describe('getPairingPolicy', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('parses a valid policy and ignores invalid ones', () => {
+    const policy = { autoApprove: { ipRanges: ['10.0.0.0/8'] } };
+    expect(getPairingPolicy(createMockEnv({ PAIRING_POLICY: JSON.stringify(policy) }))).toEqual(
+      policy,
+    );
+    expect(getPairingPolicy(createMockEnv({ PAIRING_POLICY: '{' }))).toBeNull();
+    const invalid = JSON.stringify({ autoApprove: { ipRanges: ['10.0.0.0/99'] } });
+    expect(getPairingPolicy(createMockEnv({ PAIRING_POLICY: invalid }))).toBeNull();
+    expect(getPairingPolicy(createMockEnv())).toBeNull();
+  });
+
+  it("reads a tenant's policy from its config, never the worker's secret", () => {
+    const policy = { autoApprove: { platforms: ['macos'] } };
+    const env = createMockEnv({
+      PAIRING_POLICY: JSON.stringify({ autoApprove: { ipRanges: ['0.0.0.0/0'] } }),
+    });
+    expect(getPairingPolicy(env, { pairingPolicy: policy } as TenantConfig)).toEqual(policy);
+    expect(getPairingPolicy(env, {} as TenantConfig)).toBeNull();
+  });
+});
+
+describe('parseConnectFrame', () => {
+  it('extracts device and client fields from connect requests only', () => {
+    const connect = JSON.stringify({
+      type: 'req',
+      id: '1',
+      method: 'connect',
+      params: { device: { id: 'dev-1' }, client: { mode: 'webchat', platform: 'web' } },
+    });
+    expect(parseConnectFrame(connect)).toEqual({
+      deviceId: 'dev-1',
+      clientMode: 'webchat',
+      platform: 'web',
+    });
+    expect(parseConnectFrame(JSON.stringify({ type: 'req', method: 'chat.send' }))).toBeNull();
+    expect(parseConnectFrame('not json')).toBeNull();
+  });
+});
+
+describe('handlePairingRequest', () => {
+  beforeEach(() => {
+    suppressConsole();
+    client.list.mockReset().mockResolvedValue({ pending: [pendingRequest], paired: [] });
+    client.approve.mockReset().mockResolvedValue(undefined);
+  });
+
+  it('approves a matching request and records it in the audit log', async () => {
+    const env = createMockEnv({ MOLTBOT_BUCKET: createMockR2() });
+    const { sandbox } = createMockSandbox();
+
+    const decision = await handlePairingRequest(
+      sandbox,
+      env,
+      { autoApprove: { platforms: ['macos'] } },
+      { deviceId: 'dev-1', actor: 'alice', role: 'operator', ip: '198.51.100.1' },
+      { tenantId: 'moltbot' },
+    );
+
+    expect(decision).toEqual({ action: 'approved', requestId: 'req-1', rule: 'platforms' });
+    expect(client.approve).toHaveBeenCalledWith('req-1');
+    const { entries } = await listAuditEntries(env.MOLTBOT_BUCKET, 'moltbot');
+    expect(entries[0]).toMatchObject({
+      actor: 'alice',
+      action: 'device.auto_approve',
+      target: 'req-1',
+      details: 'rule: platforms',
+    });
+  });
+
+  it('leaves other requests pending and notifies the owner once', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('{}'));
+    vi.stubGlobal('fetch', fetchMock);
+    const env = createMockEnv({ TELEGRAM_BOT_TOKEN: 'bot-token' });
+    const { sandbox } = createMockSandbox();
+    const policy = {
+      autoApprove: { sessionRole: 'owner' as const },
+      notify: { telegramChatId: '12345' },
+    };
+    const connection = { requestId: 'req-1', role: 'operator' as const };
+
+    const first = await handlePairingRequest(sandbox, env, policy, connection, {
+      tenantId: 'charliebot',
+    });
+    const second = await handlePairingRequest(sandbox, env, policy, connection, {
+      tenantId: 'charliebot',
+    });
+    vi.unstubAllGlobals();
+
+    expect(first).toEqual({ action: 'pending', requestId: 'req-1', notified: true });
+    expect(second).toEqual({ action: 'pending', requestId: 'req-1', notified: false });
+    expect(client.approve).not.toHaveBeenCalled();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.telegram.org/botbot-token/sendMessage');
+    expect(JSON.parse(init.body)).toMatchObject({ chat_id: '12345' });
+    expect(JSON.parse(init.body).text).toContain('Laptop (webchat, macos)');
+  });
+
+  it("notifies with the tenant's bot, never the worker's", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('{}'));
+    vi.stubGlobal('fetch', fetchMock);
+    const env = createMockEnv({
+      TELEGRAM_BOT_TOKEN: 'worker-bot',
+      DISCORD_BOT_TOKEN: 'worker-bot',
+    });
+    const { sandbox } = createMockSandbox();
+    client.list.mockResolvedValue({
+      pending: [{ ...pendingRequest, requestId: 'req-tenant' }],
+      paired: [],
+    });
+    const policy = { notify: { telegramChatId: '12345', discordChannelId: '67890' } };
+    const tenantConfig = { telegramBotToken: 'tenant-bot' } as TenantConfig;
+
+    const decision = await handlePairingRequest(
+      sandbox,
+      env,
+      policy,
+      { requestId: 'req-tenant' },
+      { tenantId: 'charliebot', tenantConfig },
+    );
+    vi.unstubAllGlobals();
+
+    expect(decision).toEqual({ action: 'pending', requestId: 'req-tenant', notified: true });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.telegram.org/bottenant-bot/sendMessage');
+  });
+
+  it('approves a request covered by a pairing token and uses the token up', async () => {
+    const env = createMockEnv({ MOLTBOT_BUCKET: createMockR2() });
+    const { sandbox } = createMockSandbox();
+    client.list.mockResolvedValue({
+      pending: [{ ...pendingRequest, scopes: ['operator.read'] }],
+      paired: [],
+    });
+    const { token, secret } = await createPairingToken(env, 'moltbot', {});
+
+    const decision = await handlePairingRequest(
+      sandbox,
+      env,
+      null,
+      { requestId: 'req-1', actor: 'alice', role: 'operator', pairingToken: secret },
+      { tenantId: 'moltbot' },
+    );
+
+    expect(decision).toEqual({ action: 'approved', requestId: 'req-1', rule: 'pairingToken' });
+    expect(client.approve).toHaveBeenCalledWith('req-1');
+    expect(await verifyPairingToken(env, 'moltbot', secret)).toBeNull();
+    const { entries } = await listAuditEntries(env.MOLTBOT_BUCKET, 'moltbot');
+    expect(entries[0]).toMatchObject({
+      action: 'device.auto_approve',
+      details: `rule: pairingToken, token: ${token.id}`,
+    });
+  });
+
+  it('keeps the token and falls back to the policy when the device asks for more', async () => {
+    const env = createMockEnv({ MOLTBOT_BUCKET: createMockR2() });
+    const { sandbox } = createMockSandbox();
+    client.list.mockResolvedValue({
+      pending: [{ ...pendingRequest, scopes: ['operator.admin'] }],
+      paired: [],
+    });
+    const { secret } = await createPairingToken(env, 'moltbot', {});
+
+    const decision = await handlePairingRequest(
+      sandbox,
+      env,
+      { autoApprove: { platforms: ['linux'] } },
+      { requestId: 'req-1', pairingToken: secret },
+      { tenantId: 'moltbot' },
+    );
+
+    expect(decision).toEqual({ action: 'pending', requestId: 'req-1', notified: false });
+    expect(client.approve).not.toHaveBeenCalled();
+    expect(await verifyPairingToken(env, 'moltbot', secret)).not.toBeNull();
+  });
+
+  it('does nothing when the request is no longer pending', async () => {
+    client.list.mockResolvedValue({ pending: [], paired: [] });
+    const { sandbox } = createMockSandbox();
+
+    const decision = await handlePairingRequest(
+      sandbox,
+      createMockEnv(),
+      { autoApprove: { sessionRole: 'viewer' } },
+      { deviceId: 'dev-1', role: 'owner' },
+      { tenantId: 'moltbot' },
+    );
+
+    expect(decision).toEqual({ action: 'none' });
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Device pairing policies.
+ *
+ * When the gateway answers a device's `connect` with "pairing required", the
+ * WebSocket proxy (index.ts) hands the request to handlePairingRequest. It
+ * looks up the pending request over the control protocol and approves it if a
+ * rule of the tenant's policy matches: the session that opened the WebSocket
+ * has at least `sessionRole`, the client IP is in `ipRanges`, or the gateway
+ * reports a listed client mode or platform. The device is paired by the time it
+ * reconnects. Anything else stays pending for an admin, and the owner is told
+ * on the policy's Telegram chat or Discord channel.
+ *
+ * The policy and the notifying bots come from the request's TenantConfig, or
+ * from the PAIRING_POLICY secret (the same JSON) and the worker's bot tokens
+ * for a single-tenant worker.
+ *
+ * A device can also bring a one-time pairing token minted in the admin UI
+ * (auth/pairing-tokens.ts). A valid token approves the request whatever the
+ * policy says, as long as the device asks for no more than the token's scopes.
+ */
+
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from './types';
+import { validatePairingPolicy, type TenantConfig, type TenantPairingPolicy } from './tenant';
+import { hasRole, type AuthRole } from './auth/roles';
+import { verifyPairingToken, consumePairingToken, pairingTokenCovers } from './auth/pairing-tokens';
+import { withDeviceClient, type PendingDevice } from './gateway';
+import { appendAuditEntry } from './audit';
+import { ipInRange } from './utils/ip';
+import { createLogger } from './utils/logging';
+
+const log = createLogger('pairing');
+
+export type PairingRule = 'sessionRole' | 'ipRanges' | 'clientModes' | 'platforms' | 'pairingToken';
+
+/** What the proxy knows about the connection that needs pairing */
+export interface PairingConnection {
+  requestId?: string; // from the gateway's error, when it sends one
+  deviceId?: string; // from the client's connect frame
+  clientMode?: string;
+  platform?: string;
+  ip?: string; // CF-Connecting-IP
+  actor?: string; // account or email of the session
+  role?: AuthRole;
+  pairingToken?: string; // one-time token from the pairing link or WebSocket URL
+}
+
+export type PairingDecision =
+  | { action: 'approved'; requestId: string; rule: PairingRule }
+  | { action: 'pending'; requestId: string; notified: boolean }
+  | { action: 'none' }; // no matching pending request
+
+/** Pending requests already announced by this isolate; devices retry while they wait */
+const notifiedRequests = new Set<string>();
+const MAX_NOTIFIED_REQUESTS = 1000;
+
+/**
+ * The pairing policy for this request's tenant (validated when the config is
+ * saved), or for a single-tenant worker its PAIRING_POLICY secret. Null if
+ * there is none or the secret is invalid (logged).
+ */
+export function getPairingPolicy(
+  env: MoltbotEnv,
+  tenantConfig?: TenantConfig,
+): TenantPairingPolicy | null {
+  if (tenantConfig) return tenantConfig.pairingPolicy ?? null;
+  if (!env.PAIRING_POLICY) return null;
+  let policy: unknown;
+  try {
+    policy = JSON.parse(env.PAIRING_POLICY);
+  } catch {
+    log.warn('PAIRING_POLICY is not valid JSON; approving devices manually');
+    return null;
+  }
+  const errors = validatePairingPolicy(policy, 'PAIRING_POLICY');
+  if (errors.length > 0) {
+    log.warn('Invalid PAIRING_POLICY; approving devices manually', {
+      errors: errors.map((e) => e.message),
+    });
+    return null;
+  }
+  return policy as TenantPairingPolicy;
+}
+
+function includesIgnoreCase(values: string[] | undefined, value: string | undefined): boolean {
+  if (!values || !value) return false;
+  const lower = value.toLowerCase();
+  return values.some((v) => v.toLowerCase() === lower);
+}
+
+/**
+ * The first auto-approve rule matching a connection, or null.
+ */
+export function matchPairingPolicy(
+  policy: TenantPairingPolicy,
+  connection: PairingConnection,
+): Exclude<PairingRule, 'pairingToken'> | null {
+  const rules = policy.autoApprove;
+  if (!rules) return null;
+  if (rules.sessionRole && hasRole(connection.role, rules.sessionRole)) return 'sessionRole';
+  const ip = connection.ip;
+  if (ip && rules.ipRanges?.some((range) => ipInRange(ip, range))) return 'ipRanges';
+  if (includesIgnoreCase(rules.clientModes, connection.clientMode)) return 'clientModes';
+  if (includesIgnoreCase(rules.platforms, connection.platform)) return 'platforms';
+  return null;
+}
+
+function describeRequest(agentName: string, request: PendingDevice, ip?: string): string {
+  const device = request.displayName || request.deviceId;
+  const client = [request.clientMode, request.platform].filter(Boolean).join(', ');
+  return (
+    `New device waiting for approval on ${agentName}: ${device}` +
+    (client ? ` (${client})` : '') +
+    (ip ? ` from ${ip}` : '') +
+    `. Request ${request.requestId}; approve it in the admin UI.`
+  );
+}
+
+/**
+ * Send a message to the policy's notify channels with the agent's bots: the
+ * tenant's own, never the worker's, in multi-tenant mode. Returns true if at
+ * least one message was delivered.
+ */
+export async function notifyOwner(
+  env: MoltbotEnv,
+  notify: NonNullable<TenantPairingPolicy['notify']>,
+  text: string,
+  tenantConfig?: TenantConfig,
+): Promise<boolean> {
+  const telegramBotToken = tenantConfig ? tenantConfig.telegramBotToken : env.TELEGRAM_BOT_TOKEN;
+  const discordBotToken = tenantConfig ? tenantConfig.discordBotToken : env.DISCORD_BOT_TOKEN;
+  const sends: Array<Promise<Response>> = [];
+  if (notify.telegramChatId && telegramBotToken) {
+    sends.push(
+      fetch(`https://api.telegram.org/bot${telegramBotToken}/sendMessage`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chat_id: notify.telegramChatId, text }),
+      }),
+    );
+  }
+  if (notify.discordChannelId && discordBotToken) {
+    sends.push(
+      fetch(`https://discord.com/api/v10/channels/${notify.discordChannelId}/messages`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bot ${discordBotToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ content: text }),
+      }),
+    );
+  }
+
+  const results = await Promise.allSettled(sends);
+  let delivered = false;
+  for (const result of results) {
+    if (result.status === 'fulfilled' && result.value.ok) {
+      delivered = true;
+    } else {
+      const error =
+        result.status === 'rejected' ? String(result.reason) : `HTTP ${result.value.status}`;
+      log.warn('Failed to send pairing notification', { error });
+    }
+  }
+  return delivered;
+}
+
+/**
+ * Redeem a connection's pairing token for a pending request. Returns the
+ * token ID, or null if the token is invalid, expired, used or too narrow.
+ */
+async function redeemPairingToken(
+  env: MoltbotEnv,
+  tenantId: string,
+  token: string,
+  request: PendingDevice,
+): Promise<string | null> {
+  const verified = await verifyPairingToken(env, tenantId, token);
+  if (!verified) {
+    log.warn('Pairing token is invalid or expired', { requestId: request.requestId });
+    return null;
+  }
+  if (!pairingTokenCovers(verified, request.scopes)) {
+    log.warn('Device asked for more scopes than its pairing token grants', {
+      requestId: request.requestId,
+      tokenId: verified.id,
+      scopes: request.scopes,
+    });
+    return null;
+  }
+  await consumePairingToken(env, tenantId, verified);
+  return verified.id;
+}
+
+/**
+ * Apply the connection's pairing token, then the policy, to a connection the
+ * gateway refused for pairing.
+ */
+export async function handlePairingRequest(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  policy: TenantPairingPolicy | null,
+  connection: PairingConnection,
+  options: { tenantId: string; gatewayToken?: string; tenantConfig?: TenantConfig },
+): Promise<PairingDecision> {
+  const outcome = await withDeviceClient(sandbox, options.gatewayToken, async (client) => {
+    const { pending } = await client.list();
+    const request =
+      pending.find((p) => p.requestId === connection.requestId) ??
+      pending.find((p) => !!connection.deviceId && p.deviceId === connection.deviceId);
+    if (!request) return null;
+
+    const tokenId = connection.pairingToken
+      ? await redeemPairingToken(env, options.tenantId, connection.pairingToken, request)
+      : null;
+    // The gateway's record of the client wins over what the proxy parsed
+    const rule: PairingRule | null = tokenId
+      ? 'pairingToken'
+      : policy &&
+        matchPairingPolicy(policy, {
+          ...connection,
+          clientMode: request.clientMode ?? connection.clientMode,
+          platform: request.platform ?? connection.platform,
+        });
+    if (rule) await client.approve(request.requestId);
+    return { request, rule, tokenId };
+  });
+
+  if (!outcome) return { action: 'none' };
+  const { request, rule, tokenId } = outcome;
+
+  if (rule) {
+    log.info('Device approved by pairing policy', { requestId: request.requestId, rule });
+    await appendAuditEntry(env.MOLTBOT_BUCKET, options.tenantId, {
+      timestamp: Date.now(),
+      actor: connection.actor || 'anonymous',
+      actorRole: connection.role,
+      action: 'device.auto_approve',
+      target: request.requestId,
+      result: 'success',
+      status: 200,
+      details: tokenId ? `rule: ${rule}, token: ${tokenId}` : `rule: ${rule}`,
+      ip: connection.ip,
+    }).catch((err) => {
+      log.error('Failed to record audit entry', { action: 'device.auto_approve', error: err });
+    });
+    return { action: 'approved', requestId: request.requestId, rule };
+  }
+
+  if (!policy?.notify || notifiedRequests.has(request.requestId)) {
+    return { action: 'pending', requestId: request.requestId, notified: false };
+  }
+  if (notifiedRequests.size >= MAX_NOTIFIED_REQUESTS) notifiedRequests.clear();
+  notifiedRequests.add(request.requestId);
+  const notified = await notifyOwner(
+    env,
+    policy.notify,
+    describeRequest(options.tenantId, request, connection.ip),
+    options.tenantConfig,
+  );
+  return { action: 'pending', requestId: request.requestId, notified };
+}
+
+/**
+ * Device and client fields of a `connect` request frame, or null if the frame
+ * is something else.
+ */
+export function parseConnectFrame(
+  data: string,
+): Pick<PairingConnection, 'deviceId' | 'clientMode' | 'platform'> | null {
+  try {
+    const frame = JSON.parse(data) as {
+      type?: string;
+      method?: string;
+      params?: { device?: { id?: string }; client?: { mode?: string; platform?: string } };
+    };
+    if (frame?.type !== 'req' || frame.method !== 'connect') return null;
+    return {
+      deviceId: frame.params?.device?.id,
+      clientMode: frame.params?.client?.mode,
+      platform: frame.params?.client?.platform,
+    };
+  } catch {
+    return null;
+  }
+}
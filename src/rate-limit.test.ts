@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import {
+  RateLimiter,
+  classifyRoute,
+  getRateLimits,
+  rateLimitMiddleware,
+  takeToken,
+  DEFAULT_RATE_LIMITS,
+  type RateLimitStats,
+} from './rate-limit';
+import type { AppEnv } from './types';
+import { createMockEnv, suppressConsole } from './test-utils';
+
+/** Namespace that routes every name to its own in-memory RateLimiter */
+function createLimiterNamespace(): DurableObjectNamespace {
+  const instances = new Map<string, RateLimiter>();
+  return {
+    idFromName: (name: string) => name,
+    get: (id: string) => {
+      let instance = instances.get(id);
+      if (!instance) {
+        instance = new RateLimiter();
+        instances.set(id, instance);
+      }
+      const limiter = instance;
+      return {
+        fetch: (input: string, init?: RequestInit) => limiter.fetch(new Request(input, init)),
+      };
+    },
+  } as unknown as DurableObjectNamespace;
+}
+
+describe('getRateLimits', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('overrides defaults per route class', () => {
+    const limits = getRateLimits(
+      createMockEnv({ RATE_LIMITS: 'auth=5/30s, status=100/m,admin=off,bogus=1/m,default=x' }),
+    );
+    expect(limits.auth).toEqual({ capacity: 5, periodMs: 30_000 });
+    expect(limits.status).toEqual({ capacity: 100, periodMs: 60_000 });
+    expect(limits.admin).toBeNull();
+    expect(limits.default).toEqual(DEFAULT_RATE_LIMITS.default);
+  });
+
+  it('ignores zero capacities and periods', () => {
+    const limits = getRateLimits(
+      createMockEnv({ RATE_LIMITS: 'auth=0/1m,status=5/0s,admin=5/00m' }),
+    );
+    expect(limits.auth).toEqual(DEFAULT_RATE_LIMITS.auth);
+    expect(limits.status).toEqual(DEFAULT_RATE_LIMITS.status);
+    expect(limits.admin).toEqual(DEFAULT_RATE_LIMITS.admin);
+  });
+});
+
+describe('classifyRoute', () => {
+  it('groups routes by cost', () => {
+    expect(classifyRoute('/api/auth/authorize')).toBe('auth');
+    expect(classifyRoute('/api/status')).toBe('status');
+    expect(classifyRoute('/api/admin/devices')).toBe('admin');
+    expect(classifyRoute('/api/tenants/charliebot')).toBe('admin');
+    expect(classifyRoute('/api/ai-proxy/charliebot/anthropic/v1/messages')).toBe('ai');
+    expect(classifyRoute('/')).toBe('default');
+  });
+});
+
+describe('takeToken', () => {
+  const rule = { capacity: 2, periodMs: 1000 };
+
+  it('allows a burst up to capacity, then refills over time', () => {
+    let result = takeToken(undefined, rule, 0);
+    expect(result.decision).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    result = takeToken(result.bucket, rule, 0);
+    expect(result.decision.allowed).toBe(true);
+
+    result = takeToken(result.bucket, rule, 100);
+    expect(result.decision).toEqual({ allowed: false, remaining: 0, retryAfterMs: 400 });
+
+    result = takeToken(result.bucket, rule, 500);
+    expect(result.decision.allowed).toBe(true);
+  });
+});
+
+describe('rateLimitMiddleware', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  function createApp() {
+    const app = new Hono<AppEnv>();
+    app.use('*', rateLimitMiddleware);
+    app.all('*', (c) => c.text('ok'));
+    return app;
+  }
+
+  it('returns 429 with Retry-After once a client exhausts its bucket', async () => {
+    const env = createMockEnv({ RATE_LIMITER: createLimiterNamespace(), RATE_LIMITS: 'auth=2/1m' });
+    const app = createApp();
+    const request = (ip: string) =>
+      app.request(
+        '/api/auth/authorize',
+        { method: 'POST', headers: { 'CF-Connecting-IP': ip } },
+        env,
+      );
+
+    expect((await request('203.0.113.1')).status).toBe(200);
+    expect((await request('203.0.113.1')).status).toBe(200);
+    const limited = await request('203.0.113.1');
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('30');
+    expect(await limited.json()).toEqual({ error: 'Too many requests', retryAfter: 30 });
+
+    // Other clients and other route classes have their own buckets
+    expect((await request('203.0.113.2')).status).toBe(200);
+    expect((await app.request('/api/status', {}, env)).status).toBe(200);
+  });
+
+  it('counts allowed and limited requests per tenant', async () => {
+    const namespace = createLimiterNamespace();
+    const env = createMockEnv({ RATE_LIMITER: namespace, RATE_LIMITS: 'status=1/1m' });
+    const app = createApp();
+    const headers = { 'CF-Connecting-IP': '203.0.113.1' };
+    await app.request('/api/status', { headers }, env);
+    await app.request('/api/status', { headers }, env);
+
+    const response = await namespace
+      .get(namespace.idFromName('moltbot'))
+      .fetch('https://rate-limiter/stats');
+    const stats = (await response.json()) as RateLimitStats;
+    expect(stats.counters.status).toEqual({ allowed: 1, limited: 1 });
+    expect(stats.topLimited).toEqual([
+      {
+        client: '203.0.113.1',
+        routeClass: 'status',
+        limited: 1,
+        lastLimitedAt: expect.any(Number),
+      },
+    ]);
+  });
+
+  it('limits AI proxy calls per agent named in the path', async () => {
+    const namespace = createLimiterNamespace();
+    const env = createMockEnv({ RATE_LIMITER: namespace, RATE_LIMITS: 'ai=1/1m' });
+    const app = createApp();
+    const headers = { 'CF-Connecting-IP': '203.0.113.1' };
+    const request = (agent: string) =>
+      app.request(`/api/ai-proxy/${agent}/anthropic/v1/messages`, { headers }, env);
+
+    expect((await request('alicebot')).status).toBe(200);
+    expect((await request('alicebot')).status).toBe(429);
+    // Containers of another agent behind the same egress IP have their own bucket
+    expect((await request('charliebot')).status).toBe(200);
+
+    const response = await namespace
+      .get(namespace.idFromName('alicebot'))
+      .fetch('https://rate-limiter/stats');
+    const stats = (await response.json()) as RateLimitStats;
+    expect(stats.counters.ai).toEqual({ allowed: 1, limited: 1 });
+  });
+
+  it('puts AI proxy paths without a valid agent name on the default limiter', async () => {
+    const namespace = createLimiterNamespace();
+    const env = createMockEnv({ RATE_LIMITER: namespace, RATE_LIMITS: 'ai=1/1m' });
+    const app = createApp();
+    const headers = { 'CF-Connecting-IP': '203.0.113.1' };
+    const request = (agent: string) =>
+      app.request(`/api/ai-proxy/${agent}/anthropic/v1/messages`, { headers }, env);
+
+    expect((await request('Not_Valid')).status).toBe(200);
+    // Reserved subdomains are not agent names either
+    expect((await request('www')).status).toBe(429);
+
+    const response = await namespace
+      .get(namespace.idFromName('moltbot'))
+      .fetch('https://rate-limiter/stats');
+    const stats = (await response.json()) as RateLimitStats;
+    expect(stats.counters.ai).toEqual({ allowed: 1, limited: 1 });
+  });
+
+  it('passes requests through when the limiter is not bound or fails', async () => {
+    const app = createApp();
+    expect((await app.request('/api/status', {}, createMockEnv())).status).toBe(200);
+
+    const broken = {
+      idFromName: () => 'x',
+      get: () => ({ fetch: async () => new Response('error', { status: 500 }) }),
+    } as unknown as DurableObjectNamespace;
+    const env = createMockEnv({ RATE_LIMITER: broken });
+    expect((await app.request('/api/status', {}, env)).status).toBe(200);
+  });
+});
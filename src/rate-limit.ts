@@ -0,0 +1,326 @@
+/**
+ * Per-tenant rate limiting at the worker edge.
+ *
+ * Each request is classified into a route class (see classifyRoute) and takes
+ * one token from a bucket keyed by tenant + client IP + route class. Buckets
+ * live in the RateLimiter Durable Object, one instance per tenant, so limits
+ * hold across worker isolates. Gateway pre-warming has its own bucket per IP
+ * in a shared instance, so one client cannot boot every tenant's sandbox by
+ * walking through hostnames.
+ *
+ * Limits default to DEFAULT_RATE_LIMITS and can be overridden per class with
+ * RATE_LIMITS, e.g. `auth=5/1m,status=120/1m,admin=off`. Limiting is disabled
+ * when the RATE_LIMITER binding is missing, and fails open if the Durable
+ * Object cannot be reached.
+ */
+
+import type { Context, Next } from 'hono';
+import type { AppEnv, MoltbotEnv } from './types';
+import { isMultiTenant, isValidAgentName, resolveAgentForHost } from './tenant';
+import { createLogger } from './utils/logging';
+
+const log = createLogger('rate-limit');
+
+export const RATE_LIMIT_CLASSES = ['auth', 'status', 'admin', 'ai', 'prewarm', 'default'] as const;
+
+export type RateLimitClass = (typeof RATE_LIMIT_CLASSES)[number];
+
+export interface RateLimitRule {
+  capacity: number; // burst size
+  periodMs: number; // time to refill a full bucket
+}
+
+/** Rules per route class; null disables limiting for the class */
+export type RateLimits = Record<RateLimitClass, RateLimitRule | null>;
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  auth: { capacity: 10, periodMs: 60_000 }, // each authorize call hits an RPC node
+  status: { capacity: 60, periodMs: 60_000 }, // polled by the loading page
+  admin: { capacity: 120, periodMs: 60_000 },
+  ai: { capacity: 300, periodMs: 60_000 }, // model requests per agent and container IP
+  prewarm: { capacity: 10, periodMs: 60_000 }, // sandboxes booted per IP, across tenants
+  default: { capacity: 600, periodMs: 60_000 }, // Control UI, assets and WebSocket upgrades
+};
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimitStats {
+  since: number; // ms; counters reset when the Durable Object is evicted
+  counters: Partial<Record<RateLimitClass, { allowed: number; limited: number }>>;
+  topLimited: Array<{
+    client: string;
+    routeClass: RateLimitClass;
+    limited: number;
+    lastLimitedAt: number;
+  }>;
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number; // ms
+}
+
+/** Durable Object instance that holds the pre-warm buckets */
+const PREWARM_LIMITER = '_prewarm';
+
+const PERIOD_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000 };
+
+/**
+ * Parse RATE_LIMITS (`class=capacity/period` pairs, or `class=off`) over the
+ * defaults. Invalid entries are ignored.
+ */
+export function getRateLimits(env: MoltbotEnv): RateLimits {
+  const limits = { ...DEFAULT_RATE_LIMITS };
+  for (const entry of (env.RATE_LIMITS ?? '').split(',')) {
+    const [name, value] = entry.trim().split('=');
+    if (!name || !value) continue;
+    if (!RATE_LIMIT_CLASSES.includes(name as RateLimitClass)) {
+      log.warn('Unknown route class in RATE_LIMITS', { routeClass: name });
+      continue;
+    }
+    if (value === 'off') {
+      limits[name as RateLimitClass] = null;
+      continue;
+    }
+    const match = value.match(/^(\d+)\/(\d*)([smh])$/);
+    if (!match || Number(match[1]) < 1 || Number(match[2] || 1) < 1) {
+      log.warn('Invalid limit in RATE_LIMITS', { entry });
+      continue;
+    }
+    limits[name as RateLimitClass] = {
+      capacity: Number(match[1]),
+      periodMs: Number(match[2] || 1) * PERIOD_UNITS[match[3]],
+    };
+  }
+  return limits;
+}
+
+/**
+ * Map a request to its route class.
+ */
+export function classifyRoute(pathname: string): RateLimitClass {
+  if (pathname.startsWith('/api/auth/')) return 'auth';
+  if (pathname === '/api/status') return 'status';
+  if (pathname.startsWith('/api/admin/') || pathname.startsWith('/api/tenants')) return 'admin';
+  if (pathname.startsWith('/api/ai-proxy/')) return 'ai';
+  return 'default';
+}
+
+/**
+ * Refill a bucket for the time since it was last used and try to take a token.
+ */
+export function takeToken(
+  bucket: TokenBucket | undefined,
+  rule: RateLimitRule,
+  now: number,
+): { bucket: TokenBucket; decision: RateLimitDecision } {
+  const perMs = rule.capacity / rule.periodMs;
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+  const tokens = bucket ? Math.min(rule.capacity, bucket.tokens + elapsed * perMs) : rule.capacity;
+
+  if (tokens >= 1) {
+    return {
+      bucket: { tokens: tokens - 1, updatedAt: now },
+      decision: { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 },
+    };
+  }
+  return {
+    bucket: { tokens, updatedAt: now },
+    decision: { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - tokens) / perMs) },
+  };
+}
+
+/** Buckets kept per instance before idle (full) ones are dropped */
+const MAX_BUCKETS = 10_000;
+
+/** Clients listed in RateLimitStats.topLimited */
+const TOP_LIMITED = 20;
+
+/**
+ * Durable Object holding the token buckets and counters of one tenant.
+ * State is in memory only: losing it on eviction just resets the buckets.
+ */
+export class RateLimiter implements DurableObject {
+  private buckets = new Map<string, TokenBucket & { rule: RateLimitRule }>();
+  private counters: RateLimitStats['counters'] = {};
+  private limitedClients = new Map<string, RateLimitStats['topLimited'][number]>();
+  private since = Date.now();
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (request.method === 'POST' && url.pathname === '/take') {
+      const body = (await request.json()) as {
+        client: string;
+        routeClass: RateLimitClass;
+        rule: RateLimitRule;
+      };
+      return Response.json(this.take(body.client, body.routeClass, body.rule, Date.now()));
+    }
+    if (request.method === 'GET' && url.pathname === '/stats') {
+      return Response.json(this.stats());
+    }
+    return new Response('Not found', { status: 404 });
+  }
+
+  private take(
+    client: string,
+    routeClass: RateLimitClass,
+    rule: RateLimitRule,
+    now: number,
+  ): RateLimitDecision {
+    const key = `${routeClass}:${client}`;
+    const { bucket, decision } = takeToken(this.buckets.get(key), rule, now);
+    this.buckets.set(key, { ...bucket, rule });
+    if (this.buckets.size > MAX_BUCKETS) this.prune(now);
+
+    const counter = (this.counters[routeClass] ??= { allowed: 0, limited: 0 });
+    if (decision.allowed) {
+      counter.allowed++;
+    } else {
+      counter.limited++;
+      const entry = this.limitedClients.get(key) ?? {
+        client,
+        routeClass,
+        limited: 0,
+        lastLimitedAt: 0,
+      };
+      entry.limited++;
+      entry.lastLimitedAt = now;
+      this.limitedClients.set(key, entry);
+      if (this.limitedClients.size > MAX_BUCKETS) {
+        // Forget the client that was first limited
+        this.limitedClients.delete(this.limitedClients.keys().next().value!);
+      }
+    }
+    return decision;
+  }
+
+  /** Drop buckets that have refilled completely (they behave like new ones) */
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      const perMs = bucket.rule.capacity / bucket.rule.periodMs;
+      if (bucket.tokens + (now - bucket.updatedAt) * perMs >= bucket.rule.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  private stats(): RateLimitStats {
+    const topLimited = [...this.limitedClients.values()];
+    topLimited.sort((a, b) => b.limited - a.limited);
+    return {
+      since: this.since,
+      counters: this.counters,
+      topLimited: topLimited.slice(0, TOP_LIMITED),
+    };
+  }
+}
+
+/**
+ * Take a token from a tenant's bucket for a client and route class.
+ */
+export async function takeRateLimitToken(
+  namespace: DurableObjectNamespace,
+  limiterName: string,
+  client: string,
+  routeClass: RateLimitClass,
+  rule: RateLimitRule,
+): Promise<RateLimitDecision> {
+  const stub = namespace.get(namespace.idFromName(limiterName));
+  const response = await stub.fetch('https://rate-limiter/take', {
+    method: 'POST',
+    body: JSON.stringify({ client, routeClass, rule }),
+  });
+  if (!response.ok) throw new Error(`Rate limiter returned ${response.status}`);
+  return response.json();
+}
+
+/**
+ * Read a tenant's rate limit counters.
+ */
+export async function getRateLimitStats(
+  namespace: DurableObjectNamespace,
+  tenantId: string,
+): Promise<RateLimitStats> {
+  const stub = namespace.get(namespace.idFromName(tenantId));
+  const response = await stub.fetch('https://rate-limiter/stats');
+  if (!response.ok) throw new Error(`Rate limiter returned ${response.status}`);
+  return response.json();
+}
+
+function getClientIp(c: Context<AppEnv>): string {
+  return c.req.header('CF-Connecting-IP') || 'unknown';
+}
+
+/**
+ * Whether a client may trigger gateway pre-warming for another sandbox.
+ * Fails open when limiting is disabled or the limiter is unavailable.
+ */
+export async function allowPrewarm(c: Context<AppEnv>): Promise<boolean> {
+  const namespace = c.env.RATE_LIMITER;
+  const rule = getRateLimits(c.env).prewarm;
+  if (!namespace || !rule) return true;
+
+  try {
+    const decision = await takeRateLimitToken(
+      namespace,
+      PREWARM_LIMITER,
+      getClientIp(c),
+      'prewarm',
+      rule,
+    );
+    return decision.allowed;
+  } catch (err) {
+    log.error('Pre-warm check failed', { error: err });
+    return true;
+  }
+}
+
+/**
+ * Middleware: reject requests over their route class limit with 429 and
+ * Retry-After. Runs before the tenant config is loaded, so limited clients
+ * never cause a config read or a sandbox boot. Picking the tenant's limiter
+ * resolves the hostname first, which for a custom domain is a KV lookup
+ * (cached per isolate, see resolveCustomDomain).
+ */
+export async function rateLimitMiddleware(c: Context<AppEnv>, next: Next) {
+  const namespace = c.env.RATE_LIMITER;
+  if (!namespace) return next();
+
+  const pathname = new URL(c.req.url).pathname;
+  const routeClass = classifyRoute(pathname);
+  const rule = getRateLimits(c.env)[routeClass];
+  if (!rule) return next();
+
+  // AI proxy calls come to the worker's own hostname and name their agent in the path.
+  // The name is not authenticated yet, so anything that isn't an agent name shares the default limiter.
+  let agentName: string | null = null;
+  if (routeClass === 'ai') {
+    const segment = pathname.split('/')[3] || '';
+    agentName = isValidAgentName(segment) ? segment : null;
+  } else if (isMultiTenant(c.env)) {
+    agentName = await resolveAgentForHost(c.env, c.req.header('host') || '');
+  }
+  const tenantId = agentName || 'moltbot';
+  const client = getClientIp(c);
+
+  let decision: RateLimitDecision;
+  try {
+    decision = await takeRateLimitToken(namespace, tenantId, client, routeClass, rule);
+  } catch (err) {
+    log.error('Limiter unavailable, allowing request', { error: err });
+    return next();
+  }
+
+  if (!decision.allowed) {
+    const retryAfter = Math.max(1, Math.ceil(decision.retryAfterMs / 1000));
+    log.info('Rate limited', { limiter: tenantId, client, routeClass, retryAfter });
+    c.header('Retry-After', String(retryAfter));
+    return c.json({ error: 'Too many requests', retryAfter }, 429);
+  }
+  return next();
+}
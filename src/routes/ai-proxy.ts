@@ -0,0 +1,180 @@
+import { Hono } from 'hono';
+import type { AppEnv, MoltbotEnv } from '../types';
+import { loadTenantConfig } from '../tenant';
+import { getTenantAiConfig, resolveAiProviders } from '../gateway/env';
+import {
+  isUsageMeteringEnabled,
+  getUsageSummary,
+  checkUsageCaps,
+  recordUsage,
+  estimateCost,
+  getModelPrices,
+  extractTokenUsage,
+  parseSseEvents,
+} from '../usage';
+import { createLogger } from '../utils/logging';
+
+const log = createLogger('ai-proxy');
+
+/**
+ * AI metering proxy - forwards a tenant container's model requests to the
+ * provider and meters them (see usage.ts).
+ *
+ * Containers call `{WORKER_URL}/api/ai-proxy/{agent}/{providerId}/...` with
+ * their gateway token as the API key. The worker swaps in the provider
+ * credentials from the tenant config or the worker env, refuses requests
+ * once a usage cap is reached, and records the token counts of every
+ * successful response.
+ *
+ * Mounted after rate limiting (the `ai` route class, per agent and IP) and
+ * before tenant resolution in index.ts, like the tenant API: it must never
+ * boot a sandbox.
+ */
+const aiProxy = new Hono<AppEnv>();
+
+/** Request headers that identify the client or carry its credentials */
+const DROPPED_HEADERS = new Set([
+  'host',
+  'authorization',
+  'x-api-key',
+  'cookie',
+  'content-length',
+  'x-forwarded-for',
+  'x-real-ip',
+]);
+
+// ALL /api/ai-proxy/:agent/:providerId/* - Forward a model request with the tenant's credentials
+aiProxy.all('/:agent/:providerId/*', async (c) => {
+  if (!isUsageMeteringEnabled(c.env)) {
+    return c.json({ error: 'AI proxy not configured' }, 501);
+  }
+
+  const agentName = c.req.param('agent');
+  const providerId = c.req.param('providerId');
+  const lookup = await loadTenantConfig(c.env, agentName);
+  // Same response for unknown agents and bad tokens, so agent names can't be probed
+  const header = c.req.header('Authorization');
+  const provided =
+    c.req.header('x-api-key') ?? (header?.startsWith('Bearer ') ? header.slice(7) : null);
+  if (
+    lookup.status !== 'found' ||
+    !provided ||
+    !timingSafeEqual(provided, lookup.config.moltbotGatewayToken)
+  ) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+  const config = lookup.config;
+  if (config.suspended) {
+    return c.json({ error: 'Agent is suspended' }, 403);
+  }
+
+  const ai = getTenantAiConfig(config, c.env);
+  const provider = ai
+    ? resolveAiProviders(ai, c.env).providers.find((p) => p.id === providerId)
+    : undefined;
+  if (!provider) {
+    return c.json({ error: `Unknown provider: ${providerId}` }, 404);
+  }
+
+  const namespace = c.env.USAGE_METER!;
+  if (config.usageCaps) {
+    try {
+      const usage = await getUsageSummary(namespace, agentName, 1);
+      const exceeded = checkUsageCaps(config.usageCaps, usage);
+      if (exceeded) {
+        log.info('Usage cap reached', { reason: exceeded.message });
+        c.header('Retry-After', String(Math.ceil((exceeded.resetsAt - Date.now()) / 1000)));
+        // Provider-style error body, so the SDK in the container surfaces the message
+        return c.json({ error: { type: 'usage_cap_exceeded', message: exceeded.message } }, 429);
+      }
+    } catch (err) {
+      log.error('Usage meter unavailable, allowing request', { error: err });
+    }
+  }
+
+  const url = new URL(c.req.url);
+  const prefix = `/api/ai-proxy/${agentName}/${providerId}`;
+  const target = provider.baseUrl + url.pathname.slice(prefix.length) + url.search;
+
+  const headers = new Headers();
+  for (const [name, value] of c.req.raw.headers) {
+    if (!DROPPED_HEADERS.has(name) && !name.startsWith('cf-')) headers.set(name, value);
+  }
+  if (provider.api === 'anthropic-messages') {
+    headers.set('x-api-key', provider.apiKey);
+  } else {
+    headers.set('Authorization', `Bearer ${provider.apiKey}`);
+  }
+
+  let body: string | undefined;
+  let model = provider.model;
+  let streamed = false;
+  if (c.req.method !== 'GET' && c.req.method !== 'HEAD') {
+    body = await c.req.text();
+    try {
+      const request = JSON.parse(body) as Record<string, unknown>;
+      if (typeof request.model === 'string') model = request.model;
+      streamed = request.stream === true;
+      // OpenAI-compatible APIs only report usage on streams when asked to
+      if (streamed && provider.api === 'openai-completions' && !request.stream_options) {
+        body = JSON.stringify({ ...request, stream_options: { include_usage: true } });
+      }
+    } catch {
+      // Not JSON: forward as is
+    }
+  }
+
+  const response = await fetch(target, { method: c.req.method, headers, body });
+  if (!response.ok || !response.body || body === undefined) {
+    return response;
+  }
+
+  const [clientBody, meterBody] = response.body.tee();
+  c.executionCtx.waitUntil(meterResponse(c.env, agentName, model, streamed, meterBody));
+  return new Response(clientBody, response);
+});
+
+/**
+ * Read the token counts from a response copy and add them to the tenant's usage.
+ */
+async function meterResponse(
+  env: MoltbotEnv,
+  agentName: string,
+  model: string,
+  streamed: boolean,
+  body: ReadableStream,
+): Promise<void> {
+  try {
+    const text = await new Response(body).text();
+    const tokens = extractTokenUsage(streamed ? parseSseEvents(text) : [JSON.parse(text)]);
+    if (!tokens) {
+      log.warn('No usage in response', { tenant: agentName, model });
+      return;
+    }
+    await recordUsage(env.USAGE_METER!, agentName, {
+      model,
+      ...tokens,
+      costUsd: estimateCost(model, tokens, getModelPrices(env)),
+      at: Date.now(),
+    });
+  } catch (err) {
+    log.error('Failed to meter request', { tenant: agentName, model, error: err });
+  }
+}
+
+/**
+ * Constant-time string comparison to prevent timing attacks
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+export { aiProxy };
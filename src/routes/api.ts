@@ -1,14 +1,83 @@
 import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
 import type { AppEnv } from '../types';
 import {
-  ensureMoltbotGateway,
+  ensureRequestGateway,
   findExistingMoltbotProcess,
   syncToR2,
-  waitForProcess,
+  tailGatewayLogs,
+  parseLogFilter,
+  matchesLogFilter,
+  DEFAULT_LOG_TAIL,
+  MAX_LOG_TAIL,
+  listSnapshots,
+  createSnapshot,
+  previewRestore,
+  restoreSnapshot,
+  getSnapshotRetention,
+  SNAPSHOT_ID_RE,
+  LAST_SYNC_RESULT_FILE,
+  type SyncResult,
+  readPath,
+  writePath,
+  deletePath,
+  isFileError,
+  FILE_ROOTS,
+  MAX_FILE_BYTES,
+  withDeviceClient,
+  DeviceRequestError,
 } from '../gateway';
+import {
+  getAccountGrants,
+  validateAccountGrants,
+  getSessionStore,
+  getSessionTenantId,
+  listSessions,
+  revokeSession,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  validateApiKeyRequest,
+  API_KEY_SCOPES,
+  createPairingToken,
+  listPairingTokens,
+  revokePairingToken,
+  validatePairingTokenRequest,
+  PAIRING_TOKEN_SCOPES,
+  type AccountGrant,
+  type ApiKeyScope,
+  type PairingTokenScope,
+} from '../auth';
+import { saveTenantConfig, getHostnameConfig } from '../tenant';
+import {
+  normalizeHostname,
+  isValidHostname,
+  listCustomDomains,
+  claimCustomDomain,
+  verifyCustomDomain,
+  removeCustomDomain,
+  getVerificationRecord,
+} from '../domains';
+import { getRateLimits, getRateLimitStats } from '../rate-limit';
+import { getUsageSummary, isUsageMeteringEnabled } from '../usage';
+import { getGatewayHistory, getSupervisorSettings, isSupervisorEnabled } from '../supervisor';
+import { listConnections, disconnectConnection } from '../connections';
+import {
+  annotateAudit,
+  listAuditEntries,
+  verifyAuditChain,
+  type AuditQuery,
+  type AuditResult,
+} from '../audit';
+import { createLogger } from '../utils/logging';
+
+const log = createLogger('api');
+
+// Idle streams are closed by the edge after ~100s; comment lines keep log streams open
+const LOG_STREAM_KEEPALIVE_MS = 25000;
 
-// CLI commands can take 10-15 seconds to complete due to WebSocket connection overhead
-const CLI_TIMEOUT_MS = 20000;
+const MAX_DEVICE_NAME_LENGTH = 64;
 
 /**
  * API routes
@@ -23,55 +92,30 @@ const api = new Hono<AppEnv>();
  */
 const adminApi = new Hono<AppEnv>();
 
+function gatewayToken(c: Context<AppEnv>): string | undefined {
+  return c.get('tenantConfig')?.moltbotGatewayToken || c.env.MOLTBOT_GATEWAY_TOKEN;
+}
+
+function deviceError(c: Context<AppEnv>, error: unknown) {
+  if (error instanceof DeviceRequestError) {
+    return c.json({ error: error.message, code: error.code }, error.status);
+  }
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return c.json({ error: errorMessage }, 500);
+}
+
 // GET /api/admin/devices - List pending and paired devices
 adminApi.get('/devices', async (c) => {
   const sandbox = c.get('sandbox');
 
   try {
     // Ensure moltbot is running first
-    await ensureMoltbotGateway(sandbox, c.env, c.get('tenantConfig'), c.get('agentName') || 'moltbot');
-
-    // Run OpenClaw CLI to list devices
-    // Must specify --url and --token (OpenClaw v2026.2.3 requires explicit credentials with --url)
-    const token = c.get('tenantConfig')?.moltbotGatewayToken || c.env.MOLTBOT_GATEWAY_TOKEN;
-    const tokenArg = token ? ` --token ${token}` : '';
-    const proc = await sandbox.startProcess(
-      `openclaw devices list --json --url ws://localhost:18789${tokenArg}`,
-    );
-    await waitForProcess(proc, CLI_TIMEOUT_MS);
-
-    const logs = await proc.getLogs();
-    const stdout = logs.stdout || '';
-    const stderr = logs.stderr || '';
+    await ensureRequestGateway(c);
 
-    // Try to parse JSON output
-    try {
-      // Find JSON in output (may have other log lines)
-      const jsonMatch = stdout.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const data = JSON.parse(jsonMatch[0]);
-        return c.json(data);
-      }
-
-      // If no JSON found, return raw output for debugging
-      return c.json({
-        pending: [],
-        paired: [],
-        raw: stdout,
-        stderr,
-      });
-    } catch {
-      return c.json({
-        pending: [],
-        paired: [],
-        raw: stdout,
-        stderr,
-        parseError: 'Failed to parse CLI output',
-      });
-    }
+    const devices = await withDeviceClient(sandbox, gatewayToken(c), (client) => client.list());
+    return c.json(devices);
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return c.json({ error: errorMessage }, 500);
+    return deviceError(c, error);
   }
 });
 
@@ -86,111 +130,165 @@ adminApi.post('/devices/:requestId/approve', async (c) => {
 
   try {
     // Ensure moltbot is running first
-    await ensureMoltbotGateway(sandbox, c.env, c.get('tenantConfig'), c.get('agentName') || 'moltbot');
+    await ensureRequestGateway(c);
 
-    // Run OpenClaw CLI to approve the device
-    const token = c.get('tenantConfig')?.moltbotGatewayToken || c.env.MOLTBOT_GATEWAY_TOKEN;
-    const tokenArg = token ? ` --token ${token}` : '';
-    const proc = await sandbox.startProcess(
-      `openclaw devices approve ${requestId} --url ws://localhost:18789${tokenArg}`,
+    const device = await withDeviceClient(sandbox, gatewayToken(c), (client) =>
+      client.approve(requestId),
     );
-    await waitForProcess(proc, CLI_TIMEOUT_MS);
+    return c.json({ success: true, requestId, message: 'Device approved', device });
+  } catch (error) {
+    return deviceError(c, error);
+  }
+});
+
+// POST /api/admin/devices/approve-all - Approve all pending devices
+adminApi.post('/devices/approve-all', async (c) => {
+  const sandbox = c.get('sandbox');
 
-    const logs = await proc.getLogs();
-    const stdout = logs.stdout || '';
-    const stderr = logs.stderr || '';
+  try {
+    // Ensure moltbot is running first
+    await ensureRequestGateway(c);
+
+    const token = gatewayToken(c);
+    const { pending, results } = await withDeviceClient(sandbox, token, async (client) => {
+      const { pending } = await client.list();
+      const results = await Promise.allSettled(
+        pending.map((device) => client.approve(device.requestId)),
+      );
+      return { pending, results };
+    });
 
-    // Check for success indicators (case-insensitive, CLI outputs "Approved ...")
-    const success = stdout.toLowerCase().includes('approved') || proc.exitCode === 0;
+    if (pending.length === 0) {
+      return c.json({ approved: [], failed: [], message: 'No pending devices to approve' });
+    }
+
+    const approved: string[] = [];
+    const failed: Array<{ requestId: string; success: boolean; error?: string }> = [];
+    results.forEach((result, i) => {
+      const { requestId } = pending[i];
+      if (result.status === 'fulfilled') {
+        approved.push(requestId);
+      } else {
+        const error = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+        failed.push({ requestId, success: false, error });
+      }
+    });
 
     return c.json({
-      success,
-      requestId,
-      message: success ? 'Device approved' : 'Approval may have failed',
-      stdout,
-      stderr,
+      approved,
+      failed,
+      message: `Approved ${approved.length} of ${pending.length} device(s)`,
     });
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return c.json({ error: errorMessage }, 500);
+    return deviceError(c, error);
   }
 });
 
-// POST /api/admin/devices/approve-all - Approve all pending devices
-adminApi.post('/devices/approve-all', async (c) => {
+// POST /api/admin/devices/:requestId/reject - Reject a pending device
+adminApi.post('/devices/:requestId/reject', async (c) => {
   const sandbox = c.get('sandbox');
+  const requestId = c.req.param('requestId');
 
   try {
-    // Ensure moltbot is running first
-    await ensureMoltbotGateway(sandbox, c.env, c.get('tenantConfig'), c.get('agentName') || 'moltbot');
+    await ensureRequestGateway(c);
 
-    // First, get the list of pending devices
-    const token = c.get('tenantConfig')?.moltbotGatewayToken || c.env.MOLTBOT_GATEWAY_TOKEN;
-    const tokenArg = token ? ` --token ${token}` : '';
-    const listProc = await sandbox.startProcess(
-      `openclaw devices list --json --url ws://localhost:18789${tokenArg}`,
-    );
-    await waitForProcess(listProc, CLI_TIMEOUT_MS);
+    await withDeviceClient(sandbox, gatewayToken(c), (client) => client.reject(requestId));
+    return c.json({ success: true, requestId, message: 'Device rejected' });
+  } catch (error) {
+    return deviceError(c, error);
+  }
+});
 
-    const listLogs = await listProc.getLogs();
-    const stdout = listLogs.stdout || '';
+// PATCH /api/admin/devices/:deviceId - Rename a paired device
+adminApi.patch('/devices/:deviceId', async (c) => {
+  const sandbox = c.get('sandbox');
+  const deviceId = c.req.param('deviceId');
 
-    // Parse pending devices
-    let pending: Array<{ requestId: string }> = [];
-    try {
-      const jsonMatch = stdout.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const data = JSON.parse(jsonMatch[0]);
-        pending = data.pending || [];
-      }
-    } catch {
-      return c.json({ error: 'Failed to parse device list', raw: stdout }, 500);
-    }
+  let body: { displayName?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  const displayName = typeof body.displayName === 'string' ? body.displayName.trim() : '';
+  if (!displayName || displayName.length > MAX_DEVICE_NAME_LENGTH) {
+    return c.json({ error: `displayName must be 1-${MAX_DEVICE_NAME_LENGTH} characters` }, 400);
+  }
 
-    if (pending.length === 0) {
-      return c.json({ approved: [], message: 'No pending devices to approve' });
-    }
+  try {
+    await ensureRequestGateway(c);
+
+    const device = await withDeviceClient(sandbox, gatewayToken(c), (client) =>
+      client.rename(deviceId, displayName),
+    );
+    return c.json({ success: true, deviceId, device });
+  } catch (error) {
+    return deviceError(c, error);
+  }
+});
 
-    // Approve each pending device
-    const results: Array<{ requestId: string; success: boolean; error?: string }> = [];
+// DELETE /api/admin/devices/:deviceId - Revoke a paired device
+adminApi.delete('/devices/:deviceId', async (c) => {
+  const sandbox = c.get('sandbox');
+  const deviceId = c.req.param('deviceId');
 
-    for (const device of pending) {
-      try {
-        // eslint-disable-next-line no-await-in-loop -- sequential device approval required
-        const approveProc = await sandbox.startProcess(
-          `openclaw devices approve ${device.requestId} --url ws://localhost:18789${tokenArg}`,
-        );
-        // eslint-disable-next-line no-await-in-loop
-        await waitForProcess(approveProc, CLI_TIMEOUT_MS);
-
-        // eslint-disable-next-line no-await-in-loop
-        const approveLogs = await approveProc.getLogs();
-        const success =
-          approveLogs.stdout?.toLowerCase().includes('approved') || approveProc.exitCode === 0;
-
-        results.push({ requestId: device.requestId, success });
-      } catch (err) {
-        results.push({
-          requestId: device.requestId,
-          success: false,
-          error: err instanceof Error ? err.message : 'Unknown error',
-        });
-      }
-    }
+  try {
+    await ensureRequestGateway(c);
 
-    const approvedCount = results.filter((r) => r.success).length;
-    return c.json({
-      approved: results.filter((r) => r.success).map((r) => r.requestId),
-      failed: results.filter((r) => !r.success),
-      message: `Approved ${approvedCount} of ${pending.length} device(s)`,
-    });
+    await withDeviceClient(sandbox, gatewayToken(c), (client) => client.revoke(deviceId));
+    return c.json({ success: true, deviceId, message: 'Device revoked' });
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return c.json({ error: errorMessage }, 500);
+    return deviceError(c, error);
   }
 });
 
-// GET /api/admin/storage - Get R2 storage status and last sync time
+// GET /api/admin/pairing-tokens - List unexpired one-time pairing tokens (secrets are never returned)
+adminApi.get('/pairing-tokens', async (c) => {
+  const tokens = await listPairingTokens(c.env, getSessionTenantId(c));
+  return c.json({ tokens, scopes: PAIRING_TOKEN_SCOPES });
+});
+
+// POST /api/admin/pairing-tokens - Mint a one-time pairing token and its link; only shown once
+adminApi.post('/pairing-tokens', async (c) => {
+  let body: { label?: unknown; scopes?: unknown; ttlMinutes?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const validationError = validatePairingTokenRequest(body);
+  if (validationError) {
+    return c.json({ error: validationError }, 400);
+  }
+
+  const user = c.get('accessUser');
+  const { token, secret } = await createPairingToken(c.env, getSessionTenantId(c), {
+    label: body.label as string | undefined,
+    scopes: body.scopes as PairingTokenScope[] | undefined,
+    ttlMinutes: body.ttlMinutes as number | undefined,
+    createdBy: user?.account || user?.email,
+  });
+  const link = `${new URL(c.req.url).origin}/pair?token=${secret}`;
+
+  annotateAudit(c, { target: token.id, details: token.scopes.join(' ') });
+  log.info('Pairing token created', { tokenId: token.id, scopes: token.scopes, by: user?.name });
+  return c.json({ success: true, token, secret, link }, 201);
+});
+
+// DELETE /api/admin/pairing-tokens/:tokenId - Revoke an unused pairing token
+adminApi.delete('/pairing-tokens/:tokenId', async (c) => {
+  const tokenId = c.req.param('tokenId');
+  const revoked = await revokePairingToken(c.env, getSessionTenantId(c), tokenId);
+  if (!revoked) {
+    return c.json({ error: 'Pairing token not found' }, 404);
+  }
+
+  log.info('Pairing token revoked', { tokenId, by: c.get('accessUser')?.name });
+  return c.json({ success: true, tokenId });
+});
+
+// GET /api/admin/storage - Get R2 storage status, last sync time and last sync result
 adminApi.get('/storage', async (c) => {
   const sandbox = c.get('sandbox');
   const hasCredentials = !!(
@@ -205,6 +303,7 @@ adminApi.get('/storage', async (c) => {
   if (!c.env.CF_ACCOUNT_ID) missing.push('CF_ACCOUNT_ID');
 
   let lastSync: string | null = null;
+  let lastSyncResult: SyncResult | null = null;
 
   if (hasCredentials) {
     try {
@@ -213,6 +312,11 @@ adminApi.get('/storage', async (c) => {
       if (timestamp && timestamp !== '') {
         lastSync = timestamp;
       }
+      // Written by syncToR2 only; the container's background sync loop records just the timestamp
+      const stats = await sandbox.exec(`cat ${LAST_SYNC_RESULT_FILE} 2>/dev/null || true`);
+      if (stats.stdout?.trim()) {
+        lastSyncResult = JSON.parse(stats.stdout) as SyncResult;
+      }
     } catch {
       // Ignore errors checking sync status
     }
@@ -222,6 +326,7 @@ adminApi.get('/storage', async (c) => {
     configured: hasCredentials,
     missing: missing.length > 0 ? missing : undefined,
     lastSync,
+    lastSyncResult,
     message: hasCredentials
       ? 'R2 storage is configured. Your data will persist across container restarts.'
       : 'R2 storage is not configured. Paired devices and conversations will be lost when the container restarts.',
@@ -236,23 +341,174 @@ adminApi.post('/storage/sync', async (c) => {
 
   if (result.success) {
     return c.json({
-      success: true,
+      ...result,
       message: 'Sync completed successfully',
-      lastSync: result.lastSync,
     });
   } else {
     const status = result.error?.includes('not configured') ? 400 : 500;
     return c.json(
       {
+        ...result,
         success: false,
-        error: result.error,
-        details: result.details,
       },
       status,
     );
   }
 });
 
+// GET /api/admin/storage/snapshots - List R2 snapshots, newest first, and the retention policy
+adminApi.get('/storage/snapshots', async (c) => {
+  try {
+    const snapshots = await listSnapshots(c.get('sandbox'), c.env, c.get('agentName'));
+    return c.json({ retention: getSnapshotRetention(c.env), snapshots });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/storage/snapshots - Take a manual snapshot
+adminApi.post('/storage/snapshots', async (c) => {
+  const result = await createSnapshot(c.get('sandbox'), c.env, c.get('agentName'), 'manual');
+  if (result.success) {
+    annotateAudit(c, { target: result.snapshot?.id });
+    return c.json({ success: true, snapshot: result.snapshot });
+  }
+  const status = result.error?.includes('not configured') ? 400 : 500;
+  return c.json({ success: false, error: result.error, details: result.details }, status);
+});
+
+// GET /api/admin/storage/snapshots/:snapshotId/preview - Files a restore would add, change or remove
+adminApi.get('/storage/snapshots/:snapshotId/preview', async (c) => {
+  const sandbox = c.get('sandbox');
+  const snapshotId = c.req.param('snapshotId');
+  if (!SNAPSHOT_ID_RE.test(snapshotId)) {
+    return c.json({ error: 'Invalid snapshot ID' }, 400);
+  }
+
+  try {
+    const snapshots = await listSnapshots(sandbox, c.env, c.get('agentName'));
+    const snapshot = snapshots.find((s) => s.id === snapshotId);
+    if (!snapshot) {
+      return c.json({ error: 'Snapshot not found' }, 404);
+    }
+    const changes = await previewRestore(sandbox, c.env, c.get('agentName'), snapshot);
+    const summary = { added: 0, changed: 0, removed: 0 };
+    for (const change of changes) summary[change.change]++;
+    return c.json({ snapshot, summary, changes });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/storage/restore - Restore a snapshot into the container and restart the gateway
+adminApi.post('/storage/restore', async (c) => {
+  const sandbox = c.get('sandbox');
+  const body = await c.req.json<{ snapshotId?: unknown }>().catch(() => null);
+  const snapshotId = typeof body?.snapshotId === 'string' ? body.snapshotId : '';
+  if (!SNAPSHOT_ID_RE.test(snapshotId)) {
+    return c.json({ error: 'snapshotId must be a snapshot ID' }, 400);
+  }
+  annotateAudit(c, { target: snapshotId });
+
+  try {
+    const snapshots = await listSnapshots(sandbox, c.env, c.get('agentName'));
+    const snapshot = snapshots.find((s) => s.id === snapshotId);
+    if (!snapshot) {
+      return c.json({ error: 'Snapshot not found' }, 404);
+    }
+
+    const result = await restoreSnapshot(sandbox, c.env, c.get('agentName'), snapshot);
+    if (!result.success) {
+      return c.json(
+        {
+          success: false,
+          error: result.error,
+          details: result.details,
+          safetySnapshotId: result.safetySnapshotId,
+        },
+        500,
+      );
+    }
+
+    // Start the gateway on the restored state in the background
+    const bootPromise = ensureRequestGateway(c).catch((err) => {
+      log.error('Gateway start after restore failed', { error: err });
+    });
+    c.executionCtx.waitUntil(bootPromise);
+
+    return c.json({
+      success: true,
+      message: 'Snapshot restored, gateway restarting...',
+      snapshotId,
+      safetySnapshotId: result.safetySnapshotId,
+      syncError: result.syncError,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/files - Roots the file browser can open
+adminApi.get('/files', (c) => {
+  return c.json({ roots: Object.keys(FILE_ROOTS), maxFileBytes: MAX_FILE_BYTES });
+});
+
+// GET /api/admin/files/:path - List a directory or read a file under a root (e.g. workspace/notes.md)
+adminApi.get('/files/:path{.+}', async (c) => {
+  try {
+    const result = await readPath(c.get('sandbox'), c.req.param('path'));
+    if (isFileError(result)) {
+      return c.json({ error: result.error }, result.status);
+    }
+    return c.json(result);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// PUT /api/admin/files/:path - Create or replace a text file ({ content, sync? }), optionally syncing to R2
+adminApi.put('/files/:path{.+}', async (c) => {
+  const sandbox = c.get('sandbox');
+  const body = await c.req.json<{ content?: unknown; sync?: unknown }>().catch(() => null);
+  if (typeof body?.content !== 'string') {
+    return c.json({ error: 'content must be a string' }, 400);
+  }
+
+  try {
+    const result = await writePath(sandbox, c.req.param('path'), body.content);
+    if (isFileError(result)) {
+      return c.json({ error: result.error }, result.status);
+    }
+    annotateAudit(c, { target: result.path });
+
+    const sync =
+      body.sync === true ? await syncToR2(sandbox, c.env, c.get('agentName')) : undefined;
+    return c.json({ success: true, ...result, sync });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// DELETE /api/admin/files/:path - Delete a file
+adminApi.delete('/files/:path{.+}', async (c) => {
+  try {
+    const result = await deletePath(c.get('sandbox'), c.req.param('path'));
+    if (isFileError(result)) {
+      return c.json({ error: result.error }, result.status);
+    }
+    annotateAudit(c, { target: result.path });
+    return c.json({ success: true, ...result });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
 // POST /api/admin/gateway/restart - Kill the current gateway and start a new one
 adminApi.post('/gateway/restart', async (c) => {
   const sandbox = c.get('sandbox');
@@ -262,19 +518,19 @@ adminApi.post('/gateway/restart', async (c) => {
     const existingProcess = await findExistingMoltbotProcess(sandbox);
 
     if (existingProcess) {
-      console.log('Killing existing gateway process:', existingProcess.id);
+      log.info('Killing existing gateway process', { processId: existingProcess.id });
       try {
         await existingProcess.kill();
       } catch (killErr) {
-        console.error('Error killing process:', killErr);
+        log.error('Error killing process', { error: killErr });
       }
       // Wait a moment for the process to die
       await new Promise((r) => setTimeout(r, 2000));
     }
 
     // Start a new gateway in the background
-    const bootPromise = ensureMoltbotGateway(sandbox, c.env, c.get('tenantConfig'), c.get('agentName') || 'moltbot').catch((err) => {
-      console.error('Gateway restart failed:', err);
+    const bootPromise = ensureRequestGateway(c).catch((err) => {
+      log.error('Gateway restart failed', { error: err });
     });
     c.executionCtx.waitUntil(bootPromise);
 
@@ -291,6 +547,405 @@ adminApi.post('/gateway/restart', async (c) => {
   }
 });
 
+// GET /api/admin/gateway/history - Supervisor status and gateway crash/restart history
+adminApi.get('/gateway/history', async (c) => {
+  const namespace = c.env.GATEWAY_SUPERVISOR;
+  if (!namespace || !isSupervisorEnabled(c.env)) {
+    return c.json({ enabled: false });
+  }
+
+  try {
+    const history = await getGatewayHistory(namespace, c.get('agentName') || 'moltbot');
+    return c.json({ enabled: true, settings: getSupervisorSettings(c.env), ...history });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 502);
+  }
+});
+
+// GET /api/admin/logs/stream - Tail the gateway's stdout/stderr as server-sent events
+// Query: level (minimum), search (substring), tail (backlog lines per stream)
+adminApi.get('/logs/stream', async (c) => {
+  const sandbox = c.get('sandbox');
+  const process = await findExistingMoltbotProcess(sandbox);
+  if (!process) {
+    return c.json({ error: 'Gateway is not running' }, 404);
+  }
+
+  const filter = parseLogFilter(c.req.query('level'), c.req.query('search'));
+  const tailParam = parseInt(c.req.query('tail') || '', 10);
+  const tail = Number.isNaN(tailParam)
+    ? DEFAULT_LOG_TAIL
+    : Math.min(Math.max(tailParam, 0), MAX_LOG_TAIL);
+
+  return streamSSE(c, async (stream) => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    stream.onAbort(() => controller.abort());
+    const keepalive = setInterval(() => {
+      stream.write(': keepalive\n\n').catch(() => controller.abort());
+    }, LOG_STREAM_KEEPALIVE_MS);
+
+    try {
+      for await (const event of tailGatewayLogs(sandbox, process, { tail, signal })) {
+        if (event.type === 'exit') {
+          const data = JSON.stringify({ exitCode: event.exitCode });
+          await stream.writeSSE({ event: 'exit', data });
+          break;
+        }
+        if (matchesLogFilter(event.line, filter)) {
+          await stream.writeSSE({ event: 'log', data: JSON.stringify(event.line) });
+        }
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        log.error('Log stream failed', { processId: process.id, error });
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        await stream.writeSSE({ event: 'error', data: JSON.stringify({ error: errorMessage }) });
+      }
+    } finally {
+      clearInterval(keepalive);
+    }
+  });
+});
+
+// GET /api/admin/accounts - List wallet accounts allowed to access this gateway
+adminApi.get('/accounts', (c) => {
+  const user = c.get('accessUser');
+  const accounts = getAccountGrants(c.env, c.get('tenantConfig'));
+
+  return c.json({
+    accounts,
+    currentUser: user ? { name: user.name, account: user.account, role: user.role } : null,
+    editable: !!(c.get('tenantConfig') && c.env.AGENT_KV),
+  });
+});
+
+// PUT /api/admin/accounts - Replace the allow-list (owner only, multi-tenant mode)
+adminApi.put('/accounts', async (c) => {
+  const tenantConfig = c.get('tenantConfig');
+  const agentName = c.get('agentName');
+  if (!tenantConfig || !agentName || !c.env.AGENT_KV) {
+    return c.json(
+      {
+        error: 'Accounts are managed via the XPR_ALLOWED_ACCOUNTS secret in single-tenant mode',
+      },
+      400,
+    );
+  }
+
+  let body: { accounts?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const validationError = validateAccountGrants(body.accounts);
+  if (validationError) {
+    return c.json({ error: validationError }, 400);
+  }
+
+  // The owner is implicit and cannot be demoted through the allow-list
+  const accounts = (body.accounts as AccountGrant[]).filter(
+    (g) => g.account !== tenantConfig.xprOwnerAccount,
+  );
+
+  await saveTenantConfig(c.env, agentName, { ...tenantConfig, accounts });
+  log.info('Account allow-list updated', { accounts: accounts.length });
+
+  return c.json({ success: true, accounts });
+});
+
+// GET /api/admin/domains - List this agent's custom domains and their TXT records
+adminApi.get('/domains', async (c) => {
+  const agentName = c.get('agentName');
+  if (!agentName || !c.env.AGENT_KV) {
+    return c.json({ enabled: false, domains: [] });
+  }
+
+  const domains = await listCustomDomains(c.env.AGENT_KV, agentName);
+  return c.json({
+    enabled: true,
+    domains: domains.map((domain) => ({
+      hostname: domain.hostname,
+      verified: domain.verified,
+      createdAt: domain.createdAt,
+      verifiedAt: domain.verifiedAt,
+      verification: domain.verified ? undefined : getVerificationRecord(domain),
+    })),
+  });
+});
+
+// POST /api/admin/domains - Claim a custom domain (owner only, multi-tenant mode)
+adminApi.post('/domains', async (c) => {
+  const agentName = c.get('agentName');
+  const kv = c.env.AGENT_KV;
+  if (!agentName || !kv) {
+    return c.json({ error: 'Custom domains are only available in multi-tenant mode' }, 400);
+  }
+
+  let body: { hostname?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const hostname = typeof body.hostname === 'string' ? normalizeHostname(body.hostname) : '';
+  if (!isValidHostname(hostname)) {
+    return c.json({ error: 'hostname must be a fully qualified domain name' }, 400);
+  }
+  const { baseDomains } = getHostnameConfig(c.env);
+  if (
+    hostname.endsWith('.workers.dev') ||
+    baseDomains.some((d) => hostname === d || hostname.endsWith(`.${d}`))
+  ) {
+    return c.json({ error: `${hostname} is served by subdomain routing` }, 400);
+  }
+
+  const claim = await claimCustomDomain(kv, agentName, hostname);
+  if ('error' in claim) {
+    return c.json({ error: claim.error }, 409);
+  }
+
+  annotateAudit(c, { target: hostname });
+  log.info('Custom domain claimed', { hostname });
+  return c.json(
+    { success: true, domain: claim.domain, verification: getVerificationRecord(claim.domain) },
+    201,
+  );
+});
+
+// POST /api/admin/domains/:hostname/verify - Check the TXT record and activate the domain
+adminApi.post('/domains/:hostname/verify', async (c) => {
+  const agentName = c.get('agentName');
+  const kv = c.env.AGENT_KV;
+  if (!agentName || !kv) {
+    return c.json({ error: 'Custom domains are only available in multi-tenant mode' }, 400);
+  }
+
+  const hostname = normalizeHostname(c.req.param('hostname'));
+  let result;
+  try {
+    result = await verifyCustomDomain(kv, agentName, hostname);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return c.json({ error: message }, 502);
+  }
+  if (!result) {
+    return c.json({ error: `Domain ${hostname} is not claimed by this agent` }, 404);
+  }
+  if (!result.verified) {
+    const record = getVerificationRecord(result.domain);
+    return c.json({ error: `TXT record ${record.name} not found`, verification: record }, 400);
+  }
+
+  log.info('Custom domain verified', { hostname });
+  return c.json({ success: true, domain: result.domain });
+});
+
+// DELETE /api/admin/domains/:hostname - Release a custom domain
+adminApi.delete('/domains/:hostname', async (c) => {
+  const agentName = c.get('agentName');
+  const kv = c.env.AGENT_KV;
+  if (!agentName || !kv) {
+    return c.json({ error: 'Custom domains are only available in multi-tenant mode' }, 400);
+  }
+
+  const hostname = normalizeHostname(c.req.param('hostname'));
+  if (!(await removeCustomDomain(kv, agentName, hostname))) {
+    return c.json({ error: `Domain ${hostname} is not claimed by this agent` }, 404);
+  }
+
+  log.info('Custom domain removed', { hostname });
+  return c.json({ success: true, hostname });
+});
+
+// GET /api/admin/rate-limits - Configured limits and this tenant's counters (owner only)
+adminApi.get('/rate-limits', async (c) => {
+  const limits = getRateLimits(c.env);
+  const namespace = c.env.RATE_LIMITER;
+  if (!namespace) {
+    return c.json({ enabled: false, limits });
+  }
+
+  try {
+    const stats = await getRateLimitStats(namespace, getSessionTenantId(c));
+    return c.json({ enabled: true, limits, ...stats });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 502);
+  }
+});
+
+// GET /api/admin/usage - Metered model usage per day and this month, with the tenant's caps
+adminApi.get('/usage', async (c) => {
+  const caps = c.get('tenantConfig')?.usageCaps ?? null;
+  const namespace = c.env.USAGE_METER;
+  if (!namespace || !isUsageMeteringEnabled(c.env)) {
+    return c.json({ enabled: false, caps });
+  }
+
+  const days = Math.min(Math.max(parseInt(c.req.query('days') || '30', 10) || 30, 1), 90);
+  try {
+    const summary = await getUsageSummary(namespace, getSessionTenantId(c), days);
+    return c.json({ enabled: true, caps, ...summary });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 502);
+  }
+});
+
+// GET /api/admin/connections - Open WebSocket connections through the proxy (operator)
+adminApi.get('/connections', async (c) => {
+  const namespace = c.env.CONNECTION_REGISTRY;
+  if (!namespace) {
+    return c.json({ enabled: false, connections: [] });
+  }
+
+  try {
+    const connections = await listConnections(namespace, getSessionTenantId(c));
+    return c.json({ enabled: true, connections });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 502);
+  }
+});
+
+// DELETE /api/admin/connections/:connectionId - Forcibly disconnect a connection (operator)
+adminApi.delete('/connections/:connectionId', async (c) => {
+  const namespace = c.env.CONNECTION_REGISTRY;
+  if (!namespace) {
+    return c.json({ error: 'Connection tracking is not enabled' }, 404);
+  }
+
+  const connectionId = c.req.param('connectionId');
+  try {
+    const disconnected = await disconnectConnection(namespace, getSessionTenantId(c), connectionId);
+    if (!disconnected) {
+      return c.json({ error: 'Connection not found' }, 404);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 502);
+  }
+
+  log.info('Connection disconnected', { connectionId, by: c.get('accessUser')?.name });
+  return c.json({ success: true, connectionId });
+});
+
+// GET /api/admin/sessions - List active wallet sessions (owner only)
+adminApi.get('/sessions', async (c) => {
+  const kv = getSessionStore(c.env);
+  if (!kv) {
+    return c.json({ enabled: false, sessions: [] });
+  }
+
+  const sessions = await listSessions(kv, getSessionTenantId(c));
+  return c.json({ enabled: true, sessions });
+});
+
+// DELETE /api/admin/sessions/:sessionId - Revoke a wallet session (owner only)
+adminApi.delete('/sessions/:sessionId', async (c) => {
+  const kv = getSessionStore(c.env);
+  if (!kv) {
+    return c.json({ error: 'Session store is not configured' }, 400);
+  }
+
+  const sessionId = c.req.param('sessionId');
+  const revoked = await revokeSession(kv, getSessionTenantId(c), sessionId);
+  if (!revoked) {
+    return c.json({ error: 'Session not found' }, 404);
+  }
+
+  log.info('Session revoked', { sessionId, by: c.get('accessUser')?.name });
+  return c.json({ success: true, sessionId });
+});
+
+// GET /api/admin/api-keys - List API keys (owner only, secrets are never returned)
+adminApi.get('/api-keys', async (c) => {
+  const keys = await listApiKeys(c.env, getSessionTenantId(c));
+  return c.json({ keys, scopes: API_KEY_SCOPES });
+});
+
+// POST /api/admin/api-keys - Create an API key (owner only); the key is only shown once
+adminApi.post('/api-keys', async (c) => {
+  let body: { name?: unknown; scopes?: unknown; expiresAt?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const validationError = validateApiKeyRequest(body);
+  if (validationError) {
+    return c.json({ error: validationError }, 400);
+  }
+
+  const user = c.get('accessUser');
+  const { key, secret } = await createApiKey(c.env, getSessionTenantId(c), {
+    name: body.name as string,
+    scopes: body.scopes as ApiKeyScope[],
+    expiresAt: (body.expiresAt as number | null) ?? undefined,
+    createdBy: user?.account || user?.email,
+  });
+
+  annotateAudit(c, { target: key.id, details: key.name });
+  log.info('API key created', { keyId: key.id, name: key.name, by: user?.name });
+  return c.json({ success: true, key, secret }, 201);
+});
+
+// DELETE /api/admin/api-keys/:keyId - Revoke an API key (owner only)
+adminApi.delete('/api-keys/:keyId', async (c) => {
+  const keyId = c.req.param('keyId');
+  const revoked = await revokeApiKey(c.env, getSessionTenantId(c), keyId);
+  if (!revoked) {
+    return c.json({ error: 'API key not found' }, 404);
+  }
+
+  log.info('API key revoked', { keyId, by: c.get('accessUser')?.name });
+  return c.json({ success: true, keyId });
+});
+
+// GET /api/admin/audit - List audit log entries, newest first (owner only)
+// Filters: actor, action (exact, or a prefix ending in '.'), result, since/until (ms)
+// Pagination: limit (default 50, max 200) and cursor (from the previous page)
+adminApi.get('/audit', async (c) => {
+  const query: AuditQuery = {
+    actor: c.req.query('actor') || undefined,
+    action: c.req.query('action') || undefined,
+    cursor: c.req.query('cursor') || undefined,
+  };
+
+  const result = c.req.query('result');
+  if (result) {
+    if (result !== 'success' && result !== 'failure') {
+      return c.json({ error: "result must be 'success' or 'failure'" }, 400);
+    }
+    query.result = result as AuditResult;
+  }
+
+  for (const name of ['since', 'until', 'limit'] as const) {
+    const raw = c.req.query(name);
+    if (!raw) continue;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+      return c.json({ error: `${name} must be a non-negative number` }, 400);
+    }
+    query[name] = value;
+  }
+
+  const page = await listAuditEntries(c.env.MOLTBOT_BUCKET, getSessionTenantId(c), query);
+  return c.json(page);
+});
+
+// GET /api/admin/audit/verify - Check the audit log hash chain for tampering (owner only)
+adminApi.get('/audit/verify', async (c) => {
+  const verification = await verifyAuditChain(c.env.MOLTBOT_BUCKET, getSessionTenantId(c));
+  return c.json(verification);
+});
+
 // Mount admin API routes under /admin
 api.route('/admin', adminApi);
 
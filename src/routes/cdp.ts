@@ -1,6 +1,9 @@
 import { Hono } from 'hono';
 import type { AppEnv, MoltbotEnv } from '../types';
 import puppeteer, { type Browser, type Page } from '@cloudflare/puppeteer';
+import { createLogger } from '../utils/logging';
+
+const log = createLogger('cdp');
 
 /**
  * CDP (Chrome DevTools Protocol) WebSocket shim
@@ -190,7 +193,7 @@ cdp.get('/', async (c) => {
 
   // Initialize CDP session asynchronously
   initCDPSession(server, c.env).catch((err) => {
-    console.error('[CDP] Failed to initialize session:', err);
+    log.error('Failed to initialize session', { error: err });
     server.close(1011, 'Failed to initialize browser session');
   });
 
@@ -397,9 +400,9 @@ async function initCDPSession(ws: WebSocket, env: MoltbotEnv): Promise<void> {
       },
     });
 
-    console.log('[CDP] Session initialized, targetId:', targetId);
+    log.info('Session initialized', { targetId });
   } catch (err) {
-    console.error('[CDP] Browser launch failed:', err);
+    log.error('Browser launch failed', { error: err });
     ws.close(1011, 'Browser launch failed');
     return;
   }
@@ -412,35 +415,35 @@ async function initCDPSession(ws: WebSocket, env: MoltbotEnv): Promise<void> {
     try {
       request = JSON.parse(event.data as string);
     } catch {
-      console.error('[CDP] Invalid JSON received');
+      log.error('Invalid JSON received');
       return;
     }
 
-    console.log('[CDP] Request:', request.method, request.params);
+    log.debug('Request', { method: request.method, params: request.params });
 
     try {
       const result = await handleCDPMethod(session, request.method, request.params || {}, ws);
       sendResponse(ws, request.id, result);
     } catch (err) {
-      console.error('[CDP] Method error:', request.method, err);
+      log.error('Method error', { method: request.method, error: err });
       sendError(ws, request.id, -32000, err instanceof Error ? err.message : 'Unknown error');
     }
   });
 
   // Handle close
   ws.addEventListener('close', async () => {
-    console.log('[CDP] WebSocket closed, cleaning up');
+    log.info('WebSocket closed, cleaning up');
     if (session) {
       try {
         await session.browser.close();
       } catch (err) {
-        console.error('[CDP] Error closing browser:', err);
+        log.error('Error closing browser', { error: err });
       }
     }
   });
 
   ws.addEventListener('error', (event) => {
-    console.error('[CDP] WebSocket error:', event);
+    log.error('WebSocket error', { error: (event as ErrorEvent).message });
   });
 }
 
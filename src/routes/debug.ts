@@ -1,6 +1,7 @@
 import { Hono } from 'hono';
 import type { AppEnv } from '../types';
 import { findExistingMoltbotProcess, waitForProcess } from '../gateway';
+import { getRequestId } from '../utils/logging';
 
 /**
  * Debug routes for inspecting container state
@@ -103,7 +104,8 @@ debug.get('/gateway-api', async (c) => {
 
   try {
     const url = `http://localhost:${MOLTBOT_PORT}${path}`;
-    const response = await sandbox.containerFetch(new Request(url), MOLTBOT_PORT);
+    const headers = { 'X-Request-Id': getRequestId() ?? crypto.randomUUID() };
+    const response = await sandbox.containerFetch(new Request(url, { headers }), MOLTBOT_PORT);
     const contentType = response.headers.get('content-type') || '';
 
     let body: string | object;
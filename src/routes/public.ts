@@ -1,9 +1,31 @@
 import { Hono } from 'hono';
 import type { AppEnv } from '../types';
 import { MOLTBOT_PORT } from '../config';
-import { findExistingMoltbotProcess, ensureMoltbotGateway } from '../gateway';
-import { verifyWalletProof, signWalletJWT, verifyWalletJWT } from '../auth';
+import { findExistingMoltbotProcess, ensureRequestGateway } from '../gateway';
+import {
+  verifyWalletProof,
+  verifyWalletJWT,
+  isWalletAuthConfigured,
+  resolveAccountRole,
+  startWalletSession,
+  refreshWalletSession,
+  isWalletSessionActive,
+  extractRefreshToken,
+  extractJWT,
+  getSessionStore,
+  getSessionTenantId,
+  revokeSession,
+  revokeSessionByRefreshToken,
+  clearSessionCookies,
+  createLoginChallenge,
+  consumeLoginChallenge,
+  getChallengeScope,
+} from '../auth';
 import type { WalletProof } from '../auth';
+import { annotateAudit } from '../audit';
+import { createLogger } from '../utils/logging';
+
+const log = createLogger('public');
 
 /**
  * Public routes - NO Cloudflare Access authentication required
@@ -67,21 +89,21 @@ publicRoutes.post('/api/gateway/restart', async (c) => {
   if (!token || token !== expected) {
     return c.json({ error: 'Unauthorized' }, 401);
   }
+  annotateAudit(c, { actor: 'gateway-token' });
 
   const sandbox = c.get('sandbox');
   try {
     const existing = await findExistingMoltbotProcess(sandbox);
     if (existing) {
-      console.log('[restart] Killing gateway process:', existing.id);
+      log.info('Killing gateway process for restart', { processId: existing.id });
       await existing.kill();
       await new Promise((r) => setTimeout(r, 2000));
     }
 
     // Start new gateway in background
-    const tc = c.get('tenantConfig');
     c.executionCtx.waitUntil(
-      ensureMoltbotGateway(sandbox, c.env, tc, c.get('agentName') || 'moltbot').catch((err: Error) => {
-        console.error('[restart] Gateway restart failed:', err);
+      ensureRequestGateway(c).catch((err: Error) => {
+        log.error('Gateway restart failed', { error: err });
       }),
     );
 
@@ -105,10 +127,24 @@ publicRoutes.get('/_admin/assets/*', async (c) => {
 // WALLET AUTH ENDPOINTS (public — they ARE the auth)
 // =============================================================================
 
+// GET /api/auth/challenge — issue a single-use nonce to embed in the signed generateauth action
+publicRoutes.get('/api/auth/challenge', async (c) => {
+  if (!isWalletAuthConfigured(c.env, c.get('tenantConfig'))) {
+    return c.json({ error: 'Wallet auth not configured' }, 503);
+  }
+
+  const challenge = await createLoginChallenge(c.env, getChallengeScope(c));
+  c.header('Cache-Control', 'no-store');
+  return c.json(challenge);
+});
+
 // POST /api/auth/authorize — verify signed generateauth tx and issue JWT
 publicRoutes.post('/api/auth/authorize', async (c) => {
-  if (!c.env.XPR_OWNER_ACCOUNT) {
-    return c.json({ error: 'Wallet auth not configured (XPR_OWNER_ACCOUNT not set)' }, 503);
+  if (!isWalletAuthConfigured(c.env, c.get('tenantConfig'))) {
+    return c.json(
+      { error: 'Wallet auth not configured (XPR_OWNER_ACCOUNT or XPR_ALLOWED_ACCOUNTS not set)' },
+      503,
+    );
   }
 
   let proof: WalletProof;
@@ -121,43 +157,129 @@ publicRoutes.post('/api/auth/authorize', async (c) => {
   if (!proof.signer?.actor || !proof.transaction || !proof.signatures?.length) {
     return c.json({ error: 'Missing required fields: signer, transaction, signatures' }, 400);
   }
+  annotateAudit(c, { actor: proof.signer.actor });
 
-  // Check that the signer matches the configured owner account
-  if (proof.signer.actor !== c.env.XPR_OWNER_ACCOUNT) {
-    console.warn(
-      `[wallet-auth] Rejected auth from ${proof.signer.actor} — expected ${c.env.XPR_OWNER_ACCOUNT}`,
-    );
+  // Check that the signer is the owner or an allow-listed account
+  const role = resolveAccountRole(proof.signer.actor, c.env, c.get('tenantConfig'));
+  if (!role) {
+    log.warn('Rejected wallet auth — account not allowed', { actor: proof.signer.actor });
     return c.json(
       {
         success: false,
-        error: `Unauthorized account. Only ${c.env.XPR_OWNER_ACCOUNT} can access this gateway.`,
+        error: `Unauthorized account. ${proof.signer.actor} is not allowed to access this gateway.`,
       },
       403,
     );
   }
 
-  // Verify by pushing the signed tx to chain
+  // Verify the signed generateauth tx against the signer's permission keys
   const result = await verifyWalletProof(proof, c.env);
   if (!result.valid) {
     return c.json({ success: false, error: result.error || 'Verification failed' }, 401);
   }
 
-  // Issue JWT
-  const token = await signWalletJWT(proof.signer.actor, proof.signer.permission || 'active', c.env);
+  // The signed action must carry an unused challenge issued for this tenant/host
+  const challengeError = await consumeLoginChallenge(c.env, getChallengeScope(c), result.nonce);
+  if (challengeError) {
+    log.warn('Rejected wallet auth', { actor: proof.signer.actor, reason: challengeError });
+    return c.json({ success: false, error: challengeError }, 401);
+  }
+
+  // Start a session and issue access + refresh tokens
+  const issued = await startWalletSession(
+    c,
+    proof.signer.actor,
+    proof.signer.permission || 'active',
+    role,
+  );
+  annotateAudit(c, { target: issued.sessionId });
+  for (const cookie of issued.cookies) c.header('Set-Cookie', cookie, { append: true });
 
   return c.json({
     success: true,
     validated: true,
     actor: proof.signer.actor,
     permission: proof.signer.permission || 'active',
-    token,
+    role,
+    token: issued.token,
+    expiresIn: issued.expiresIn,
+    refreshToken: issued.refreshToken,
     timestamp: Date.now(),
   });
 });
 
+// POST /api/auth/refresh — rotate a refresh token and issue a new access token
+publicRoutes.post('/api/auth/refresh', async (c) => {
+  if (!getSessionStore(c.env)) {
+    return c.json({ error: 'Session refresh is not available (no session store)' }, 501);
+  }
+
+  let refreshToken = extractRefreshToken(c);
+  if (!refreshToken) {
+    try {
+      const body = await c.req.json<{ refreshToken?: string }>();
+      refreshToken = body.refreshToken || null;
+    } catch {
+      // no body
+    }
+  }
+
+  if (!refreshToken) {
+    return c.json({ success: false, error: 'No refresh token provided' }, 400);
+  }
+
+  const refreshed = await refreshWalletSession(c, refreshToken, (actor) =>
+    resolveAccountRole(actor, c.env, c.get('tenantConfig')),
+  );
+  if (!refreshed) {
+    for (const cookie of clearSessionCookies()) c.header('Set-Cookie', cookie, { append: true });
+    return c.json({ success: false, error: 'Invalid, expired or revoked refresh token' }, 401);
+  }
+
+  annotateAudit(c, { actor: refreshed.session.actor, target: refreshed.session.id });
+  for (const cookie of refreshed.cookies) c.header('Set-Cookie', cookie, { append: true });
+  return c.json({
+    success: true,
+    actor: refreshed.session.actor,
+    role: refreshed.session.role,
+    token: refreshed.token,
+    expiresIn: refreshed.expiresIn,
+    refreshToken: refreshed.refreshToken,
+  });
+});
+
+// POST /api/auth/logout — revoke the current session and clear cookies
+publicRoutes.post('/api/auth/logout', async (c) => {
+  const kv = getSessionStore(c.env);
+  let sessionId: string | undefined;
+
+  if (kv) {
+    // Identify the session from the access token, falling back to the refresh token
+    // (the access token may already have expired), whose secret must match the session's
+    const tenantId = getSessionTenantId(c);
+    const jwt = extractJWT(c);
+    const payload = jwt?.source === 'wallet' ? await verifyWalletJWT(jwt.token, c.env) : null;
+    const refreshToken = extractRefreshToken(c);
+    if (payload?.jti) {
+      sessionId = payload.jti;
+      await revokeSession(kv, tenantId, sessionId);
+    } else if (refreshToken) {
+      sessionId = (await revokeSessionByRefreshToken(kv, tenantId, refreshToken)) ?? undefined;
+    }
+
+    if (sessionId) {
+      annotateAudit(c, { actor: payload?.actor, target: sessionId });
+      log.info('Session logged out', { sessionId });
+    }
+  }
+
+  for (const cookie of clearSessionCookies()) c.header('Set-Cookie', cookie, { append: true });
+  return c.json({ success: true, revoked: !!sessionId });
+});
+
 // POST /api/auth/validate — validate an existing JWT
 publicRoutes.post('/api/auth/validate', async (c) => {
-  if (!c.env.XPR_OWNER_ACCOUNT) {
+  if (!isWalletAuthConfigured(c.env, c.get('tenantConfig'))) {
     return c.json({ error: 'Wallet auth not configured' }, 503);
   }
 
@@ -184,9 +306,21 @@ publicRoutes.post('/api/auth/validate', async (c) => {
     return c.json({ valid: false, error: 'Invalid or expired token' });
   }
 
+  if (!(await isWalletSessionActive(c, payload))) {
+    return c.json({ valid: false, error: 'Session has been revoked' });
+  }
+
+  // Re-check the allow-list so removed accounts are reported as invalid
+  const role = resolveAccountRole(payload.actor, c.env, c.get('tenantConfig'));
+  if (!role) {
+    return c.json({ valid: false, error: 'Account is no longer allowed' });
+  }
+
   return c.json({
     valid: true,
     actor: payload.actor,
+    role,
+    sessionId: payload.jti,
     expiresAt: payload.exp * 1000,
   });
 });
@@ -0,0 +1,308 @@
+import { Hono, type Context } from 'hono';
+import { getSandbox } from '@cloudflare/sandbox';
+import type { AppEnv } from '../types';
+import {
+  isValidAgentName,
+  getHostnameConfig,
+  loadTenantConfig,
+  saveTenantConfig,
+  deleteTenantConfig,
+  listTenantNames,
+  validateTenantConfig,
+  redactTenantConfig,
+  purgeTenantData,
+  rotateTenantSecrets,
+  TENANT_CONFIG_VERSION,
+  type TenantConfig,
+} from '../tenant';
+import { getUnenforcedCapsReason } from '../gateway/env';
+import { createLogger } from '../utils/logging';
+
+const log = createLogger('tenants');
+
+/**
+ * Tenant management API - create, update, suspend and delete agents in
+ * multi-tenant mode.
+ *
+ * Mounted before tenant resolution and the auth middleware in index.ts, so it
+ * works from any hostname and never boots a sandbox. Protected by the
+ * SUPER_ADMIN_TOKEN secret (`Authorization: Bearer <token>`); disabled when the
+ * secret or AGENT_KV is missing. Credentials in tenant configs are write-only.
+ */
+const tenants = new Hono<AppEnv>();
+
+// Super-admin auth for every tenant route
+tenants.use('*', async (c, next) => {
+  const expected = c.env.SUPER_ADMIN_TOKEN;
+  if (!expected) {
+    return c.json(
+      {
+        error: 'Tenant API not configured',
+        hint: 'Set SUPER_ADMIN_TOKEN via: wrangler secret put SUPER_ADMIN_TOKEN',
+      },
+      503,
+    );
+  }
+
+  const header = c.req.header('Authorization');
+  const provided = header?.startsWith('Bearer ') ? header.slice(7) : null;
+  if (!provided || !timingSafeEqual(provided, expected)) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  if (!c.env.AGENT_KV) {
+    return c.json({ error: 'Tenant management requires the AGENT_KV binding' }, 501);
+  }
+
+  await next();
+});
+
+// GET /api/tenants - List tenants (without credentials)
+tenants.get('/', async (c) => {
+  const kv = c.env.AGENT_KV!;
+  const names = await listTenantNames(kv);
+  const lookups = await Promise.all(names.map((name) => loadTenantConfig(c.env, name)));
+
+  return c.json({
+    tenants: names.map((name, i) => {
+      const lookup = lookups[i];
+      const config = lookup.status === 'found' ? lookup.config : undefined;
+      return {
+        name,
+        owner: config?.owner,
+        xprNetwork: config?.xprNetwork,
+        schemaVersion: config?.schemaVersion,
+        suspended: !!config?.suspended,
+        suspendedAt: config?.suspendedAt,
+        valid: !!config,
+      };
+    }),
+  });
+});
+
+// POST /api/tenants - Create a tenant; the name is the config's agentAccount
+// (schemaVersion defaults to the current version)
+tenants.post('/', async (c) => {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  if (body && typeof body === 'object' && !Array.isArray(body)) {
+    body = { schemaVersion: TENANT_CONFIG_VERSION, ...body };
+  }
+
+  const errors = validateTenantConfig(body);
+  if (errors.length > 0) {
+    return c.json({ error: 'Invalid tenant config', details: errors }, 400);
+  }
+
+  const config = body as TenantConfig;
+  const capsError = rejectUnenforcedCaps(c, config);
+  if (capsError) return capsError;
+  const name = config.agentAccount;
+  if (!isValidAgentName(name, getHostnameConfig(c.env).reservedSubdomains)) {
+    return c.json({ error: `Tenant name '${name}' is a reserved subdomain` }, 400);
+  }
+  const kv = c.env.AGENT_KV!;
+  if (await kv.get(`agent:${name}`)) {
+    return c.json({ error: `Tenant '${name}' already exists` }, 409);
+  }
+
+  await saveTenantConfig(c.env, name, config);
+  log.info('Created tenant', { name });
+  return c.json({ success: true, name, config: redactTenantConfig(config) }, 201);
+});
+
+// POST /api/tenants/rotate-keys - Re-encrypt every tenant's credentials with TENANT_MASTER_KEY
+// (also encrypts legacy plaintext records)
+tenants.post('/rotate-keys', async (c) => {
+  if (!c.env.TENANT_MASTER_KEY) {
+    return c.json({ error: 'TENANT_MASTER_KEY is not set' }, 400);
+  }
+
+  const result = await rotateTenantSecrets(c.env);
+  log.info('Key rotation finished', {
+    rotated: result.rotated.length,
+    migrated: result.migrated.length,
+    failed: result.failed.length,
+  });
+  return c.json(
+    { success: result.failed.length === 0, ...result },
+    result.failed.length ? 500 : 200,
+  );
+});
+
+// GET /api/tenants/:name - Get a tenant's config (credentials redacted)
+tenants.get('/:name', async (c) => {
+  const name = c.req.param('name');
+  const found = await findTenant(c, name);
+  if (!found.config) return found.error;
+  return c.json({ name, config: redactTenantConfig(found.config) });
+});
+
+// PATCH /api/tenants/:name - Update fields of a tenant's config (null removes a field)
+tenants.patch('/:name', async (c) => {
+  const name = c.req.param('name');
+  const found = await findTenant(c, name);
+  if (!found.config) return found.error;
+
+  let changes: Record<string, unknown>;
+  try {
+    changes = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+    return c.json({ error: 'Body must be an object of fields to change' }, 400);
+  }
+  if (changes.agentAccount !== undefined && changes.agentAccount !== name) {
+    return c.json({ error: 'agentAccount cannot be changed' }, 400);
+  }
+
+  const merged: Record<string, unknown> = { ...found.config, ...changes };
+  for (const [field, value] of Object.entries(merged)) {
+    if (value === null) delete merged[field];
+  }
+
+  const errors = validateTenantConfig(merged);
+  if (errors.length > 0) {
+    return c.json({ error: 'Invalid tenant config', details: errors }, 400);
+  }
+
+  const config = merged as unknown as TenantConfig;
+  const capsError = rejectUnenforcedCaps(c, config);
+  if (capsError) return capsError;
+
+  await saveTenantConfig(c.env, name, config);
+  log.info('Updated tenant', { name, fields: Object.keys(changes) });
+  return c.json({ success: true, name, config: redactTenantConfig(config) });
+});
+
+// POST /api/tenants/:name/suspend - Suspend a tenant and stop its sandbox
+tenants.post('/:name/suspend', async (c) => {
+  const name = c.req.param('name');
+  const found = await findTenant(c, name);
+  if (!found.config) return found.error;
+
+  let reason: string | undefined;
+  try {
+    const body = await c.req.json<{ reason?: unknown }>();
+    if (typeof body.reason === 'string' && body.reason.trim()) reason = body.reason.trim();
+  } catch {
+    // no body
+  }
+
+  await saveTenantConfig(c.env, name, {
+    ...found.config,
+    suspended: true,
+    suspendedAt: Date.now(),
+    suspendedReason: reason,
+  });
+
+  // The sandbox is no longer reachable; stop the container so it stops billing
+  c.executionCtx.waitUntil(
+    getSandbox(c.env.Sandbox, name)
+      .destroy()
+      .catch((err: Error) => log.error('Failed to stop sandbox', { name, error: err })),
+  );
+
+  log.info('Suspended tenant', { name, reason });
+  return c.json({ success: true, name, suspended: true });
+});
+
+// POST /api/tenants/:name/resume - Lift a suspension (the sandbox boots on the next request)
+tenants.post('/:name/resume', async (c) => {
+  const name = c.req.param('name');
+  const found = await findTenant(c, name);
+  if (!found.config) return found.error;
+
+  const resumed: TenantConfig = { ...found.config };
+  delete resumed.suspended;
+  delete resumed.suspendedAt;
+  delete resumed.suspendedReason;
+  await saveTenantConfig(c.env, name, resumed);
+
+  log.info('Resumed tenant', { name });
+  return c.json({ success: true, name, suspended: false });
+});
+
+// DELETE /api/tenants/:name - Destroy the sandbox and delete all of the tenant's data
+tenants.delete('/:name', async (c) => {
+  const name = c.req.param('name');
+  if (!isValidAgentName(name)) {
+    return c.json({ error: `Invalid tenant name: ${name}` }, 400);
+  }
+
+  const kv = c.env.AGENT_KV!;
+  if (!(await kv.get(`agent:${name}`))) {
+    return c.json({ error: `Tenant '${name}' not found` }, 404);
+  }
+
+  // Remove the config first so no new request can boot the sandbox again
+  await deleteTenantConfig(kv, name);
+
+  try {
+    await getSandbox(c.env.Sandbox, name).destroy();
+  } catch (err) {
+    log.error('Failed to destroy sandbox', { name, error: err });
+  }
+
+  const deleted = await purgeTenantData(c.env, name);
+  log.info('Deleted tenant', { name, objects: deleted.objects, keys: deleted.keys });
+  return c.json({ success: true, name, deleted });
+});
+
+/**
+ * Load a tenant's config, or the response to send when it is missing (404) or
+ * its stored record is invalid (422, with the validation errors).
+ */
+async function findTenant(
+  c: Context<AppEnv>,
+  name: string,
+): Promise<{ config: TenantConfig; error?: undefined } | { config?: undefined; error: Response }> {
+  const lookup = await loadTenantConfig(c.env, name);
+  if (lookup.status === 'missing') {
+    return { error: c.json({ error: `Tenant '${name}' not found` }, 404) };
+  }
+  if (lookup.status === 'invalid') {
+    return {
+      error: c.json(
+        { error: `Tenant '${name}' has an invalid config`, details: lookup.errors },
+        422,
+      ),
+    };
+  }
+  return { config: lookup.config };
+}
+
+/**
+ * The 400 response for usage caps the worker could not enforce for this
+ * config, or null if they are enforced (or absent).
+ */
+function rejectUnenforcedCaps(c: Context<AppEnv>, config: TenantConfig): Response | null {
+  const reason = getUnenforcedCapsReason(config, c.env);
+  if (!reason) return null;
+  return c.json(
+    { error: 'Invalid tenant config', details: [{ field: 'usageCaps', message: reason }] },
+    400,
+  );
+}
+
+/**
+ * Constant-time string comparison to prevent timing attacks
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+export { tenants };
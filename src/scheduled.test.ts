@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runScheduledSnapshots } from './scheduled';
+import { createMockEnv, createMockKV, suppressConsole } from './test-utils';
+
+const { getSandboxMock, snapshots } = vi.hoisted(() => ({
+  getSandboxMock: vi.fn(),
+  snapshots: {
+    listSnapshots: vi.fn(),
+    createSnapshot: vi.fn(),
+    pruneSnapshots: vi.fn(),
+  },
+}));
+
+vi.mock('@cloudflare/sandbox', () => ({ getSandbox: getSandboxMock }));
+
+vi.mock('./gateway/snapshots', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./gateway/snapshots')>()),
+  ...snapshots,
+}));
+
+const config = {
+  schemaVersion: 3,
+  agentAccount: 'charliebot',
+  owner: 'alice',
+  xprAccount: 'charliebot',
+  xprPrivateKey: 'PVT_K1_secret',
+  xprNetwork: 'mainnet',
+  xprRpcEndpoint: 'https://proton.eosusa.io',
+  openclawHookToken: 'hook-secret',
+  moltbotGatewayToken: 'gateway-secret',
+  xprOwnerAccount: 'alice',
+};
+
+describe('runScheduledSnapshots', () => {
+  beforeEach(() => {
+    suppressConsole();
+    vi.resetAllMocks();
+    snapshots.listSnapshots.mockResolvedValue([]);
+    snapshots.pruneSnapshots.mockResolvedValue([]);
+  });
+
+  it('snapshots running containers only, without waking sleeping ones', async () => {
+    const states: Record<string, string> = { moltbot: 'stopped', charliebot: 'healthy' };
+    getSandboxMock.mockImplementation((_ns, id: string) => ({
+      id,
+      getState: vi.fn().mockResolvedValue({ status: states[id], lastChange: 0 }),
+    }));
+    const snapshot = { id: '2026-10-19T08-00-00Z', trigger: 'scheduled' };
+    snapshots.createSnapshot.mockResolvedValue({ success: true, snapshot });
+
+    const env = createMockEnv({
+      AGENT_KV: createMockKV({ 'agent:charliebot': JSON.stringify(config) }),
+    });
+    const now = new Date('2026-10-19T08:00:00Z');
+    await runScheduledSnapshots(env, now);
+
+    expect(snapshots.listSnapshots).toHaveBeenCalledTimes(1);
+    expect(snapshots.createSnapshot).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'charliebot' }),
+      expect.anything(),
+      'charliebot',
+      'scheduled',
+      now,
+    );
+    expect(snapshots.pruneSnapshots.mock.calls[0][4]).toEqual([snapshot]);
+  });
+
+  it('does nothing when scheduled snapshots are off', async () => {
+    await runScheduledSnapshots(createMockEnv({ SNAPSHOT_RETENTION: 'off' }));
+    expect(getSandboxMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Cron trigger handler.
+ *
+ * Hourly (see `triggers` in wrangler.jsonc), every sandbox whose container is
+ * running gets a scheduled snapshot if one is due, and its expired snapshots
+ * are pruned. Containers that are asleep are skipped rather than woken: their
+ * state cannot have changed since they went to sleep. Suspended tenants are
+ * skipped too.
+ */
+
+import { getSandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from './types';
+import {
+  createSnapshot,
+  getSnapshotRetention,
+  isSnapshotDue,
+  listSnapshots,
+  pruneSnapshots,
+  type SnapshotRetention,
+} from './gateway/snapshots';
+import { listTenantNames, loadTenantConfig, mergeTenantEnv } from './tenant';
+import { createLogger, runWithLogContext } from './utils/logging';
+
+const log = createLogger('scheduled');
+
+/** Container states in which a snapshot does not wake anything up */
+const RUNNING_STATES = new Set(['running', 'healthy']);
+
+/**
+ * Snapshot one sandbox if its container is running and a snapshot is due.
+ */
+export async function snapshotSandbox(
+  env: MoltbotEnv,
+  sandboxId: string,
+  retention: SnapshotRetention,
+  now: Date,
+): Promise<void> {
+  let sandboxEnv = env;
+  let tenantId: string | undefined;
+  if (sandboxId !== 'moltbot') {
+    const lookup = await loadTenantConfig(env, sandboxId);
+    if (lookup.status !== 'found' || lookup.config.suspended) return;
+    sandboxEnv = { ...env };
+    mergeTenantEnv(sandboxEnv, lookup.config);
+    tenantId = sandboxId;
+  }
+
+  const sandbox = getSandbox(env.Sandbox, sandboxId);
+  const state = await sandbox.getState();
+  if (!RUNNING_STATES.has(state.status)) return;
+
+  const snapshots = await listSnapshots(sandbox, sandboxEnv, tenantId);
+  if (isSnapshotDue(snapshots, retention, now)) {
+    const result = await createSnapshot(sandbox, sandboxEnv, tenantId, 'scheduled', now);
+    if (!result.success) {
+      log.warn('Scheduled snapshot failed', { error: result.error, details: result.details });
+      return;
+    }
+    snapshots.unshift(result.snapshot!);
+  }
+  await pruneSnapshots(sandbox, sandboxEnv, tenantId, retention, snapshots);
+}
+
+/**
+ * Take scheduled snapshots of every running sandbox.
+ */
+export async function runScheduledSnapshots(env: MoltbotEnv, now = new Date()): Promise<void> {
+  const retention = getSnapshotRetention(env);
+  if (!retention) return;
+
+  // The single-tenant sandbox also serves bare domains in multi-tenant mode
+  const sandboxIds = ['moltbot', ...(env.AGENT_KV ? await listTenantNames(env.AGENT_KV) : [])];
+  const results = await Promise.allSettled(
+    sandboxIds.map((sandboxId) =>
+      runWithLogContext({ tenant: sandboxId, route: 'scheduled snapshots' }, () =>
+        snapshotSandbox(env, sandboxId, retention, now),
+      ),
+    ),
+  );
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      log.error('Scheduled snapshot failed', { tenant: sandboxIds[i], error: result.reason });
+    }
+  });
+}
+
+/**
+ * Entry point for cron triggers.
+ */
+export async function handleScheduled(
+  _controller: ScheduledController,
+  env: MoltbotEnv,
+  ctx: ExecutionContext,
+): Promise<void> {
+  ctx.waitUntil(runScheduledSnapshots(env));
+}
@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Process } from '@cloudflare/sandbox';
+import {
+  GatewaySupervisor,
+  getGatewayHistory,
+  getSupervisorSettings,
+  probeGateway,
+  restartBackoffMs,
+  superviseGateway,
+  tailStderr,
+  DEFAULT_SUPERVISOR_SETTINGS,
+} from './supervisor';
+import { createMockEnv, createMockSandbox, suppressConsole } from './test-utils';
+
+const { getSandboxMock, ensureGatewayMock } = vi.hoisted(() => ({
+  getSandboxMock: vi.fn(),
+  ensureGatewayMock: vi.fn(),
+}));
+
+vi.mock('@cloudflare/sandbox', () => ({ getSandbox: getSandboxMock }));
+
+vi.mock('./gateway/process', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./gateway/process')>()),
+  ensureMoltbotGateway: ensureGatewayMock,
+}));
+
+/** In-memory stand-in for Durable Object storage with alarms */
+function createMockState(): DurableObjectState {
+  const data = new Map<string, unknown>();
+  let alarm: number | null = null;
+  const storage = {
+    get: async (key: string) => structuredClone(data.get(key)),
+    put: async (key: string, value: unknown) => {
+      data.set(key, structuredClone(value));
+    },
+    getAlarm: async () => alarm,
+    setAlarm: async (time: number) => {
+      alarm = time;
+    },
+  };
+  return { storage } as unknown as DurableObjectState;
+}
+
+function createSupervisorNamespace(supervisor: GatewaySupervisor): DurableObjectNamespace {
+  return {
+    idFromName: (name: string) => name,
+    get: () => ({
+      fetch: (input: string, init?: RequestInit) => supervisor.fetch(new Request(input, init)),
+    }),
+  } as unknown as DurableObjectNamespace;
+}
+
+function gatewayProcess(overrides: Partial<Process> = {}): Partial<Process> {
+  return {
+    id: 'gateway-1',
+    command: '/usr/local/bin/start-openclaw.sh',
+    status: 'running',
+    startTime: new Date(1000),
+    waitForPort: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+}
+
+describe('getSupervisorSettings', () => {
+  it('applies overrides and ignores invalid entries', () => {
+    suppressConsole();
+    expect(getSupervisorSettings(createMockEnv())).toEqual(DEFAULT_SUPERVISOR_SETTINGS);
+    expect(
+      getSupervisorSettings(
+        createMockEnv({
+          SUPERVISOR_SETTINGS: 'interval=30s,threshold=5,maxBackoff=1h,path=/health,backoff=x',
+        }),
+      ),
+    ).toEqual({
+      ...DEFAULT_SUPERVISOR_SETTINGS,
+      intervalMs: 30_000,
+      threshold: 5,
+      maxBackoffMs: 3_600_000,
+      healthPath: '/health',
+    });
+    expect(getSupervisorSettings(createMockEnv({ SUPERVISOR_SETTINGS: 'off' }))).toBeNull();
+  });
+});
+
+describe('restartBackoffMs', () => {
+  it('doubles per restart up to the maximum', () => {
+    const settings = { ...DEFAULT_SUPERVISOR_SETTINGS, backoffMs: 1000, maxBackoffMs: 5000 };
+    expect([1, 2, 3, 4].map((attempt) => restartBackoffMs(attempt, settings))).toEqual([
+      1000, 2000, 4000, 5000,
+    ]);
+  });
+});
+
+describe('tailStderr', () => {
+  it('keeps the last lines, redacted', () => {
+    const stderr = Array.from({ length: 30 }, (_, i) => `line ${i}`).join('\n');
+    expect(tailStderr(`${stderr}\nAuthorization: Bearer abc123\n`)?.split('\n')).toEqual([
+      ...Array.from({ length: 19 }, (_, i) => `line ${i + 11}`),
+      'Authorization: Bearer [REDACTED]',
+    ]);
+    expect(tailStderr('')).toBeUndefined();
+  });
+});
+
+describe('probeGateway', () => {
+  it('reports why the gateway is unhealthy', async () => {
+    const settings = DEFAULT_SUPERVISOR_SETTINGS;
+    expect(await probeGateway(createMockSandbox().sandbox, settings, 5)).toEqual({
+      at: 5,
+      ok: false,
+      failure: 'not_running',
+    });
+
+    const closed = gatewayProcess({
+      waitForPort: vi.fn().mockRejectedValue(new Error('timeout')),
+    });
+    expect(
+      await probeGateway(createMockSandbox({ processes: [closed] }).sandbox, settings, 5),
+    ).toEqual({
+      at: 5,
+      ok: false,
+      failure: 'port_closed',
+      error: 'timeout',
+      processId: 'gateway-1',
+    });
+
+    const unhealthy = gatewayProcess({
+      waitForPort: vi
+        .fn()
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('status 502')),
+    });
+    expect(
+      await probeGateway(createMockSandbox({ processes: [unhealthy] }).sandbox, settings, 5),
+    ).toMatchObject({ ok: false, failure: 'http_unhealthy', error: 'status 502' });
+
+    const healthy = gatewayProcess();
+    expect(
+      await probeGateway(createMockSandbox({ processes: [healthy] }).sandbox, settings, 5),
+    ).toEqual({ at: 5, ok: true, processId: 'gateway-1' });
+    expect(healthy.waitForPort).toHaveBeenLastCalledWith(18789, {
+      mode: 'http',
+      path: '/',
+      status: { min: 200, max: 499 },
+      timeout: 10_000,
+    });
+  });
+});
+
+describe('GatewaySupervisor', () => {
+  beforeEach(() => {
+    suppressConsole();
+    getSandboxMock.mockReset();
+    ensureGatewayMock.mockReset();
+  });
+
+  it('restarts a crashed gateway with backoff and records the history', async () => {
+    const crashed = gatewayProcess({
+      status: 'failed' as Process['status'],
+      exitCode: 1,
+      getLogs: vi.fn().mockResolvedValue({ stdout: '', stderr: 'Error: EADDRINUSE\n' }),
+    });
+    const { sandbox, listProcessesMock } = createMockSandbox({ processes: [crashed] });
+    getSandboxMock.mockReturnValue(sandbox);
+    ensureGatewayMock.mockRejectedValueOnce(new Error('Gateway failed to start'));
+
+    const env = createMockEnv({ SUPERVISOR_SETTINGS: 'threshold=2,backoff=1m' });
+    const state = createMockState();
+    const supervisor = new GatewaySupervisor(state, env);
+    const namespace = createSupervisorNamespace(supervisor);
+    await superviseGateway(namespace, 'moltbot');
+    expect(await state.storage.getAlarm()).not.toBeNull();
+
+    vi.useFakeTimers({ now: 0 });
+    try {
+      await supervisor.alarm(); // 1st failure
+      expect(ensureGatewayMock).not.toHaveBeenCalled();
+
+      vi.setSystemTime(60_000);
+      await supervisor.alarm(); // threshold reached: crash + failed restart
+      vi.setSystemTime(90_000);
+      await supervisor.alarm(); // within the 1m backoff
+      expect(ensureGatewayMock).toHaveBeenCalledTimes(1);
+
+      vi.setSystemTime(120_000);
+      await supervisor.alarm(); // backoff over: restart succeeds
+      expect(ensureGatewayMock).toHaveBeenCalledTimes(2);
+
+      listProcessesMock.mockResolvedValue([gatewayProcess({ id: 'gateway-2' })]);
+      vi.setSystemTime(180_000);
+      await supervisor.alarm();
+    } finally {
+      vi.useRealTimers();
+    }
+
+    const history = await getGatewayHistory(namespace, 'moltbot');
+    expect(history.events.map((event) => event.type)).toEqual([
+      'recovered',
+      'restart',
+      'restart_failed',
+      'crash',
+    ]);
+    expect(history.events[3]).toMatchObject({
+      at: 60_000,
+      reason: 'not_running',
+      exitCode: 1,
+      stderrTail: 'Error: EADDRINUSE',
+    });
+    expect(history.events[2]).toMatchObject({ attempt: 1, reason: 'Gateway failed to start' });
+    expect(history.events[1]).toMatchObject({ at: 120_000, attempt: 2 });
+    expect(history.events[0]).toMatchObject({ at: 180_000, durationMs: 120_000 });
+    expect(history.status).toMatchObject({
+      watching: true,
+      failures: 0,
+      restarts: 2,
+      nextRestartAt: 240_000,
+      lastProbe: { at: 180_000, ok: true, processId: 'gateway-2' },
+    });
+  });
+
+  it('stops supervising sandboxes that sleep', async () => {
+    const env = createMockEnv({ SANDBOX_SLEEP_AFTER: '10m' });
+    const supervisor = new GatewaySupervisor(createMockState(), env);
+    const namespace = createSupervisorNamespace(supervisor);
+    await superviseGateway(namespace, 'moltbot');
+
+    await supervisor.alarm();
+    expect(getSandboxMock).not.toHaveBeenCalled();
+    expect((await getGatewayHistory(namespace, 'moltbot')).status.watching).toBe(false);
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * Gateway health supervisor.
+ *
+ * Without it the gateway is only started when a request arrives, and a gateway
+ * that crashes or hangs stays down until someone visits. The GatewaySupervisor
+ * Durable Object, one instance per sandbox, wakes up on an alarm and probes the
+ * gateway: the process must be running, its port must accept connections and
+ * an HTTP health path must answer. After `threshold` failed probes in a row it
+ * records a crash (the reason, plus the exit code and stderr tail of the last
+ * gateway process) and restarts the gateway. Restarts back off exponentially
+ * from `backoff` up to `maxBackoff`; the backoff resets once the gateway has
+ * stayed healthy for `maxBackoff`.
+ *
+ * Sandboxes are registered the first time a worker isolate serves them. Only
+ * sandboxes that never sleep are supervised, since a probe would keep a
+ * sleeping sandbox awake; suspended or deleted tenants are dropped at the next
+ * alarm. Settings come from SUPERVISOR_SETTINGS, e.g.
+ * `interval=1m,threshold=3,backoff=30s,maxBackoff=30m,path=/`, or `off`.
+ * Supervision is disabled when the GATEWAY_SUPERVISOR binding is missing.
+ */
+
+import { getSandbox, type Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from './types';
+import { MOLTBOT_PORT } from './config';
+import {
+  ensureMoltbotGateway,
+  findExistingMoltbotProcess,
+  findLatestGatewayProcess,
+  killAllGatewayProcesses,
+} from './gateway/process';
+import { loadTenantConfig, mergeTenantEnv, type TenantConfig } from './tenant';
+import { createLogger, redactString } from './utils/logging';
+
+const log = createLogger('supervisor');
+
+export interface SupervisorSettings {
+  intervalMs: number; // time between probes
+  threshold: number; // failed probes in a row before a restart
+  backoffMs: number; // minimum time between restarts, doubled per restart
+  maxBackoffMs: number;
+  healthPath: string; // HTTP path probed on the gateway port
+}
+
+export const DEFAULT_SUPERVISOR_SETTINGS: SupervisorSettings = {
+  intervalMs: 60_000,
+  threshold: 3,
+  backoffMs: 30_000,
+  maxBackoffMs: 30 * 60_000,
+  healthPath: '/',
+};
+
+export type ProbeFailure = 'not_running' | 'port_closed' | 'http_unhealthy';
+
+export interface ProbeResult {
+  at: number; // ms
+  ok: boolean;
+  failure?: ProbeFailure;
+  error?: string;
+  processId?: string;
+}
+
+export type SupervisorEventType = 'crash' | 'restart' | 'restart_failed' | 'recovered';
+
+export interface SupervisorEvent {
+  at: number; // ms
+  type: SupervisorEventType;
+  reason?: string; // probe failure, or the error of a failed restart
+  error?: string; // probe error detail
+  exitCode?: number; // of the last gateway process, if it exited
+  stderrTail?: string; // redacted
+  attempt?: number; // restarts since the gateway was last stable
+  durationMs?: number; // of a restart, or of the outage when recovered
+}
+
+export interface SupervisorStatus {
+  sandboxId?: string;
+  watching: boolean;
+  failures: number; // failed probes in a row
+  restarts: number; // restarts since the gateway was last stable
+  downSince?: number; // set from the crash until the gateway recovers
+  lastRestartAt?: number;
+  nextRestartAt?: number; // earliest time for the next restart (backoff)
+  lastProbe?: ProbeResult;
+}
+
+export interface GatewayHistory {
+  status: SupervisorStatus;
+  events: SupervisorEvent[]; // newest first
+}
+
+/** Events kept per sandbox */
+const MAX_EVENTS = 100;
+
+/** stderr kept with a crash */
+const STDERR_TAIL_LINES = 20;
+const STDERR_TAIL_CHARS = 2000;
+
+const PORT_PROBE_TIMEOUT_MS = 5000;
+const HTTP_PROBE_TIMEOUT_MS = 10_000;
+
+/** Any response below 500 means the gateway is serving (auth errors included) */
+const HEALTHY_STATUS = { min: 200, max: 499 };
+
+const PERIOD_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000 };
+
+const DURATION_SETTINGS = new Set(['interval', 'backoff', 'maxBackoff']);
+
+const EMPTY_STATUS: SupervisorStatus = { watching: false, failures: 0, restarts: 0 };
+
+function parseDuration(value: string): number | null {
+  const match = value.match(/^(\d+)([smh])$/);
+  return match && Number(match[1]) > 0 ? Number(match[1]) * PERIOD_UNITS[match[2]] : null;
+}
+
+/**
+ * Parse SUPERVISOR_SETTINGS (`name=value` pairs) over the defaults. Returns
+ * null when supervision is turned off. Invalid entries are ignored.
+ */
+export function getSupervisorSettings(env: MoltbotEnv): SupervisorSettings | null {
+  const raw = env.SUPERVISOR_SETTINGS?.trim() ?? '';
+  if (raw === 'off') return null;
+
+  const settings = { ...DEFAULT_SUPERVISOR_SETTINGS };
+  for (const entry of raw.split(',')) {
+    const [name, value] = entry.trim().split('=');
+    if (!name || !value) continue;
+    if (DURATION_SETTINGS.has(name)) {
+      const ms = parseDuration(value);
+      if (ms === null) {
+        log.warn('Invalid duration in SUPERVISOR_SETTINGS', { entry });
+        continue;
+      }
+      if (name === 'interval') settings.intervalMs = ms;
+      else if (name === 'backoff') settings.backoffMs = ms;
+      else settings.maxBackoffMs = ms;
+    } else if (name === 'threshold' && /^\d+$/.test(value) && Number(value) >= 1) {
+      settings.threshold = Number(value);
+    } else if (name === 'path' && value.startsWith('/')) {
+      settings.healthPath = value;
+    } else {
+      log.warn('Invalid entry in SUPERVISOR_SETTINGS', { entry });
+    }
+  }
+  return settings;
+}
+
+/**
+ * Whether gateways are supervised: the binding exists and settings are not off.
+ */
+export function isSupervisorEnabled(env: MoltbotEnv): boolean {
+  return !!env.GATEWAY_SUPERVISOR && getSupervisorSettings(env) !== null;
+}
+
+/**
+ * Minimum time after the `attempt`-th restart before the next one.
+ */
+export function restartBackoffMs(attempt: number, settings: SupervisorSettings): number {
+  return Math.min(settings.backoffMs * 2 ** Math.max(0, attempt - 1), settings.maxBackoffMs);
+}
+
+/**
+ * The last lines of a process's stderr, redacted.
+ */
+export function tailStderr(stderr: string): string | undefined {
+  const tail = stderr
+    .trimEnd()
+    .split('\n')
+    .slice(-STDERR_TAIL_LINES)
+    .join('\n')
+    .slice(-STDERR_TAIL_CHARS);
+  return tail ? redactString(tail) : undefined;
+}
+
+/**
+ * Probe the gateway: running process, open port, healthy HTTP response.
+ */
+export async function probeGateway(
+  sandbox: Sandbox,
+  settings: SupervisorSettings,
+  now = Date.now(),
+): Promise<ProbeResult> {
+  const process = await findExistingMoltbotProcess(sandbox);
+  if (!process) return { at: now, ok: false, failure: 'not_running' };
+
+  const result = { at: now, processId: process.id };
+  try {
+    await process.waitForPort(MOLTBOT_PORT, { mode: 'tcp', timeout: PORT_PROBE_TIMEOUT_MS });
+  } catch (err) {
+    return { ...result, ok: false, failure: 'port_closed', error: errorMessage(err) };
+  }
+  try {
+    await process.waitForPort(MOLTBOT_PORT, {
+      mode: 'http',
+      path: settings.healthPath,
+      status: HEALTHY_STATUS,
+      timeout: HTTP_PROBE_TIMEOUT_MS,
+    });
+  } catch (err) {
+    return { ...result, ok: false, failure: 'http_unhealthy', error: errorMessage(err) };
+  }
+  return { ...result, ok: true };
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Exit code and stderr tail of the latest gateway process, for a crash event.
+ */
+async function describeLastGateway(
+  sandbox: Sandbox,
+): Promise<Pick<SupervisorEvent, 'exitCode' | 'stderrTail'>> {
+  const process = await findLatestGatewayProcess(sandbox);
+  if (!process) return {};
+  try {
+    const logs = await process.getLogs();
+    return { exitCode: process.exitCode ?? undefined, stderrTail: tailStderr(logs.stderr ?? '') };
+  } catch (err) {
+    log.warn('Could not read gateway logs', { processId: process.id, error: err });
+    return { exitCode: process.exitCode ?? undefined };
+  }
+}
+
+/**
+ * Durable Object that supervises one sandbox's gateway on an alarm.
+ */
+export class GatewaySupervisor implements DurableObject {
+  constructor(
+    private state: DurableObjectState,
+    private env: MoltbotEnv,
+  ) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (request.method === 'POST' && url.pathname === '/watch') {
+      const { sandboxId } = (await request.json()) as { sandboxId: string };
+      await this.watch(sandboxId);
+      return Response.json({ ok: true });
+    }
+    if (request.method === 'GET' && url.pathname === '/history') {
+      return Response.json(await this.history());
+    }
+    return new Response('Not found', { status: 404 });
+  }
+
+  async alarm(): Promise<void> {
+    const status = await this.loadStatus();
+    if (!status.watching || !status.sandboxId) return;
+    const sandboxId = status.sandboxId;
+    const slog = log.child({ sandboxId });
+
+    const settings = getSupervisorSettings(this.env);
+    const target = settings ? await this.resolveTarget(sandboxId) : null;
+    if (!settings || !target) {
+      slog.info('Stopped supervising gateway');
+      await this.saveStatus({ ...status, watching: false });
+      return;
+    }
+
+    const sandbox = getSandbox(target.env.Sandbox, sandboxId);
+    const now = Date.now();
+    const probe = await probeGateway(sandbox, settings, now);
+    status.lastProbe = probe;
+
+    if (probe.ok) {
+      if (status.downSince !== undefined) {
+        slog.info('Gateway recovered', { downMs: now - status.downSince });
+        await this.addEvent({ at: now, type: 'recovered', durationMs: now - status.downSince });
+        status.downSince = undefined;
+      }
+      status.failures = 0;
+      if (
+        status.lastRestartAt !== undefined &&
+        now - status.lastRestartAt >= settings.maxBackoffMs
+      ) {
+        status.restarts = 0;
+        status.lastRestartAt = undefined;
+        status.nextRestartAt = undefined;
+      }
+    } else {
+      status.failures++;
+      slog.warn('Gateway probe failed', {
+        failure: probe.failure,
+        error: probe.error,
+        failures: status.failures,
+      });
+      if (status.failures >= settings.threshold) {
+        if (status.downSince === undefined) {
+          status.downSince = now;
+          await this.addEvent({
+            at: now,
+            type: 'crash',
+            reason: probe.failure,
+            error: probe.error,
+            ...(await describeLastGateway(sandbox)),
+          });
+        }
+        if (status.nextRestartAt === undefined || now >= status.nextRestartAt) {
+          await this.restart(sandbox, target, status, settings, now);
+        }
+      }
+    }
+
+    await this.saveStatus(status);
+    await this.state.storage.setAlarm(Date.now() + settings.intervalMs);
+  }
+
+  private async restart(
+    sandbox: Sandbox,
+    target: { env: MoltbotEnv; tenantConfig?: TenantConfig },
+    status: SupervisorStatus,
+    settings: SupervisorSettings,
+    now: number,
+  ): Promise<void> {
+    const sandboxId = status.sandboxId!;
+    const attempt = status.restarts + 1;
+    status.restarts = attempt;
+    status.lastRestartAt = now;
+    status.nextRestartAt = now + restartBackoffMs(attempt, settings);
+
+    log.warn('Restarting gateway', { sandboxId, attempt });
+    try {
+      await killAllGatewayProcesses(sandbox);
+      await ensureMoltbotGateway(sandbox, target.env, target.tenantConfig, sandboxId);
+      status.failures = 0;
+      await this.addEvent({ at: now, type: 'restart', attempt, durationMs: Date.now() - now });
+    } catch (err) {
+      log.error('Gateway restart failed', { sandboxId, attempt, error: err });
+      await this.addEvent({
+        at: now,
+        type: 'restart_failed',
+        attempt,
+        reason: errorMessage(err),
+        ...(await describeLastGateway(sandbox)),
+      });
+    }
+  }
+
+  /**
+   * The env and tenant config to run a sandbox's gateway with, or null if it
+   * should not be supervised (missing, suspended or sleeping tenant).
+   */
+  private async resolveTarget(
+    sandboxId: string,
+  ): Promise<{ env: MoltbotEnv; tenantConfig?: TenantConfig } | null> {
+    if (sandboxId === 'moltbot') {
+      return sleeps(this.env) ? null : { env: this.env };
+    }
+    const lookup = await loadTenantConfig(this.env, sandboxId);
+    if (lookup.status !== 'found' || lookup.config.suspended) return null;
+    const env = { ...this.env };
+    mergeTenantEnv(env, lookup.config);
+    return sleeps(env, lookup.config) ? null : { env, tenantConfig: lookup.config };
+  }
+
+  private async watch(sandboxId: string): Promise<void> {
+    const settings = getSupervisorSettings(this.env);
+    if (!settings) return;
+    const status = await this.loadStatus();
+    if (status.watching && status.sandboxId === sandboxId) return;
+
+    log.info('Supervising gateway', { sandboxId });
+    await this.saveStatus({ ...status, sandboxId, watching: true });
+    if ((await this.state.storage.getAlarm()) === null) {
+      await this.state.storage.setAlarm(Date.now() + settings.intervalMs);
+    }
+  }
+
+  private async history(): Promise<GatewayHistory> {
+    const events = (await this.state.storage.get<SupervisorEvent[]>('events')) ?? [];
+    events.reverse();
+    return { status: await this.loadStatus(), events };
+  }
+
+  private async loadStatus(): Promise<SupervisorStatus> {
+    return (await this.state.storage.get<SupervisorStatus>('status')) ?? { ...EMPTY_STATUS };
+  }
+
+  private async saveStatus(status: SupervisorStatus): Promise<void> {
+    await this.state.storage.put('status', status);
+  }
+
+  private async addEvent(event: SupervisorEvent): Promise<void> {
+    const events = (await this.state.storage.get<SupervisorEvent[]>('events')) ?? [];
+    events.push(event);
+    await this.state.storage.put('events', events.slice(-MAX_EVENTS));
+  }
+}
+
+/** Sandboxes that sleep are not probed (see buildSandboxOptions in index.ts) */
+function sleeps(env: MoltbotEnv, tenantConfig?: TenantConfig): boolean {
+  const sleepAfter = tenantConfig?.sandboxSleepAfter || env.SANDBOX_SLEEP_AFTER || 'never';
+  return sleepAfter.toLowerCase() !== 'never';
+}
+
+/**
+ * Start supervising a sandbox's gateway. Idempotent.
+ */
+export async function superviseGateway(
+  namespace: DurableObjectNamespace,
+  sandboxId: string,
+): Promise<void> {
+  const stub = namespace.get(namespace.idFromName(sandboxId));
+  const response = await stub.fetch('https://gateway-supervisor/watch', {
+    method: 'POST',
+    body: JSON.stringify({ sandboxId }),
+  });
+  if (!response.ok) throw new Error(`Gateway supervisor returned ${response.status}`);
+}
+
+/**
+ * Read a sandbox's supervisor status and crash/restart history.
+ */
+export async function getGatewayHistory(
+  namespace: DurableObjectNamespace,
+  sandboxId: string,
+): Promise<GatewayHistory> {
+  const stub = namespace.get(namespace.idFromName(sandboxId));
+  const response = await stub.fetch('https://gateway-supervisor/history');
+  if (!response.ok) throw new Error(`Gateway supervisor returned ${response.status}`);
+  return response.json();
+}
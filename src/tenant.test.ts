@@ -0,0 +1,466 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  isValidAgentName,
+  resolveAgentFromHostname,
+  resolveAgentForHost,
+  getHostnameConfig,
+  validateTenantConfig,
+  parseTenantConfig,
+  loadTenantConfig,
+  redactTenantConfig,
+  purgeTenantData,
+  listTenantNames,
+  getTenantConfig,
+  saveTenantConfig,
+  rotateTenantSecrets,
+  type TenantConfig,
+} from './tenant';
+import { createMockEnv, createMockKV, createMockR2, suppressConsole } from './test-utils';
+
+const config: TenantConfig = {
+  schemaVersion: 3,
+  agentAccount: 'charliebot',
+  owner: 'alice',
+  xprAccount: 'charliebot',
+  xprPrivateKey: 'PVT_K1_secret',
+  xprNetwork: 'mainnet',
+  xprRpcEndpoint: 'https://proton.eosusa.io',
+  anthropicApiKey: 'sk-ant-secret',
+  openclawHookToken: 'hook-secret',
+  moltbotGatewayToken: 'gateway-secret',
+  xprOwnerAccount: 'alice',
+};
+
+describe('agent names', () => {
+  it('accepts EOSIO names and rejects reserved or invalid ones', () => {
+    expect(isValidAgentName('charliebot')).toBe(true);
+    expect(isValidAgentName('agent.x')).toBe(true);
+    expect(isValidAgentName('www')).toBe(false);
+    expect(isValidAgentName('Charlie')).toBe(false);
+    expect(isValidAgentName('toolongname123')).toBe(false);
+    expect(isValidAgentName('agent6')).toBe(false);
+  });
+
+  it('matches hostname resolution', () => {
+    expect(resolveAgentFromHostname('agent-x.xpragents.com')).toBe('agent.x');
+    expect(resolveAgentFromHostname('admin.xpragents.com')).toBeNull();
+  });
+
+  it('uses configured base domains and extra reserved subdomains', () => {
+    const hostnames = getHostnameConfig(
+      createMockEnv({
+        TENANT_BASE_DOMAINS: 'xpragents.com, agents.example.org',
+        TENANT_RESERVED_SUBDOMAINS: 'status',
+      }),
+    );
+
+    expect(resolveAgentFromHostname('charliebot.agents.example.org', hostnames)).toBe('charliebot');
+    expect(resolveAgentFromHostname('charliebot.xpragents.com:443', hostnames)).toBe('charliebot');
+    expect(resolveAgentFromHostname('charliebot.other.com', hostnames)).toBeNull();
+    expect(resolveAgentFromHostname('a.charliebot.xpragents.com', hostnames)).toBeNull();
+    expect(resolveAgentFromHostname('status.xpragents.com', hostnames)).toBeNull();
+    expect(resolveAgentFromHostname('www.xpragents.com', hostnames)).toBeNull();
+    expect(resolveAgentFromHostname('status.xpragents.com')).toBe('status');
+  });
+
+  it('resolves verified custom domains before subdomains', async () => {
+    const kv = createMockKV({
+      'domain:bot.example.com': JSON.stringify({
+        hostname: 'bot.example.com',
+        agentName: 'charliebot',
+        verified: true,
+      }),
+      'domain:alice.example.com': JSON.stringify({
+        hostname: 'alice.example.com',
+        agentName: 'charliebot',
+        verified: false,
+      }),
+    });
+    const env = createMockEnv({ AGENT_KV: kv });
+
+    expect(await resolveAgentForHost(env, 'bot.example.com')).toBe('charliebot');
+    expect(await resolveAgentForHost(env, 'alice.example.com')).toBe('alice');
+    expect(await resolveAgentForHost(env, 'example.com')).toBeNull();
+  });
+});
+
+describe('validateTenantConfig', () => {
+  it('accepts a complete config', () => {
+    expect(validateTenantConfig(config)).toEqual([]);
+    expect(
+      validateTenantConfig({
+        ...config,
+        accounts: [{ account: 'bob', role: 'viewer' }],
+        sandboxSleepAfter: '10m',
+        suspended: true,
+      }),
+    ).toEqual([]);
+  });
+
+  it('reports missing, mistyped and unknown fields', () => {
+    const errors = validateTenantConfig({
+      ...config,
+      xprPrivateKey: undefined,
+      suspended: 'yes',
+      extra: 1,
+    });
+    expect(errors).toEqual([
+      { field: 'xprPrivateKey', message: 'xprPrivateKey is required' },
+      { field: 'suspended', message: 'suspended must be a boolean' },
+      { field: 'extra', message: 'Unknown field: extra' },
+    ]);
+  });
+
+  it('checks names, network, URLs and sleep durations', () => {
+    expect(
+      validateTenantConfig({
+        ...config,
+        agentAccount: 'www',
+        owner: 'Alice',
+        xprNetwork: 'devnet',
+        xprRpcEndpoint: 'ftp://example.com',
+        sandboxSleepAfter: 'soon',
+        backupEncryptionKey: 'short',
+      }),
+    ).toEqual(
+      [
+        'agentAccount must be a valid, non-reserved EOSIO name',
+        'owner must be a valid EOSIO name',
+        "xprNetwork must be 'mainnet' or 'testnet'",
+        'xprRpcEndpoint must be an http(s) URL',
+        "sandboxSleepAfter must be 'never' or a duration like '10m'",
+        'backupEncryptionKey must be 16-256 characters on one line',
+      ].map((message) => ({ field: message.split(' ')[0], message })),
+    );
+  });
+
+  it('reports each invalid account grant by index', () => {
+    expect(
+      validateTenantConfig({
+        ...config,
+        accounts: [{ account: 'bob', role: 'god' }, { account: 'bob', role: 'viewer' }, 'carol'],
+      }),
+    ).toEqual([
+      {
+        field: 'accounts[0].role',
+        message: "accounts[0].role must be 'owner', 'operator' or 'viewer'",
+      },
+      { field: 'accounts[1].account', message: 'Duplicate account: bob' },
+      { field: 'accounts[2]', message: 'accounts[2] must be an object' },
+    ]);
+    expect(validateTenantConfig([])).toEqual([{ field: '', message: 'config must be an object' }]);
+  });
+
+  it('requires the current schema version', () => {
+    expect(validateTenantConfig({ ...config, schemaVersion: 1 })).toEqual([
+      { field: 'schemaVersion', message: 'schemaVersion must be 3' },
+    ]);
+  });
+
+  it('accepts an ai block with fallbacks in place of anthropicApiKey', () => {
+    const withAi: Record<string, unknown> = {
+      ...config,
+      ai: {
+        provider: 'openai',
+        model: 'gpt-4o',
+        apiKey: 'sk-openai',
+        fallbacks: [{ provider: 'ai-gateway', model: 'workers-ai/@cf/meta/llama-3.3-70b' }],
+      },
+    };
+    delete withAi.anthropicApiKey;
+    expect(validateTenantConfig(withAi)).toEqual([]);
+  });
+
+  it('checks usage caps', () => {
+    expect(
+      validateTenantConfig({ ...config, usageCaps: { dailyUsd: 5, monthlyTokens: 1e6 } }),
+    ).toEqual([]);
+    expect(validateTenantConfig({ ...config, usageCaps: { dailyUsd: 0, weeklyUsd: 1 } })).toEqual([
+      { field: 'usageCaps.dailyUsd', message: 'usageCaps.dailyUsd must be a positive number' },
+      { field: 'usageCaps.weeklyUsd', message: 'Unknown field: usageCaps.weeklyUsd' },
+    ]);
+  });
+
+  it('checks pairing policies', () => {
+    const pairingPolicy = {
+      autoApprove: { sessionRole: 'owner', ipRanges: ['10.0.0.0/8', '2001:db8::/32'] },
+      notify: { telegramChatId: '-100123', discordChannelId: '987654321' },
+    };
+    expect(validateTenantConfig({ ...config, pairingPolicy })).toEqual([]);
+    expect(
+      validateTenantConfig({
+        ...config,
+        pairingPolicy: {
+          autoApprove: { sessionRole: 'admin', ipRanges: ['10.0.0.0/40'], hosts: [] },
+          notify: { discordChannelId: 'general' },
+        },
+      }),
+    ).toEqual([
+      {
+        field: 'pairingPolicy.autoApprove.sessionRole',
+        message: "pairingPolicy.autoApprove.sessionRole must be 'owner', 'operator' or 'viewer'",
+      },
+      {
+        field: 'pairingPolicy.autoApprove.ipRanges[0]',
+        message: 'pairingPolicy.autoApprove.ipRanges[0] must be an IP address or CIDR range',
+      },
+      {
+        field: 'pairingPolicy.autoApprove.hosts',
+        message: 'Unknown field: pairingPolicy.autoApprove.hosts',
+      },
+      {
+        field: 'pairingPolicy.notify.discordChannelId',
+        message: 'pairingPolicy.notify.discordChannelId must be a numeric ID',
+      },
+    ]);
+  });
+
+  it('reports invalid ai providers and fallbacks by path', () => {
+    expect(
+      validateTenantConfig({
+        ...config,
+        ai: {
+          provider: 'ai-gateway',
+          model: 'gpt-4o',
+          fallbacks: [
+            { provider: 'mistral', model: 'large', baseUrl: 'ftp://x' },
+            { provider: 'openai', model: 'gpt-4o', fallbacks: [] },
+          ],
+        },
+      }),
+    ).toEqual([
+      { field: 'ai.model', message: "ai.model must be 'provider/model-id' for ai-gateway" },
+      {
+        field: 'ai.fallbacks[0].provider',
+        message:
+          'ai.fallbacks[0].provider must be one of anthropic, openai, workers-ai, ai-gateway',
+      },
+      {
+        field: 'ai.fallbacks[0].baseUrl',
+        message: 'ai.fallbacks[0].baseUrl must be an http(s) URL',
+      },
+      { field: 'ai.fallbacks[1].fallbacks', message: 'Fallbacks cannot be nested' },
+    ]);
+  });
+});
+
+describe('parseTenantConfig', () => {
+  // A v1 record as written by the deploy service: no version, fields left implicit
+  const v1: Record<string, unknown> = { ...config };
+  for (const field of ['schemaVersion', 'agentAccount', 'owner', 'xprNetwork']) delete v1[field];
+
+  it('upgrades unversioned records, filling fields implied by the KV key', () => {
+    expect(parseTenantConfig(v1, 'charliebot')).toEqual({
+      ok: true,
+      config,
+      migratedFrom: 1,
+    });
+  });
+
+  it('upgrades v2 records without changing their fields', () => {
+    expect(parseTenantConfig({ ...config, schemaVersion: 2 }, 'charliebot')).toEqual({
+      ok: true,
+      config,
+      migratedFrom: 2,
+    });
+  });
+
+  it('leaves current records alone and tolerates unknown fields', () => {
+    expect(parseTenantConfig(config, 'charliebot')).toEqual({ ok: true, config });
+    expect(parseTenantConfig({ ...config, futureField: 1 }, 'charliebot').ok).toBe(true);
+  });
+
+  it('rejects records from a newer schema or for another agent', () => {
+    expect(parseTenantConfig({ ...config, schemaVersion: 4 }, 'charliebot')).toEqual({
+      ok: false,
+      errors: [{ field: 'schemaVersion', message: 'schemaVersion 4 is newer than supported (3)' }],
+    });
+    expect(parseTenantConfig(config, 'otherbot')).toEqual({
+      ok: false,
+      errors: [
+        { field: 'agentAccount', message: "agentAccount must match the agent name 'otherbot'" },
+      ],
+    });
+  });
+});
+
+describe('loadTenantConfig', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('distinguishes missing, invalid and found records', async () => {
+    const env = createMockEnv({
+      AGENT_KV: createMockKV({
+        'agent:charliebot': JSON.stringify(config),
+        'agent:brokenbot': '{not json',
+        'agent:partialbot': JSON.stringify({ agentAccount: 'partialbot', owner: 'alice' }),
+      }),
+    });
+
+    expect(await loadTenantConfig(env, 'nobody')).toEqual({ status: 'missing' });
+    expect(await loadTenantConfig(env, 'charliebot')).toEqual({ status: 'found', config });
+    expect(await loadTenantConfig(env, 'brokenbot')).toEqual({
+      status: 'invalid',
+      errors: [{ field: '', message: 'Record is not valid JSON' }],
+    });
+
+    const partial = await loadTenantConfig(env, 'partialbot');
+    expect(partial.status).toBe('invalid');
+    expect(partial.status === 'invalid' && partial.errors.map((e) => e.field)).toContain(
+      'xprPrivateKey',
+    );
+    expect(await getTenantConfig(env, 'partialbot')).toBeNull();
+  });
+
+  it('reports which schema version a record was migrated from', async () => {
+    const v1: Record<string, unknown> = { ...config };
+    delete v1.schemaVersion;
+    const env = createMockEnv({
+      AGENT_KV: createMockKV({ 'agent:charliebot': JSON.stringify(v1) }),
+    });
+    expect(await loadTenantConfig(env, 'charliebot')).toEqual({
+      status: 'found',
+      config,
+      migratedFrom: 1,
+    });
+  });
+});
+
+describe('redactTenantConfig', () => {
+  it('hides credentials but keeps other fields', () => {
+    const redacted = redactTenantConfig({ ...config, telegramBotToken: 'tg-secret' });
+    expect(redacted.xprPrivateKey).toBe('[REDACTED]');
+    expect(redacted.telegramBotToken).toBe('[REDACTED]');
+    expect(redacted.discordBotToken).toBeUndefined();
+    expect(redacted.owner).toBe('alice');
+    expect(config.xprPrivateKey).toBe('PVT_K1_secret');
+  });
+
+  it('hides only the API keys of the ai block', () => {
+    const redacted = redactTenantConfig({
+      ...config,
+      ai: {
+        provider: 'openai',
+        model: 'gpt-4o',
+        apiKey: 'sk-openai',
+        fallbacks: [{ provider: 'anthropic', model: 'claude-sonnet-4-5', apiKey: 'sk-ant' }],
+      },
+    });
+    expect(redacted.ai).toEqual({
+      provider: 'openai',
+      model: 'gpt-4o',
+      apiKey: '[REDACTED]',
+      fallbacks: [{ provider: 'anthropic', model: 'claude-sonnet-4-5', apiKey: '[REDACTED]' }],
+    });
+  });
+});
+
+describe('purgeTenantData', () => {
+  it("deletes only the tenant's R2 objects and KV records", async () => {
+    const env = createMockEnv({
+      MOLTBOT_BUCKET: createMockR2({
+        'charliebot/openclaw/config.json': '{}',
+        '_audit/charliebot/head.json': '{}',
+        'api-keys/charliebot/abc.json': '{}',
+        'pairing-tokens/charliebot/def.json': '{}',
+        'charliebot2/openclaw/config.json': '{}',
+      }),
+      AGENT_KV: createMockKV({
+        'agent:charliebot': '{}',
+        'session:charliebot:s1': '{}',
+        'apikey:charliebot:k1': '{}',
+        'pairtoken:charliebot:p1': '{}',
+        'session:other:s2': '{}',
+        'domain:bot.example.com': JSON.stringify({
+          hostname: 'bot.example.com',
+          agentName: 'charliebot',
+        }),
+        'domain:other.example.com': JSON.stringify({
+          hostname: 'other.example.com',
+          agentName: 'other',
+        }),
+      }),
+    });
+
+    expect(await purgeTenantData(env, 'charliebot')).toEqual({ objects: 4, keys: 4 });
+    expect(await env.AGENT_KV!.get('domain:other.example.com')).not.toBeNull();
+    expect(await env.MOLTBOT_BUCKET.get('charliebot2/openclaw/config.json')).not.toBeNull();
+    expect(await env.AGENT_KV!.get('session:other:s2')).not.toBeNull();
+    expect(await listTenantNames(env.AGENT_KV!)).toEqual(['charliebot']);
+  });
+});
+
+describe('encrypted tenant secrets', () => {
+  const KEY_A = btoa(String.fromCharCode(...new Uint8Array(32).fill(1)));
+  const KEY_B = btoa(String.fromCharCode(...new Uint8Array(32).fill(2)));
+
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('encrypts credentials at rest and decrypts them transparently', async () => {
+    const env = createMockEnv({ AGENT_KV: createMockKV(), TENANT_MASTER_KEY: KEY_A });
+    await saveTenantConfig(env, 'charliebot', config);
+
+    const raw = (await env.AGENT_KV!.get('agent:charliebot'))!;
+    expect(raw).not.toContain('PVT_K1_secret');
+    expect(raw).not.toContain('sk-ant-secret');
+    expect(JSON.parse(raw)).toMatchObject({ owner: 'alice', encryptedSecrets: { v: 1 } });
+
+    expect(await getTenantConfig(env, 'charliebot')).toEqual(config);
+  });
+
+  it('reads legacy plaintext records', async () => {
+    const env = createMockEnv({
+      AGENT_KV: createMockKV({ 'agent:charliebot': JSON.stringify(config) }),
+      TENANT_MASTER_KEY: KEY_A,
+    });
+    expect(await getTenantConfig(env, 'charliebot')).toEqual(config);
+  });
+
+  it('stores plaintext when no master key is set', async () => {
+    const env = createMockEnv({ AGENT_KV: createMockKV() });
+    await saveTenantConfig(env, 'charliebot', config);
+    expect(JSON.parse((await env.AGENT_KV!.get('agent:charliebot'))!)).toEqual(config);
+  });
+
+  it('returns null when the record cannot be decrypted', async () => {
+    const kv = createMockKV();
+    await saveTenantConfig(
+      createMockEnv({ AGENT_KV: kv, TENANT_MASTER_KEY: KEY_A }),
+      'charliebot',
+      config,
+    );
+
+    const env = createMockEnv({ AGENT_KV: kv, TENANT_MASTER_KEY: KEY_B });
+    expect(await getTenantConfig(env, 'charliebot')).toBeNull();
+  });
+
+  it('rotates records to the new master key and migrates plaintext ones', async () => {
+    const kv = createMockKV({
+      'agent:legacybot': JSON.stringify({ ...config, agentAccount: 'legacybot' }),
+    });
+    await saveTenantConfig(
+      createMockEnv({ AGENT_KV: kv, TENANT_MASTER_KEY: KEY_A }),
+      'charliebot',
+      config,
+    );
+
+    const env = createMockEnv({
+      AGENT_KV: kv,
+      TENANT_MASTER_KEY: KEY_B,
+      TENANT_MASTER_KEY_PREVIOUS: KEY_A,
+    });
+    expect(await rotateTenantSecrets(env)).toEqual({
+      rotated: ['charliebot'],
+      migrated: ['legacybot'],
+      failed: [],
+    });
+
+    // Readable with only the new key
+    const newOnly = createMockEnv({ AGENT_KV: kv, TENANT_MASTER_KEY: KEY_B });
+    expect(await getTenantConfig(newOnly, 'charliebot')).toEqual(config);
+    expect((await getTenantConfig(newOnly, 'legacybot'))?.xprPrivateKey).toBe('PVT_K1_secret');
+  });
+});
@@ -7,32 +7,113 @@
  *
  * In single-tenant mode (no AGENT_KV), behavior is unchanged — the sandbox
  * ID is fixed to 'moltbot' and all config comes from Worker secrets.
+ *
+ * When TENANT_MASTER_KEY is set, credential fields (TENANT_SECRET_FIELDS) are
+ * stored envelope-encrypted in an `encryptedSecrets` field; other fields stay
+ * readable. Legacy plaintext records are still accepted and are encrypted the
+ * next time they are saved or when keys are rotated (rotateTenantSecrets).
+ *
+ * Records carry a `schemaVersion`. Older records are upgraded on read by the
+ * TENANT_CONFIG_MIGRATIONS chain and then validated, so a malformed record is
+ * reported as invalid instead of being handed to the sandbox.
  */
 
 import type { MoltbotEnv } from './types';
+import { formatAccountList, isAuthRole, type AccountGrant, type AuthRole } from './auth/roles';
+import {
+  loadMasterKeyring,
+  sealJson,
+  openJson,
+  isEncryptedEnvelope,
+  type EncryptedEnvelope,
+  type MasterKeyring,
+} from './utils/envelope';
+import { normalizeHostname, resolveCustomDomain, listCustomDomains } from './domains';
+import { isValidCidr } from './utils/ip';
+import { createLogger } from './utils/logging';
+
+const log = createLogger('tenant');
 
 /**
  * Per-agent configuration stored in KV.
  * Key format: `agent:{agentName}`
- * Must match KVAgentConfig in xpr-deploy-service/src/cloudflare.ts.
+ * When changing fields, bump TENANT_CONFIG_VERSION, add a migration and keep
+ * KVAgentConfig in xpr-deploy-service/src/cloudflare.ts in step.
  */
 export interface TenantConfig {
+  schemaVersion: number; // TENANT_CONFIG_VERSION; records without it are version 1
   agentAccount: string;
   owner: string;
   xprAccount: string;
   xprPrivateKey: string;
   xprNetwork: string;
   xprRpcEndpoint: string;
-  anthropicApiKey: string;
+  anthropicApiKey?: string; // Legacy shorthand for an anthropic ai block (ignored when ai is set)
+  ai?: TenantAiConfig; // Model provider routing; the worker's shared AI config is used when absent
+  usageCaps?: TenantUsageCaps; // Spending caps enforced by the metering proxy (see usage.ts)
+  pairingPolicy?: TenantPairingPolicy; // Device pairing requests to approve automatically (see pairing.ts)
   openclawHookToken: string;
   moltbotGatewayToken: string;
   xprOwnerAccount: string;
+  accounts?: AccountGrant[]; // Additional wallet accounts and their roles (owner is implicit)
   xprIndexerUrl?: string;
   sandboxSleepAfter?: string;
+  backupEncryptionKey?: string; // Encrypts this agent's R2 backups; cannot be changed once used
   telegramBotToken?: string;
   discordBotToken?: string;
   slackBotToken?: string;
   slackAppToken?: string;
+  suspended?: boolean; // Suspended agents get a notice page instead of a sandbox
+  suspendedAt?: number; // ms
+  suspendedReason?: string;
+}
+
+export const AI_PROVIDERS = ['anthropic', 'openai', 'workers-ai', 'ai-gateway'] as const;
+
+export type AiProvider = (typeof AI_PROVIDERS)[number];
+
+/**
+ * One model provider a tenant's agent can use. Missing credentials for
+ * 'workers-ai' and 'ai-gateway' fall back to the worker's shared Cloudflare
+ * settings (CF_ACCOUNT_ID, CF_AI_GATEWAY_*, CLOUDFLARE_AI_GATEWAY_API_KEY).
+ */
+export interface TenantAiProvider {
+  provider: AiProvider;
+  model: string; // 'ai-gateway' uses 'provider/model-id', e.g. 'openai/gpt-4o'
+  baseUrl?: string; // Overrides the provider's default endpoint
+  apiKey?: string;
+  accountId?: string; // Cloudflare account ('workers-ai', 'ai-gateway')
+  gatewayId?: string; // AI Gateway ID ('ai-gateway')
+}
+
+export interface TenantAiConfig extends TenantAiProvider {
+  fallbacks?: TenantAiProvider[]; // Tried in order when the primary model fails
+}
+
+/** Per UTC day and calendar month limits on metered model usage */
+export interface TenantUsageCaps {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+  dailyTokens?: number; // input + output
+  monthlyTokens?: number;
+}
+
+/**
+ * Device pairing requests the worker approves without an admin. A request is
+ * approved when any autoApprove rule matches; the rest stay pending and are
+ * announced on the notify channels.
+ */
+export interface TenantPairingPolicy {
+  autoApprove?: {
+    sessionRole?: AuthRole; // the connecting session has at least this role
+    ipRanges?: string[]; // CIDR ranges of the connecting client, e.g. '203.0.113.0/24'
+    clientModes?: string[]; // e.g. 'webchat', 'cli'
+    platforms?: string[]; // e.g. 'macos', 'ios'
+  };
+  notify?: {
+    telegramChatId?: string; // sent by the agent's Telegram bot
+    discordChannelId?: string; // sent by the agent's Discord bot
+  };
 }
 
 /**
@@ -43,35 +124,97 @@ export function isMultiTenant(env: MoltbotEnv): boolean {
   return !!env.AGENT_KV;
 }
 
-/** Subdomains that are NOT agent names (infrastructure, etc.) */
-const RESERVED_SUBDOMAINS = new Set([
+const EOSIO_NAME_RE = /^[a-z1-5.]{1,12}$/;
+
+/**
+ * Subdomains that are NOT agent names (infrastructure, etc.).
+ * TENANT_RESERVED_SUBDOMAINS adds more (see getHostnameConfig).
+ */
+export const DEFAULT_RESERVED_SUBDOMAINS = new Set([
   'www', 'deploy', 'api', 'app', 'admin', 'mail', 'smtp', 'imap',
   'ftp', 'ns1', 'ns2', 'cdn', 'static', 'assets', 'docs',
   'xpr-agent-sandbox', // workers.dev name
 ]);
 
+export interface HostnameConfig {
+  baseDomains: string[]; // agents are `{agent}.{base}`; empty = first label of any 3+ label host
+  reservedSubdomains: Set<string>;
+}
+
+const DEFAULT_HOSTNAME_CONFIG: HostnameConfig = {
+  baseDomains: [],
+  reservedSubdomains: DEFAULT_RESERVED_SUBDOMAINS,
+};
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Hostname routing settings from TENANT_BASE_DOMAINS and
+ * TENANT_RESERVED_SUBDOMAINS (both comma-separated).
+ */
+export function getHostnameConfig(env: MoltbotEnv): HostnameConfig {
+  const extraReserved = parseList(env.TENANT_RESERVED_SUBDOMAINS);
+  return {
+    baseDomains: parseList(env.TENANT_BASE_DOMAINS).map((d) => d.replace(/^\./, '')),
+    reservedSubdomains: extraReserved.length
+      ? new Set([...DEFAULT_RESERVED_SUBDOMAINS, ...extraReserved])
+      : DEFAULT_RESERVED_SUBDOMAINS,
+  };
+}
+
+/**
+ * Check that a name can be used as an agent name: a valid EOSIO name
+ * (1-12 chars, a-z.1-5) whose subdomain form is not reserved.
+ */
+export function isValidAgentName(
+  name: string,
+  reserved: Set<string> = DEFAULT_RESERVED_SUBDOMAINS,
+): boolean {
+  if (!EOSIO_NAME_RE.test(name)) return false;
+  return !reserved.has(name.replace(/\./g, '-'));
+}
+
 /**
  * Resolve agent name from hostname subdomain.
  * e.g., `charliebot.xpragents.com` → `"charliebot"`
  *
+ * With base domains configured, only `{agent}.{base}` hosts match. Otherwise
+ * the first label of any host with 3+ labels is used.
  * Returns null if no subdomain can be extracted (e.g., bare domain or workers.dev).
  */
-export function resolveAgentFromHostname(hostname: string): string | null {
+export function resolveAgentFromHostname(
+  hostname: string,
+  config: HostnameConfig = DEFAULT_HOSTNAME_CONFIG,
+): string | null {
   if (!hostname) return null;
 
   // Strip port if present
-  const host = hostname.split(':')[0];
+  const host = normalizeHostname(hostname);
 
-  // Match pattern: {agent}.xpragents.com or {agent}.{subdomain}.workers.dev
-  const parts = host.split('.');
+  let subdomain: string;
+  if (config.baseDomains.length > 0) {
+    // Match pattern: {agent}.{base}, where the agent is a single label
+    const base = config.baseDomains.find((d) => host.endsWith(`.${d}`));
+    if (!base) return null;
+    subdomain = host.slice(0, -(base.length + 1));
+    if (subdomain.includes('.')) return null;
+  } else {
+    // Match pattern: {agent}.xpragents.com or {agent}.{subdomain}.workers.dev
+    const parts = host.split('.');
 
-  // Need at least 3 parts: agent.domain.tld
-  if (parts.length < 3) return null;
+    // Need at least 3 parts: agent.domain.tld
+    if (parts.length < 3) return null;
 
-  const subdomain = parts[0];
+    subdomain = parts[0];
+  }
 
   // Skip reserved/infrastructure subdomains
-  if (RESERVED_SUBDOMAINS.has(subdomain)) return null;
+  if (config.reservedSubdomains.has(subdomain)) return null;
 
   // EOSIO names use dots (a-z, 1-5, .) but dots can't appear in subdomains,
   // so the deploy service replaces dots with hyphens in URLs.
@@ -79,29 +222,679 @@ export function resolveAgentFromHostname(hostname: string): string | null {
   const agentName = subdomain.includes('-') ? subdomain.replace(/-/g, '.') : subdomain;
 
   // Sanity check: must be a valid EOSIO name (1-12 chars, a-z.1-5)
-  if (!/^[a-z1-5.]{1,12}$/.test(agentName)) return null;
+  if (!isValidAgentName(agentName, config.reservedSubdomains)) return null;
 
   return agentName;
 }
 
 /**
- * Load tenant configuration from KV.
- * Returns null if tenant is not found.
+ * Resolve the agent for a request hostname: a verified custom domain mapped
+ * in KV wins, then the subdomain rules of resolveAgentFromHostname apply.
  */
-export async function getTenantConfig(
-  kv: KVNamespace,
+export async function resolveAgentForHost(
+  env: MoltbotEnv,
+  hostname: string,
+): Promise<string | null> {
+  if (env.AGENT_KV) {
+    const mapped = await resolveCustomDomain(env.AGENT_KV, hostname);
+    if (mapped) return mapped;
+  }
+  return resolveAgentFromHostname(hostname, getHostnameConfig(env));
+}
+
+/** Tenant config as stored in KV (credentials sealed unless it is a legacy record) */
+type StoredTenantConfig = Partial<TenantConfig> & { encryptedSecrets?: EncryptedEnvelope };
+
+function getTenantKeyring(env: MoltbotEnv): Promise<MasterKeyring> {
+  return loadMasterKeyring(env.TENANT_MASTER_KEY, env.TENANT_MASTER_KEY_PREVIOUS);
+}
+
+async function openTenantRecord(
+  keyring: MasterKeyring,
   agentName: string,
-): Promise<TenantConfig | null> {
+  stored: StoredTenantConfig,
+): Promise<TenantConfig> {
+  const { encryptedSecrets, ...fields } = stored;
+  if (encryptedSecrets === undefined) return fields as TenantConfig; // legacy plaintext
+  if (!isEncryptedEnvelope(encryptedSecrets)) throw new Error('Malformed encryptedSecrets');
+
+  const secrets = await openJson<Partial<TenantConfig>>(
+    keyring,
+    encryptedSecrets,
+    `agent:${agentName}`,
+  );
+  return { ...fields, ...secrets } as TenantConfig;
+}
+
+async function sealTenantRecord(
+  keyring: MasterKeyring,
+  agentName: string,
+  config: TenantConfig,
+): Promise<StoredTenantConfig> {
+  if (!keyring.current) return config;
+
+  const fields: Record<string, unknown> = { ...config };
+  const secrets: Record<string, unknown> = {};
+  for (const field of TENANT_SECRET_FIELDS) {
+    if (fields[field] === undefined) continue;
+    secrets[field] = fields[field];
+    delete fields[field];
+  }
+  return { ...fields, encryptedSecrets: await sealJson(keyring, secrets, `agent:${agentName}`) };
+}
+
+export type TenantConfigLookup =
+  | { status: 'found'; config: TenantConfig; migratedFrom?: number }
+  | { status: 'missing' }
+  | { status: 'invalid'; errors: TenantConfigError[] };
+
+/**
+ * Load tenant configuration from KV, decrypting its credentials and upgrading
+ * it to the current schema version. Distinguishes a missing record from one
+ * that cannot be read or fails validation. Migrated records are not written
+ * back here; callers decide whether to persist them with saveTenantConfig.
+ */
+export async function loadTenantConfig(
+  env: MoltbotEnv,
+  agentName: string,
+): Promise<TenantConfigLookup> {
+  const kv = env.AGENT_KV;
+  if (!kv) return { status: 'missing' };
+
   const key = `agent:${agentName}`;
   const raw = await kv.get(key);
-  if (!raw) return null;
+  if (!raw) return { status: 'missing' };
 
+  let record: TenantRecord;
   try {
-    return JSON.parse(raw) as TenantConfig;
+    const stored = JSON.parse(raw) as StoredTenantConfig;
+    if (!isRecord(stored)) throw new Error('config must be an object');
+    const keyring = await getTenantKeyring(env);
+    record = (await openTenantRecord(keyring, agentName, stored)) as unknown as TenantRecord;
+  } catch (err) {
+    let message = err instanceof Error ? err.message : String(err);
+    if (err instanceof SyntaxError) message = 'Record is not valid JSON';
+    log.error('Failed to read tenant config', { key, error: message });
+    return { status: 'invalid', errors: [{ field: '', message }] };
+  }
+
+  const result = parseTenantConfig(record, agentName);
+  if (!result.ok) {
+    log.error('Invalid tenant config', { key, errors: result.errors.map((e) => e.message) });
+    return { status: 'invalid', errors: result.errors };
+  }
+  return { status: 'found', config: result.config, migratedFrom: result.migratedFrom };
+}
+
+/**
+ * Load tenant configuration from KV (see loadTenantConfig).
+ * Returns null if tenant is not found or its record is invalid.
+ */
+export async function getTenantConfig(
+  env: MoltbotEnv,
+  agentName: string,
+): Promise<TenantConfig | null> {
+  const lookup = await loadTenantConfig(env, agentName);
+  return lookup.status === 'found' ? lookup.config : null;
+}
+
+/**
+ * Write tenant configuration back to KV, encrypting its credentials when
+ * TENANT_MASTER_KEY is set.
+ */
+export async function saveTenantConfig(
+  env: MoltbotEnv,
+  agentName: string,
+  config: TenantConfig,
+): Promise<void> {
+  if (!env.AGENT_KV) throw new Error('AGENT_KV is not bound');
+  const stored = await sealTenantRecord(await getTenantKeyring(env), agentName, config);
+  await env.AGENT_KV.put(`agent:${agentName}`, JSON.stringify(stored));
+}
+
+export interface TenantKeyRotationResult {
+  rotated: string[]; // re-encrypted under the current master key
+  migrated: string[]; // legacy plaintext records, now encrypted
+  failed: Array<{ name: string; error: string }>;
+}
+
+/**
+ * Re-encrypt every `agent:*` record with the current master key and fresh data
+ * keys. Records sealed under TENANT_MASTER_KEY_PREVIOUS and legacy plaintext
+ * records are both upgraded.
+ */
+export async function rotateTenantSecrets(env: MoltbotEnv): Promise<TenantKeyRotationResult> {
+  const kv = env.AGENT_KV;
+  if (!kv) throw new Error('AGENT_KV is not bound');
+  const keyring = await getTenantKeyring(env);
+  if (!keyring.current) throw new Error('TENANT_MASTER_KEY is not set');
+
+  const result: TenantKeyRotationResult = { rotated: [], migrated: [], failed: [] };
+  for (const name of await listTenantNames(kv)) {
+    try {
+      // eslint-disable-next-line no-await-in-loop -- one tenant at a time keeps KV writes ordered
+      const raw = await kv.get(`agent:${name}`);
+      if (!raw) continue;
+      const stored = JSON.parse(raw) as StoredTenantConfig;
+      // eslint-disable-next-line no-await-in-loop
+      const config = await openTenantRecord(keyring, name, stored);
+      // eslint-disable-next-line no-await-in-loop
+      const sealed = await sealTenantRecord(keyring, name, config);
+      // eslint-disable-next-line no-await-in-loop
+      await kv.put(`agent:${name}`, JSON.stringify(sealed));
+      (stored.encryptedSecrets ? result.rotated : result.migrated).push(name);
+    } catch (err) {
+      result.failed.push({ name, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return result;
+}
+
+/**
+ * Delete a tenant's configuration from KV.
+ */
+export async function deleteTenantConfig(kv: KVNamespace, agentName: string): Promise<void> {
+  await kv.delete(`agent:${agentName}`);
+}
+
+/**
+ * List the names of all tenants in KV.
+ */
+export async function listTenantNames(kv: KVNamespace): Promise<string[]> {
+  const names: string[] = [];
+  let cursor: string | undefined;
+  do {
+    // eslint-disable-next-line no-await-in-loop -- KV list pagination is sequential
+    const page = await kv.list({ prefix: 'agent:', cursor });
+    for (const key of page.keys) names.push(key.name.slice('agent:'.length));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return names;
+}
+
+/** Current TenantConfig schema version */
+export const TENANT_CONFIG_VERSION = 3;
+
+type TenantRecord = Record<string, unknown>;
+
+/**
+ * Upgrade steps from schema version N to N + 1, keyed by N. Steps only fill in
+ * or rename fields; the result is validated after the whole chain has run.
+ */
+const TENANT_CONFIG_MIGRATIONS: Record<
+  number,
+  (record: TenantRecord, agentName: string) => TenantRecord
+> = {
+  // v1: unversioned deploy-service records, which could omit fields implied by
+  // the KV key or by each other
+  1: (record, agentName) => ({
+    ...record,
+    agentAccount: record.agentAccount ?? agentName,
+    owner: record.owner ?? record.xprOwnerAccount,
+    xprOwnerAccount: record.xprOwnerAccount ?? record.owner,
+    xprNetwork: record.xprNetwork ?? 'mainnet',
+    schemaVersion: 2,
+  }),
+  // v2: anthropicApiKey was required; v3 makes it optional and adds the ai block
+  2: (record) => ({ ...record, schemaVersion: 3 }),
+};
+
+export interface TenantConfigError {
+  field: string; // e.g. 'xprNetwork' or 'accounts[1].role'
+  message: string;
+}
+
+export type TenantConfigResult =
+  | { ok: true; config: TenantConfig; migratedFrom?: number }
+  | { ok: false; errors: TenantConfigError[] };
+
+function isRecord(value: unknown): value is TenantRecord {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Upgrade a stored record to the current schema version and validate it.
+ * `migratedFrom` is set when the record was written by an older schema.
+ * Unknown fields are tolerated so a newer deploy service cannot take agents down.
+ */
+export function parseTenantConfig(value: unknown, agentName: string): TenantConfigResult {
+  if (!isRecord(value)) {
+    return { ok: false, errors: [{ field: '', message: 'config must be an object' }] };
+  }
+
+  const version = value.schemaVersion ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    const message = 'schemaVersion must be a positive integer';
+    return { ok: false, errors: [{ field: 'schemaVersion', message }] };
+  }
+  if (version > TENANT_CONFIG_VERSION) {
+    const message = `schemaVersion ${version} is newer than supported (${TENANT_CONFIG_VERSION})`;
+    return { ok: false, errors: [{ field: 'schemaVersion', message }] };
+  }
+
+  let record = value;
+  for (let v = version; v < TENANT_CONFIG_VERSION; v++) {
+    record = TENANT_CONFIG_MIGRATIONS[v](record, agentName);
+  }
+
+  const errors = validateTenantConfig(record, { allowUnknownFields: true });
+  if (record.agentAccount !== agentName && !errors.some((e) => e.field === 'agentAccount')) {
+    const message = `agentAccount must match the agent name '${agentName}'`;
+    errors.push({ field: 'agentAccount', message });
+  }
+  if (errors.length > 0) return { ok: false, errors };
+
+  const config = record as unknown as TenantConfig;
+  return version < TENANT_CONFIG_VERSION
+    ? { ok: true, config, migratedFrom: version }
+    : { ok: true, config };
+}
+
+type TenantField = keyof TenantConfig;
+
+/** Field types for TenantConfig validation (nested objects are checked separately) */
+const TENANT_CONFIG_SCHEMA: Record<
+  Exclude<TenantField, 'accounts' | 'ai' | 'usageCaps' | 'pairingPolicy'>,
+  { type: 'string' | 'boolean' | 'number'; required?: boolean }
+> = {
+  schemaVersion: { type: 'number', required: true },
+  agentAccount: { type: 'string', required: true },
+  owner: { type: 'string', required: true },
+  xprAccount: { type: 'string', required: true },
+  xprPrivateKey: { type: 'string', required: true },
+  xprNetwork: { type: 'string', required: true },
+  xprRpcEndpoint: { type: 'string', required: true },
+  anthropicApiKey: { type: 'string' },
+  openclawHookToken: { type: 'string', required: true },
+  moltbotGatewayToken: { type: 'string', required: true },
+  xprOwnerAccount: { type: 'string', required: true },
+  xprIndexerUrl: { type: 'string' },
+  sandboxSleepAfter: { type: 'string' },
+  backupEncryptionKey: { type: 'string' },
+  telegramBotToken: { type: 'string' },
+  discordBotToken: { type: 'string' },
+  slackBotToken: { type: 'string' },
+  slackAppToken: { type: 'string' },
+  suspended: { type: 'boolean' },
+  suspendedAt: { type: 'number' },
+  suspendedReason: { type: 'string' },
+};
+
+/** Fields that hold credentials and are never returned by the tenant API */
+export const TENANT_SECRET_FIELDS: TenantField[] = [
+  'xprPrivateKey',
+  'anthropicApiKey',
+  'ai', // holds API keys; the whole block is encrypted at rest
+  'openclawHookToken',
+  'moltbotGatewayToken',
+  'backupEncryptionKey',
+  'telegramBotToken',
+  'discordBotToken',
+  'slackBotToken',
+  'slackAppToken',
+];
+
+/**
+ * Backup keys are passed to `rclone obscure` on one line (see gateway/r2.ts).
+ */
+function isValidBackupEncryptionKey(value: string): boolean {
+  return value.length >= 16 && value.length <= 256 && !/[\r\n]/.test(value);
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
   } catch {
-    console.error(`[tenant] Failed to parse config for ${key}`);
-    return null;
+    return false;
+  }
+}
+
+/**
+ * Check the per-account grants of a tenant config, reporting each bad entry.
+ */
+function validateTenantAccounts(value: unknown): TenantConfigError[] {
+  if (!Array.isArray(value)) return [{ field: 'accounts', message: 'accounts must be an array' }];
+
+  const errors: TenantConfigError[] = [];
+  const seen = new Set<string>();
+  value.forEach((grant: unknown, i) => {
+    const field = `accounts[${i}]`;
+    if (!isRecord(grant)) {
+      errors.push({ field, message: `${field} must be an object` });
+      return;
+    }
+    if (typeof grant.account !== 'string' || !EOSIO_NAME_RE.test(grant.account)) {
+      const message = `${field}.account must be a valid EOSIO name`;
+      errors.push({ field: `${field}.account`, message });
+    } else if (seen.has(grant.account)) {
+      errors.push({ field: `${field}.account`, message: `Duplicate account: ${grant.account}` });
+    } else {
+      seen.add(grant.account);
+    }
+    if (!isAuthRole(grant.role)) {
+      errors.push({
+        field: `${field}.role`,
+        message: `${field}.role must be 'owner', 'operator' or 'viewer'`,
+      });
+    }
+  });
+  return errors;
+}
+
+const AI_PROVIDER_FIELDS = new Set([
+  'provider',
+  'model',
+  'baseUrl',
+  'apiKey',
+  'accountId',
+  'gatewayId',
+  'fallbacks',
+]);
+
+/**
+ * Check a provider entry of the ai block (credentials that may come from the
+ * worker env are checked by resolveAiProviders at request time).
+ */
+function validateTenantAiProvider(value: unknown, field: string): TenantConfigError[] {
+  if (!isRecord(value)) return [{ field, message: `${field} must be an object` }];
+
+  const errors: TenantConfigError[] = [];
+  if (!AI_PROVIDERS.includes(value.provider as AiProvider)) {
+    const message = `${field}.provider must be one of ${AI_PROVIDERS.join(', ')}`;
+    errors.push({ field: `${field}.provider`, message });
   }
+  if (typeof value.model !== 'string' || !value.model) {
+    errors.push({ field: `${field}.model`, message: `${field}.model is required` });
+  } else if (value.provider === 'ai-gateway' && !/^[^/]+\/.+/.test(value.model)) {
+    const message = `${field}.model must be 'provider/model-id' for ai-gateway`;
+    errors.push({ field: `${field}.model`, message });
+  }
+  for (const key of ['apiKey', 'accountId', 'gatewayId'] as const) {
+    if (value[key] !== undefined && typeof value[key] !== 'string') {
+      errors.push({ field: `${field}.${key}`, message: `${field}.${key} must be a string` });
+    }
+  }
+  const baseUrl = value.baseUrl;
+  if (baseUrl !== undefined && (typeof baseUrl !== 'string' || !isHttpUrl(baseUrl))) {
+    errors.push({ field: `${field}.baseUrl`, message: `${field}.baseUrl must be an http(s) URL` });
+  }
+  for (const key of Object.keys(value)) {
+    if (!AI_PROVIDER_FIELDS.has(key)) {
+      errors.push({ field: `${field}.${key}`, message: `Unknown field: ${field}.${key}` });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Check the ai block: the primary provider and its fallback chain.
+ */
+function validateTenantAi(value: unknown): TenantConfigError[] {
+  const errors = validateTenantAiProvider(value, 'ai');
+  if (!isRecord(value) || value.fallbacks === undefined) return errors;
+
+  if (!Array.isArray(value.fallbacks)) {
+    return [...errors, { field: 'ai.fallbacks', message: 'ai.fallbacks must be an array' }];
+  }
+  value.fallbacks.forEach((fallback: unknown, i) => {
+    const field = `ai.fallbacks[${i}]`;
+    errors.push(...validateTenantAiProvider(fallback, field));
+    if (isRecord(fallback) && fallback.fallbacks !== undefined) {
+      errors.push({ field: `${field}.fallbacks`, message: 'Fallbacks cannot be nested' });
+    }
+  });
+  return errors;
+}
+
+const USAGE_CAP_FIELDS = new Set(['dailyUsd', 'monthlyUsd', 'dailyTokens', 'monthlyTokens']);
+
+/**
+ * Check the usage caps: positive numbers for known caps only.
+ */
+function validateUsageCaps(value: unknown): TenantConfigError[] {
+  if (!isRecord(value)) return [{ field: 'usageCaps', message: 'usageCaps must be an object' }];
+
+  const errors: TenantConfigError[] = [];
+  for (const [key, cap] of Object.entries(value)) {
+    const field = `usageCaps.${key}`;
+    if (!USAGE_CAP_FIELDS.has(key)) {
+      errors.push({ field, message: `Unknown field: ${field}` });
+    } else if (typeof cap !== 'number' || !(cap > 0)) {
+      errors.push({ field, message: `${field} must be a positive number` });
+    }
+  }
+  return errors;
+}
+
+const PAIRING_LIST_FIELDS = ['ipRanges', 'clientModes', 'platforms'] as const;
+
+/**
+ * Check a pairing policy: known rules with well-formed values.
+ */
+export function validatePairingPolicy(
+  value: unknown,
+  field = 'pairingPolicy',
+): TenantConfigError[] {
+  if (!isRecord(value)) return [{ field, message: `${field} must be an object` }];
+
+  const errors: TenantConfigError[] = [];
+  for (const key of Object.keys(value)) {
+    if (key !== 'autoApprove' && key !== 'notify') {
+      errors.push({ field: `${field}.${key}`, message: `Unknown field: ${field}.${key}` });
+    }
+  }
+
+  const rules = value.autoApprove;
+  const rulesField = `${field}.autoApprove`;
+  if (rules !== undefined && !isRecord(rules)) {
+    errors.push({ field: rulesField, message: `${rulesField} must be an object` });
+  } else if (rules) {
+    for (const [key, rule] of Object.entries(rules)) {
+      const ruleField = `${rulesField}.${key}`;
+      if (key === 'sessionRole') {
+        if (!isAuthRole(rule)) {
+          const message = `${ruleField} must be 'owner', 'operator' or 'viewer'`;
+          errors.push({ field: ruleField, message });
+        }
+      } else if (!(PAIRING_LIST_FIELDS as readonly string[]).includes(key)) {
+        errors.push({ field: ruleField, message: `Unknown field: ${ruleField}` });
+      } else if (!Array.isArray(rule) || rule.some((item) => typeof item !== 'string' || !item)) {
+        errors.push({ field: ruleField, message: `${ruleField} must be an array of strings` });
+      } else if (key === 'ipRanges') {
+        rule.forEach((range: string, i) => {
+          if (!isValidCidr(range)) {
+            const message = `${ruleField}[${i}] must be an IP address or CIDR range`;
+            errors.push({ field: `${ruleField}[${i}]`, message });
+          }
+        });
+      }
+    }
+  }
+
+  const notify = value.notify;
+  const notifyField = `${field}.notify`;
+  if (notify !== undefined && !isRecord(notify)) {
+    errors.push({ field: notifyField, message: `${notifyField} must be an object` });
+  } else if (notify) {
+    for (const [key, target] of Object.entries(notify)) {
+      const targetField = `${notifyField}.${key}`;
+      if (key === 'telegramChatId') {
+        if (typeof target !== 'string' || !/^(-?\d+|@\w+)$/.test(target)) {
+          const message = `${targetField} must be a numeric chat ID or @channel`;
+          errors.push({ field: targetField, message });
+        }
+      } else if (key === 'discordChannelId') {
+        if (typeof target !== 'string' || !/^\d+$/.test(target)) {
+          errors.push({ field: targetField, message: `${targetField} must be a numeric ID` });
+        }
+      } else {
+        errors.push({ field: targetField, message: `Unknown field: ${targetField}` });
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate a tenant config at the current schema version (e.g. from a tenant
+ * API request body). Returns a list of problems, empty if the config is valid.
+ */
+export function validateTenantConfig(
+  value: unknown,
+  options: { allowUnknownFields?: boolean } = {},
+): TenantConfigError[] {
+  if (!isRecord(value)) {
+    return [{ field: '', message: 'config must be an object' }];
+  }
+  const config = value;
+  const errors: TenantConfigError[] = [];
+  const fail = (field: string, message: string) => errors.push({ field, message });
+
+  for (const [field, rule] of Object.entries(TENANT_CONFIG_SCHEMA)) {
+    const fieldValue = config[field];
+    if (fieldValue === undefined || fieldValue === null || fieldValue === '') {
+      if (rule.required) fail(field, `${field} is required`);
+      continue;
+    }
+    if (typeof fieldValue !== rule.type) fail(field, `${field} must be a ${rule.type}`);
+  }
+
+  if (!options.allowUnknownFields) {
+    for (const field of Object.keys(config)) {
+      const nested =
+        field === 'accounts' ||
+        field === 'ai' ||
+        field === 'usageCaps' ||
+        field === 'pairingPolicy';
+      if (!nested && !(field in TENANT_CONFIG_SCHEMA)) {
+        fail(field, `Unknown field: ${field}`);
+      }
+    }
+  }
+  if (config.accounts !== undefined) {
+    errors.push(...validateTenantAccounts(config.accounts));
+  }
+  if (config.ai !== undefined) {
+    errors.push(...validateTenantAi(config.ai));
+  }
+  if (config.usageCaps !== undefined) {
+    errors.push(...validateUsageCaps(config.usageCaps));
+  }
+  if (config.pairingPolicy !== undefined) {
+    errors.push(...validatePairingPolicy(config.pairingPolicy));
+  }
+  if (errors.length > 0) return errors;
+
+  if (config.schemaVersion !== TENANT_CONFIG_VERSION) {
+    fail('schemaVersion', `schemaVersion must be ${TENANT_CONFIG_VERSION}`);
+  }
+  if (!isValidAgentName(config.agentAccount as string)) {
+    fail('agentAccount', 'agentAccount must be a valid, non-reserved EOSIO name');
+  }
+  for (const field of ['owner', 'xprAccount', 'xprOwnerAccount'] as const) {
+    if (!EOSIO_NAME_RE.test(config[field] as string)) {
+      fail(field, `${field} must be a valid EOSIO name`);
+    }
+  }
+  if (config.xprNetwork !== 'mainnet' && config.xprNetwork !== 'testnet') {
+    fail('xprNetwork', "xprNetwork must be 'mainnet' or 'testnet'");
+  }
+  for (const field of ['xprRpcEndpoint', 'xprIndexerUrl'] as const) {
+    if (config[field] && !isHttpUrl(config[field] as string)) {
+      fail(field, `${field} must be an http(s) URL`);
+    }
+  }
+  const sleepAfter = config.sandboxSleepAfter as string | undefined;
+  if (sleepAfter && !/^(never|\d+[smh])$/i.test(sleepAfter)) {
+    fail('sandboxSleepAfter', "sandboxSleepAfter must be 'never' or a duration like '10m'");
+  }
+  const backupKey = config.backupEncryptionKey as string | undefined;
+  if (backupKey !== undefined && !isValidBackupEncryptionKey(backupKey)) {
+    fail('backupEncryptionKey', 'backupEncryptionKey must be 16-256 characters on one line');
+  }
+  return errors;
+}
+
+function redactAiProvider<T extends TenantAiProvider>(provider: T): T {
+  return provider.apiKey ? { ...provider, apiKey: '[REDACTED]' } : provider;
+}
+
+/**
+ * Copy of a tenant config with credentials replaced by a marker.
+ */
+export function redactTenantConfig(config: TenantConfig): TenantConfig {
+  const redacted = { ...config };
+  for (const field of TENANT_SECRET_FIELDS) {
+    if (field === 'ai') continue;
+    if (redacted[field]) (redacted as Record<string, unknown>)[field] = '[REDACTED]';
+  }
+  if (config.ai) {
+    // Keep the routing visible; only the keys are secret
+    redacted.ai = {
+      ...redactAiProvider(config.ai),
+      fallbacks: config.ai.fallbacks?.map(redactAiProvider),
+    };
+  }
+  return redacted;
+}
+
+/**
+ * Delete everything stored for a tenant outside its sandbox: R2 data under
+ * `{agentName}/`, `_audit/{agentName}/`, `api-keys/{agentName}/` and
+ * `pairing-tokens/{agentName}/`, and its sessions, API keys, pairing tokens
+ * and custom domains in KV. The `agent:` config record is left to
+ * deleteTenantConfig.
+ */
+export async function purgeTenantData(
+  env: MoltbotEnv,
+  agentName: string,
+): Promise<{ objects: number; keys: number }> {
+  let objects = 0;
+  for (const prefix of [
+    `${agentName}/`,
+    `_audit/${agentName}/`,
+    `api-keys/${agentName}/`,
+    `pairing-tokens/${agentName}/`,
+  ]) {
+    let cursor: string | undefined;
+    do {
+      // eslint-disable-next-line no-await-in-loop -- R2 list pagination is sequential
+      const page = await env.MOLTBOT_BUCKET.list({ prefix, cursor });
+      if (page.objects.length > 0) {
+        // eslint-disable-next-line no-await-in-loop
+        await env.MOLTBOT_BUCKET.delete(page.objects.map((o) => o.key));
+        objects += page.objects.length;
+      }
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+  }
+
+  let keys = 0;
+  const kv = env.AGENT_KV;
+  if (kv) {
+    for (const prefix of [
+      `session:${agentName}:`,
+      `apikey:${agentName}:`,
+      `pairtoken:${agentName}:`,
+    ]) {
+      let cursor: string | undefined;
+      do {
+        // eslint-disable-next-line no-await-in-loop -- KV list pagination is sequential
+        const page = await kv.list({ prefix, cursor });
+        // eslint-disable-next-line no-await-in-loop
+        await Promise.all(page.keys.map((k) => kv.delete(k.name)));
+        keys += page.keys.length;
+        cursor = page.list_complete ? undefined : page.cursor;
+      } while (cursor);
+    }
+
+    const domains = await listCustomDomains(kv, agentName);
+    await Promise.all(domains.map((d) => kv.delete(`domain:${d.hostname}`)));
+    keys += domains.length;
+  }
+
+  return { objects, keys };
 }
 
 /**
@@ -118,6 +911,8 @@ export function mergeTenantEnv(env: MoltbotEnv, config: TenantConfig): void {
   env.XPR_NETWORK = config.xprNetwork;
   env.XPR_RPC_ENDPOINT = config.xprRpcEndpoint;
   env.XPR_OWNER_ACCOUNT = config.xprOwnerAccount;
+  // Always overwrite so one tenant's allow-list never leaks into another's request
+  env.XPR_ALLOWED_ACCOUNTS = formatAccountList(config.accounts ?? []);
   if (config.xprIndexerUrl) env.XPR_INDEXER_URL = config.xprIndexerUrl;
   // Auth tokens
   env.OPENCLAW_HOOK_TOKEN = config.openclawHookToken;
@@ -129,6 +924,11 @@ export function mergeTenantEnv(env: MoltbotEnv, config: TenantConfig): void {
   if (config.discordBotToken) env.DISCORD_BOT_TOKEN = config.discordBotToken;
   if (config.slackBotToken) env.SLACK_BOT_TOKEN = config.slackBotToken;
   if (config.slackAppToken) env.SLACK_APP_TOKEN = config.slackAppToken;
+  // Always overwrite so the worker's own backup key never applies to a tenant. The
+  // env is the request's (or job's) own copy, so the key stays with this tenant
+  env.R2_ENCRYPTION_KEY = config.backupEncryptionKey;
+  // The pairing policy and its notifying bots are read from the config (pairing.ts)
+  env.PAIRING_POLICY = undefined;
   // Tenant marker (used by R2 sync for path isolation)
   env.TENANT_ID = config.agentAccount;
 }
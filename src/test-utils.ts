@@ -89,6 +89,96 @@ export function createMockSandbox(
   };
 }
 
+/**
+ * In-memory KVNamespace supporting get/put/delete/list (prefix + cursor-less paging).
+ */
+export function createMockKV(initial: Record<string, string> = {}): KVNamespace {
+  const store = new Map<string, string>(Object.entries(initial));
+
+  return {
+    get: vi.fn(async (key: string, type?: unknown) => {
+      const value = store.get(key) ?? null;
+      if (value !== null && (type === 'json' || (type as { type?: string })?.type === 'json')) {
+        return JSON.parse(value);
+      }
+      return value;
+    }),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    list: vi.fn(async (options: { prefix?: string } = {}) => ({
+      keys: [...store.keys()]
+        .filter((name) => name.startsWith(options.prefix ?? ''))
+        .map((name) => ({ name })),
+      list_complete: true,
+      cacheStatus: null,
+    })),
+  } as unknown as KVNamespace;
+}
+
+/**
+ * In-memory R2Bucket supporting get/put/delete/list (prefix, single page).
+ */
+export function createMockR2(initial: Record<string, string> = {}): R2Bucket {
+  const store = new Map<string, string>(Object.entries(initial));
+  const metadata = new Map<string, Record<string, string>>();
+
+  return {
+    get: vi.fn(async (key: string) => {
+      const value = store.get(key);
+      if (value === undefined) return null;
+      return {
+        key,
+        size: value.length,
+        customMetadata: metadata.get(key),
+        text: async () => value,
+        json: async () => JSON.parse(value),
+      };
+    }),
+    put: vi.fn(
+      async (
+        key: string,
+        value: string,
+        options: {
+          onlyIf?: { etagDoesNotMatch?: string };
+          customMetadata?: Record<string, string>;
+        } = {},
+      ) => {
+        // Conditional create: fail (null) when the object already exists
+        if (options.onlyIf?.etagDoesNotMatch === '*' && store.has(key)) return null;
+        store.set(key, value);
+        if (options.customMetadata) metadata.set(key, options.customMetadata);
+        return { key };
+      },
+    ),
+    delete: vi.fn(async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        store.delete(key);
+        metadata.delete(key);
+      }
+    }),
+    list: vi.fn(async (options: { prefix?: string; startAfter?: string; limit?: number } = {}) => {
+      const keys = [...store.keys()]
+        .filter((key) => key.startsWith(options.prefix ?? ''))
+        .filter((key) => !options.startAfter || key > options.startAfter);
+      keys.sort();
+      const limit = options.limit ?? 1000;
+      return {
+        objects: keys.slice(0, limit).map((key) => ({
+          key,
+          size: store.get(key)!.length,
+          customMetadata: metadata.get(key),
+        })),
+        truncated: keys.length > limit,
+        delimitedPrefixes: [],
+      };
+    }),
+  } as unknown as R2Bucket;
+}
+
 export function suppressConsole() {
   vi.spyOn(console, 'log').mockImplementation(() => {});
   vi.spyOn(console, 'error').mockImplementation(() => {});
@@ -1,5 +1,8 @@
 import type { Sandbox } from '@cloudflare/sandbox';
 import type { TenantConfig } from './tenant';
+import type { AuthRole } from './auth/roles';
+import type { ApiKeyScope } from './auth/api-keys';
+import type { AuditAnnotations } from './audit';
 
 /**
  * Environment bindings for the Moltbot Worker
@@ -9,6 +12,11 @@ export interface MoltbotEnv {
   ASSETS: Fetcher; // Assets binding for admin UI static files
   MOLTBOT_BUCKET: R2Bucket; // R2 bucket for persistent storage
   AGENT_KV?: KVNamespace; // KV namespace for multi-tenant agent configs (multi-tenant mode)
+  RATE_LIMITER?: DurableObjectNamespace; // Token buckets for request rate limiting (disabled when unbound)
+  USAGE_METER?: DurableObjectNamespace; // Per-tenant LLM usage counters (metering disabled when unbound)
+  GATEWAY_SUPERVISOR?: DurableObjectNamespace; // Per-sandbox gateway health probes and restarts (disabled when unbound)
+  CONNECTION_REGISTRY?: DurableObjectNamespace; // Per-tenant open WebSocket connections (tracking disabled when unbound)
+  CHALLENGE_LEDGER?: DurableObjectNamespace; // Per-tenant consumed wallet login challenges (per-isolate replay protection when unbound)
   // Cloudflare AI Gateway configuration (preferred)
   CF_AI_GATEWAY_ACCOUNT_ID?: string; // Cloudflare account ID for AI Gateway
   CF_AI_GATEWAY_GATEWAY_ID?: string; // AI Gateway ID
@@ -25,6 +33,7 @@ export interface MoltbotEnv {
   DEV_MODE?: string; // Set to 'true' for local dev (skips CF Access auth + openclaw device pairing)
   E2E_TEST_MODE?: string; // Set to 'true' for E2E tests (skips CF Access auth but keeps device pairing)
   DEBUG_ROUTES?: string; // Set to 'true' to enable /debug/* routes
+  LOG_LEVEL?: string; // debug, info (default), warn or error; also sets the gateway's log level
   SANDBOX_SLEEP_AFTER?: string; // How long before sandbox sleeps: 'never' (default), or duration like '10m', '1h'
   TELEGRAM_BOT_TOKEN?: string;
   TELEGRAM_DM_POLICY?: string;
@@ -39,11 +48,13 @@ export interface MoltbotEnv {
   R2_ACCESS_KEY_ID?: string;
   R2_SECRET_ACCESS_KEY?: string;
   R2_BUCKET_NAME?: string; // Override bucket name (default: 'moltbot-data')
+  R2_ENCRYPTION_KEY?: string; // Encrypt R2 backups (rclone crypt); per tenant from TenantConfig.backupEncryptionKey
+  PAIRING_POLICY?: string; // JSON device pairing policy (see pairing.ts); single-tenant only, tenants use TenantConfig.pairingPolicy
   CF_ACCOUNT_ID?: string; // Cloudflare account ID for R2 endpoint
   // Browser Rendering binding for CDP shim
   BROWSER?: Fetcher;
   CDP_SECRET?: string; // Shared secret for CDP endpoint authentication
-  WORKER_URL?: string; // Public URL of the worker (for CDP endpoint)
+  WORKER_URL?: string; // Public URL of the worker (for CDP endpoint and the AI metering proxy)
   // XPR Network agent configuration
   XPR_ACCOUNT?: string; // Agent's on-chain account name
   XPR_PRIVATE_KEY?: string; // Agent's private key for signing transactions
@@ -53,8 +64,19 @@ export interface MoltbotEnv {
   OPENCLAW_HOOK_TOKEN?: string; // Webhook auth token for indexer → agent communication
   // XPR wallet auth configuration
   XPR_OWNER_ACCOUNT?: string; // On-chain account allowed to access this gateway (wallet auth)
+  XPR_ALLOWED_ACCOUNTS?: string; // Extra wallet accounts with roles, e.g. 'alice:operator,bob:viewer'
   XPR_AUTH_RPC_ENDPOINT?: string; // RPC endpoint for auth tx verification (defaults to XPR_RPC_ENDPOINT)
   // Multi-tenant support
+  SUPER_ADMIN_TOKEN?: string; // Bearer token for the tenant management API (/api/tenants)
+  TENANT_MASTER_KEY?: string; // Base64 32-byte AES key that encrypts tenant credentials in KV
+  TENANT_MASTER_KEY_PREVIOUS?: string; // Previous master key(s), comma-separated, accepted during rotation
+  TENANT_CONFIG_WRITE_BACK?: string; // 'true' to save tenant configs upgraded from an older schema on read
+  TENANT_BASE_DOMAINS?: string; // Comma-separated domains agents are served under as {agent}.{domain}
+  RATE_LIMITS?: string; // Per route class overrides, e.g. "auth=5/1m,admin=off"
+  SUPERVISOR_SETTINGS?: string; // Gateway supervisor overrides, e.g. "interval=1m,threshold=3,backoff=30s,maxBackoff=30m,path=/" or "off"
+  SNAPSHOT_RETENTION?: string; // Scheduled R2 snapshots kept, e.g. "hourly=24,daily=7,manual=5" or "off"
+  AI_MODEL_PRICES?: string; // JSON price overrides for usage cost estimates, e.g. {"gpt-4o":{"input":2.5,"output":10}}
+  TENANT_RESERVED_SUBDOMAINS?: string; // Comma-separated subdomains that are never agent names (added to the defaults)
   TENANT_ID?: string; // Set by tenant middleware — used for R2 path isolation
 }
 
@@ -64,6 +86,9 @@ export interface MoltbotEnv {
 export interface AuthUser {
   email: string;
   name?: string;
+  role: AuthRole; // Access level (CF Access and dev users are always 'owner')
+  account?: string; // XPR account name (wallet auth only)
+  apiKey?: { id: string; scopes: ApiKeyScope[] }; // Set when authenticated with an API key
 }
 
 /**
@@ -76,6 +101,7 @@ export type AppEnv = {
     accessUser?: AuthUser;
     tenantConfig?: TenantConfig;
     agentName?: string;
+    auditAnnotations?: AuditAnnotations; // Extra fields for this request's audit entry
   };
 };
 
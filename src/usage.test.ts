@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import {
+  UsageMeter,
+  checkUsageCaps,
+  estimateCost,
+  extractTokenUsage,
+  getModelPrices,
+  getUsageSummary,
+  parseSseEvents,
+  recordUsage,
+  DEFAULT_MODEL_PRICES,
+  type UsageTotals,
+} from './usage';
+import { createMockEnv } from './test-utils';
+
+/** Sorted in-memory stand-in for Durable Object storage */
+function createMockState(): DurableObjectState {
+  const data = new Map<string, unknown>();
+  const storage = {
+    get: async (key: string) => data.get(key),
+    put: async (key: string, value: unknown) => {
+      data.set(key, structuredClone(value));
+    },
+    delete: async (keys: string[]) => keys.filter((key) => data.delete(key)).length,
+    list: async ({
+      prefix = '',
+      start = '',
+      end,
+    }: {
+      prefix?: string;
+      start?: string;
+      end?: string;
+    }) => {
+      const keys = [...data.keys()].filter(
+        (key) => key.startsWith(prefix) && key >= start && (end === undefined || key < end),
+      );
+      keys.sort();
+      return new Map(keys.map((key) => [key, structuredClone(data.get(key))]));
+    },
+  };
+  return { storage } as unknown as DurableObjectState;
+}
+
+/** Namespace with a single UsageMeter, whatever the tenant */
+function createMeterNamespace(state = createMockState()): DurableObjectNamespace {
+  const meter = new UsageMeter(state);
+  return {
+    idFromName: (name: string) => name,
+    get: () => ({
+      fetch: (input: string, init?: RequestInit) => meter.fetch(new Request(input, init)),
+    }),
+  } as unknown as DurableObjectNamespace;
+}
+
+const totals = (costUsd: number, tokens = 0): UsageTotals => ({
+  requests: 1,
+  inputTokens: tokens,
+  outputTokens: 0,
+  costUsd,
+});
+
+describe('estimateCost', () => {
+  it('prices by the longest matching model prefix', () => {
+    const tokens = { inputTokens: 1_000_000, outputTokens: 100_000 };
+    expect(estimateCost('gpt-4o-mini-2024-07-18', tokens, DEFAULT_MODEL_PRICES)).toBeCloseTo(0.21);
+    expect(estimateCost('anthropic/claude-sonnet-4-5', tokens, DEFAULT_MODEL_PRICES)).toBe(4.5);
+    expect(estimateCost('@cf/meta/llama-3.3-70b', tokens, DEFAULT_MODEL_PRICES)).toBe(0);
+  });
+
+  it('applies AI_MODEL_PRICES overrides', () => {
+    const prices = getModelPrices(
+      createMockEnv({ AI_MODEL_PRICES: '{"llama-3.3":{"input":1,"output":2}}' }),
+    );
+    expect(
+      estimateCost('@cf/meta/llama-3.3-70b', { inputTokens: 1e6, outputTokens: 1e6 }, prices),
+    ).toBe(3);
+  });
+});
+
+describe('extractTokenUsage', () => {
+  it('reads JSON responses from both APIs', () => {
+    expect(
+      extractTokenUsage([
+        { usage: { input_tokens: 10, cache_read_input_tokens: 90, output_tokens: 5 } },
+      ]),
+    ).toEqual({ inputTokens: 100, outputTokens: 5 });
+    expect(extractTokenUsage([{ usage: { prompt_tokens: 7, completion_tokens: 3 } }])).toEqual({
+      inputTokens: 7,
+      outputTokens: 3,
+    });
+    expect(extractTokenUsage([{ id: 'x' }])).toBeNull();
+  });
+
+  it('combines the usage events of an Anthropic stream', () => {
+    const stream = [
+      'event: message_start',
+      'data: {"type":"message_start","message":{"usage":{"input_tokens":25,"output_tokens":1}}}',
+      '',
+      'data: {"type":"content_block_delta","delta":{"text":"Hi"}}',
+      'data: {"type":"message_delta","usage":{"output_tokens":42}}',
+      'data: [DONE]',
+    ].join('\n');
+    expect(extractTokenUsage(parseSseEvents(stream))).toEqual({
+      inputTokens: 25,
+      outputTokens: 42,
+    });
+  });
+});
+
+describe('checkUsageCaps', () => {
+  const now = Date.UTC(2026, 9, 19, 12);
+
+  it('reports the first exceeded cap and when it resets', () => {
+    const usage = { today: totals(2), month: totals(40) };
+    expect(checkUsageCaps({ dailyUsd: 5, monthlyUsd: 50 }, usage, now)).toBeNull();
+    expect(checkUsageCaps({ dailyUsd: 2 }, usage, now)).toEqual({
+      message: 'Daily spending cap of $2.00 reached',
+      resetsAt: Date.UTC(2026, 9, 20),
+    });
+    expect(checkUsageCaps({ dailyUsd: 1, monthlyUsd: 40 }, usage, now)).toEqual({
+      message: 'Monthly spending cap of $40.00 reached',
+      resetsAt: Date.UTC(2026, 10, 1),
+    });
+    expect(
+      checkUsageCaps({ dailyTokens: 100 }, { today: totals(0, 100), month: totals(0) }, now),
+    ).toEqual({ message: 'Daily cap of 100 tokens reached', resetsAt: Date.UTC(2026, 9, 20) });
+  });
+});
+
+describe('UsageMeter', () => {
+  it('aggregates usage per day, per model and for the month', async () => {
+    const namespace = createMeterNamespace();
+    const now = Date.now();
+    const record = { inputTokens: 100, outputTokens: 20, costUsd: 0.5, at: now };
+    await recordUsage(namespace, 'charliebot', { model: 'gpt-4o', ...record });
+    await recordUsage(namespace, 'charliebot', { model: 'gpt-4o', ...record });
+    await recordUsage(namespace, 'charliebot', { model: 'claude-sonnet-4-5', ...record });
+
+    const summary = await getUsageSummary(namespace, 'charliebot', 7);
+    expect(summary.days).toHaveLength(7);
+    expect(summary.days[6].date).toBe(new Date(now).toISOString().slice(0, 10));
+    expect(summary.days[0]).toMatchObject({ requests: 0, costUsd: 0 });
+    expect(summary.today).toEqual({
+      requests: 3,
+      inputTokens: 300,
+      outputTokens: 60,
+      costUsd: 1.5,
+    });
+    expect(summary.month).toEqual(summary.today);
+    expect(summary.models['gpt-4o']).toEqual({
+      requests: 2,
+      inputTokens: 200,
+      outputTokens: 40,
+      costUsd: 1,
+    });
+  });
+
+  it('drops days past retention', async () => {
+    const state = createMockState();
+    const namespace = createMeterNamespace(state);
+    const old = Date.now() - 120 * 86_400_000;
+    await recordUsage(namespace, 'charliebot', {
+      model: 'gpt-4o',
+      inputTokens: 1,
+      outputTokens: 1,
+      costUsd: 1,
+      at: old,
+    });
+    await recordUsage(namespace, 'charliebot', {
+      model: 'gpt-4o',
+      inputTokens: 1,
+      outputTokens: 1,
+      costUsd: 1,
+      at: Date.now(),
+    });
+
+    const stored = await state.storage.list({ prefix: 'day:' });
+    expect([...stored.keys()]).toEqual([`day:${new Date().toISOString().slice(0, 10)}`]);
+  });
+});
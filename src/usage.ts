@@ -0,0 +1,351 @@
+/**
+ * Per-tenant LLM usage metering and spending caps.
+ *
+ * When metering is enabled (USAGE_METER bound, WORKER_URL and AGENT_KV set),
+ * a tenant's container does not call model providers directly. Its providers
+ * point at the worker's AI proxy (routes/ai-proxy.ts), which holds the real
+ * credentials, checks the tenant's caps, forwards the request and records the
+ * token counts from the response here.
+ *
+ * Usage is kept per UTC day in the UsageMeter Durable Object, one instance per
+ * tenant, for RETENTION_DAYS. Cost is an estimate from list prices per model
+ * (DEFAULT_MODEL_PRICES, overridable with AI_MODEL_PRICES); models without a
+ * price only count tokens. Caps are checked before each request, so requests
+ * already in flight can take a tenant slightly over its cap.
+ */
+
+import type { MoltbotEnv } from './types';
+import type { TenantUsageCaps } from './tenant';
+import { createLogger } from './utils/logging';
+
+const log = createLogger('usage');
+
+export interface TokenCounts {
+  inputTokens: number; // including prompt cache reads and writes
+  outputTokens: number;
+}
+
+export interface UsageTotals extends TokenCounts {
+  requests: number;
+  costUsd: number;
+}
+
+export interface DailyUsage extends UsageTotals {
+  date: string; // YYYY-MM-DD (UTC)
+  models: Record<string, UsageTotals>;
+}
+
+export interface UsageRecord extends TokenCounts {
+  model: string;
+  costUsd: number;
+  at: number; // ms
+}
+
+export interface UsageSummary {
+  today: UsageTotals;
+  month: UsageTotals;
+  days: DailyUsage[]; // oldest first, one entry per day including days without usage
+  models: Record<string, UsageTotals>; // this month
+}
+
+/** USD per million input and output tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices for common models, matched by the longest prefix of the model ID.
+ * Workers AI is billed in neurons and has no entry.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'claude-opus': { input: 15, output: 75 },
+  'claude-sonnet': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5': { input: 1.25, output: 10 },
+};
+
+/** Days of usage kept per tenant */
+const RETENTION_DAYS = 90;
+
+const DAY_PREFIX = 'day:';
+
+const EMPTY_TOTALS: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+
+/**
+ * Whether model requests are metered: needs the UsageMeter binding, the public
+ * worker URL the containers call, and tenant configs to look credentials up in.
+ */
+export function isUsageMeteringEnabled(env: MoltbotEnv): boolean {
+  return !!(env.USAGE_METER && env.WORKER_URL && env.AGENT_KV);
+}
+
+/**
+ * Base URL of an agent's AI proxy routes, or null when metering is disabled.
+ */
+export function getAiProxyBaseUrl(env: MoltbotEnv, agentName: string): string | null {
+  if (!isUsageMeteringEnabled(env)) return null;
+  return `${env.WORKER_URL!.replace(/\/+$/, '')}/api/ai-proxy/${agentName}`;
+}
+
+/**
+ * Model prices: the defaults plus AI_MODEL_PRICES, a JSON object of
+ * `{ "model-prefix": { "input": 3, "output": 15 } }` (USD per million tokens).
+ */
+export function getModelPrices(env: MoltbotEnv): Record<string, ModelPrice> {
+  if (!env.AI_MODEL_PRICES) return DEFAULT_MODEL_PRICES;
+  try {
+    const overrides = JSON.parse(env.AI_MODEL_PRICES) as Record<string, ModelPrice>;
+    return { ...DEFAULT_MODEL_PRICES, ...overrides };
+  } catch {
+    log.warn('AI_MODEL_PRICES is not valid JSON, using default prices');
+    return DEFAULT_MODEL_PRICES;
+  }
+}
+
+/**
+ * Estimate the cost of a request in USD. Returns 0 for models without a price.
+ */
+export function estimateCost(
+  model: string,
+  tokens: TokenCounts,
+  prices: Record<string, ModelPrice>,
+): number {
+  // Gateway model IDs may carry a provider prefix (e.g. 'anthropic/claude-sonnet-4-5')
+  const id = model.slice(model.lastIndexOf('/') + 1);
+  let match: string | undefined;
+  for (const prefix of Object.keys(prices)) {
+    if (id.startsWith(prefix) && (!match || prefix.length > match.length)) match = prefix;
+  }
+  if (!match) return 0;
+  const price = prices[match];
+  return (tokens.inputTokens * price.input + tokens.outputTokens * price.output) / 1_000_000;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function count(value: unknown): number {
+  return typeof value === 'number' && value > 0 ? value : 0;
+}
+
+/**
+ * Read token counts from a provider response: a JSON body, or the events of a
+ * streamed one. Anthropic reports input tokens in message_start and the
+ * running output count in message_delta; OpenAI reports both in `usage`.
+ * Returns null if no event carries usage.
+ */
+export function extractTokenUsage(events: unknown[]): TokenCounts | null {
+  let usage: TokenCounts | null = null;
+  for (const event of events) {
+    if (!isRecord(event)) continue;
+    const raw = isRecord(event.message) ? event.message.usage : event.usage;
+    if (!isRecord(raw)) continue;
+
+    usage ??= { inputTokens: 0, outputTokens: 0 };
+    if ('input_tokens' in raw) {
+      usage.inputTokens =
+        count(raw.input_tokens) +
+        count(raw.cache_creation_input_tokens) +
+        count(raw.cache_read_input_tokens);
+    }
+    if ('prompt_tokens' in raw) usage.inputTokens = count(raw.prompt_tokens);
+    if ('output_tokens' in raw) usage.outputTokens = count(raw.output_tokens);
+    if ('completion_tokens' in raw) usage.outputTokens = count(raw.completion_tokens);
+  }
+  return usage;
+}
+
+/**
+ * Parse the JSON `data:` payloads of a server-sent event stream.
+ */
+export function parseSseEvents(text: string): unknown[] {
+  const events: unknown[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.startsWith('data:')) continue;
+    const data = line.slice(5).trim();
+    if (!data || data === '[DONE]') continue;
+    try {
+      events.push(JSON.parse(data));
+    } catch {
+      // Not JSON (keep-alives, partial lines)
+    }
+  }
+  return events;
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+/**
+ * Check usage against a tenant's caps. Returns the exceeded cap and when it
+ * resets, or null if the tenant is under every cap.
+ */
+export function checkUsageCaps(
+  caps: TenantUsageCaps | undefined,
+  usage: Pick<UsageSummary, 'today' | 'month'>,
+  now = Date.now(),
+): { message: string; resetsAt: number } | null {
+  if (!caps) return null;
+
+  const date = new Date(now);
+  const tomorrow = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+  const nextMonth = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  const todayTokens = usage.today.inputTokens + usage.today.outputTokens;
+  const monthTokens = usage.month.inputTokens + usage.month.outputTokens;
+
+  if (caps.monthlyUsd !== undefined && usage.month.costUsd >= caps.monthlyUsd) {
+    return {
+      message: `Monthly spending cap of ${formatUsd(caps.monthlyUsd)} reached`,
+      resetsAt: nextMonth,
+    };
+  }
+  if (caps.monthlyTokens !== undefined && monthTokens >= caps.monthlyTokens) {
+    return { message: `Monthly cap of ${caps.monthlyTokens} tokens reached`, resetsAt: nextMonth };
+  }
+  if (caps.dailyUsd !== undefined && usage.today.costUsd >= caps.dailyUsd) {
+    return {
+      message: `Daily spending cap of ${formatUsd(caps.dailyUsd)} reached`,
+      resetsAt: tomorrow,
+    };
+  }
+  if (caps.dailyTokens !== undefined && todayTokens >= caps.dailyTokens) {
+    return { message: `Daily cap of ${caps.dailyTokens} tokens reached`, resetsAt: tomorrow };
+  }
+  return null;
+}
+
+function toDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+  target.requests += source.requests;
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.costUsd += source.costUsd;
+}
+
+/**
+ * Durable Object holding one tenant's daily usage. Records are read-modify-
+ * write on a single storage key, which the Durable Object serializes, so
+ * concurrent requests never lose counts.
+ */
+export class UsageMeter implements DurableObject {
+  private lastPrunedDate: string | null = null;
+
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (request.method === 'POST' && url.pathname === '/record') {
+      await this.record((await request.json()) as UsageRecord);
+      return Response.json({ ok: true });
+    }
+    if (request.method === 'GET' && url.pathname === '/summary') {
+      const days = Number(url.searchParams.get('days')) || 30;
+      return Response.json(await this.summary(days, Date.now()));
+    }
+    return new Response('Not found', { status: 404 });
+  }
+
+  private async record(record: UsageRecord): Promise<void> {
+    const date = toDate(record.at);
+    const key = DAY_PREFIX + date;
+    const day = (await this.state.storage.get<DailyUsage>(key)) ?? {
+      date,
+      ...EMPTY_TOTALS,
+      models: {},
+    };
+    const totals: UsageTotals = {
+      requests: 1,
+      inputTokens: record.inputTokens,
+      outputTokens: record.outputTokens,
+      costUsd: record.costUsd,
+    };
+    addTotals(day, totals);
+    addTotals((day.models[record.model] ??= { ...EMPTY_TOTALS }), totals);
+    await this.state.storage.put(key, day);
+
+    if (this.lastPrunedDate !== date) {
+      this.lastPrunedDate = date;
+      await this.prune(record.at);
+    }
+  }
+
+  /** Delete days that are past retention */
+  private async prune(now: number): Promise<void> {
+    const cutoff = DAY_PREFIX + toDate(now - RETENTION_DAYS * 86_400_000);
+    const old = await this.state.storage.list({ prefix: DAY_PREFIX, end: cutoff });
+    if (old.size > 0) await this.state.storage.delete([...old.keys()]);
+  }
+
+  private async summary(days: number, now: number): Promise<UsageSummary> {
+    const span = Math.min(Math.max(Math.floor(days), 1), RETENTION_DAYS);
+    const from = now - (span - 1) * 86_400_000;
+    const month = toDate(now).slice(0, 7);
+    const monthStart = `${month}-01`;
+    const start = DAY_PREFIX + (toDate(from) < monthStart ? toDate(from) : monthStart);
+    const stored = await this.state.storage.list<DailyUsage>({ prefix: DAY_PREFIX, start });
+
+    const summary: UsageSummary = {
+      today: { ...EMPTY_TOTALS },
+      month: { ...EMPTY_TOTALS },
+      days: [],
+      models: {},
+    };
+    for (const day of stored.values()) {
+      if (!day.date.startsWith(month)) continue;
+      addTotals(summary.month, day);
+      for (const [model, totals] of Object.entries(day.models)) {
+        addTotals((summary.models[model] ??= { ...EMPTY_TOTALS }), totals);
+      }
+    }
+    for (let i = 0; i < span; i++) {
+      const date = toDate(from + i * 86_400_000);
+      summary.days.push(stored.get(DAY_PREFIX + date) ?? { date, ...EMPTY_TOTALS, models: {} });
+    }
+    addTotals(summary.today, summary.days[summary.days.length - 1]);
+    return summary;
+  }
+}
+
+/**
+ * Add a metered request to a tenant's usage.
+ */
+export async function recordUsage(
+  namespace: DurableObjectNamespace,
+  tenantId: string,
+  record: UsageRecord,
+): Promise<void> {
+  const stub = namespace.get(namespace.idFromName(tenantId));
+  const response = await stub.fetch('https://usage-meter/record', {
+    method: 'POST',
+    body: JSON.stringify(record),
+  });
+  if (!response.ok) throw new Error(`Usage meter returned ${response.status}`);
+}
+
+/**
+ * Read a tenant's usage for the last `days` days and the current month.
+ */
+export async function getUsageSummary(
+  namespace: DurableObjectNamespace,
+  tenantId: string,
+  days = 30,
+): Promise<UsageSummary> {
+  const stub = namespace.get(namespace.idFromName(tenantId));
+  const response = await stub.fetch(`https://usage-meter/summary?days=${days}`);
+  if (!response.ok) throw new Error(`Usage meter returned ${response.status}`);
+  return response.json();
+}
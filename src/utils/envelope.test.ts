@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { loadMasterKeyring, sealJson, openJson } from './envelope';
+
+const KEY_A = btoa(String.fromCharCode(...new Uint8Array(32).fill(1)));
+const KEY_B = btoa(String.fromCharCode(...new Uint8Array(32).fill(2)));
+
+describe('envelope encryption', () => {
+  it('round-trips a JSON value', async () => {
+    const keyring = await loadMasterKeyring(KEY_A);
+    const envelope = await sealJson(keyring, { token: 'secret' }, 'agent:alice');
+
+    expect(envelope.kid).toMatch(/^[0-9a-f]{8}$/);
+    expect(JSON.stringify(envelope)).not.toContain('secret');
+    expect(await openJson(keyring, envelope, 'agent:alice')).toEqual({ token: 'secret' });
+  });
+
+  it('uses a fresh data key and IV for every value', async () => {
+    const keyring = await loadMasterKeyring(KEY_A);
+    const a = await sealJson(keyring, 'same', 'ctx');
+    const b = await sealJson(keyring, 'same', 'ctx');
+
+    expect(a.wrappedKey).not.toBe(b.wrappedKey);
+    expect(a.ciphertext).not.toBe(b.ciphertext);
+  });
+
+  it('opens envelopes sealed under a previous master key', async () => {
+    const envelope = await sealJson(await loadMasterKeyring(KEY_A), 42, 'ctx');
+    const rotated = await loadMasterKeyring(KEY_B, KEY_A);
+
+    expect(rotated.current?.id).not.toBe(envelope.kid);
+    expect(await openJson(rotated, envelope, 'ctx')).toBe(42);
+    await expect(openJson(await loadMasterKeyring(KEY_B), envelope, 'ctx')).rejects.toThrow(
+      /is not configured/,
+    );
+  });
+
+  it('rejects a different context or tampered ciphertext', async () => {
+    const keyring = await loadMasterKeyring(KEY_A);
+    const envelope = await sealJson(keyring, { token: 'secret' }, 'agent:alice');
+
+    await expect(openJson(keyring, envelope, 'agent:bob')).rejects.toThrow(
+      /could not be decrypted/,
+    );
+    const tampered = { ...envelope, ciphertext: btoa('x'.repeat(32)) };
+    await expect(openJson(keyring, tampered, 'agent:alice')).rejects.toThrow(
+      /could not be decrypted/,
+    );
+  });
+
+  it('rejects master keys that are not 32 bytes', async () => {
+    await expect(loadMasterKeyring(btoa('short'))).rejects.toThrow(/32 bytes/);
+  });
+});
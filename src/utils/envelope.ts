@@ -0,0 +1,183 @@
+/**
+ * Envelope encryption with Web Crypto AES-GCM.
+ *
+ * Each sealed value gets its own random 256-bit data key. The value is
+ * encrypted with the data key, and the data key is wrapped (encrypted) with a
+ * worker-held master key. Rotating the master key only re-wraps data keys.
+ *
+ * Master keys are base64-encoded 32-byte secrets. Each one is identified by a
+ * short key id (a SHA-256 prefix of the key), stored in the envelope so a value
+ * sealed under a previous master key can still be opened during rotation.
+ */
+
+export interface EncryptedEnvelope {
+  v: 1;
+  kid: string; // id of the master key that wrapped the data key
+  wrappedKey: string; // base64
+  keyIv: string; // base64 IV used to wrap the data key
+  iv: string; // base64 IV used to encrypt the value
+  ciphertext: string; // base64
+}
+
+export interface MasterKey {
+  id: string;
+  key: CryptoKey;
+}
+
+export interface MasterKeyring {
+  current: MasterKey | null; // used for sealing; null = encryption not configured
+  keys: MasterKey[]; // every key that may open existing envelopes (current first)
+}
+
+/** Imported master keys by secret value (importKey is async and relatively slow) */
+const masterKeyCache = new Map<string, Promise<MasterKey>>();
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+async function importMasterKey(secret: string): Promise<MasterKey> {
+  let raw: Uint8Array<ArrayBuffer>;
+  try {
+    raw = fromBase64(secret.trim());
+  } catch {
+    throw new Error('Master key must be base64-encoded');
+  }
+  if (raw.length !== 32) {
+    throw new Error(`Master key must be 32 bytes (got ${raw.length})`);
+  }
+
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', raw));
+  const id = Array.from(digest.slice(0, 4))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+  const key = await crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, [
+    'wrapKey',
+    'unwrapKey',
+  ]);
+  return { id, key };
+}
+
+function getMasterKey(secret: string): Promise<MasterKey> {
+  let cached = masterKeyCache.get(secret);
+  if (!cached) {
+    cached = importMasterKey(secret);
+    // Don't cache failures (e.g. a malformed secret that is fixed later)
+    cached.catch(() => masterKeyCache.delete(secret));
+    masterKeyCache.set(secret, cached);
+  }
+  return cached;
+}
+
+/**
+ * Load the master keyring from secrets. `previous` may hold several
+ * comma-separated keys that are still accepted for opening envelopes.
+ */
+export async function loadMasterKeyring(
+  current: string | undefined,
+  previous?: string,
+): Promise<MasterKeyring> {
+  const secrets = (previous ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+  const currentKey = current ? await getMasterKey(current) : null;
+  const previousKeys = await Promise.all(secrets.map(getMasterKey));
+  return {
+    current: currentKey,
+    keys: currentKey ? [currentKey, ...previousKeys] : previousKeys,
+  };
+}
+
+/**
+ * Encrypt a JSON value under a fresh data key. `context` is authenticated but
+ * not encrypted (e.g. the KV key), so an envelope cannot be moved elsewhere.
+ */
+export async function sealJson(
+  keyring: MasterKeyring,
+  value: unknown,
+  context: string,
+): Promise<EncryptedEnvelope> {
+  const master = keyring.current;
+  if (!master) throw new Error('No master key configured');
+
+  const encoder = new TextEncoder();
+  const additionalData = encoder.encode(context);
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, [
+    'encrypt',
+    'decrypt',
+  ]);
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData },
+    dataKey,
+    encoder.encode(JSON.stringify(value)),
+  );
+
+  const keyIv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, master.key, {
+    name: 'AES-GCM',
+    iv: keyIv,
+    additionalData,
+  });
+
+  return {
+    v: 1,
+    kid: master.id,
+    wrappedKey: toBase64(new Uint8Array(wrappedKey)),
+    keyIv: toBase64(keyIv),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypt an envelope created by sealJson. Throws if the master key is not in
+ * the keyring or the envelope was tampered with.
+ */
+export async function openJson<T>(
+  keyring: MasterKeyring,
+  envelope: EncryptedEnvelope,
+  context: string,
+): Promise<T> {
+  if (envelope.v !== 1) throw new Error(`Unsupported envelope version: ${envelope.v}`);
+  const master = keyring.keys.find((k) => k.id === envelope.kid);
+  if (!master) throw new Error(`Master key ${envelope.kid} is not configured`);
+
+  const additionalData = new TextEncoder().encode(context);
+  try {
+    const dataKey = await crypto.subtle.unwrapKey(
+      'raw',
+      fromBase64(envelope.wrappedKey),
+      master.key,
+      { name: 'AES-GCM', iv: fromBase64(envelope.keyIv), additionalData },
+      { name: 'AES-GCM' },
+      false,
+      ['decrypt'],
+    );
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(envelope.iv), additionalData },
+      dataKey,
+      fromBase64(envelope.ciphertext),
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+  } catch {
+    throw new Error('Envelope could not be decrypted (wrong key or tampered data)');
+  }
+}
+
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  const envelope = value as Partial<EncryptedEnvelope> | null;
+  return (
+    !!envelope &&
+    typeof envelope === 'object' &&
+    typeof envelope.kid === 'string' &&
+    typeof envelope.wrappedKey === 'string' &&
+    typeof envelope.ciphertext === 'string'
+  );
+}
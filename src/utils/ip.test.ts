@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { ipInRange, isValidCidr } from './ip';
+
+describe('ipInRange', () => {
+  it('matches IPv4 ranges', () => {
+    expect(ipInRange('203.0.113.7', '203.0.113.0/24')).toBe(true);
+    expect(ipInRange('203.0.114.7', '203.0.113.0/24')).toBe(false);
+    expect(ipInRange('10.1.2.3', '0.0.0.0/0')).toBe(true);
+    expect(ipInRange('198.51.100.1', '198.51.100.1')).toBe(true);
+  });
+
+  it('matches IPv6 ranges, including compressed and IPv4-mapped forms', () => {
+    expect(ipInRange('2001:db8::1', '2001:db8::/32')).toBe(true);
+    expect(ipInRange('2001:db9::1', '2001:db8::/32')).toBe(false);
+    expect(ipInRange('::ffff:192.0.2.1', '::ffff:192.0.2.0/120')).toBe(true);
+    expect(ipInRange('2001:0db8:0000:0000:0000:0000:0000:0001', '2001:db8::1')).toBe(true);
+  });
+
+  it('never matches across versions or with invalid input', () => {
+    expect(ipInRange('203.0.113.7', '::/0')).toBe(false);
+    expect(ipInRange('not-an-ip', '0.0.0.0/0')).toBe(false);
+    expect(ipInRange('203.0.113.7', '203.0.113.0/33')).toBe(false);
+  });
+});
+
+describe('isValidCidr', () => {
+  it('accepts addresses and ranges and rejects malformed ones', () => {
+    expect(isValidCidr('10.0.0.0/8')).toBe(true);
+    expect(isValidCidr('2001:db8::/32')).toBe(true);
+    expect(isValidCidr('10.0.0.256/8')).toBe(false);
+    expect(isValidCidr('10.0.0.0/8/1')).toBe(false);
+    expect(isValidCidr('1::2::3')).toBe(false);
+  });
+});
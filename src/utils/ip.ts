@@ -0,0 +1,100 @@
+/**
+ * IP address and CIDR range matching (IPv4 and IPv6).
+ */
+
+interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+function parseIpv4(ip: string): bigint | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) | BigInt(part);
+  }
+  return value;
+}
+
+/**
+ * Split one side of an IPv6 address into groups. An embedded IPv4 address
+ * (e.g. ::ffff:192.0.2.1) counts as two groups.
+ */
+function ipv6Groups(part: string): string[] | null {
+  if (!part) return [];
+  const groups = part.split(':');
+  const last = groups[groups.length - 1];
+  if (last.includes('.')) {
+    const v4 = parseIpv4(last);
+    if (v4 === null) return null;
+    groups.splice(-1, 1, (v4 >> 16n).toString(16), (v4 & 0xffffn).toString(16));
+  }
+  return groups;
+}
+
+function parseIpv6(ip: string): bigint | null {
+  let groups: string[];
+  const head = ip.split('::');
+  if (head.length > 2) return null;
+
+  const left = ipv6Groups(head[0]);
+  const right = head.length === 2 ? ipv6Groups(head[1]) : [];
+  if (!left || !right) return null;
+
+  if (head.length === 2) {
+    const missing = 8 - left.length - right.length;
+    if (missing < 1) return null;
+    groups = [...left, ...Array<string>(missing).fill('0'), ...right];
+  } else {
+    groups = left;
+  }
+  if (groups.length !== 8) return null;
+
+  let value = 0n;
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    value = (value << 16n) | BigInt(`0x${group}`);
+  }
+  return value;
+}
+
+function parseIp(ip: string): ParsedIp | null {
+  if (ip.includes(':')) {
+    const value = parseIpv6(ip);
+    return value === null ? null : { version: 6, value };
+  }
+  const value = parseIpv4(ip);
+  return value === null ? null : { version: 4, value };
+}
+
+/**
+ * Parse `address/prefix` (a bare address is a single-host range).
+ */
+function parseCidr(range: string): { ip: ParsedIp; prefix: number } | null {
+  const [address, prefixText, extra] = range.trim().split('/');
+  if (extra !== undefined) return null;
+  const ip = parseIp(address);
+  if (!ip) return null;
+  const bits = ip.version === 4 ? 32 : 128;
+  if (prefixText === undefined) return { ip, prefix: bits };
+  if (!/^\d{1,3}$/.test(prefixText) || Number(prefixText) > bits) return null;
+  return { ip, prefix: Number(prefixText) };
+}
+
+export function isValidCidr(range: string): boolean {
+  return parseCidr(range) !== null;
+}
+
+/**
+ * Check whether `ip` falls inside `range`. IPv4 addresses never match IPv6
+ * ranges and vice versa; invalid input never matches.
+ */
+export function ipInRange(ip: string, range: string): boolean {
+  const address = parseIp(ip.trim());
+  const cidr = parseCidr(range);
+  if (!address || !cidr || address.version !== cidr.ip.version) return false;
+  const shift = BigInt((address.version === 4 ? 32 : 128) - cidr.prefix);
+  return address.value >> shift === cidr.ip.value >> shift;
+}
@@ -1,3 +1,128 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Context, Next } from 'hono';
+import type { AppEnv } from '../types';
+
+/**
+ * Structured logging.
+ *
+ * Every log line is a JSON object with `time`, `level`, `msg`, the module's
+ * `component`, and the context of the request being handled: `requestId`,
+ * `tenant` and `route`. Request context is tracked with AsyncLocalStorage, so
+ * code deep in the gateway helpers logs with the right request ID without
+ * passing it around. Field values are redacted by key (authorization, cookies,
+ * tokens, keys, passwords) and strings by pattern (bearer tokens, private keys).
+ *
+ * LOG_LEVEL (debug, info, warn, error) sets the minimum level; it defaults to
+ * info, or debug when DEBUG_ROUTES is enabled. The level is also passed to the
+ * gateway in the container.
+ */
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** A logger that adds `fields` to every line */
+  child(fields: LogFields): Logger;
+}
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/** Field names whose values are never logged */
+const SENSITIVE_KEY_RE =
+  /^(authorization|cookie|set-cookie|proxy-authorization)$|secret|password|passphrase|private.?key|api.?key|credential|token$/i;
+
+/** Secrets recognizable in free text */
+const SENSITIVE_VALUE_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(Bearer|Basic)\s+[\w\-.~+/=]+/gi, '$1 [REDACTED]'],
+  [/\bPVT_K1_[1-9A-HJ-NP-Za-km-z]+/g, '[REDACTED]'], // XPR/EOSIO private keys
+  [/\b5[HJK][1-9A-HJ-NP-Za-km-z]{49}\b/g, '[REDACTED]'], // legacy WIF private keys
+  [/\bsk-[\w-]{16,}/g, '[REDACTED]'], // provider API keys
+];
+
+/** Nesting depth beyond which objects are not logged */
+const MAX_DEPTH = 6;
+
+const contextStorage = new AsyncLocalStorage<LogFields>();
+
+let minLevel: LogLevel = 'info';
+
+/**
+ * The configured minimum level: LOG_LEVEL, or debug with DEBUG_ROUTES, or info.
+ */
+export function getLogLevel(env: { LOG_LEVEL?: string; DEBUG_ROUTES?: string }): LogLevel {
+  const level = env.LOG_LEVEL?.trim().toLowerCase();
+  if (LOG_LEVELS.includes(level as LogLevel)) return level as LogLevel;
+  return env.DEBUG_ROUTES === 'true' ? 'debug' : 'info';
+}
+
+/**
+ * Set the minimum level for this isolate (env is the same for every request).
+ */
+export function setLogLevel(level: LogLevel): void {
+  minLevel = level;
+}
+
+/**
+ * Redact secrets in free text.
+ */
+export function redactString(value: string): string {
+  let result = value;
+  for (const [pattern, replacement] of SENSITIVE_VALUE_PATTERNS) {
+    result = result.replace(pattern, replacement);
+  }
+  return result;
+}
+
+/**
+ * Copy a value for logging with secrets redacted. Errors become
+ * `{ name, message, stack }`.
+ */
+export function redactValue(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message), stack: value.stack };
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, depth + 1));
+  const result: LogFields = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SENSITIVE_KEY_RE.test(key) ? '[REDACTED]' : redactValue(item, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Headers as a plain object, with credentials redacted.
+ */
+export function redactHeaders(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of headers) {
+    result[name] = SENSITIVE_KEY_RE.test(name) ? '[REDACTED]' : redactString(value);
+  }
+  return result;
+}
+
+/**
+ * A request or response body for logging: JSON is redacted by key, anything
+ * else by pattern.
+ */
+export function redactBody(body: string): string {
+  try {
+    return JSON.stringify(redactValue(JSON.parse(body)));
+  } catch {
+    return redactString(body);
+  }
+}
+
 /**
  * Redact sensitive query parameters from URL for safe logging.
  * Redacts any param containing: secret, token, key, password, auth, credential
@@ -18,3 +143,99 @@ export function redactSensitiveParams(url: URL): string {
   const search = redactedParams.toString();
   return search ? `?${search}` : '';
 }
+
+/**
+ * Run `fn` with request context that every log line inside it includes.
+ */
+export function runWithLogContext<T>(context: LogFields, fn: () => T): T {
+  return contextStorage.run({ ...context }, fn);
+}
+
+/**
+ * Add fields to the current request's log context (e.g. the tenant, once resolved).
+ */
+export function setLogContext(fields: LogFields): void {
+  const store = contextStorage.getStore();
+  if (store) Object.assign(store, fields);
+}
+
+/**
+ * A copy of the current request's log context, for callbacks that outlive
+ * the request (WebSocket event listeners).
+ */
+export function getLogContext(): LogFields {
+  return { ...contextStorage.getStore() };
+}
+
+/**
+ * The current request's ID, for propagating to the container.
+ */
+export function getRequestId(): string | undefined {
+  return contextStorage.getStore()?.requestId as string | undefined;
+}
+
+function write(level: LogLevel, msg: string, bound: LogFields, fields?: LogFields): void {
+  if (LEVEL_RANK[level] < LEVEL_RANK[minLevel]) return;
+
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg: redactString(msg),
+    ...contextStorage.getStore(),
+    ...(redactValue(bound) as LogFields),
+    ...(fields ? (redactValue(fields) as LogFields) : {}),
+  });
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+}
+
+/**
+ * Create a logger for a module. `component` replaces the old `[prefix]`
+ * convention, e.g. createLogger('gateway').
+ */
+export function createLogger(component?: string, fields: LogFields = {}): Logger {
+  const bound = component ? { component, ...fields } : fields;
+  return {
+    debug: (msg, extra) => write('debug', msg, bound, extra),
+    info: (msg, extra) => write('info', msg, bound, extra),
+    warn: (msg, extra) => write('warn', msg, bound, extra),
+    error: (msg, extra) => write('error', msg, bound, extra),
+    child: (extra) => createLogger(undefined, { ...bound, ...extra }),
+  };
+}
+
+const requestLog = createLogger('request');
+
+/** Incoming request IDs are kept if they look like one (e.g. from a load balancer) */
+const REQUEST_ID_RE = /^[\w-]{8,128}$/;
+
+/**
+ * Middleware: assign a request ID (kept from X-Request-Id when valid), run the
+ * request in its log context, and log the request and its outcome. The ID is
+ * returned in the X-Request-Id response header.
+ */
+export async function loggingMiddleware(c: Context<AppEnv>, next: Next) {
+  setLogLevel(getLogLevel(c.env));
+
+  const incoming = c.req.header('X-Request-Id');
+  const requestId = incoming && REQUEST_ID_RE.test(incoming) ? incoming : crypto.randomUUID();
+  const url = new URL(c.req.url);
+
+  await runWithLogContext({ requestId, route: `${c.req.method} ${url.pathname}` }, async () => {
+    const start = Date.now();
+    requestLog.info('Request received', { query: redactSensitiveParams(url) || undefined });
+    await next();
+
+    const status = c.res.status;
+    const fields = { status, durationMs: Date.now() - start };
+    if (status >= 500) requestLog.error('Request failed', fields);
+    else requestLog.info('Request completed', fields);
+
+    try {
+      c.res.headers.set('X-Request-Id', requestId);
+    } catch {
+      // Immutable headers (WebSocket upgrades, responses passed through from fetch)
+    }
+  });
+}
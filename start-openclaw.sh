@@ -42,6 +42,16 @@ R2_BUCKET="${R2_BUCKET_NAME:-moltbot-data}"
 # Single-tenant: TENANT_ID is empty, no prefix added
 R2_PREFIX="${TENANT_ID:+$TENANT_ID/}"
 
+# Plaintext backups live at r2:{bucket}/{prefix}. With R2_ENCRYPTION_KEY set,
+# backups go through the r2crypt remote to {prefix}encrypted/ instead, file
+# contents encrypted with the key (must match rcloneRemote in src/gateway/sync.ts).
+R2_PLAIN="r2:${R2_BUCKET}/${R2_PREFIX}"
+if [ -n "$R2_ENCRYPTION_KEY" ]; then
+    R2_BASE="r2crypt:${R2_PREFIX}encrypted/"
+else
+    R2_BASE="$R2_PLAIN"
+fi
+
 setup_rclone() {
     mkdir -p "$(dirname "$RCLONE_CONF")"
     cat > "$RCLONE_CONF" << EOF
@@ -54,8 +64,42 @@ endpoint = https://${CF_ACCOUNT_ID}.r2.cloudflarestorage.com
 acl = private
 no_check_bucket = true
 EOF
+    if [ -n "$R2_ENCRYPTION_KEY" ]; then
+        # The key goes through stdin so it never shows up in the process list
+        cat >> "$RCLONE_CONF" << EOF
+
+[r2crypt]
+type = crypt
+remote = r2:${R2_BUCKET}
+filename_encryption = off
+password = $(printf '%s\n' "$R2_ENCRYPTION_KEY" | rclone obscure -)
+EOF
+    fi
     touch /tmp/.rclone-configured
-    echo "Rclone configured for bucket: $R2_BUCKET"
+    echo "Rclone configured for bucket: $R2_BUCKET${R2_ENCRYPTION_KEY:+ (encrypted)}"
+}
+
+# Re-encrypt a plaintext backup left from before encryption was turned on.
+# Each area is copied through the crypt remote (--update keeps anything the
+# encrypted backup already has newer), checked with cryptcheck, and only then
+# deleted. Safe to re-run: a failed area is left in place and retried next boot.
+migrate_plaintext_backup() {
+    [ -n "$R2_ENCRYPTION_KEY" ] || return 0
+    for area in openclaw clawdbot workspace skills snapshots; do
+        if ! rclone lsf "${R2_PLAIN}${area}/" --max-depth 1 $RCLONE_FLAGS 2>/dev/null | grep -q .; then
+            continue
+        fi
+        echo "Encrypting plaintext R2 backup: $area..."
+        if rclone copy "${R2_PLAIN}${area}/" "${R2_BASE}${area}/" --update $RCLONE_FLAGS 2>&1 \
+            && rclone cryptcheck "${R2_PLAIN}${area}/" "${R2_BASE}${area}/" --one-way $RCLONE_FLAGS 2>&1 \
+            && rclone purge "${R2_PLAIN}${area}/" $RCLONE_FLAGS 2>&1; then
+            echo "Encrypted $area and removed the plaintext copy"
+        else
+            echo "WARNING: could not encrypt $area, plaintext backup kept"
+        fi
+    done
+    # Hashes of plaintext objects; the next sync lists the encrypted backup instead
+    rclone deletefile "${R2_PLAIN}sync-manifest.json" $RCLONE_FLAGS 2>/dev/null || true
 }
 
 RCLONE_FLAGS="--transfers=16 --fast-list --s3-no-check-bucket"
@@ -66,16 +110,17 @@ RCLONE_FLAGS="--transfers=16 --fast-list --s3-no-check-bucket"
 
 if r2_configured; then
     setup_rclone
+    migrate_plaintext_backup
 
     echo "Checking R2 for existing backup..."
     # Check if R2 has an openclaw config backup
-    if rclone ls "r2:${R2_BUCKET}/${R2_PREFIX}openclaw/openclaw.json" $RCLONE_FLAGS 2>/dev/null | grep -q openclaw.json; then
+    if rclone ls "${R2_BASE}openclaw/openclaw.json" $RCLONE_FLAGS 2>/dev/null | grep -q openclaw.json; then
         echo "Restoring config from R2..."
-        rclone copy "r2:${R2_BUCKET}/${R2_PREFIX}openclaw/" "$CONFIG_DIR/" $RCLONE_FLAGS -v 2>&1 || echo "WARNING: config restore failed with exit code $?"
+        rclone copy "${R2_BASE}openclaw/" "$CONFIG_DIR/" $RCLONE_FLAGS -v 2>&1 || echo "WARNING: config restore failed with exit code $?"
         echo "Config restored"
-    elif rclone ls "r2:${R2_BUCKET}/${R2_PREFIX}clawdbot/clawdbot.json" $RCLONE_FLAGS 2>/dev/null | grep -q clawdbot.json; then
+    elif rclone ls "${R2_BASE}clawdbot/clawdbot.json" $RCLONE_FLAGS 2>/dev/null | grep -q clawdbot.json; then
         echo "Restoring from legacy R2 backup..."
-        rclone copy "r2:${R2_BUCKET}/${R2_PREFIX}clawdbot/" "$CONFIG_DIR/" $RCLONE_FLAGS -v 2>&1 || echo "WARNING: legacy config restore failed with exit code $?"
+        rclone copy "${R2_BASE}clawdbot/" "$CONFIG_DIR/" $RCLONE_FLAGS -v 2>&1 || echo "WARNING: legacy config restore failed with exit code $?"
         if [ -f "$CONFIG_DIR/clawdbot.json" ] && [ ! -f "$CONFIG_FILE" ]; then
             mv "$CONFIG_DIR/clawdbot.json" "$CONFIG_FILE"
         fi
@@ -85,20 +130,20 @@ if r2_configured; then
     fi
 
     # Restore workspace
-    REMOTE_WS_COUNT=$(rclone ls "r2:${R2_BUCKET}/${R2_PREFIX}workspace/" $RCLONE_FLAGS 2>/dev/null | wc -l)
+    REMOTE_WS_COUNT=$(rclone ls "${R2_BASE}workspace/" $RCLONE_FLAGS 2>/dev/null | wc -l)
     if [ "$REMOTE_WS_COUNT" -gt 0 ]; then
         echo "Restoring workspace from R2 ($REMOTE_WS_COUNT files)..."
         mkdir -p "$WORKSPACE_DIR"
-        rclone copy "r2:${R2_BUCKET}/${R2_PREFIX}workspace/" "$WORKSPACE_DIR/" $RCLONE_FLAGS -v 2>&1 || echo "WARNING: workspace restore failed with exit code $?"
+        rclone copy "${R2_BASE}workspace/" "$WORKSPACE_DIR/" $RCLONE_FLAGS -v 2>&1 || echo "WARNING: workspace restore failed with exit code $?"
         echo "Workspace restored"
     fi
 
     # Restore skills
-    REMOTE_SK_COUNT=$(rclone ls "r2:${R2_BUCKET}/${R2_PREFIX}skills/" $RCLONE_FLAGS 2>/dev/null | wc -l)
+    REMOTE_SK_COUNT=$(rclone ls "${R2_BASE}skills/" $RCLONE_FLAGS 2>/dev/null | wc -l)
     if [ "$REMOTE_SK_COUNT" -gt 0 ]; then
         echo "Restoring skills from R2 ($REMOTE_SK_COUNT files)..."
         mkdir -p "$SKILLS_DIR"
-        rclone copy "r2:${R2_BUCKET}/${R2_PREFIX}skills/" "$SKILLS_DIR/" $RCLONE_FLAGS -v 2>&1 || echo "WARNING: skills restore failed with exit code $?"
+        rclone copy "${R2_BASE}skills/" "$SKILLS_DIR/" $RCLONE_FLAGS -v 2>&1 || echo "WARNING: skills restore failed with exit code $?"
         echo "Skills restored"
     fi
 else
@@ -176,6 +221,12 @@ if (process.env.OPENCLAW_DEV_MODE === 'true') {
     config.gateway.controlUi.allowInsecureAuth = true;
 }
 
+// Log level, shared with the worker (LOG_LEVEL=debug|info|warn|error)
+if (['debug', 'info', 'warn', 'error'].includes(process.env.LOG_LEVEL)) {
+    config.logging = config.logging || {};
+    config.logging.level = process.env.LOG_LEVEL;
+}
+
 // Legacy AI Gateway base URL override:
 // ANTHROPIC_BASE_URL is picked up natively by the Anthropic SDK,
 // so we don't need to patch the provider config. Writing a provider
@@ -226,6 +277,42 @@ if (process.env.CF_AI_GATEWAY_MODEL) {
     }
 }
 
+// Per-tenant AI providers (OPENCLAW_AI_PROVIDERS, a JSON array built by the worker
+// from the tenant's ai block). The first entry is the primary model, the rest are
+// fallbacks. Entries from a previous boot are dropped first so that removing or
+// changing the tenant's ai block takes effect.
+if (config.models && config.models.providers) {
+    for (const name of Object.keys(config.models.providers)) {
+        if (name.startsWith('tenant-')) delete config.models.providers[name];
+    }
+}
+if (process.env.OPENCLAW_AI_PROVIDERS) {
+    try {
+        const providers = JSON.parse(process.env.OPENCLAW_AI_PROVIDERS);
+        config.models = config.models || {};
+        config.models.providers = config.models.providers || {};
+        const refs = [];
+        for (const p of providers) {
+            config.models.providers[p.id] = {
+                baseUrl: p.baseUrl,
+                apiKey: p.apiKey,
+                api: p.api,
+                models: [{ id: p.model, name: p.model, contextWindow: 131072, maxTokens: 8192 }],
+            };
+            refs.push(p.id + '/' + p.model);
+        }
+        config.agents = config.agents || {};
+        config.agents.defaults = config.agents.defaults || {};
+        config.agents.defaults.model = { primary: refs[0], fallbacks: refs.slice(1) };
+        console.log('Tenant AI providers: primary=' + refs[0] + ' fallbacks=' + (refs.slice(1).join(',') || 'none'));
+    } catch (e) {
+        console.warn('Invalid OPENCLAW_AI_PROVIDERS:', e.message);
+    }
+} else if (config.agents && config.agents.defaults && config.agents.defaults.model &&
+        String(config.agents.defaults.model.primary || '').startsWith('tenant-')) {
+    delete config.agents.defaults.model;
+}
+
 // Telegram configuration
 // Overwrite entire channel object to drop stale keys from old R2 backups
 // that would fail OpenClaw's strict config validation (see #47)
@@ -312,14 +399,14 @@ if r2_configured; then
 
             if [ "$COUNT" -gt 0 ]; then
                 echo "[sync] Uploading changes ($COUNT files) at $(date)" >> "$LOGFILE"
-                rclone sync "$CONFIG_DIR/" "r2:${R2_BUCKET}/${R2_PREFIX}openclaw/" \
+                rclone sync "$CONFIG_DIR/" "${R2_BASE}openclaw/" \
                     $RCLONE_FLAGS --exclude='*.lock' --exclude='*.log' --exclude='*.tmp' --exclude='.git/**' 2>> "$LOGFILE"
                 if [ -d "$WORKSPACE_DIR" ]; then
-                    rclone sync "$WORKSPACE_DIR/" "r2:${R2_BUCKET}/${R2_PREFIX}workspace/" \
+                    rclone sync "$WORKSPACE_DIR/" "${R2_BASE}workspace/" \
                         $RCLONE_FLAGS --exclude='skills/**' --exclude='.git/**' --exclude='node_modules/**' 2>> "$LOGFILE"
                 fi
                 if [ -d "$SKILLS_DIR" ]; then
-                    rclone sync "$SKILLS_DIR/" "r2:${R2_BUCKET}/${R2_PREFIX}skills/" \
+                    rclone sync "$SKILLS_DIR/" "${R2_BASE}skills/" \
                         $RCLONE_FLAGS 2>> "$LOGFILE"
                 fi
                 date -Iseconds > "$LAST_SYNC_FILE"